@@ -2,11 +2,45 @@
 import { createMiddlewareClient } from "@supabase/auth-helpers-nextjs";
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
+import {
+  AdminRole,
+  getRoutePermission,
+  hasPermission,
+} from "./services/apiPermissions";
 
 export async function middleware(req: NextRequest) {
   const res = NextResponse.next();
   const supabase = createMiddlewareClient({ req, res });
-  await supabase.auth.getSession();
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  const { pathname } = req.nextUrl;
+  if (!pathname.startsWith("/dashboard")) return res;
+
+  if (!session) {
+    return NextResponse.redirect(new URL("/", req.url));
+  }
+
+  // حسابات المتجر (profiles) لا تملك سجلاً في admin_profiles
+  const { data: adminProfile } = await supabase
+    .from("admin_profiles")
+    .select("role")
+    .eq("user_id", session.user.id)
+    .maybeSingle();
+
+  if (!adminProfile) {
+    return NextResponse.redirect(new URL("/?error=unauthorized", req.url));
+  }
+
+  const permission = getRoutePermission(pathname.replace(/\/$/, ""));
+  if (
+    permission &&
+    !hasPermission(adminProfile.role as AdminRole, permission)
+  ) {
+    return NextResponse.redirect(new URL("/dashboard?denied=1", req.url));
+  }
+
   return res;
 }
 
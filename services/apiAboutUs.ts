@@ -1,11 +1,18 @@
 import supabase from "./supabase";
 
 export interface SiteSettings {
+  id?: string;
   site_name_ar: string;
   site_name_en: string;
   about_us_ar: string;
   about_us_en: string;
   logo_url: string;
+  // نسبة الضريبة (%) والأسعار شاملة الضريبة
+  tax_rate?: number;
+  tax_number?: string | null;
+  // أفضل المبيعات: أعلى best_seller_limit منتجات مبيعاً خلال آخر best_seller_window_days يوماً
+  best_seller_window_days?: number;
+  best_seller_limit?: number;
 }
 
 export async function getAboutUs(): Promise<SiteSettings> {
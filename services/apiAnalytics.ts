@@ -0,0 +1,268 @@
+import supabase from "./supabase";
+import { DEFAULT_BRANCH_TIMEZONE } from "./apiBranchSchedules";
+
+export type AnalyticsBucket = "day" | "week" | "month";
+
+export const ANALYTICS_BUCKET_LABELS: Record<AnalyticsBucket, string> = {
+  day: "يومي",
+  week: "أسبوعي",
+  month: "شهري",
+};
+
+export type AnalyticsRangePreset = "7d" | "30d" | "90d" | "year" | "custom";
+
+export const ANALYTICS_RANGE_LABELS: Record<AnalyticsRangePreset, string> = {
+  "7d": "آخر 7 أيام",
+  "30d": "آخر 30 يوماً",
+  "90d": "آخر 90 يوماً",
+  year: "هذا العام",
+  custom: "فترة مخصصة",
+};
+
+// التواريخ أيام تقويمية (YYYY-MM-DD) بتوقيت الفرع، والنهاية ضمن الفترة
+export interface AnalyticsRange {
+  from: string;
+  to: string;
+}
+
+export interface AnalyticsFilters extends AnalyticsRange {
+  branchId?: string;
+}
+
+export interface SalesTimeseriesPoint {
+  bucket: string;
+  order_count: number;
+  paid_order_count: number;
+  revenue: number;
+  refunds: number;
+  net_revenue: number;
+  average_order_value: number | null;
+  new_customers: number;
+}
+
+export interface SalesSummary {
+  order_count: number;
+  // الطلبات المدفوعة (مدفوع / مشحون / تم التوصيل / مسترد جزئياً / مسترد)
+  paid_order_count: number;
+  pending_count: number;
+  delivered_count: number;
+  cancelled_count: number;
+  revenue: number;
+  refunds: number;
+  // المبيعات بعد خصم المرتجعات
+  net_revenue: number;
+  average_order_value: number | null;
+  new_customers: number;
+}
+
+// اليوم الحالي بتوقيت المتجر وليس بتوقيت المتصفح
+export function getTodayInTimezone(timezone = DEFAULT_BRANCH_TIMEZONE) {
+  return new Intl.DateTimeFormat("en-CA", { timeZone: timezone }).format(
+    new Date()
+  );
+}
+
+function shiftDate(date: string, days: number) {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+}
+
+export function getAnalyticsRange(
+  preset: Exclude<AnalyticsRangePreset, "custom">,
+  timezone = DEFAULT_BRANCH_TIMEZONE
+): AnalyticsRange {
+  const today = getTodayInTimezone(timezone);
+
+  switch (preset) {
+    case "7d":
+      return { from: shiftDate(today, -6), to: today };
+    case "30d":
+      return { from: shiftDate(today, -29), to: today };
+    case "90d":
+      return { from: shiftDate(today, -89), to: today };
+    case "year":
+      return { from: `${today.slice(0, 4)}-01-01`, to: today };
+  }
+}
+
+// الفترة السابقة بنفس عدد الأيام، تنتهي في اليوم السابق لبداية الفترة
+export function getPreviousRange(range: AnalyticsRange): AnalyticsRange {
+  const days =
+    (new Date(`${range.to}T00:00:00Z`).getTime() -
+      new Date(`${range.from}T00:00:00Z`).getTime()) /
+      86400000 +
+    1;
+
+  return {
+    from: shiftDate(range.from, -days),
+    to: shiftDate(range.from, -1),
+  };
+}
+
+export function validateAnalyticsRange(range: AnalyticsRange) {
+  if (!range.from || !range.to) {
+    throw new Error("يجب تحديد بداية ونهاية الفترة");
+  }
+  if (range.to < range.from) {
+    throw new Error("نهاية الفترة يجب أن تكون بعد بدايتها");
+  }
+}
+
+export async function getSalesTimeseries(
+  filters: AnalyticsFilters,
+  bucket: AnalyticsBucket = "day"
+): Promise<SalesTimeseriesPoint[]> {
+  validateAnalyticsRange(filters);
+
+  const { data, error } = await supabase.rpc("sales_timeseries", {
+    p_from: filters.from,
+    p_to: filters.to,
+    p_bucket: bucket,
+    p_branch_id: filters.branchId || null,
+  });
+
+  if (error) {
+    console.error("خطأ في جلب تحليلات المبيعات:", error.message);
+    throw new Error("تعذر تحميل تحليلات المبيعات");
+  }
+
+  return ((data || []) as SalesTimeseriesPoint[]).map((point) => ({
+    ...point,
+    order_count: Number(point.order_count),
+    paid_order_count: Number(point.paid_order_count),
+    revenue: Number(point.revenue),
+    refunds: Number(point.refunds),
+    net_revenue: Number(point.net_revenue),
+    average_order_value:
+      point.average_order_value != null
+        ? Number(point.average_order_value)
+        : null,
+    new_customers: Number(point.new_customers),
+  }));
+}
+
+export async function getSalesSummary(
+  filters: AnalyticsFilters
+): Promise<SalesSummary> {
+  validateAnalyticsRange(filters);
+
+  const { data, error } = await supabase
+    .rpc("sales_summary", {
+      p_from: filters.from,
+      p_to: filters.to,
+      p_branch_id: filters.branchId || null,
+    })
+    .single();
+
+  if (error) {
+    console.error("خطأ في جلب ملخص المبيعات:", error.message);
+    throw new Error("تعذر تحميل ملخص المبيعات");
+  }
+
+  const summary = data as SalesSummary;
+  return {
+    order_count: Number(summary.order_count),
+    paid_order_count: Number(summary.paid_order_count),
+    pending_count: Number(summary.pending_count),
+    delivered_count: Number(summary.delivered_count),
+    cancelled_count: Number(summary.cancelled_count),
+    revenue: Number(summary.revenue),
+    refunds: Number(summary.refunds),
+    net_revenue: Number(summary.net_revenue),
+    average_order_value:
+      summary.average_order_value != null
+        ? Number(summary.average_order_value)
+        : null,
+    new_customers: Number(summary.new_customers),
+  };
+}
+
+export function formatBucketLabel(bucket: string, type: AnalyticsBucket) {
+  const date = new Date(`${bucket}T00:00:00Z`);
+  return date.toLocaleDateString(
+    "ar-EG",
+    type === "month"
+      ? { timeZone: "UTC", year: "numeric", month: "short" }
+      : { timeZone: "UTC", month: "short", day: "numeric" }
+  );
+}
+
+export interface ProductPerformance {
+  units_sold: number;
+  order_count: number;
+  revenue: number;
+  category_revenue: number;
+  // حصة المنتج من مبيعات تصنيفه (%)
+  category_share: number | null;
+  // ترتيب المنتج بين منتجات تصنيفه حسب المبيعات
+  category_rank: number | null;
+}
+
+export interface ProductSalesPoint {
+  bucket: string;
+  units_sold: number;
+  revenue: number;
+}
+
+export async function getProductPerformance(
+  productId: string,
+  range: AnalyticsRange
+): Promise<ProductPerformance> {
+  validateAnalyticsRange(range);
+
+  const { data, error } = await supabase
+    .rpc("product_performance", {
+      p_product_id: productId,
+      p_from: range.from,
+      p_to: range.to,
+    })
+    .single();
+
+  if (error) {
+    console.error("خطأ في جلب أداء المنتج:", error.message);
+    throw new Error("تعذر تحميل أداء المنتج");
+  }
+
+  const performance = data as ProductPerformance;
+  return {
+    units_sold: Number(performance.units_sold),
+    order_count: Number(performance.order_count),
+    revenue: Number(performance.revenue),
+    category_revenue: Number(performance.category_revenue),
+    category_share:
+      performance.category_share != null
+        ? Number(performance.category_share)
+        : null,
+    category_rank:
+      performance.category_rank != null
+        ? Number(performance.category_rank)
+        : null,
+  };
+}
+
+export async function getProductSalesTimeseries(
+  productId: string,
+  range: AnalyticsRange,
+  bucket: AnalyticsBucket = "day"
+): Promise<ProductSalesPoint[]> {
+  validateAnalyticsRange(range);
+
+  const { data, error } = await supabase.rpc("product_sales_timeseries", {
+    p_product_id: productId,
+    p_from: range.from,
+    p_to: range.to,
+    p_bucket: bucket,
+  });
+
+  if (error) {
+    console.error("خطأ في جلب مبيعات المنتج:", error.message);
+    throw new Error("تعذر تحميل مبيعات المنتج");
+  }
+
+  return ((data || []) as ProductSalesPoint[]).map((point) => ({
+    bucket: point.bucket,
+    units_sold: Number(point.units_sold),
+    revenue: Number(point.revenue),
+  }));
+}
@@ -0,0 +1,174 @@
+import supabase from "./supabase";
+import { toDateRange } from "./dateRange";
+
+// السجل يُكتب من قاعدة البيانات (log_audit_event) عند كل تعديل من مشرف،
+// لذلك هذه الخدمة للقراءة فقط
+
+export type AuditAction = "create" | "update" | "delete";
+
+export type AuditEntityType =
+  | "order"
+  | "payment"
+  | "refund"
+  | "product"
+  | "product_attribute"
+  | "product_variant"
+  | "category"
+  | "combo_offer"
+  | "combo_offer_item"
+  | "gallery"
+  | "news"
+  | "branch"
+  | "delivery_zone"
+  | "driver"
+  | "coupon"
+  | "customer_segment"
+  | "site_settings"
+  | "user"
+  | "admin";
+
+export type AuditDiff = Record<string, { from: unknown; to: unknown }>;
+
+export interface AuditLogEntry {
+  id: string;
+  actor_id: string | null;
+  actor_name: string | null;
+  actor_role: string | null;
+  entity_type: AuditEntityType;
+  entity_id: string;
+  parent_type: AuditEntityType | null;
+  parent_id: string | null;
+  action: AuditAction;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  diff: AuditDiff | null;
+  created_at: string;
+}
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: "إنشاء",
+  update: "تعديل",
+  delete: "حذف",
+};
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  order: "طلب",
+  payment: "دفعة",
+  refund: "استرداد",
+  product: "منتج",
+  product_attribute: "خاصية منتج",
+  product_variant: "خيار منتج",
+  category: "تصنيف",
+  combo_offer: "عرض",
+  combo_offer_item: "منتج في عرض",
+  gallery: "معرض صور",
+  news: "خبر",
+  branch: "فرع",
+  delivery_zone: "منطقة توصيل",
+  driver: "مندوب",
+  coupon: "كوبون",
+  customer_segment: "شريحة عملاء",
+  site_settings: "إعدادات الموقع",
+  user: "مستخدم",
+  admin: "مشرف",
+};
+
+export async function getAuditLog(
+  page = 1,
+  limit = 20,
+  filters?: {
+    entityType?: string;
+    action?: string;
+    actorId?: string;
+    entityId?: string;
+    dateFrom?: string;
+    dateTo?: string;
+  }
+): Promise<{ entries: AuditLogEntry[]; total: number }> {
+  const from = (page - 1) * limit;
+  const to = from + limit - 1;
+
+  let query = supabase.from("audit_log").select("*", { count: "exact" });
+
+  if (filters?.entityType) {
+    query = query.eq("entity_type", filters.entityType);
+  }
+
+  if (filters?.action) {
+    query = query.eq("action", filters.action);
+  }
+
+  if (filters?.actorId) {
+    query = query.eq("actor_id", filters.actorId);
+  }
+
+  if (filters?.entityId?.trim()) {
+    query = query.eq("entity_id", filters.entityId.trim());
+  }
+
+  const dates = toDateRange(filters?.dateFrom, filters?.dateTo);
+  if (dates.from) {
+    query = query.gte("created_at", dates.from);
+  }
+
+  if (dates.to) {
+    query = query.lt("created_at", dates.to);
+  }
+
+  const { data, error, count } = await query
+    .order("created_at", { ascending: false })
+    .range(from, to);
+
+  if (error) {
+    console.error("خطأ في جلب سجل التدقيق:", error.message);
+    throw new Error("تعذر تحميل سجل التدقيق");
+  }
+
+  return { entries: data || [], total: count ?? 0 };
+}
+
+// سجل سجلٍ واحد مع السجلات التابعة له (خيارات المنتج، دفعات الطلب...)
+export async function getEntityAuditLog(
+  entityType: AuditEntityType,
+  entityId: string,
+  limit = 50
+): Promise<AuditLogEntry[]> {
+  const { data, error } = await supabase
+    .from("audit_log")
+    .select("*")
+    .or(
+      `and(entity_type.eq.${entityType},entity_id.eq.${entityId}),and(parent_type.eq.${entityType},parent_id.eq.${entityId})`
+    )
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error("خطأ في جلب سجل التعديلات:", error.message);
+    throw new Error("تعذر تحميل سجل التعديلات");
+  }
+
+  return data || [];
+}
+
+export async function getAuditActors(): Promise<
+  { user_id: string; full_name: string | null }[]
+> {
+  const { data, error } = await supabase
+    .from("admin_profiles")
+    .select("user_id, full_name")
+    .order("full_name", { ascending: true });
+
+  if (error) {
+    console.error("خطأ في جلب المشرفين:", error.message);
+    throw new Error("تعذر تحميل المشرفين");
+  }
+
+  return data || [];
+}
+
+export function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "boolean") return value ? "نعم" : "لا";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
@@ -0,0 +1,327 @@
+import supabase from "./supabase";
+import { requirePermission } from "./apiPermissions";
+
+// الأوقات بتوقيت الفرع (HH:MM)؛ إذا كان وقت الإغلاق قبل وقت الفتح أو يساويه
+// فالوردية تمتد بعد منتصف الليل
+
+export interface BranchShift {
+  // 0 = الأحد ... 6 = السبت
+  weekday: number;
+  opens_at: string;
+  closes_at: string;
+}
+
+export interface BranchScheduleException {
+  date: string; // YYYY-MM-DD
+  is_closed: boolean;
+  opens_at?: string | null;
+  closes_at?: string | null;
+  note?: string | null;
+}
+
+export interface BranchSchedule {
+  timezone: string;
+  shifts: BranchShift[];
+  exceptions: BranchScheduleException[];
+}
+
+export interface BranchOpenStatus {
+  isOpen: boolean;
+  // وقت إغلاق الوردية الحالية عندما يكون الفرع مفتوحاً
+  closesAt?: string;
+  // أقرب موعد فتح خلال الأسبوع القادم عندما يكون مغلقاً
+  nextOpening?: { date: string; weekday: number; time: string };
+}
+
+export const DEFAULT_BRANCH_TIMEZONE = "Africa/Cairo";
+
+export const WEEKDAY_LABELS = [
+  "الأحد",
+  "الإثنين",
+  "الثلاثاء",
+  "الأربعاء",
+  "الخميس",
+  "الجمعة",
+  "السبت",
+];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+function addDays(date: string, days: number): string {
+  const value = new Date(`${date}T00:00:00Z`);
+  value.setUTCDate(value.getUTCDate() + days);
+  return value.toISOString().slice(0, 10);
+}
+
+function getWeekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+// التاريخ والدقيقة الحاليين بتوقيت الفرع
+function getLocalTime(at: Date, timezone: string) {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(at);
+  const part = (type: string) =>
+    parts.find((item) => item.type === type)?.value || "00";
+
+  return {
+    date: `${part("year")}-${part("month")}-${part("day")}`,
+    minutes: Number(part("hour")) * 60 + Number(part("minute")),
+  };
+}
+
+// ورديات يوم معيّن: الاستثناء (إن وُجد) يحل محل الجدول الأسبوعي
+function getDayShifts(
+  schedule: BranchSchedule,
+  date: string
+): { opens: number; closes: number }[] {
+  const exceptions = schedule.exceptions.filter((item) => item.date === date);
+
+  if (exceptions.length > 0) {
+    if (exceptions.some((item) => item.is_closed)) return [];
+    return exceptions
+      .filter((item) => item.opens_at && item.closes_at)
+      .map((item) => ({
+        opens: toMinutes(item.opens_at as string),
+        closes: toMinutes(item.closes_at as string),
+      }));
+  }
+
+  const weekday = getWeekday(date);
+  return schedule.shifts
+    .filter((shift) => shift.weekday === weekday)
+    .map((shift) => ({
+      opens: toMinutes(shift.opens_at),
+      closes: toMinutes(shift.closes_at),
+    }));
+}
+
+function formatMinutes(minutes: number): string {
+  const value = minutes % MINUTES_PER_DAY;
+  return `${String(Math.floor(value / 60)).padStart(2, "0")}:${String(
+    value % 60
+  ).padStart(2, "0")}`;
+}
+
+export function getBranchOpenStatus(
+  schedule: BranchSchedule,
+  at: Date = new Date()
+): BranchOpenStatus {
+  const { date, minutes } = getLocalTime(
+    at,
+    schedule.timezone || DEFAULT_BRANCH_TIMEZONE
+  );
+
+  for (const shift of getDayShifts(schedule, date)) {
+    const overnight = shift.closes <= shift.opens;
+    if (minutes >= shift.opens && (overnight || minutes < shift.closes)) {
+      return { isOpen: true, closesAt: formatMinutes(shift.closes) };
+    }
+  }
+
+  // وردية الأمس الممتدة بعد منتصف الليل
+  for (const shift of getDayShifts(schedule, addDays(date, -1))) {
+    if (shift.closes <= shift.opens && minutes < shift.closes) {
+      return { isOpen: true, closesAt: formatMinutes(shift.closes) };
+    }
+  }
+
+  for (let offset = 0; offset <= 7; offset++) {
+    const day = addDays(date, offset);
+    const next = getDayShifts(schedule, day)
+      .filter((shift) => offset > 0 || shift.opens > minutes)
+      .sort((a, b) => a.opens - b.opens)[0];
+
+    if (next) {
+      return {
+        isOpen: false,
+        nextOpening: {
+          date: day,
+          weekday: getWeekday(day),
+          time: formatMinutes(next.opens),
+        },
+      };
+    }
+  }
+
+  return { isOpen: false };
+}
+
+// هل يستقبل الفرع طلبات في الوقت المحدد (الآن افتراضياً)
+export function canAcceptOrder(
+  schedule: BranchSchedule,
+  at: Date = new Date()
+): boolean {
+  return getBranchOpenStatus(schedule, at).isOpen;
+}
+
+export function formatBranchOpenStatus(
+  status: BranchOpenStatus,
+  at: Date = new Date(),
+  timezone: string = DEFAULT_BRANCH_TIMEZONE
+): string {
+  if (status.isOpen) return `مفتوح الآن · يغلق ${status.closesAt}`;
+  if (!status.nextOpening) return "مغلق";
+
+  const today = getLocalTime(at, timezone).date;
+  const { date, weekday, time } = status.nextOpening;
+
+  if (date === today) return `مغلق · يفتح اليوم ${time}`;
+  if (date === addDays(today, 1)) return `مغلق · يفتح غداً ${time}`;
+  return `مغلق · يفتح ${WEEKDAY_LABELS[weekday]} ${time}`;
+}
+
+// ملخص نصي للجدول الأسبوعي يُحفظ في works_hours ليعرضه الموقع
+export function summarizeWeeklySchedule(shifts: BranchShift[]): string {
+  return WEEKDAY_LABELS.map((label, weekday) => {
+    const dayShifts = shifts
+      .filter((shift) => shift.weekday === weekday)
+      .sort((a, b) => toMinutes(a.opens_at) - toMinutes(b.opens_at))
+      .map((shift) => `${shift.opens_at}-${shift.closes_at}`);
+
+    return `${label}: ${dayShifts.length ? dayShifts.join("، ") : "مغلق"}`;
+  }).join(" | ");
+}
+
+const trimSeconds = (time: string) => time.slice(0, 5);
+
+export async function getBranchSchedules(): Promise<
+  Record<string, BranchSchedule>
+> {
+  const [branches, shifts, exceptions] = await Promise.all([
+    supabase.from("branches").select("id, timezone"),
+    supabase
+      .from("branch_opening_hours")
+      .select("branch_id, weekday, opens_at, closes_at"),
+    supabase
+      .from("branch_schedule_exceptions")
+      .select("branch_id, date, is_closed, opens_at, closes_at, note")
+      .gte("date", addDays(new Date().toISOString().slice(0, 10), -1)),
+  ]);
+
+  const error = branches.error || shifts.error || exceptions.error;
+  if (error) {
+    console.error("خطأ في جلب جداول الدوام:", error.message);
+    throw new Error("تعذر تحميل جداول الدوام");
+  }
+
+  const schedules: Record<string, BranchSchedule> = {};
+  (branches.data || []).forEach((branch) => {
+    schedules[branch.id] = {
+      timezone: branch.timezone || DEFAULT_BRANCH_TIMEZONE,
+      shifts: [],
+      exceptions: [],
+    };
+  });
+
+  (shifts.data || []).forEach(({ branch_id, ...shift }) => {
+    schedules[branch_id]?.shifts.push({
+      ...shift,
+      opens_at: trimSeconds(shift.opens_at),
+      closes_at: trimSeconds(shift.closes_at),
+    });
+  });
+
+  (exceptions.data || []).forEach(({ branch_id, ...exception }) => {
+    schedules[branch_id]?.exceptions.push({
+      ...exception,
+      opens_at: exception.opens_at && trimSeconds(exception.opens_at),
+      closes_at: exception.closes_at && trimSeconds(exception.closes_at),
+    });
+  });
+
+  return schedules;
+}
+
+export async function getBranchSchedule(
+  branchId: string
+): Promise<BranchSchedule> {
+  const [branch, shifts, exceptions] = await Promise.all([
+    supabase.from("branches").select("timezone").eq("id", branchId).single(),
+    supabase
+      .from("branch_opening_hours")
+      .select("weekday, opens_at, closes_at")
+      .eq("branch_id", branchId)
+      .order("weekday", { ascending: true })
+      .order("opens_at", { ascending: true }),
+    supabase
+      .from("branch_schedule_exceptions")
+      .select("date, is_closed, opens_at, closes_at, note")
+      .eq("branch_id", branchId)
+      .order("date", { ascending: true }),
+  ]);
+
+  const error = branch.error || shifts.error || exceptions.error;
+  if (error) {
+    console.error("خطأ في جلب جدول الدوام:", error.message);
+    throw new Error("تعذر تحميل جدول الدوام");
+  }
+
+  return {
+    timezone: branch.data?.timezone || DEFAULT_BRANCH_TIMEZONE,
+    shifts: (shifts.data || []).map((shift) => ({
+      ...shift,
+      opens_at: trimSeconds(shift.opens_at),
+      closes_at: trimSeconds(shift.closes_at),
+    })),
+    exceptions: (exceptions.data || []).map((exception) => ({
+      ...exception,
+      opens_at: exception.opens_at && trimSeconds(exception.opens_at),
+      closes_at: exception.closes_at && trimSeconds(exception.closes_at),
+    })),
+  };
+}
+
+export async function saveBranchSchedule(
+  branchId: string,
+  schedule: BranchSchedule
+): Promise<void> {
+  await requirePermission("branches.manage");
+
+  const invalidShift = schedule.shifts.find(
+    (shift) => !shift.opens_at || !shift.closes_at
+  );
+  if (invalidShift) {
+    throw new Error(
+      `يرجى تحديد وقت الفتح والإغلاق لكل وردية (${
+        WEEKDAY_LABELS[invalidShift.weekday]
+      })`
+    );
+  }
+
+  const invalidException = schedule.exceptions.find(
+    (item) =>
+      !item.date || (!item.is_closed && (!item.opens_at || !item.closes_at))
+  );
+  if (invalidException) {
+    throw new Error("يرجى إكمال تاريخ وأوقات كل يوم استثنائي");
+  }
+
+  const { error } = await supabase.rpc("save_branch_schedule", {
+    p_branch_id: branchId,
+    p_timezone: schedule.timezone || DEFAULT_BRANCH_TIMEZONE,
+    p_works_hours: summarizeWeeklySchedule(schedule.shifts),
+    p_shifts: schedule.shifts,
+    p_exceptions: schedule.exceptions,
+  });
+
+  if (error) {
+    console.error("خطأ في حفظ جدول الدوام:", error.message);
+    if (error.code === "P0001") {
+      throw new Error("المنطقة الزمنية غير صحيحة");
+    }
+    throw new Error("تعذر حفظ جدول الدوام");
+  }
+}
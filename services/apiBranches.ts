@@ -0,0 +1,29 @@
+import supabase from "./supabase";
+
+export interface BranchOption {
+  id: string;
+  name_ar: string;
+  name_en: string;
+}
+
+export async function getBranchOptions(): Promise<BranchOption[]> {
+  const { data, error } = await supabase
+    .from("branches")
+    .select("id, name_ar, name_en")
+    .order("name_ar", { ascending: true });
+
+  if (error) {
+    console.error("خطأ في جلب الفروع:", error.message);
+    throw new Error("تعذر تحميل الفروع");
+  }
+
+  return data || [];
+}
+
+// "حي النزهة، الروضة, Al Rawdah" -> ["حي النزهة", "الروضة", "Al Rawdah"]
+export function parseServiceAreas(value?: string | null): string[] {
+  return (value || "")
+    .split(/[,،\n]/)
+    .map((area) => area.trim())
+    .filter(Boolean);
+}
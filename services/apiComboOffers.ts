@@ -1,4 +1,69 @@
 import supabase from "./supabase";
+import { requirePermission } from "./apiPermissions";
+import type { OrderItem } from "./apiOrders";
+import { getOfferStatus, OfferStatus } from "./apiProducts";
+
+export interface ComboComponentVariant {
+  id: string;
+  sku: string;
+  size: string | null;
+  option: string | null;
+  price: number;
+  offer_price: number | null;
+  stock: number;
+  reserved_stock: number;
+}
+
+export interface ComboComponentProduct {
+  id: string;
+  name_ar: string;
+  name_en: string;
+  price: number;
+  offer_price: number | null;
+  stock: number | null;
+  reserved_stock: number;
+  image_url: string[] | null;
+  deleted_at: string | null;
+  product_variants?: ComboComponentVariant[];
+}
+
+export interface ComboOfferItem {
+  id?: string;
+  combo_offer_id?: string;
+  // null عندما يُحذف المنتج نهائياً من سلة المحذوفات
+  product_id: string | null;
+  variant_id: string | null;
+  quantity: number;
+  sort_order?: number;
+  products?: ComboComponentProduct | null;
+  product_variants?: ComboComponentVariant | null;
+}
+
+export type ComboOfferItemInput = Pick<
+  ComboOfferItem,
+  "product_id" | "variant_id" | "quantity"
+>;
+
+export type ComboIssueType = "deleted" | "out_of_stock";
+
+export const COMBO_ISSUE_LABELS: Record<ComboIssueType, string> = {
+  deleted: "المنتج محذوف",
+  out_of_stock: "غير متوفر بالكمية المطلوبة",
+};
+
+export interface ComboIssue {
+  type: ComboIssueType;
+  name: string;
+}
+
+export interface ComboSummary {
+  itemsTotal: number;
+  savings: number;
+  savingsPercent: number;
+  // عدد العروض التي يمكن بيعها من المخزون المتاح
+  availableQuantity: number;
+  issues: ComboIssue[];
+}
 
 export interface ComboOffer {
   id: string;
@@ -11,6 +76,9 @@ export interface ComboOffer {
   starts_at: string | null;
   ends_at: string | null;
   created_at: string;
+  // محسوبة في قاعدة البيانات (offer_status)
+  offer_status?: OfferStatus;
+  combo_offer_items?: ComboOfferItem[];
 }
 
 export interface CreateComboOfferData {
@@ -22,6 +90,7 @@ export interface CreateComboOfferData {
   starts_at: string | null;
   ends_at: string | null;
   image_url?: string | null;
+  items?: ComboOfferItemInput[];
 }
 
 export interface UpdateComboOfferData {
@@ -33,41 +102,183 @@ export interface UpdateComboOfferData {
   starts_at: string | null;
   ends_at: string | null;
   image_url?: string | null;
+  items?: ComboOfferItemInput[];
 }
 
-// Get all combo offers
-export const getComboOffers = async (): Promise<ComboOffer[]> => {
-  const { data, error } = await supabase
+const COMBO_OFFER_SELECT = `
+  *,
+  offer_status,
+  combo_offer_items(
+    id,
+    product_id,
+    variant_id,
+    quantity,
+    sort_order,
+    products(
+      id,
+      name_ar,
+      name_en,
+      price,
+      offer_price,
+      stock,
+      reserved_stock,
+      image_url,
+      deleted_at
+    ),
+    product_variants(
+      id,
+      sku,
+      size,
+      option,
+      price,
+      offer_price,
+      stock,
+      reserved_stock
+    )
+  )
+`;
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+const sortComboItems = (offer: ComboOffer): ComboOffer => ({
+  ...offer,
+  combo_offer_items: [...(offer.combo_offer_items || [])].sort(
+    (a, b) => (a.sort_order || 0) - (b.sort_order || 0)
+  ),
+});
+
+// سعر الوحدة الفعلي للمكون: سعر العرض إن وجد وإلا السعر الأساسي
+export function getComboItemUnitPrice(item: ComboOfferItem): number {
+  const source = item.product_variants || item.products;
+  if (!source) return 0;
+  return Number(source.offer_price) || Number(source.price) || 0;
+}
+
+export function getComboItemName(item: ComboOfferItem): string {
+  if (!item.products) return "منتج محذوف";
+  const variant = item.product_variants;
+  const variantLabel = variant
+    ? [variant.size, variant.option].filter(Boolean).join(" / ") || variant.sku
+    : "";
+  return variantLabel
+    ? `${item.products.name_ar} (${variantLabel})`
+    : item.products.name_ar;
+}
+
+// يحسب مجموع أسعار المكونات والتوفير وتحذيرات المخزون والمنتجات المحذوفة
+export function getComboSummary(
+  items: ComboOfferItem[],
+  totalPrice: number
+): ComboSummary {
+  const issues: ComboIssue[] = [];
+  let itemsTotal = 0;
+  let availableQuantity = items.length > 0 ? Infinity : 0;
+
+  items.forEach((item) => {
+    const name = getComboItemName(item);
+    if (!item.products || item.products.deleted_at) {
+      issues.push({ type: "deleted", name });
+      availableQuantity = 0;
+      return;
+    }
+
+    itemsTotal += getComboItemUnitPrice(item) * item.quantity;
+
+    const source = item.product_variants || item.products;
+    const available =
+      (Number(source.stock) || 0) - (Number(source.reserved_stock) || 0);
+    if (available < item.quantity) {
+      issues.push({ type: "out_of_stock", name });
+    }
+    availableQuantity = Math.min(
+      availableQuantity,
+      Math.max(Math.floor(available / item.quantity), 0)
+    );
+  });
+
+  const savings = roundMoney(itemsTotal - totalPrice);
+  return {
+    itemsTotal: roundMoney(itemsTotal),
+    savings,
+    savingsPercent:
+      itemsTotal > 0 ? Math.round((savings / itemsTotal) * 100) : 0,
+    availableQuantity,
+    issues,
+  };
+}
+
+// ends_at هو آخر يوم في العرض، فينتهي العرض بنهاية ذلك اليوم
+export function getComboOfferStatus(
+  offer: Pick<ComboOffer, "starts_at" | "ends_at">
+): OfferStatus {
+  let endsAt: string | null = null;
+  if (offer.ends_at) {
+    const end = new Date(offer.ends_at);
+    end.setDate(end.getDate() + 1);
+    endsAt = end.toISOString();
+  }
+  return getOfferStatus(offer.starts_at, endsAt);
+}
+
+// سطر طلب يمثل العرض كاملاً؛ مكوناته تُنسخ وتُحجز من المخزون في قاعدة البيانات
+export function buildComboOrderItem(
+  offer: ComboOffer,
+  quantity = 1
+): OrderItem {
+  return {
+    combo_offer_id: offer.id,
+    quantity,
+    price: offer.total_price,
+  };
+}
+
+// Get all combo offers, optionally only scheduled / active / expired ones
+export const getComboOffers = async (
+  status?: OfferStatus
+): Promise<ComboOffer[]> => {
+  let query = supabase
     .from("combo_offers")
-    .select("*")
+    .select(COMBO_OFFER_SELECT)
+    .is("deleted_at", null)
     .order("created_at", { ascending: false });
 
+  if (status) {
+    query = query.eq("offer_status", status);
+  }
+
+  const { data, error } = await query;
+
   if (error) {
     throw new Error(`Error fetching combo offers: ${error.message}`);
   }
 
-  return data || [];
+  return (data || []).map(sortComboItems);
 };
 
 // Get single combo offer by ID
 export const getComboOfferById = async (id: string): Promise<ComboOffer> => {
   const { data, error } = await supabase
     .from("combo_offers")
-    .select("*")
+    .select(COMBO_OFFER_SELECT)
     .eq("id", id)
+    .is("deleted_at", null)
     .single();
 
   if (error) {
     throw new Error(`Error fetching combo offer: ${error.message}`);
   }
 
-  return data;
+  return sortComboItems(data);
 };
 
 // Create new combo offer
-export const createComboOffer = async (
-  offerData: CreateComboOfferData
-): Promise<ComboOffer> => {
+export const createComboOffer = async ({
+  items,
+  ...offerData
+}: CreateComboOfferData): Promise<ComboOffer> => {
+  await requirePermission("content.manage");
+  if (items) validateComboItems(items);
+
   const { data, error } = await supabase
     .from("combo_offers")
     .insert([offerData])
@@ -78,14 +289,19 @@ export const createComboOffer = async (
     throw new Error(`Error creating combo offer: ${error.message}`);
   }
 
+  if (items) await saveComboOfferItems(data.id, items);
+
   return data;
 };
 
 // Update combo offer
 export const updateComboOffer = async (
   id: string,
-  offerData: UpdateComboOfferData
+  { items, ...offerData }: UpdateComboOfferData
 ): Promise<ComboOffer> => {
+  await requirePermission("content.manage");
+  if (items) validateComboItems(items);
+
   const { data, error } = await supabase
     .from("combo_offers")
     .update(offerData)
@@ -97,12 +313,90 @@ export const updateComboOffer = async (
     throw new Error(`Error updating combo offer: ${error.message}`);
   }
 
+  if (items) await saveComboOfferItems(id, items);
+
   return data;
 };
 
-// Delete combo offer
+function validateComboItems(items: ComboOfferItemInput[]) {
+  if (items.length === 0) {
+    throw new Error("أضف منتجاً واحداً على الأقل إلى العرض");
+  }
+  if (items.some((item) => !item.product_id)) {
+    throw new Error("اختر المنتج لكل سطر في العرض أو احذف السطر");
+  }
+  if (items.some((item) => !(item.quantity >= 1))) {
+    throw new Error("الكمية يجب أن تكون 1 على الأقل");
+  }
+}
+
+// Replace the product lines of a combo offer
+export const saveComboOfferItems = async (
+  comboOfferId: string,
+  items: ComboOfferItemInput[]
+): Promise<void> => {
+  await requirePermission("content.manage");
+  const { error } = await supabase.rpc("save_combo_offer_items", {
+    p_combo_offer_id: comboOfferId,
+    p_items: items.map((item) => ({
+      product_id: item.product_id,
+      variant_id: item.variant_id || null,
+      quantity: Math.floor(Number(item.quantity)),
+    })),
+  });
+
+  if (error) {
+    throw new Error(`Error saving combo offer items: ${error.message}`);
+  }
+};
+
+// Products (with their variants) that can be added to a combo
+export const getComboProductOptions = async (): Promise<
+  ComboComponentProduct[]
+> => {
+  const { data, error } = await supabase
+    .from("products")
+    .select(
+      `
+      id,
+      name_ar,
+      name_en,
+      price,
+      offer_price,
+      stock,
+      reserved_stock,
+      image_url,
+      deleted_at,
+      product_variants(
+        id,
+        sku,
+        size,
+        option,
+        price,
+        offer_price,
+        stock,
+        reserved_stock
+      )
+    `
+    )
+    .is("deleted_at", null)
+    .order("name_ar", { ascending: true });
+
+  if (error) {
+    throw new Error(`Error fetching products: ${error.message}`);
+  }
+
+  return data || [];
+};
+
+// Move combo offer to the trash (soft delete)
 export const deleteComboOffer = async (id: string): Promise<void> => {
-  const { error } = await supabase.from("combo_offers").delete().eq("id", id);
+  await requirePermission("content.manage");
+  const { error } = await supabase
+    .from("combo_offers")
+    .update({ deleted_at: new Date().toISOString() })
+    .eq("id", id)
+    .is("deleted_at", null);
 
   if (error) {
     throw new Error(`Error deleting combo offer: ${error.message}`);
@@ -0,0 +1,377 @@
+import supabase from "./supabase";
+import { requirePermission } from "./apiPermissions";
+import type { Order } from "./apiOrders";
+import { isCustomerInSegment } from "./apiSegments";
+
+export type CouponDiscountType = "percentage" | "fixed";
+
+export interface Coupon {
+  id: string;
+  code: string;
+  description: string | null;
+  discount_type: CouponDiscountType;
+  discount_value: number;
+  max_discount: number | null;
+  min_order_value: number;
+  usage_limit: number | null;
+  usage_limit_per_customer: number | null;
+  used_count: number;
+  starts_at: string | null;
+  ends_at: string | null;
+  is_active: boolean;
+  // المصفوفة الفارغة تعني بلا قيود
+  product_ids: string[];
+  category_ids: string[];
+  branch_ids: string[];
+  // الكوبون مقصور على عملاء شريحة محفوظة
+  customer_segment_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CouponInput = Omit<
+  Coupon,
+  "id" | "used_count" | "created_at" | "updated_at"
+>;
+
+export interface CouponBasketItem {
+  product_id?: string | null;
+  category_id?: string | number | null;
+  price: number;
+  quantity: number;
+}
+
+export interface CouponBasket {
+  items: CouponBasketItem[];
+  branchId?: string | null;
+  // عدد مرات استخدام العميل للكوبون من قبل
+  customerUses?: number;
+  // هل العميل ضمن شريحة الكوبون (customer_in_segment)
+  inSegment?: boolean;
+  at?: Date;
+}
+
+// الأسباب تطابق رسائل الاستثناء في redeem_coupon بقاعدة البيانات
+export type CouponRejection =
+  | "inactive"
+  | "not_started"
+  | "expired"
+  | "usage_limit_reached"
+  | "customer_limit_reached"
+  | "segment_not_eligible"
+  | "branch_not_eligible"
+  | "below_minimum"
+  | "no_eligible_items";
+
+export type CouponEvaluation =
+  | {
+      valid: true;
+      discount: number;
+      subtotal: number;
+      eligibleSubtotal: number;
+    }
+  | { valid: false; reason: CouponRejection };
+
+export const COUPON_REJECTION_MESSAGES: Record<CouponRejection, string> = {
+  inactive: "الكوبون موقوف",
+  not_started: "الكوبون لم يبدأ بعد",
+  expired: "انتهت صلاحية الكوبون",
+  usage_limit_reached: "تم استهلاك الحد الأقصى لاستخدام الكوبون",
+  customer_limit_reached: "استخدم العميل هذا الكوبون الحد المسموح من المرات",
+  segment_not_eligible: "الكوبون مخصص لشريحة عملاء لا ينتمي إليها هذا العميل",
+  branch_not_eligible: "الكوبون غير صالح لفرع هذا الطلب",
+  below_minimum: "قيمة السلة أقل من الحد الأدنى للكوبون",
+  no_eligible_items: "لا توجد منتجات في السلة يشملها الكوبون",
+};
+
+export const COUPON_DISCOUNT_TYPE_LABELS: Record<CouponDiscountType, string> = {
+  percentage: "نسبة مئوية",
+  fixed: "مبلغ ثابت",
+};
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+// دالة التحقق والتسعير: بلا آثار جانبية، نفس قواعد redeem_coupon
+export function evaluateCoupon(
+  coupon: Coupon,
+  basket: CouponBasket
+): CouponEvaluation {
+  const at = basket.at || new Date();
+
+  if (!coupon.is_active) return { valid: false, reason: "inactive" };
+  if (coupon.starts_at && at < new Date(coupon.starts_at)) {
+    return { valid: false, reason: "not_started" };
+  }
+  if (coupon.ends_at && at >= new Date(coupon.ends_at)) {
+    return { valid: false, reason: "expired" };
+  }
+  if (coupon.usage_limit != null && coupon.used_count >= coupon.usage_limit) {
+    return { valid: false, reason: "usage_limit_reached" };
+  }
+  if (
+    coupon.usage_limit_per_customer != null &&
+    (basket.customerUses || 0) >= coupon.usage_limit_per_customer
+  ) {
+    return { valid: false, reason: "customer_limit_reached" };
+  }
+  if (coupon.customer_segment_id && !basket.inSegment) {
+    return { valid: false, reason: "segment_not_eligible" };
+  }
+  if (
+    coupon.branch_ids.length > 0 &&
+    (!basket.branchId || !coupon.branch_ids.includes(basket.branchId))
+  ) {
+    return { valid: false, reason: "branch_not_eligible" };
+  }
+
+  const unscoped =
+    coupon.product_ids.length === 0 && coupon.category_ids.length === 0;
+  let subtotal = 0;
+  let eligibleSubtotal = 0;
+
+  basket.items.forEach((item) => {
+    const lineTotal = item.price * item.quantity;
+    subtotal += lineTotal;
+    if (
+      unscoped ||
+      (item.product_id && coupon.product_ids.includes(item.product_id)) ||
+      (item.category_id != null &&
+        coupon.category_ids.includes(String(item.category_id)))
+    ) {
+      eligibleSubtotal += lineTotal;
+    }
+  });
+
+  if (subtotal < coupon.min_order_value) {
+    return { valid: false, reason: "below_minimum" };
+  }
+  if (eligibleSubtotal <= 0) {
+    return { valid: false, reason: "no_eligible_items" };
+  }
+
+  let discount =
+    coupon.discount_type === "percentage"
+      ? roundMoney((eligibleSubtotal * coupon.discount_value) / 100)
+      : Math.min(coupon.discount_value, eligibleSubtotal);
+  if (coupon.discount_type === "percentage" && coupon.max_discount != null) {
+    discount = Math.min(discount, coupon.max_discount);
+  }
+
+  return {
+    valid: true,
+    discount: roundMoney(discount),
+    subtotal: roundMoney(subtotal),
+    eligibleSubtotal: roundMoney(eligibleSubtotal),
+  };
+}
+
+export function formatCouponDiscount(coupon: Coupon): string {
+  if (coupon.discount_type === "fixed") return `$${coupon.discount_value}`;
+  return coupon.max_discount
+    ? `${coupon.discount_value}% (حتى $${coupon.max_discount})`
+    : `${coupon.discount_value}%`;
+}
+
+export async function getCoupons(): Promise<Coupon[]> {
+  const { data, error } = await supabase
+    .from("coupons")
+    .select("*")
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("خطأ في جلب الكوبونات:", error.message);
+    throw new Error("تعذر تحميل الكوبونات");
+  }
+
+  return data || [];
+}
+
+export async function getCouponByCode(code: string): Promise<Coupon | null> {
+  const { data, error } = await supabase
+    .from("coupons")
+    .select("*")
+    // الأكواد تُحفظ بأحرف كبيرة
+    .eq("code", code.trim().toUpperCase())
+    .maybeSingle();
+
+  if (error) {
+    console.error("خطأ في جلب الكوبون:", error.message);
+    throw new Error("تعذر التحقق من الكوبون");
+  }
+
+  return data;
+}
+
+function toRow(coupon: CouponInput) {
+  const code = coupon.code.trim().toUpperCase();
+  if (!/^[A-Z0-9_-]{3,32}$/.test(code)) {
+    throw new Error(
+      "الكود يجب أن يكون من 3 إلى 32 حرفاً إنجليزياً أو رقماً بدون مسافات"
+    );
+  }
+  if (coupon.discount_value <= 0) {
+    throw new Error("قيمة الخصم يجب أن تكون أكبر من صفر");
+  }
+  if (coupon.discount_type === "percentage" && coupon.discount_value > 100) {
+    throw new Error("نسبة الخصم لا يمكن أن تتجاوز 100%");
+  }
+  if (
+    coupon.starts_at &&
+    coupon.ends_at &&
+    new Date(coupon.ends_at) <= new Date(coupon.starts_at)
+  ) {
+    throw new Error("تاريخ الانتهاء يجب أن يكون بعد تاريخ البدء");
+  }
+
+  return {
+    ...coupon,
+    code,
+    description: coupon.description?.trim() || null,
+    max_discount:
+      coupon.discount_type === "percentage" ? coupon.max_discount : null,
+  };
+}
+
+function handleSaveError(error: { code?: string; message: string }): never {
+  console.error("خطأ في حفظ الكوبون:", error.message);
+  if (error.code === "23505") {
+    throw new Error("يوجد كوبون آخر بنفس الكود");
+  }
+  throw new Error("تعذر حفظ الكوبون");
+}
+
+export async function createCoupon(coupon: CouponInput): Promise<Coupon> {
+  await requirePermission("coupons.manage");
+  const { data, error } = await supabase
+    .from("coupons")
+    .insert([toRow(coupon)])
+    .select()
+    .single();
+
+  if (error) handleSaveError(error);
+
+  return data;
+}
+
+export async function updateCoupon(
+  id: string,
+  coupon: CouponInput
+): Promise<Coupon> {
+  await requirePermission("coupons.manage");
+  const { data, error } = await supabase
+    .from("coupons")
+    .update({ ...toRow(coupon), updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) handleSaveError(error);
+
+  return data;
+}
+
+export async function deleteCoupon(id: string): Promise<void> {
+  await requirePermission("coupons.manage");
+  const { error } = await supabase.from("coupons").delete().eq("id", id);
+
+  if (error) {
+    console.error("خطأ في حذف الكوبون:", error.message);
+    if (error.code === "23503") {
+      throw new Error("الكوبون مستخدم في طلبات، قم بإيقافه بدلاً من حذفه");
+    }
+    throw new Error("تعذر حذف الكوبون");
+  }
+}
+
+// معاينة الكوبون على طلب قائم قبل تطبيقه
+export async function previewCouponForOrder(
+  order: Order,
+  code: string
+): Promise<{ coupon: Coupon; evaluation: CouponEvaluation }> {
+  const coupon = await getCouponByCode(code);
+  if (!coupon) {
+    throw new Error("كود الكوبون غير موجود");
+  }
+
+  let customerUses = 0;
+  if (order.user_id && coupon.usage_limit_per_customer != null) {
+    const { count } = await supabase
+      .from("coupon_redemptions")
+      .select("id", { count: "exact", head: true })
+      .eq("coupon_id", coupon.id)
+      .eq("user_id", order.user_id);
+    customerUses = count || 0;
+  }
+
+  let inSegment = false;
+  if (order.user_id && coupon.customer_segment_id) {
+    inSegment = await isCustomerInSegment(
+      order.user_id,
+      coupon.customer_segment_id
+    );
+  }
+
+  const evaluation = evaluateCoupon(coupon, {
+    items: (order.order_items || []).map((item) => ({
+      product_id: item.product_id,
+      category_id: item.products?.category_id,
+      price: item.price,
+      quantity: item.quantity,
+    })),
+    branchId: order.branch_id,
+    customerUses,
+    inSegment,
+  });
+
+  return { coupon, evaluation };
+}
+
+export async function redeemCoupon(
+  orderId: string,
+  code: string
+): Promise<Order> {
+  await requirePermission("orders.update");
+  const { data, error } = await supabase.rpc("redeem_coupon", {
+    p_order_id: orderId,
+    p_code: code,
+  });
+
+  if (error) {
+    console.error("خطأ في تطبيق الكوبون:", error.message);
+    if (error.code === "P0002") {
+      throw new Error("كود الكوبون غير موجود");
+    }
+    if (error.code === "P0001") {
+      if (error.message === "order_not_pending") {
+        throw new Error("لا يمكن تطبيق كوبون إلا على طلب في الانتظار");
+      }
+      if (error.message === "already_applied") {
+        throw new Error("يوجد كوبون مطبق على هذا الطلب بالفعل");
+      }
+      throw new Error(
+        COUPON_REJECTION_MESSAGES[error.message as CouponRejection] ||
+          "الكوبون غير صالح لهذا الطلب"
+      );
+    }
+    throw new Error("تعذر تطبيق الكوبون");
+  }
+
+  return data as Order;
+}
+
+export async function removeOrderCoupon(orderId: string): Promise<Order> {
+  await requirePermission("orders.update");
+  const { data, error } = await supabase.rpc("remove_order_coupon", {
+    p_order_id: orderId,
+  });
+
+  if (error) {
+    console.error("خطأ في إزالة الكوبون:", error.message);
+    if (error.code === "P0001") {
+      throw new Error("لا يمكن إزالة الكوبون إلا من طلب في الانتظار");
+    }
+    throw new Error("تعذر إزالة الكوبون");
+  }
+
+  return data as Order;
+}
@@ -0,0 +1,256 @@
+import supabase from "./supabase";
+import { requirePermission } from "./apiPermissions";
+
+export type DeliveryZoneType = "polygon" | "areas";
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface DeliveryZone {
+  id: string;
+  branch_id: string;
+  name_ar: string;
+  name_en: string | null;
+  zone_type: DeliveryZoneType;
+  polygon: LatLng[] | null;
+  areas: string[];
+  fee: number;
+  min_order_value: number;
+  estimated_minutes: number | null;
+  is_active: boolean;
+  priority: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type DeliveryZoneInput = Omit<
+  DeliveryZone,
+  "id" | "branch_id" | "created_at" | "updated_at"
+>;
+
+export const DELIVERY_ZONE_TYPE_LABELS: Record<DeliveryZoneType, string> = {
+  polygon: "منطقة مرسومة على الخريطة",
+  areas: "قائمة مناطق ومدن",
+};
+
+// يقبل GeoJSON (مرسوم في geojson.io مثلاً) أو نقاطاً بصيغة "خط العرض, خط الطول"
+// في كل سطر كما تُنسخ من خرائط Google
+export function parseZonePolygon(value: string): LatLng[] {
+  const text = value.trim();
+  if (!text) return [];
+
+  if (text.startsWith("{") || text.startsWith("[")) {
+    let json;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      throw new Error("صيغة GeoJSON غير صحيحة");
+    }
+
+    const geometry =
+      json.type === "FeatureCollection"
+        ? json.features?.[0]?.geometry
+        : json.type === "Feature"
+        ? json.geometry
+        : json;
+
+    // GeoJSON يكتب النقاط [خط الطول, خط العرض]
+    const ring: unknown = Array.isArray(geometry)
+      ? geometry
+      : geometry?.type === "Polygon"
+      ? geometry.coordinates?.[0]
+      : null;
+
+    if (!Array.isArray(ring)) {
+      throw new Error("يجب أن يحتوي GeoJSON على مضلع (Polygon)");
+    }
+
+    return normalizePolygon(
+      ring.map((point) => ({ lat: Number(point[1]), lng: Number(point[0]) }))
+    );
+  }
+
+  return normalizePolygon(
+    text
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .map((line) => {
+        const [lat, lng] = line.split(/[,،\s]+/).map(Number);
+        return { lat, lng };
+      })
+  );
+}
+
+function normalizePolygon(points: LatLng[]): LatLng[] {
+  if (
+    points.some(
+      (point) =>
+        !Number.isFinite(point.lat) ||
+        !Number.isFinite(point.lng) ||
+        Math.abs(point.lat) > 90 ||
+        Math.abs(point.lng) > 180
+    )
+  ) {
+    throw new Error("إحداثيات غير صحيحة في حدود المنطقة");
+  }
+
+  // GeoJSON يكرر النقطة الأولى في النهاية لإغلاق المضلع
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (points.length > 1 && first.lat === last.lat && first.lng === last.lng) {
+    return points.slice(0, -1);
+  }
+  return points;
+}
+
+export function formatZonePolygon(polygon?: LatLng[] | null): string {
+  return (polygon || [])
+    .map((point) => `${point.lat}, ${point.lng}`)
+    .join("\n");
+}
+
+export async function getDeliveryZones(
+  branchId: string
+): Promise<DeliveryZone[]> {
+  const { data, error } = await supabase
+    .from("delivery_zones")
+    .select("*")
+    .eq("branch_id", branchId)
+    .order("priority", { ascending: true })
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("خطأ في جلب مناطق التوصيل:", error.message);
+    throw new Error("تعذر تحميل مناطق التوصيل");
+  }
+
+  return data || [];
+}
+
+function validateZone(zone: DeliveryZoneInput) {
+  if (!zone.name_ar.trim()) {
+    throw new Error("اسم المنطقة مطلوب");
+  }
+  if (zone.zone_type === "polygon" && (zone.polygon?.length || 0) < 3) {
+    throw new Error("حدود المنطقة تحتاج ثلاث نقاط على الأقل");
+  }
+  if (zone.zone_type === "areas" && zone.areas.length === 0) {
+    throw new Error("أضف منطقة أو مدينة واحدة على الأقل");
+  }
+  if (zone.fee < 0 || zone.min_order_value < 0) {
+    throw new Error("رسوم التوصيل والحد الأدنى لا يمكن أن تكون سالبة");
+  }
+}
+
+// الحقل غير المستخدم لنوع المنطقة يُفرّغ حتى لا تبقى بيانات قديمة
+function toRow(zone: DeliveryZoneInput) {
+  return {
+    ...zone,
+    name_en: zone.name_en || null,
+    polygon: zone.zone_type === "polygon" ? zone.polygon : null,
+    areas: zone.zone_type === "areas" ? zone.areas : [],
+  };
+}
+
+export async function createDeliveryZone(
+  branchId: string,
+  zone: DeliveryZoneInput
+): Promise<DeliveryZone> {
+  await requirePermission("branches.manage");
+  validateZone(zone);
+
+  const { data, error } = await supabase
+    .from("delivery_zones")
+    .insert([{ ...toRow(zone), branch_id: branchId }])
+    .select()
+    .single();
+
+  if (error) {
+    console.error("خطأ في إنشاء منطقة التوصيل:", error.message);
+    throw new Error("تعذر إنشاء منطقة التوصيل");
+  }
+
+  return data;
+}
+
+export async function updateDeliveryZone(
+  id: string,
+  zone: DeliveryZoneInput
+): Promise<DeliveryZone> {
+  await requirePermission("branches.manage");
+  validateZone(zone);
+
+  const { data, error } = await supabase
+    .from("delivery_zones")
+    .update({ ...toRow(zone), updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("خطأ في تحديث منطقة التوصيل:", error.message);
+    throw new Error("تعذر تحديث منطقة التوصيل");
+  }
+
+  return data;
+}
+
+export async function deleteDeliveryZone(id: string): Promise<void> {
+  await requirePermission("branches.manage");
+  const { error } = await supabase.from("delivery_zones").delete().eq("id", id);
+
+  if (error) {
+    console.error("خطأ في حذف منطقة التوصيل:", error.message);
+    throw new Error("تعذر حذف منطقة التوصيل");
+  }
+}
+
+// دالة التحديد المشتركة: تستخدمها صفحة إنشاء الطلب في المتجر لعرض الرسوم قبل
+// الطلب، وتطبقها قاعدة البيانات تلقائياً عند إدراج الطلب
+export async function resolveDeliveryZone(params: {
+  branchId?: string | null;
+  places: string[];
+  location?: LatLng | null;
+}): Promise<DeliveryZone | null> {
+  const { data, error } = await supabase.rpc("resolve_delivery_zone", {
+    p_branch_id: params.branchId ?? null,
+    p_places: params.places.filter(Boolean),
+    p_lat: params.location?.lat ?? null,
+    p_lng: params.location?.lng ?? null,
+  });
+
+  if (error) {
+    console.error("خطأ في تحديد منطقة التوصيل:", error.message);
+    throw new Error("تعذر تحديد منطقة التوصيل");
+  }
+
+  // الدالة تعيد صفاً فارغاً عندما لا تطابق أي منطقة
+  return (data as DeliveryZone | null)?.id ? (data as DeliveryZone) : null;
+}
+
+// يعيد تطبيق القاعدة على طلب معلق ويستبدل الرسوم في total_price؛
+// يعيد null إن لم تطابق أي منطقة
+export async function applyOrderDeliveryZone(
+  orderId: string
+): Promise<DeliveryZone | null> {
+  await requirePermission("orders.update");
+  const { data, error } = await supabase.rpc("apply_order_delivery_zone", {
+    p_order_id: orderId,
+  });
+
+  if (error) {
+    console.error("خطأ في تطبيق منطقة التوصيل على الطلب:", error.message);
+    if (error.message === "order_not_pending") {
+      throw new Error("لا يمكن تغيير رسوم التوصيل إلا لطلب معلق");
+    }
+    if (error.message === "below_zone_minimum") {
+      throw new Error("قيمة الطلب أقل من الحد الأدنى لمنطقة التوصيل");
+    }
+    throw new Error("تعذر احتساب رسوم التوصيل");
+  }
+
+  return (data as DeliveryZone | null)?.id ? (data as DeliveryZone) : null;
+}
@@ -0,0 +1,317 @@
+import supabase from "./supabase";
+import { requirePermission } from "./apiPermissions";
+import { toDateRange } from "./dateRange";
+
+export interface Driver {
+  id: string;
+  name: string;
+  phone: string | null;
+  branch_id: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+  branches?: { id: string; name_ar: string } | null;
+}
+
+export type DriverInput = Pick<
+  Driver,
+  "name" | "phone" | "branch_id" | "is_active"
+>;
+
+export type DeliveryOutcome = "pending" | "delivered" | "failed" | "cancelled";
+
+export interface OrderDelivery {
+  id: string;
+  order_id: string;
+  driver_id: string;
+  assigned_by: string | null;
+  assigned_at: string;
+  picked_up_at: string | null;
+  completed_at: string | null;
+  outcome: DeliveryOutcome;
+  failure_reason: string | null;
+  drivers?: { id: string; name: string; phone: string | null } | null;
+  orders?: {
+    id: string;
+    status: string;
+    total_price: number;
+    created_at: string;
+    profiles?: {
+      full_name: string | null;
+      phone: string | null;
+      address: string | null;
+      city: string | null;
+    } | null;
+  } | null;
+}
+
+export interface DriverPerformance {
+  driver_id: string;
+  driver_name: string;
+  branch_id: string | null;
+  is_active: boolean;
+  assigned_count: number;
+  delivered_count: number;
+  failed_count: number;
+  open_count: number;
+  avg_delivery_minutes: number | null;
+  success_rate: number | null;
+}
+
+export const DELIVERY_OUTCOME_LABELS: Record<DeliveryOutcome, string> = {
+  pending: "قيد التوصيل",
+  delivered: "تم التسليم",
+  failed: "تعذر التسليم",
+  cancelled: "أُلغي الإسناد",
+};
+
+// مدة التوصيل بالدقائق: من الاستلام (أو الإسناد) حتى الإغلاق
+export function getDeliveryMinutes(delivery: OrderDelivery): number | null {
+  if (!delivery.completed_at) return null;
+  const start = new Date(
+    delivery.picked_up_at || delivery.assigned_at
+  ).getTime();
+  return Math.round(
+    (new Date(delivery.completed_at).getTime() - start) / 60000
+  );
+}
+
+export async function getDrivers(filters?: {
+  branchId?: string;
+  activeOnly?: boolean;
+}): Promise<Driver[]> {
+  let query = supabase
+    .from("drivers")
+    .select("*, branches!drivers_branch_id_fkey(id, name_ar)")
+    .order("name", { ascending: true });
+
+  if (filters?.branchId) {
+    query = query.eq("branch_id", filters.branchId);
+  }
+  if (filters?.activeOnly) {
+    query = query.eq("is_active", true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("خطأ في جلب المندوبين:", error.message);
+    throw new Error("تعذر تحميل المندوبين");
+  }
+
+  return data || [];
+}
+
+export async function getDriverById(id: string): Promise<Driver> {
+  const { data, error } = await supabase
+    .from("drivers")
+    .select("*, branches!drivers_branch_id_fkey(id, name_ar)")
+    .eq("id", id)
+    .single();
+
+  if (error) {
+    console.error("خطأ في جلب المندوب:", error.message);
+    throw new Error("تعذر تحميل بيانات المندوب");
+  }
+
+  return data;
+}
+
+function toRow(driver: DriverInput) {
+  const name = driver.name.trim();
+  if (!name) {
+    throw new Error("اسم المندوب مطلوب");
+  }
+  return {
+    name,
+    phone: driver.phone?.trim() || null,
+    branch_id: driver.branch_id || null,
+    is_active: driver.is_active,
+  };
+}
+
+export async function createDriver(driver: DriverInput): Promise<Driver> {
+  await requirePermission("branches.manage");
+  const { data, error } = await supabase
+    .from("drivers")
+    .insert([toRow(driver)])
+    .select()
+    .single();
+
+  if (error) {
+    console.error("خطأ في إضافة المندوب:", error.message);
+    throw new Error("تعذر إضافة المندوب");
+  }
+
+  return data;
+}
+
+export async function updateDriver(
+  id: string,
+  driver: DriverInput
+): Promise<Driver> {
+  await requirePermission("branches.manage");
+  const { data, error } = await supabase
+    .from("drivers")
+    .update({ ...toRow(driver), updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("خطأ في تحديث المندوب:", error.message);
+    throw new Error("تعذر تحديث المندوب");
+  }
+
+  return data;
+}
+
+export async function deleteDriver(id: string): Promise<void> {
+  await requirePermission("branches.manage");
+  const { error } = await supabase.from("drivers").delete().eq("id", id);
+
+  if (error) {
+    console.error("خطأ في حذف المندوب:", error.message);
+    // سجل التوصيلات يمنع الحذف حتى لا يضيع تقرير الأداء
+    if (error.code === "23503") {
+      throw new Error("للمندوب توصيلات مسجلة، قم بإيقافه بدلاً من حذفه");
+    }
+    throw new Error("تعذر حذف المندوب");
+  }
+}
+
+export async function assignOrderDriver(
+  orderId: string,
+  driverId: string
+): Promise<OrderDelivery> {
+  await requirePermission("orders.update");
+  const { data, error } = await supabase.rpc("assign_order_driver", {
+    p_order_id: orderId,
+    p_driver_id: driverId,
+  });
+
+  if (error) {
+    console.error("خطأ في إسناد الطلب للمندوب:", error.message);
+    if (error.code === "P0001") {
+      throw new Error(
+        error.message.includes("branch")
+          ? "المندوب يتبع فرعاً آخر"
+          : "لا يمكن إسناد طلب مغلق"
+      );
+    }
+    if (error.code === "P0002") {
+      throw new Error("المندوب غير موجود أو موقوف");
+    }
+    throw new Error("تعذر إسناد الطلب للمندوب");
+  }
+
+  return data as OrderDelivery;
+}
+
+export async function recordDeliveryFailure(
+  orderId: string,
+  reason: string
+): Promise<OrderDelivery> {
+  await requirePermission("orders.update");
+  if (!reason.trim()) {
+    throw new Error("يرجى كتابة سبب تعذر التسليم");
+  }
+
+  const { data, error } = await supabase.rpc("record_delivery_failure", {
+    p_order_id: orderId,
+    p_reason: reason,
+  });
+
+  if (error) {
+    console.error("خطأ في تسجيل تعذر التسليم:", error.message);
+    if (error.code === "P0002") {
+      throw new Error("لا يوجد توصيل مفتوح لهذا الطلب");
+    }
+    throw new Error("تعذر تسجيل نتيجة التوصيل");
+  }
+
+  return data as OrderDelivery;
+}
+
+export async function getOrderDeliveries(
+  orderId: string
+): Promise<OrderDelivery[]> {
+  const { data, error } = await supabase
+    .from("order_deliveries")
+    .select("*, drivers!order_deliveries_driver_id_fkey(id, name, phone)")
+    .eq("order_id", orderId)
+    .order("assigned_at", { ascending: false });
+
+  if (error) {
+    console.error("خطأ في جلب محاولات التوصيل:", error.message);
+    throw new Error("تعذر تحميل سجل التوصيل");
+  }
+
+  return data || [];
+}
+
+// قائمة توصيلات المندوب، المفتوحة أولاً ثم الأحدث
+export async function getDriverDeliveries(
+  driverId: string,
+  filters?: { outcome?: DeliveryOutcome; dateFrom?: string; dateTo?: string }
+): Promise<OrderDelivery[]> {
+  const { from, to } = toDateRange(filters?.dateFrom, filters?.dateTo);
+  let query = supabase
+    .from("order_deliveries")
+    .select(
+      `
+      *,
+      orders!order_deliveries_order_id_fkey(
+        id,
+        status,
+        total_price,
+        created_at,
+        profiles!orders_user_id_fkey(full_name, phone, address, city)
+      )
+    `
+    )
+    .eq("driver_id", driverId)
+    .order("assigned_at", { ascending: false })
+    .limit(200);
+
+  if (filters?.outcome) {
+    query = query.eq("outcome", filters.outcome);
+  }
+  if (from) {
+    query = query.gte("assigned_at", from);
+  }
+  if (to) {
+    query = query.lt("assigned_at", to);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("خطأ في جلب توصيلات المندوب:", error.message);
+    throw new Error("تعذر تحميل توصيلات المندوب");
+  }
+
+  return ((data || []) as OrderDelivery[]).sort(
+    (a, b) => Number(b.outcome === "pending") - Number(a.outcome === "pending")
+  );
+}
+
+export async function getDriverPerformance(filters?: {
+  dateFrom?: string;
+  dateTo?: string;
+  branchId?: string;
+}): Promise<DriverPerformance[]> {
+  const { from, to } = toDateRange(filters?.dateFrom, filters?.dateTo);
+  const { data, error } = await supabase.rpc("driver_performance", {
+    p_from: from,
+    p_to: to,
+    p_branch_id: filters?.branchId || null,
+  });
+
+  if (error) {
+    console.error("خطأ في جلب تقرير أداء المندوبين:", error.message);
+    throw new Error("تعذر تحميل تقرير أداء المندوبين");
+  }
+
+  return (data || []) as DriverPerformance[];
+}
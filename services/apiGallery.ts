@@ -1,5 +1,6 @@
 import { v4 as uuidv4 } from "uuid";
 import supabase from "./supabase";
+import { requirePermission } from "./apiPermissions";
 
 type NewGallery = {
   title_ar: string;
@@ -18,6 +19,7 @@ type UpdateGalleryData = {
 };
 
 export async function CreateGallery(newGallery: NewGallery) {
+  await requirePermission("content.manage");
   const uploadedUrls: string[] = [];
 
   for (const image of newGallery.image_urls) {
@@ -65,7 +67,10 @@ export async function CreateGallery(newGallery: NewGallery) {
 }
 
 export async function getGalleries() {
-  const { data, error } = await supabase.from("galleries").select("*"); // أو حدد الأعمدة اللي محتاجها
+  const { data, error } = await supabase
+    .from("galleries")
+    .select("*") // أو حدد الأعمدة اللي محتاجها
+    .is("deleted_at", null);
 
   if (error) {
     console.error("فشل في جلب البيانات:", error.message);
@@ -80,6 +85,7 @@ export async function getGalleriesById(id: string) {
     .from("galleries")
     .select("*")
     .eq("id", id)
+    .is("deleted_at", null)
     .single();
 
   if (error) throw error;
@@ -87,45 +93,18 @@ export async function getGalleriesById(id: string) {
   return data;
 }
 
+// حذف ناعم: الصور تبقى في التخزين حتى الحذف النهائي من سلة المحذوفات
 export async function deleteGalleries(id: string) {
-  // جلب المعرض أولاً للحصول على روابط الصور
-  const { data: gallery, error: fetchError } = await supabase
-    .from("galleries")
-    .select("image_urls")
-    .eq("id", id)
-    .single();
-
-  if (fetchError || !gallery) {
-    throw new Error("حدث خطأ أثناء جلب بيانات المعرض");
-  }
+  await requirePermission("content.manage");
 
-  const imageUrls: string[] = gallery.image_urls || [];
-
-  // استخراج أسماء الملفات من الروابط
-  const paths = imageUrls.map((url) => {
-    const parts = url.split("/");
-    return decodeURIComponent(
-      parts.slice(parts.indexOf("gallery") + 1).join("/")
-    );
-  });
-
-  // حذف الصور من التخزين
-  const { error: deleteFilesError } = await supabase.storage
-    .from("gallery")
-    .remove(paths);
-
-  if (deleteFilesError) {
-    console.error(deleteFilesError);
-    throw new Error("حدث خطأ أثناء حذف الصور من التخزين");
-  }
-
-  // حذف السجل من قاعدة البيانات
-  const { error: deleteDbError, data } = await supabase
+  const { error, data } = await supabase
     .from("galleries")
-    .delete()
-    .eq("id", id);
+    .update({ deleted_at: new Date().toISOString() })
+    .eq("id", id)
+    .is("deleted_at", null);
 
-  if (deleteDbError) {
+  if (error) {
+    console.error("خطأ في حذف المعرض:", error.message);
     throw new Error("حدث خطأ أثناء حذف المعرض من قاعدة البيانات");
   }
 
@@ -133,6 +112,7 @@ export async function deleteGalleries(id: string) {
 }
 
 export async function updateGallery(id: string, updateData: UpdateGalleryData) {
+  await requirePermission("content.manage");
   const { data, error } = await supabase
     .from("galleries")
     .update({
@@ -0,0 +1,125 @@
+import supabase from "./supabase";
+import type { Product } from "./apiProducts";
+import { requirePermission } from "./apiPermissions";
+
+export type StockMovementType =
+  | "reserve"
+  | "release"
+  | "sale"
+  | "restock"
+  | "adjustment";
+
+export interface StockMovement {
+  id: string;
+  product_id: string;
+  variant_id?: string | null;
+  order_id?: string | null;
+  movement_type: StockMovementType;
+  // تغيير موقّع: على المحجوز للحجز والإلغاء، وعلى المخزون للبيع والتوريد والتعديل
+  quantity: number;
+  stock_after: number;
+  reserved_after: number;
+  note?: string | null;
+  created_at: string;
+  variant?: { sku: string; size?: string | null; option?: string | null };
+}
+
+export interface LowStockProduct {
+  id: string;
+  variant_id?: string | null;
+  variant_sku?: string | null;
+  name_ar: string;
+  name_en: string;
+  image_url?: string[];
+  stock: number;
+  reserved_stock: number;
+  available_stock: number;
+  low_stock_threshold: number;
+}
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  reserve: "حجز لطلب",
+  release: "إلغاء حجز",
+  sale: "بيع",
+  restock: "توريد",
+  adjustment: "تعديل يدوي",
+};
+
+export function getAvailableStock(product: Product): number {
+  return (product.stock || 0) - (product.reserved_stock || 0);
+}
+
+export async function getStockMovements(
+  productId: string,
+  limit = 20
+): Promise<StockMovement[]> {
+  const { data, error } = await supabase
+    .from("stock_movements")
+    .select(
+      "id, product_id, variant_id, order_id, movement_type, quantity, stock_after, reserved_after, note, created_at, variant:product_variants(sku, size, option)"
+    )
+    .eq("product_id", productId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error("خطأ في جلب حركات المخزون:", error.message);
+    throw new Error("تعذر تحميل حركات المخزون");
+  }
+
+  return (data || []) as unknown as StockMovement[];
+}
+
+export async function getLowStockProducts(limit = 10): Promise<{
+  products: LowStockProduct[];
+  total: number;
+}> {
+  const { data, error, count } = await supabase
+    .from("low_stock_products")
+    .select("*", { count: "exact" })
+    .order("available_stock", { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    console.error("خطأ في جلب المنتجات منخفضة المخزون:", error.message);
+    throw new Error("تعذر تحميل المنتجات منخفضة المخزون");
+  }
+
+  return { products: data || [], total: count ?? 0 };
+}
+
+export async function adjustProductStock({
+  productId,
+  quantity,
+  type = "adjustment",
+  note,
+}: {
+  productId: string;
+  quantity: number;
+  type?: "restock" | "adjustment";
+  note?: string;
+}): Promise<Product> {
+  await requirePermission("products.manage");
+  if (!Number.isInteger(quantity) || quantity === 0) {
+    throw new Error("يجب أن تكون الكمية رقماً صحيحاً غير صفري");
+  }
+
+  const { data, error } = await supabase
+    .rpc("adjust_product_stock", {
+      p_product_id: productId,
+      p_quantity: quantity,
+      p_type: type,
+      p_note: note?.trim() || null,
+    })
+    .single();
+
+  if (error) {
+    console.error("خطأ في تعديل المخزون:", error.message);
+    if (error.code === "P0004") {
+      throw new Error("لا يمكن أن يقل المخزون عن الكمية المحجوزة للطلبات");
+    }
+    throw new Error("تعذر تعديل المخزون");
+  }
+
+  return data as Product;
+}
@@ -0,0 +1,55 @@
+import supabase from "./supabase";
+import type { OrderStatus } from "./apiOrders";
+
+export interface Invoice {
+  id: string;
+  order_id: string;
+  invoice_number: number;
+  tax_rate: number;
+  subtotal: number;
+  tax_amount: number;
+  total: number;
+  issued_at: string;
+  issued_by: string | null;
+}
+
+// الطلبات المعلقة والملغاة لا تصدر لها فواتير (يطابق issue_invoice)
+export function canIssueInvoice(status: OrderStatus): boolean {
+  return status !== "pending" && status !== "cancelled";
+}
+
+export async function getInvoice(orderId: string): Promise<Invoice | null> {
+  const { data, error } = await supabase
+    .from("invoices")
+    .select("*")
+    .eq("order_id", orderId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("خطأ في جلب الفاتورة:", error.message);
+    throw new Error("تعذر تحميل الفاتورة");
+  }
+
+  return data;
+}
+
+// يصدر فاتورة للطلب مرة واحدة فقط برقم تسلسلي، والطلبات اللاحقة ترجع نفس الفاتورة
+export async function issueInvoice(orderId: string): Promise<Invoice> {
+  const { data, error } = await supabase
+    .rpc("issue_invoice", { p_order_id: orderId })
+    .single();
+
+  if (error) {
+    console.error("خطأ في إصدار الفاتورة:", error.message);
+    if (error.code === "P0001") {
+      throw new Error("لا تصدر فاتورة لطلب معلق أو ملغي");
+    }
+    throw new Error("تعذر إصدار الفاتورة");
+  }
+
+  return data as Invoice;
+}
+
+export function formatInvoiceNumber(invoiceNumber: number): string {
+  return `INV-${String(invoiceNumber).padStart(6, "0")}`;
+}
@@ -1,5 +1,6 @@
 import { decode } from "base64-arraybuffer";
 import supabase from "./supabase";
+import { requirePermission } from "./apiPermissions";
 
 export interface News {
   title_ar: string;
@@ -16,8 +17,11 @@ export interface News {
   user_id: string;
   price?: number;
 
+  /** @deprecated الأحجام أصبحت متغيرات منتج (ProductVariant) */
   price_medium?: number;
+  /** @deprecated */
   price_large?: number;
+  /** @deprecated */
   price_family?: number;
 }
 
@@ -34,7 +38,10 @@ export async function getNews(
   const from = (page - 1) * limit;
   const to = from + limit - 1;
 
-  let query = supabase.from("news").select("*", { count: "exact" });
+  let query = supabase
+    .from("news")
+    .select("*", { count: "exact" })
+    .is("deleted_at", null);
 
   if (filters?.categoryId) {
     query = query.eq("category_id", filters.categoryId);
@@ -96,6 +103,7 @@ export async function getNewsById(id: string) {
     .from("news")
     .select("*")
     .eq("id", id)
+    .is("deleted_at", null)
     .single();
 
   if (error) throw error;
@@ -104,6 +112,7 @@ export async function getNewsById(id: string) {
 }
 
 export async function CreateNews(newNews: News): Promise<News[]> {
+  await requirePermission("content.manage");
   const { data, error } = await supabase
     .from("news")
     .insert([newNews])
@@ -164,45 +173,12 @@ export async function uploadImages(
 }
 
 export async function deleteNews(id: string) {
-  console.log("ID to delete:", id);
-  const { data: news, error: fetchError } = await supabase
-    .from("news")
-    .select("images")
-    .eq("id", id)
-    .single();
-
-  if (fetchError) {
-    console.error("Supabase fetch error:", fetchError);
-    throw new Error("حدث خطأ أثناء جلب بيانات الخبر");
-  }
-
-  if (news?.images && Array.isArray(news.images)) {
-    const filePaths = news.images
-
-      .map((url: string) => {
-        const path = new URL(url).pathname;
-        const match = path.match(
-          /\/storage\/v1\/object\/public\/news-images\/(.+)/
-        );
-        return match?.[1];
-      })
-      .filter(Boolean) as string[];
-
-    if (filePaths.length > 0) {
-      const { error: storageError } = await supabase.storage
-        .from("news-images")
-        .remove(filePaths);
-
-      if (storageError) {
-        console.error("فشل حذف الصور:", storageError);
-      }
-    }
-  }
-
+  await requirePermission("content.manage");
   const { error: deleteError, data } = await supabase
     .from("news")
-    .delete()
-    .eq("id", id);
+    .update({ deleted_at: new Date().toISOString() })
+    .eq("id", id)
+    .is("deleted_at", null);
 
   if (deleteError) {
     throw new Error("حدث خطأ أثناء حذف الخبر");
@@ -212,6 +188,7 @@ export async function deleteNews(id: string) {
 }
 
 export async function updateNews(id: string, updatedNews: Partial<News>) {
+  await requirePermission("content.manage");
   const { data, error } = await supabase
     .from("news")
     .update(updatedNews)
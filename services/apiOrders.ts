@@ -1,4 +1,5 @@
 import supabase from "./supabase";
+import { requirePermission } from "./apiPermissions";
 
 export interface User {
   id?: string;
@@ -22,6 +23,7 @@ export interface OrderItem {
   id?: string;
   order_id?: string;
   product_id?: string;
+  variant_id?: string | null;
   quantity: number;
   price: number;
   created_at?: string;
@@ -33,7 +35,27 @@ export interface OrderItem {
     name_en: string;
     price: number;
     image_url?: string[];
+    category_id?: string | null;
   };
+  // Relation to the chosen variant
+  product_variants?: {
+    id?: string;
+    sku: string;
+    size?: string | null;
+    option?: string | null;
+    image_url?: string | null;
+  } | null;
+  // سطر عرض (كومبو): المنتجات المكونة تُنسخ في combo_components عند الطلب
+  combo_offer_id?: string | null;
+  combo_components?:
+    | { product_id: string; variant_id: string | null; quantity: number }[]
+    | null;
+  combo_offers?: {
+    id?: string;
+    title_ar: string;
+    title_en: string;
+    image_url?: string | null;
+  } | null;
 }
 
 export interface Payment {
@@ -41,15 +63,46 @@ export interface Payment {
   order_id?: string;
   payment_method: string;
   amount: number;
-  payment_status: "pending" | "completed" | "failed";
+  payment_status:
+    | "pending"
+    | "completed"
+    | "failed"
+    | "partially_refunded"
+    | "refunded";
   transaction_id?: string;
   created_at?: string;
+  refunds?: Refund[];
+}
+
+export interface Refund {
+  id: string;
+  payment_id?: string;
+  order_id?: string;
+  amount: number;
+  reason: string;
+  created_by?: string | null;
+  created_at: string;
 }
 
+export type OrderStatus =
+  | "pending"
+  | "paid"
+  | "shipped"
+  | "delivered"
+  | "cancelled";
+
+// حالة الاسترداد منفصلة عن حالة الطلب ولا يضبطها إلا refundPayment
+export type OrderRefundStatus = "none" | "partially_refunded" | "refunded";
+
+// مرحلة تجهيز الطلب المدفوع في المطبخ، منفصلة عن حالة الطلب
+export type KitchenStatus = "queued" | "preparing" | "ready";
+
 export interface Order {
   id?: string;
   user_id?: string;
-  status: "pending" | "paid" | "shipped" | "delivered" | "cancelled";
+  status: OrderStatus;
+  refund_status?: OrderRefundStatus;
+  kitchen_status?: KitchenStatus;
   total_price: number;
   created_at?: string;
   updated_at?: string;
@@ -57,8 +110,114 @@ export interface Order {
   profiles?: User;
   order_items?: OrderItem[];
   payments?: Payment[];
+  // الفرع المسؤول عن تجهيز الطلب
+  branch_id?: string | null;
+  branches?: { id: string; name_ar: string; name_en: string } | null;
+  // منطقة التوصيل ورسومها المطبقة على الطلب
+  delivery_zone_id?: string | null;
+  delivery_fee?: number | null;
+  delivery_zones?: {
+    id: string;
+    name_ar: string;
+    estimated_minutes: number | null;
+  } | null;
+  // المندوب المسند إليه التوصيل حالياً
+  driver_id?: string | null;
+  drivers?: { id: string; name: string; phone: string | null } | null;
+  // الخصم المطبق من كوبون؛ total_price هو المبلغ المستحق بعد الخصم
+  // ويشمل رسوم التوصيل
+  coupon_id?: string | null;
+  coupon_code?: string | null;
+  discount_amount?: number;
 }
 
+export interface OrderStatusHistory {
+  id: string;
+  order_id: string;
+  from_status: OrderStatus | null;
+  to_status: OrderStatus;
+  note: string | null;
+  changed_by: string | null;
+  created_at: string;
+  // اسم الموظف من admin_profiles
+  changed_by_name?: string | null;
+}
+
+// مسار حالات الطلب المسموح به (يطابق order_status_transition_allowed في قاعدة البيانات)
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["paid", "cancelled"],
+  paid: ["shipped", "cancelled"],
+  shipped: ["delivered"],
+  delivered: [],
+  cancelled: [],
+};
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: "في الانتظار",
+  paid: "مدفوع",
+  shipped: "تم الشحن",
+  delivered: "تم التوصيل",
+  cancelled: "ملغي",
+};
+
+export function canTransitionOrderStatus(
+  from: OrderStatus,
+  to: OrderStatus
+): boolean {
+  return ORDER_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+export function getNextOrderStatuses(status: OrderStatus): OrderStatus[] {
+  return ORDER_STATUS_TRANSITIONS[status] ?? [];
+}
+
+const ORDER_LIST_SELECT = `
+  *,
+  profiles!orders_user_id_fkey(*),
+  branches!orders_branch_id_fkey(id, name_ar, name_en),
+  order_items!order_items_order_id_fkey(
+    id,
+    quantity,
+    price,
+    variant_id,
+    products!order_items_product_id_fkey(
+      id,
+      name_ar,
+      name_en,
+      price,
+      image_url
+    ),
+    product_variants!order_items_variant_id_fkey(
+      id,
+      sku,
+      size,
+      option,
+      image_url
+    ),
+    combo_offer_id,
+    combo_offers!order_items_combo_offer_id_fkey(
+      id,
+      title_ar,
+      title_en,
+      image_url
+    )
+  ),
+  payments!payments_order_id_fkey(
+    id,
+    payment_method,
+    amount,
+    payment_status,
+    transaction_id,
+    created_at,
+    refunds!refunds_payment_id_fkey(
+      id,
+      amount,
+      reason,
+      created_at
+    )
+  )
+`;
+
 export async function getOrders(
   page = 1,
   limit = 10,
@@ -66,45 +225,37 @@ export async function getOrders(
     status?: string;
     search?: string;
     date?: string;
+    refundStatus?: string;
+    branchId?: string;
+    userId?: string;
   }
 ): Promise<{ orders: Order[]; total: number }> {
   const from = (page - 1) * limit;
   const to = from + limit - 1;
 
-  let query = supabase.from("orders").select(
-    `
-    *,
-    profiles!orders_user_id_fkey(*),
-    order_items!order_items_order_id_fkey(
-      id,
-      quantity,
-      price,
-      products!order_items_product_id_fkey(
-        id,
-        name_ar,
-        name_en,
-        price,
-        image_url
-      )
-    ),
-    payments!payments_order_id_fkey(
-      id,
-      payment_method,
-      amount,
-      payment_status,
-      transaction_id,
-      created_at
-    )
-  `,
-    { count: "exact" }
-  );
+  const search = filters?.search?.trim();
+
+  // البحث يتم على الخادم (search_orders) مع بقاء الفلاتر والترقيم والعد في نفس الاستعلام
+  let query = search
+    ? supabase.rpc("search_orders", { p_search: search }, { count: "exact" })
+    : supabase.from("orders").select(ORDER_LIST_SELECT, { count: "exact" });
+
+  query = query.is("deleted_at", null);
 
   if (filters?.status) {
     query = query.eq("status", filters.status);
   }
 
-  if (filters?.search) {
-    query = query.or(`user_id.ilike.%${filters.search}%`);
+  if (filters?.refundStatus) {
+    query = query.eq("refund_status", filters.refundStatus);
+  }
+
+  if (filters?.branchId) {
+    query = query.eq("branch_id", filters.branchId);
+  }
+
+  if (filters?.userId) {
+    query = query.eq("user_id", filters.userId);
   }
 
   if (filters?.date) {
@@ -129,9 +280,15 @@ export async function getOrders(
     query = query.gte("created_at", startDate.toISOString());
   }
 
-  query = query.order("created_at", { ascending: false });
-
-  const { data: orders, error, count } = await query.range(from, to);
+  // rpc لا يقبل الفلاتر بعد select، لذلك تُحدد الأعمدة بعد الفلاتر
+  const {
+    data: orders,
+    error,
+    count,
+  } = await query
+    .select(ORDER_LIST_SELECT)
+    .order("created_at", { ascending: false })
+    .range(from, to);
 
   if (error) {
     console.error("خطأ في جلب الطلبات:", error.message);
@@ -140,26 +297,6 @@ export async function getOrders(
 
   console.log("Orders with profiles:", orders);
 
-  // Filter by search if needed (for name search)
-  if (filters?.search && orders) {
-    const searchTerm = filters.search.toLowerCase();
-    const filteredOrders = orders.filter((order) => {
-      const matchesUserId = order.user_id?.toLowerCase().includes(searchTerm);
-      const matchesName = order.profiles?.full_name
-        ?.toLowerCase()
-        .includes(searchTerm);
-      const matchesPhone = order.profiles?.phone
-        ?.toLowerCase()
-        .includes(searchTerm);
-      return matchesUserId || matchesName || matchesPhone;
-    });
-
-    return {
-      orders: filteredOrders,
-      total: filteredOrders.length,
-    };
-  }
-
   return {
     orders: orders || [],
     total: count ?? 0,
@@ -174,15 +311,40 @@ export async function getOrderById(id: string): Promise<Order> {
       `
       *,
       profiles!orders_user_id_fkey(*),
+      branches!orders_branch_id_fkey(id, name_ar, name_en),
+      delivery_zones!orders_delivery_zone_id_fkey(
+        id,
+        name_ar,
+        estimated_minutes
+      ),
+      drivers!orders_driver_id_fkey(id, name, phone),
       order_items!order_items_order_id_fkey(
         id,
         quantity,
         price,
+        product_id,
+        variant_id,
         products!order_items_product_id_fkey(
           id,
           name_ar,
           name_en,
           price,
+          image_url,
+          category_id
+        ),
+        product_variants!order_items_variant_id_fkey(
+          id,
+          sku,
+          size,
+          option,
+          image_url
+        ),
+        combo_offer_id,
+        combo_components,
+        combo_offers!order_items_combo_offer_id_fkey(
+          id,
+          title_ar,
+          title_en,
           image_url
         )
       ),
@@ -192,11 +354,18 @@ export async function getOrderById(id: string): Promise<Order> {
         amount,
         payment_status,
         transaction_id,
-        created_at
+        created_at,
+        refunds!refunds_payment_id_fkey(
+          id,
+          amount,
+          reason,
+          created_at
+        )
       )
     `
     )
     .eq("id", id)
+    .is("deleted_at", null)
     .single();
 
   if (orderError) {
@@ -211,28 +380,253 @@ export async function getOrderById(id: string): Promise<Order> {
 
 export async function updateOrderStatus(
   id: string,
-  status: Order["status"]
+  status: OrderStatus,
+  note?: string
 ): Promise<Order> {
-  const { data, error } = await supabase
+  await requirePermission("orders.update");
+  const { data: current, error: currentError } = await supabase
     .from("orders")
-    .update({
-      status,
-      updated_at: new Date().toISOString(),
-    })
+    .select("status")
     .eq("id", id)
-    .select()
+    .single();
+
+  if (currentError) {
+    console.error("خطأ في جلب حالة الطلب:", currentError.message);
+    throw new Error("تعذر تحديث حالة الطلب");
+  }
+
+  if (!canTransitionOrderStatus(current.status, status)) {
+    throw new Error(
+      `لا يمكن تغيير حالة الطلب من "${
+        ORDER_STATUS_LABELS[current.status as OrderStatus] ?? current.status
+      }" إلى "${ORDER_STATUS_LABELS[status] ?? status}"`
+    );
+  }
+
+  // التحقق يتم أيضاً داخل قاعدة البيانات ويتم تسجيل الانتقال في order_status_history
+  const { data, error } = await supabase
+    .rpc("change_order_status", {
+      p_order_id: id,
+      p_status: status,
+      p_note: note ?? null,
+    })
     .single();
 
   if (error) {
     console.error("خطأ في تحديث حالة الطلب:", error.message);
+    if (error.code === "P0001") {
+      throw new Error("انتقال غير مسموح به لحالة الطلب");
+    }
     throw new Error("تعذر تحديث حالة الطلب");
   }
 
-  return data;
+  return data as Order;
+}
+
+export async function updateOrderBranch(
+  id: string,
+  branchId: string | null
+): Promise<void> {
+  await requirePermission("orders.update");
+  const { error } = await supabase
+    .from("orders")
+    .update({ branch_id: branchId, updated_at: new Date().toISOString() })
+    .eq("id", id);
+
+  if (error) {
+    console.error("خطأ في تحديث فرع الطلب:", error.message);
+    if (error.code === "42501") {
+      throw new Error("لا يمكنك نقل الطلب إلى فرع آخر");
+    }
+    throw new Error("تعذر تحديث فرع الطلب");
+  }
+}
+
+// يعيد تطبيق قاعدة الاختيار التلقائي (مدينة/منطقة العميل)؛ يعيد null إن لم يطابق أي فرع
+export async function autoAssignOrderBranch(
+  id: string
+): Promise<string | null> {
+  await requirePermission("orders.update");
+  const { data, error } = await supabase.rpc("auto_assign_order_branch", {
+    p_order_id: id,
+  });
+
+  if (error) {
+    console.error("خطأ في تحديد فرع الطلب تلقائياً:", error.message);
+    throw new Error("تعذر تحديد فرع الطلب تلقائياً");
+  }
+
+  return (data as string | null) ?? null;
+}
+
+export async function getOrderStatusHistory(
+  orderId: string
+): Promise<OrderStatusHistory[]> {
+  const { data, error } = await supabase
+    .from("order_status_history")
+    .select("*")
+    .eq("order_id", orderId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("خطأ في جلب سجل حالات الطلب:", error.message);
+    throw new Error("تعذر تحميل سجل حالات الطلب");
+  }
+
+  const history = (data || []) as OrderStatusHistory[];
+  const actorIds = [
+    ...new Set(history.map((entry) => entry.changed_by).filter(Boolean)),
+  ] as string[];
+
+  if (actorIds.length === 0) return history;
+
+  const { data: actors } = await supabase
+    .from("admin_profiles")
+    .select("user_id, full_name")
+    .in("user_id", actorIds);
+
+  const names = new Map(
+    (actors || []).map((actor) => [actor.user_id, actor.full_name])
+  );
+
+  return history.map((entry) => ({
+    ...entry,
+    changed_by_name: entry.changed_by ? names.get(entry.changed_by) : null,
+  }));
+}
+
+// الطلبات المفتوحة لشاشة المطبخ، الأقدم أولاً
+export async function getKitchenOrders(
+  statuses: OrderStatus[]
+): Promise<Order[]> {
+  const { data, error } = await supabase
+    .from("orders")
+    .select(
+      `
+      id,
+      status,
+      kitchen_status,
+      total_price,
+      created_at,
+      updated_at,
+      profiles!orders_user_id_fkey(full_name, phone),
+      order_items!order_items_order_id_fkey(
+        id,
+        quantity,
+        price,
+        variant_id,
+        products!order_items_product_id_fkey(id, name_ar, name_en, price),
+        product_variants!order_items_variant_id_fkey(id, sku, size, option),
+        combo_offer_id,
+        combo_offers!order_items_combo_offer_id_fkey(id, title_ar, title_en)
+      )
+    `
+    )
+    .in("status", statuses)
+    .is("deleted_at", null)
+    .order("created_at", { ascending: true })
+    .limit(200);
+
+  if (error) {
+    console.error("خطأ في جلب طلبات المطبخ:", error.message);
+    throw new Error("تعذر تحميل طلبات المطبخ");
+  }
+
+  return (data || []) as unknown as Order[];
+}
+
+export async function advanceKitchenStatus(
+  id: string,
+  kitchenStatus: KitchenStatus
+): Promise<Order> {
+  await requirePermission("orders.update");
+  const { data, error } = await supabase
+    .rpc("advance_kitchen_status", {
+      p_order_id: id,
+      p_kitchen_status: kitchenStatus,
+    })
+    .single();
+
+  if (error) {
+    console.error("خطأ في تحديث مرحلة التجهيز:", error.message);
+    if (error.code === "P0001") {
+      throw new Error("لا يمكن نقل الطلب إلى هذه المرحلة");
+    }
+    throw new Error("تعذر تحديث مرحلة التجهيز");
+  }
+
+  return data as Order;
+}
+
+export type OrderChangeEvent =
+  | { type: "created"; order: Order }
+  | { type: "status_changed"; history: OrderStatusHistory };
+
+// اشتراك لحظي في الطلبات الجديدة وتغييرات الحالة؛ يعيد دالة إلغاء الاشتراك
+// (تغييرات الحالة من order_status_history لأنها تحمل الحالة السابقة ومن غيّرها)
+export function subscribeToOrderChanges(
+  onChange: (event: OrderChangeEvent) => void,
+  channelName = "dashboard-orders"
+): () => void {
+  const channel = supabase
+    .channel(channelName)
+    .on(
+      "postgres_changes",
+      { event: "INSERT", schema: "public", table: "orders" },
+      (payload) => onChange({ type: "created", order: payload.new as Order })
+    )
+    .on(
+      "postgres_changes",
+      { event: "INSERT", schema: "public", table: "order_status_history" },
+      (payload) =>
+        onChange({
+          type: "status_changed",
+          history: payload.new as OrderStatusHistory,
+        })
+    )
+    .subscribe((status, err) => {
+      if (err) {
+        console.error("خطأ في الاشتراك اللحظي بالطلبات:", err.message);
+      }
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+// اشتراك لحظي لشاشة المطبخ: إنشاء أي طلب أو تعديله (الحالة أو مرحلة التجهيز
+// kitchen_status التي لا تُسجل في order_status_history)
+export function subscribeToKitchenChanges(
+  onChange: () => void,
+  channelName = "kitchen-board"
+): () => void {
+  const channel = supabase
+    .channel(channelName)
+    .on(
+      "postgres_changes",
+      { event: "*", schema: "public", table: "orders" },
+      () => onChange()
+    )
+    .subscribe((status, err) => {
+      if (err) {
+        console.error("خطأ في الاشتراك اللحظي بشاشة المطبخ:", err.message);
+      }
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
 }
 
 export async function deleteOrder(id: string): Promise<void> {
-  const { error } = await supabase.from("orders").delete().eq("id", id);
+  await requirePermission("orders.delete");
+  // حذف ناعم؛ الحجز على المخزون يُحرَّر في قاعدة البيانات (sync_trashed_order_stock)
+  const { error } = await supabase
+    .from("orders")
+    .update({ deleted_at: new Date().toISOString() })
+    .eq("id", id)
+    .is("deleted_at", null);
 
   if (error) {
     console.error("خطأ في حذف الطلب:", error.message);
@@ -240,15 +634,26 @@ export async function deleteOrder(id: string): Promise<void> {
   }
 }
 
-export async function getOrderStats(): Promise<{
+export async function getOrderStats(branchId?: string): Promise<{
   total: number;
   pending: number;
   paid: number;
   shipped: number;
   delivered: number;
   cancelled: number;
+  partially_refunded: number;
+  refunded: number;
 }> {
-  const { data, error } = await supabase.from("orders").select("status");
+  let query = supabase
+    .from("orders")
+    .select("status, refund_status")
+    .is("deleted_at", null);
+
+  if (branchId) {
+    query = query.eq("branch_id", branchId);
+  }
+
+  const { data, error } = await query;
 
   if (error) {
     console.error("خطأ في جلب إحصائيات الطلبات:", error.message);
@@ -266,6 +671,11 @@ export async function getOrderStats(): Promise<{
       data?.filter((order) => order.status === "delivered").length || 0,
     cancelled:
       data?.filter((order) => order.status === "cancelled").length || 0,
+    partially_refunded:
+      data?.filter((order) => order.refund_status === "partially_refunded")
+        .length || 0,
+    refunded:
+      data?.filter((order) => order.refund_status === "refunded").length || 0,
   };
 
   console.log("Debug - Calculated stats:", stats);
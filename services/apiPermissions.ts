@@ -0,0 +1,214 @@
+import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
+
+// الأدوار والصلاحيات — يجب أن تطابق public.role_has_permission في قاعدة البيانات
+
+export type AdminRole = "owner" | "manager" | "branch_staff" | "content_editor";
+
+export type Permission =
+  | "orders.view"
+  | "orders.update"
+  | "orders.delete"
+  | "orders.refund"
+  | "coupons.manage"
+  | "products.view"
+  | "products.manage"
+  | "categories.manage"
+  | "content.manage"
+  | "branches.manage"
+  | "users.view"
+  | "users.manage"
+  | "admins.manage"
+  | "site_settings.manage"
+  | "audit_log.view";
+
+export const ADMIN_ROLES: AdminRole[] = [
+  "owner",
+  "manager",
+  "branch_staff",
+  "content_editor",
+];
+
+export const ROLE_LABELS: Record<AdminRole, string> = {
+  owner: "المالك",
+  manager: "مدير",
+  branch_staff: "موظف فرع",
+  content_editor: "محرر محتوى",
+};
+
+const ALL_PERMISSIONS: Permission[] = [
+  "orders.view",
+  "orders.update",
+  "orders.delete",
+  "orders.refund",
+  "coupons.manage",
+  "products.view",
+  "products.manage",
+  "categories.manage",
+  "content.manage",
+  "branches.manage",
+  "users.view",
+  "users.manage",
+  "admins.manage",
+  "site_settings.manage",
+  "audit_log.view",
+];
+
+export const ROLE_PERMISSIONS: Record<AdminRole, Permission[]> = {
+  owner: ALL_PERMISSIONS,
+  manager: ALL_PERMISSIONS.filter(
+    (permission) =>
+      permission !== "admins.manage" && permission !== "site_settings.manage"
+  ),
+  branch_staff: ["orders.view", "orders.update", "products.view"],
+  content_editor: [
+    "products.view",
+    "products.manage",
+    "categories.manage",
+    "content.manage",
+  ],
+};
+
+// أول بادئة مطابقة هي التي تُطبّق، لذلك المسارات الأكثر تحديداً أولاً
+export const ROUTE_PERMISSIONS: { prefix: string; permission: Permission }[] = [
+  { prefix: "/dashboard/orders", permission: "orders.view" },
+  { prefix: "/dashboard/kitchen", permission: "orders.view" },
+  { prefix: "/dashboard/drivers", permission: "orders.view" },
+  { prefix: "/dashboard/reports", permission: "orders.view" },
+  { prefix: "/dashboard/coupons", permission: "coupons.manage" },
+  { prefix: "/dashboard/news/categories", permission: "categories.manage" },
+  { prefix: "/dashboard/news/create-news", permission: "products.manage" },
+  { prefix: "/dashboard/news/import", permission: "products.manage" },
+  { prefix: "/dashboard/news", permission: "products.view" },
+  { prefix: "/dashboard/users", permission: "users.view" },
+  { prefix: "/dashboard/segments", permission: "users.view" },
+  { prefix: "/dashboard/add-user", permission: "admins.manage" },
+  { prefix: "/dashboard/admins", permission: "admins.manage" },
+  { prefix: "/dashboard/site-settings", permission: "site_settings.manage" },
+  { prefix: "/dashboard/branches", permission: "branches.manage" },
+  { prefix: "/dashboard/ads", permission: "content.manage" },
+  { prefix: "/dashboard/images-gallery", permission: "content.manage" },
+  { prefix: "/dashboard/audit-log", permission: "audit_log.view" },
+  { prefix: "/dashboard/trash", permission: "products.manage" },
+];
+
+export function hasPermission(
+  role: AdminRole | null | undefined,
+  permission: Permission
+): boolean {
+  if (!role) return false;
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
+
+export function getRoutePermission(pathname: string): Permission | null {
+  const route = ROUTE_PERMISSIONS.find(
+    ({ prefix }) => pathname === prefix || pathname.startsWith(prefix + "/")
+  );
+  return route?.permission ?? null;
+}
+
+export interface AdminAccess {
+  userId: string;
+  role: AdminRole;
+  branch_id?: string | null;
+}
+
+export async function getCurrentAdminAccess(): Promise<AdminAccess | null> {
+  const supabase = createClientComponentClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return null;
+
+  const { data, error } = await supabase
+    .from("admin_profiles")
+    .select("role, branch_id")
+    .eq("user_id", user.id)
+    .maybeSingle();
+
+  if (error) {
+    console.error("خطأ في جلب صلاحيات المستخدم:", error.message);
+    throw new Error("تعذر التحقق من الصلاحيات");
+  }
+
+  if (!data) return null;
+
+  return { userId: user.id, role: data.role, branch_id: data.branch_id };
+}
+
+// تُستدعى في بداية كل عملية حساسة في الخدمات
+export async function requirePermission(
+  permission: Permission
+): Promise<AdminAccess> {
+  const access = await getCurrentAdminAccess();
+
+  if (!access || !hasPermission(access.role, permission)) {
+    throw new Error("ليس لديك صلاحية لتنفيذ هذا الإجراء");
+  }
+
+  return access;
+}
+
+export interface AdminMember {
+  user_id: string;
+  full_name: string | null;
+  email: string | null;
+  image_url: string | null;
+  role: AdminRole;
+  branch_id: string | null;
+}
+
+export async function getAdminMembers(): Promise<AdminMember[]> {
+  await requirePermission("admins.manage");
+
+  const supabase = createClientComponentClient();
+  const { data, error } = await supabase
+    .from("admin_profiles")
+    .select("user_id, full_name, email, image_url, role, branch_id")
+    .order("full_name", { ascending: true });
+
+  if (error) {
+    console.error("خطأ في جلب المشرفين:", error.message);
+    throw new Error("تعذر تحميل المشرفين");
+  }
+
+  return data || [];
+}
+
+export async function updateAdminRole({
+  userId,
+  role,
+  branchId,
+}: {
+  userId: string;
+  role: AdminRole;
+  branchId?: string | null;
+}): Promise<void> {
+  const access = await requirePermission("admins.manage");
+
+  // يمنع المالك من إسقاط صلاحياته عن نفسه بالخطأ
+  if (access.userId === userId) {
+    throw new Error("لا يمكنك تغيير دورك بنفسك");
+  }
+
+  if (role === "branch_staff" && !branchId) {
+    throw new Error("يجب تحديد الفرع لموظف الفرع");
+  }
+
+  const supabase = createClientComponentClient();
+  const { error } = await supabase
+    .from("admin_profiles")
+    .update({
+      role,
+      branch_id: role === "branch_staff" ? branchId : null,
+    })
+    .eq("user_id", userId);
+
+  if (error) {
+    console.error("خطأ في تحديث دور المشرف:", error.message);
+    if (error.code === "42501") {
+      throw new Error("ليس لديك صلاحية لتنفيذ هذا الإجراء");
+    }
+    throw new Error("تعذر تحديث دور المشرف");
+  }
+}
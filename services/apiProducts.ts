@@ -1,5 +1,6 @@
 import { decode } from "base64-arraybuffer";
 import supabase from "./supabase";
+import { requirePermission } from "./apiPermissions";
 
 export interface ProductAttribute {
   id?: string;
@@ -8,8 +9,23 @@ export interface ProductAttribute {
   attribute_value: string;
 }
 
+export interface ProductVariant {
+  id?: string;
+  product_id?: string;
+  size?: string | null;
+  option?: string | null;
+  sku: string;
+  price: number;
+  offer_price?: number | null;
+  stock: number;
+  reserved_stock?: number;
+  image_url?: string | null;
+  sort_order?: number;
+}
+
 export interface Product {
   id?: string;
+  sku?: string | null;
   name_ar: string;
   name_en: string;
   description_ar?: string;
@@ -17,13 +33,22 @@ export interface Product {
   price: number;
   offer_price?: number;
   stock?: number;
+  // الكمية المحجوزة للطلبات المفتوحة، والحد الذي يعتبر عنده المخزون منخفضاً
+  reserved_stock?: number;
+  low_stock_threshold?: number;
   image_url?: string[];
   category_id?: string;
+  // يُحسب من المبيعات (refresh_best_sellers) أو بالتثبيت اليدوي
   is_best_seller?: boolean;
+  best_seller_pinned?: boolean;
   limited_time_offer?: boolean;
+  // فترة سريان سعر العرض؛ تلغيه مهمة مجدولة بعد انتهائها
+  offer_starts_at?: string | null;
+  offer_ends_at?: string | null;
   created_at?: string;
   updated_at?: string;
   attributes?: ProductAttribute[];
+  variants?: ProductVariant[];
 }
 
 export async function getProducts(
@@ -48,11 +73,14 @@ export async function getProducts(
         product_id,
         attribute_name,
         attribute_value
-      )
+      ),
+      variants:product_variants(*)
     `,
     { count: "exact" }
   );
 
+  query = query.is("deleted_at", null);
+
   if (filters?.categoryId) {
     query = query.eq("category_id", filters.categoryId);
   }
@@ -128,6 +156,7 @@ export async function getProducts(
       return {
         ...product,
         attributes: processedAttributes,
+        variants: sortVariants(product.variants),
       };
     })
   );
@@ -138,6 +167,24 @@ export async function getProducts(
   };
 }
 
+// قائمة مختصرة للاختيار في النماذج (الكوبونات وغيرها)
+export async function getProductOptions(): Promise<
+  { id: string; name_ar: string; category_id: string | null }[]
+> {
+  const { data, error } = await supabase
+    .from("products")
+    .select("id, name_ar, category_id")
+    .is("deleted_at", null)
+    .order("name_ar", { ascending: true });
+
+  if (error) {
+    console.error("خطأ في جلب المنتجات:", error.message);
+    throw new Error("تعذر تحميل المنتجات");
+  }
+
+  return data || [];
+}
+
 export async function getProductById(id: string): Promise<Product> {
   const { data, error } = await supabase
     .from("products")
@@ -149,10 +196,12 @@ export async function getProductById(id: string): Promise<Product> {
         product_id,
         attribute_name,
         attribute_value
-      )
+      ),
+      variants:product_variants(*)
     `
     )
     .eq("id", id)
+    .is("deleted_at", null)
     .single();
 
   if (error) throw error;
@@ -182,13 +231,56 @@ export async function getProductById(id: string): Promise<Product> {
   const product = {
     ...data,
     attributes: processedAttributes,
+    variants: sortVariants(data.variants),
   };
 
   return product;
 }
 
+export type OfferStatus = "scheduled" | "active" | "expired";
+
+export const OFFER_STATUS_LABELS: Record<OfferStatus, string> = {
+  scheduled: "مجدول",
+  active: "نشط",
+  expired: "منتهي",
+};
+
+export const OFFER_STATUS_CLASS_NAMES: Record<OfferStatus, string> = {
+  scheduled: "bg-primary-50 text-primary-500",
+  active: "bg-success-50 text-success-600",
+  expired: "bg-gray-100 text-gray-500",
+};
+
+export function getOfferStatus(
+  startsAt?: string | null,
+  endsAt?: string | null,
+  now = new Date()
+): OfferStatus {
+  if (startsAt && now < new Date(startsAt)) return "scheduled";
+  if (endsAt && now >= new Date(endsAt)) return "expired";
+  return "active";
+}
+
+// حالة سعر العرض على المنتج؛ null إذا لم يكن للمنتج سعر عرض
+export function getProductOfferStatus(product: Product): OfferStatus | null {
+  if (!product.offer_price && !product.offer_ends_at) return null;
+  return getOfferStatus(product.offer_starts_at, product.offer_ends_at);
+}
+
+function validateOfferWindow(product: Partial<Product>) {
+  if (
+    product.offer_starts_at &&
+    product.offer_ends_at &&
+    new Date(product.offer_ends_at) <= new Date(product.offer_starts_at)
+  ) {
+    throw new Error("تاريخ انتهاء العرض يجب أن يكون بعد تاريخ بدايته");
+  }
+}
+
 export async function createProduct(productData: Product): Promise<Product> {
-  const { attributes, ...product } = productData;
+  await requirePermission("products.manage");
+  const { attributes, variants, ...product } = productData;
+  validateOfferWindow(product);
 
   // Create the product first
   const { data: createdProduct, error: productError } = await supabase
@@ -199,6 +291,9 @@ export async function createProduct(productData: Product): Promise<Product> {
 
   if (productError) {
     console.error("خطأ في إنشاء المنتج:", productError);
+    if (productError.code === "23505") {
+      throw new Error("رمز SKU مستخدم لمنتج آخر");
+    }
     throw new Error("تعذر إنشاء المنتج");
   }
 
@@ -219,10 +314,16 @@ export async function createProduct(productData: Product): Promise<Product> {
     }
   }
 
+  const savedVariants =
+    variants && variants.length > 0
+      ? await saveProductVariants(createdProduct.id, variants)
+      : [];
+
   // إرجاع المنتج مع الخصائص
   const finalProduct = {
     ...createdProduct,
     attributes: attributes || [],
+    variants: savedVariants,
   };
 
   return finalProduct;
@@ -269,56 +370,43 @@ export async function uploadProductImage(
   return publicUrlData.publicUrl;
 }
 
+// حذف ناعم: المنتج ينتقل إلى سلة المحذوفات وتبقى صوره حتى الحذف النهائي
 export async function deleteProduct(id: string) {
-  // First, get the product to check if it has images
-  const { data: product, error: fetchError } = await supabase
+  await requirePermission("products.manage");
+
+  const { error } = await supabase
     .from("products")
-    .select("image_url")
+    .update({ deleted_at: new Date().toISOString() })
     .eq("id", id)
-    .single();
+    .is("deleted_at", null);
 
-  if (fetchError) {
-    console.error("Supabase fetch error:", fetchError);
-    throw new Error("حدث خطأ أثناء جلب بيانات المنتج");
+  if (error) {
+    console.error("خطأ في حذف المنتج:", error.message);
+    throw new Error("حدث خطأ أثناء حذف المنتج");
   }
+}
 
-  // Delete the images if they exist
-  if (product?.image_url && product.image_url.length > 0) {
-    for (const imageUrl of product.image_url) {
-      const path = new URL(imageUrl).pathname;
-      const match = path.match(
-        /\/storage\/v1\/object\/public\/product-images\/(.+)/
-      );
-      const filePath = match?.[1];
-
-      if (filePath) {
-        const { error: storageError } = await supabase.storage
-          .from("product-images")
-          .remove([filePath]);
-
-        if (storageError) {
-          console.error("فشل حذف صورة المنتج:", storageError);
-        }
-      }
-    }
-  }
+// إعادة حساب أفضل المبيعات الآن بدلاً من انتظار المهمة المجدولة
+export async function refreshBestSellers(): Promise<number> {
+  await requirePermission("products.manage");
 
-  // Delete the product (attributes will be deleted automatically due to CASCADE)
-  const { error: deleteError } = await supabase
-    .from("products")
-    .delete()
-    .eq("id", id);
+  const { data, error } = await supabase.rpc("refresh_best_sellers");
 
-  if (deleteError) {
-    throw new Error("حدث خطأ أثناء حذف المنتج");
+  if (error) {
+    console.error("خطأ في تحديث أفضل المبيعات:", error.message);
+    throw new Error("تعذر تحديث أفضل المبيعات");
   }
+
+  return data as number;
 }
 
 export async function updateProduct(
   id: string,
   updatedProduct: Partial<Product>
 ) {
-  const { attributes, ...product } = updatedProduct;
+  await requirePermission("products.manage");
+  const { attributes, variants, ...product } = updatedProduct;
+  validateOfferWindow(product);
 
   // Update the product
   const { data, error } = await supabase
@@ -330,6 +418,12 @@ export async function updateProduct(
 
   if (error) {
     console.error("خطأ في تحديث المنتج:", error.message);
+    if (error.code === "23514" || error.code === "P0004") {
+      throw new Error("لا يمكن أن يقل المخزون عن الكمية المحجوزة للطلبات");
+    }
+    if (error.code === "23505") {
+      throw new Error("رمز SKU مستخدم لمنتج آخر");
+    }
     throw new Error("تعذر تحديث المنتج");
   }
 
@@ -363,6 +457,11 @@ export async function updateProduct(
     }
   }
 
+  const savedVariants =
+    variants !== undefined
+      ? await saveProductVariants(id, variants)
+      : sortVariants(data.variants);
+
   // إرجاع المنتج مع الخصائص المحدثة
   let finalAttributes = [];
 
@@ -381,7 +480,95 @@ export async function updateProduct(
   const finalProduct = {
     ...data,
     attributes: finalAttributes,
+    variants: savedVariants,
   };
 
   return finalProduct;
 }
+
+function sortVariants(variants?: ProductVariant[] | null): ProductVariant[] {
+  return [...(variants || [])].sort(
+    (a, b) => (a.sort_order ?? 0) - (b.sort_order ?? 0)
+  );
+}
+
+// يستبدل متغيرات المنتج بالقائمة المرسلة: يحدّث الموجود ويضيف الجديد ويحذف ما أزيل
+export async function saveProductVariants(
+  productId: string,
+  variants: ProductVariant[]
+): Promise<ProductVariant[]> {
+  const rows = variants.map((variant, index) => ({
+    ...(variant.id ? { id: variant.id } : {}),
+    product_id: productId,
+    size: variant.size?.trim() || null,
+    option: variant.option?.trim() || null,
+    sku: variant.sku.trim(),
+    price: variant.price,
+    offer_price:
+      variant.offer_price && variant.offer_price > 0
+        ? variant.offer_price
+        : null,
+    stock: variant.stock || 0,
+    image_url: variant.image_url || null,
+    sort_order: index,
+  }));
+
+  if (rows.some((row) => !row.sku)) {
+    throw new Error("يجب إدخال رمز SKU لكل متغير");
+  }
+
+  const keptIds = rows.filter((row) => row.id).map((row) => row.id as string);
+
+  let deleteQuery = supabase
+    .from("product_variants")
+    .delete()
+    .eq("product_id", productId);
+
+  if (keptIds.length > 0) {
+    deleteQuery = deleteQuery.not("id", "in", `(${keptIds.join(",")})`);
+  }
+
+  const { error: deleteError } = await deleteQuery;
+
+  if (deleteError) {
+    console.error("خطأ في حذف المتغيرات القديمة:", deleteError.message);
+    throw new Error("تعذر تحديث متغيرات المنتج");
+  }
+
+  if (rows.length === 0) return [];
+
+  const existingRows = rows.filter((row) => row.id);
+  const newRows = rows.filter((row) => !row.id);
+  const saved: ProductVariant[] = [];
+
+  for (const batch of [existingRows, newRows]) {
+    if (batch.length === 0) continue;
+
+    const { data, error } = await supabase
+      .from("product_variants")
+      .upsert(batch)
+      .select();
+
+    if (error) {
+      console.error("خطأ في حفظ متغيرات المنتج:", error.message);
+      if (error.code === "23505") {
+        throw new Error("رمز SKU أو تركيبة المتغير مستخدمة مسبقاً");
+      }
+      if (error.code === "23514") {
+        throw new Error("لا يمكن أن يقل مخزون المتغير عن الكمية المحجوزة");
+      }
+      throw new Error("تعذر حفظ متغيرات المنتج");
+    }
+
+    saved.push(...(data || []));
+  }
+
+  return sortVariants(saved);
+}
+
+export function getVariantLabel(variant: {
+  size?: string | null;
+  option?: string | null;
+}): string {
+  return [variant.size, variant.option].filter(Boolean).join(" / ");
+}
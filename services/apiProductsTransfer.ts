@@ -0,0 +1,566 @@
+import supabase from "./supabase";
+import { getCategories } from "./apiCategories";
+import { Product } from "./apiProducts";
+import { requirePermission } from "./apiPermissions";
+
+// استيراد وتصدير المنتجات وخصائصها (CSV / XLSX) مع التحديث حسب SKU
+
+export type TransferFormat = "csv" | "xlsx";
+
+type Category = { id: string; name_ar: string; name_en: string };
+
+type RawRow = Record<string, unknown>;
+
+export const PRODUCT_COLUMNS = [
+  { key: "sku", label: "رمز المنتج" },
+  { key: "name_ar", label: "الاسم بالعربي" },
+  { key: "name_en", label: "الاسم بالانجليزي" },
+  { key: "category", label: "التصنيف" },
+  { key: "description_ar", label: "الوصف بالعربي" },
+  { key: "description_en", label: "الوصف بالانجليزي" },
+  { key: "price", label: "السعر" },
+  { key: "offer_price", label: "سعر العرض" },
+  { key: "stock", label: "المخزون" },
+  { key: "low_stock_threshold", label: "حد التنبيه" },
+  { key: "best_seller_pinned", label: "مثبت في أفضل المبيعات" },
+  { key: "limited_time_offer", label: "عرض محدود" },
+  { key: "image_urls", label: "روابط الصور" },
+] as const;
+
+export const ATTRIBUTE_COLUMNS = [
+  { key: "sku", label: "رمز المنتج" },
+  { key: "attribute_name", label: "اسم الخاصية" },
+  { key: "attribute_value", label: "قيمة الخاصية" },
+] as const;
+
+const PRODUCTS_SHEET = "products";
+const ATTRIBUTES_SHEET = "product_attributes";
+const IMAGE_URL_SEPARATOR = "|";
+
+export interface ImportProductRow {
+  rowNumber: number;
+  sku: string;
+  action: "create" | "update";
+  errors: string[];
+  product?: Omit<Product, "attributes" | "image_url"> & { sku: string };
+  imageUrls: string[];
+}
+
+export interface ImportAttributeRow {
+  rowNumber: number;
+  sku: string;
+  errors: string[];
+  attribute_name: string;
+  attribute_value: string;
+}
+
+export interface ImportReport {
+  products: ImportProductRow[];
+  attributes: ImportAttributeRow[];
+  validCount: number;
+  errorCount: number;
+}
+
+export interface ImportResultRow {
+  rowNumber: number;
+  sku: string;
+  status: "created" | "updated" | "failed";
+  messages: string[];
+}
+
+// ---------- Export ----------
+
+async function fetchAllProducts() {
+  const pageSize = 1000;
+  const products: Product[] = [];
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase
+      .from("products")
+      .select(
+        "*, attributes:product_attributes(attribute_name, attribute_value)"
+      )
+      .is("deleted_at", null)
+      .order("created_at", { ascending: true })
+      .range(from, from + pageSize - 1);
+
+    if (error) {
+      console.error("خطأ في جلب المنتجات للتصدير:", error.message);
+      throw new Error("تعذر تصدير المنتجات");
+    }
+
+    products.push(...(data || []));
+    if (!data || data.length < pageSize) break;
+  }
+
+  return products;
+}
+
+export async function exportProducts(format: TransferFormat) {
+  await requirePermission("products.view");
+  const [products, categories, XLSX] = await Promise.all([
+    fetchAllProducts(),
+    getCategories() as Promise<Category[]>,
+    import("xlsx"),
+  ]);
+
+  const categoriesById = new Map(categories.map((c) => [String(c.id), c]));
+
+  const productRows = products.map((product) => {
+    const category = categoriesById.get(String(product.category_id));
+    return {
+      sku: product.sku || "",
+      name_ar: product.name_ar,
+      name_en: product.name_en,
+      category: category?.name_ar || "",
+      description_ar: product.description_ar || "",
+      description_en: product.description_en || "",
+      price: product.price,
+      offer_price: product.offer_price ?? "",
+      stock: product.stock ?? 0,
+      low_stock_threshold: product.low_stock_threshold ?? "",
+      best_seller_pinned: product.best_seller_pinned ? "true" : "false",
+      limited_time_offer: product.limited_time_offer ? "true" : "false",
+      image_urls: (product.image_url || []).join(IMAGE_URL_SEPARATOR),
+    };
+  });
+
+  const attributeRows = products.flatMap((product) =>
+    (product.attributes || []).map((attribute) => ({
+      sku: product.sku || "",
+      attribute_name: attribute.attribute_name,
+      attribute_value: attribute.attribute_value,
+    }))
+  );
+
+  const productsSheet = XLSX.utils.json_to_sheet(productRows, {
+    header: PRODUCT_COLUMNS.map((c) => c.key),
+  });
+  const attributesSheet = XLSX.utils.json_to_sheet(attributeRows, {
+    header: ATTRIBUTE_COLUMNS.map((c) => c.key),
+  });
+
+  const date = new Date().toISOString().split("T")[0];
+
+  if (format === "xlsx") {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, productsSheet, PRODUCTS_SHEET);
+    XLSX.utils.book_append_sheet(workbook, attributesSheet, ATTRIBUTES_SHEET);
+    XLSX.writeFile(workbook, `products-${date}.xlsx`);
+    return;
+  }
+
+  // CSV: ملف لكل جدول، مع BOM ليفتح Excel النص العربي بشكل صحيح
+  downloadCsv(XLSX.utils.sheet_to_csv(productsSheet), `products-${date}.csv`);
+  downloadCsv(
+    XLSX.utils.sheet_to_csv(attributesSheet),
+    `product_attributes-${date}.csv`
+  );
+}
+
+export function downloadCsv(content: string, fileName: string) {
+  const blob = new Blob(["\uFEFF" + content], {
+    type: "text/csv;charset=utf-8",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// ---------- Import ----------
+
+// يقبل رؤوس الأعمدة بالإنجليزية أو بالعربية
+function normalizeRow(
+  row: RawRow,
+  columns: readonly { key: string; label: string }[]
+): Record<string, string> {
+  const normalized: Record<string, string> = {};
+
+  Object.entries(row).forEach(([header, value]) => {
+    const cleanHeader = header.replace(/^\uFEFF/, "").trim();
+    const column = columns.find(
+      (c) =>
+        c.key === cleanHeader.toLowerCase() || c.label === cleanHeader.trim()
+    );
+    if (column) {
+      normalized[column.key] =
+        value === null || value === undefined ? "" : String(value).trim();
+    }
+  });
+
+  return normalized;
+}
+
+function isAttributesSheet(rows: RawRow[]) {
+  const headers = Object.keys(rows[0] || {}).map((h) =>
+    h.replace(/^\uFEFF/, "").trim()
+  );
+  return headers.some(
+    (h) => h === "attribute_name" || h === ATTRIBUTE_COLUMNS[1].label
+  );
+}
+
+// يقرأ ملف XLSX (بورقتي المنتجات والخصائص) أو ملفات CSV منفصلة
+export async function parseImportFiles(files: File[]): Promise<{
+  products: RawRow[];
+  attributes: RawRow[];
+}> {
+  const XLSX = await import("xlsx");
+  const products: RawRow[] = [];
+  const attributes: RawRow[] = [];
+
+  for (const file of files) {
+    const buffer = await file.arrayBuffer();
+    const workbook = XLSX.read(buffer, {
+      type: "array",
+      codepage: 65001,
+    });
+
+    workbook.SheetNames.forEach((sheetName) => {
+      const rows = XLSX.utils.sheet_to_json<RawRow>(
+        workbook.Sheets[sheetName],
+        { defval: "", raw: false }
+      );
+      if (rows.length === 0) return;
+
+      if (sheetName === ATTRIBUTES_SHEET || isAttributesSheet(rows)) {
+        attributes.push(...rows);
+      } else {
+        products.push(...rows);
+      }
+    });
+  }
+
+  return { products, attributes };
+}
+
+function parseNumber(value: string): number | null {
+  if (value === "") return null;
+  const number = Number(value.replace(/,/g, ""));
+  return Number.isFinite(number) ? number : NaN;
+}
+
+function parseBoolean(value: string): boolean | null {
+  const normalized = value.toLowerCase();
+  if (["true", "1", "yes", "نعم"].includes(normalized)) return true;
+  if (["false", "0", "no", "لا", ""].includes(normalized)) return false;
+  return null;
+}
+
+function isHttpUrl(value: string) {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+async function getExistingSkus(skus: string[]): Promise<Set<string>> {
+  const existing = new Set<string>();
+  const chunkSize = 200;
+
+  for (let i = 0; i < skus.length; i += chunkSize) {
+    const { data, error } = await supabase
+      .from("products")
+      .select("sku")
+      .in("sku", skus.slice(i, i + chunkSize));
+
+    if (error) {
+      console.error("خطأ في التحقق من رموز المنتجات:", error.message);
+      throw new Error("تعذر التحقق من رموز المنتجات");
+    }
+
+    (data || []).forEach((row) => existing.add(row.sku));
+  }
+
+  return existing;
+}
+
+// التشغيل التجريبي: يتحقق من كل صف دون أي كتابة في قاعدة البيانات
+export async function validateProductImport(parsed: {
+  products: RawRow[];
+  attributes: RawRow[];
+}): Promise<ImportReport> {
+  const categories = (await getCategories()) as Category[];
+  const findCategory = (name: string) => {
+    const needle = name.trim().toLowerCase();
+    return categories.find(
+      (c) =>
+        c.name_ar?.trim().toLowerCase() === needle ||
+        c.name_en?.trim().toLowerCase() === needle
+    );
+  };
+
+  const productRows = parsed.products.map((row) =>
+    normalizeRow(row, PRODUCT_COLUMNS)
+  );
+  const existingSkus = await getExistingSkus(
+    productRows.map((row) => row.sku).filter(Boolean)
+  );
+  const seenSkus = new Set<string>();
+
+  // الصف الأول في الملف هو رؤوس الأعمدة
+  const products: ImportProductRow[] = productRows.map((row, index) => {
+    const errors: string[] = [];
+    const sku = row.sku || "";
+
+    if (!sku) {
+      errors.push("رمز المنتج (SKU) مطلوب");
+    } else if (seenSkus.has(sku)) {
+      errors.push("رمز المنتج مكرر في الملف");
+    }
+    seenSkus.add(sku);
+
+    if (!row.name_ar) errors.push("الاسم بالعربي مطلوب");
+    if (!row.name_en) errors.push("الاسم بالانجليزي مطلوب");
+
+    const category = row.category ? findCategory(row.category) : undefined;
+    if (!row.category) {
+      errors.push("التصنيف مطلوب");
+    } else if (!category) {
+      errors.push(`التصنيف "${row.category}" غير موجود`);
+    }
+
+    const price = parseNumber(row.price || "");
+    if (price === null || Number.isNaN(price) || price < 0) {
+      errors.push("السعر يجب أن يكون رقماً أكبر من أو يساوي 0");
+    }
+
+    const offerPrice = parseNumber(row.offer_price || "");
+    if (offerPrice !== null) {
+      if (Number.isNaN(offerPrice) || offerPrice <= 0) {
+        errors.push("سعر العرض يجب أن يكون رقماً أكبر من 0");
+      } else if (price !== null && offerPrice >= price) {
+        errors.push("سعر العرض يجب أن يكون أقل من السعر");
+      }
+    }
+
+    const stock = parseNumber(row.stock || "");
+    if (
+      stock !== null &&
+      (Number.isNaN(stock) || !Number.isInteger(stock) || stock < 0)
+    ) {
+      errors.push("المخزون يجب أن يكون عدداً صحيحاً غير سالب");
+    }
+
+    const threshold = parseNumber(row.low_stock_threshold || "");
+    if (
+      threshold !== null &&
+      (Number.isNaN(threshold) || !Number.isInteger(threshold) || threshold < 0)
+    ) {
+      errors.push("حد التنبيه يجب أن يكون عدداً صحيحاً غير سالب");
+    }
+
+    // أفضل المبيعات تُحسب من المبيعات، لذلك يُنقل التثبيت اليدوي فقط
+    const bestSellerPinned = parseBoolean(row.best_seller_pinned || "");
+    const limitedTimeOffer = parseBoolean(row.limited_time_offer || "");
+    if (bestSellerPinned === null)
+      errors.push("قيمة (مثبت في أفضل المبيعات) غير صحيحة");
+    if (limitedTimeOffer === null) errors.push("قيمة (عرض محدود) غير صحيحة");
+
+    const imageUrls = (row.image_urls || "")
+      .split(/[|\n]/)
+      .map((url) => url.trim())
+      .filter(Boolean);
+    imageUrls
+      .filter((url) => !isHttpUrl(url))
+      .forEach((url) => errors.push(`رابط صورة غير صالح: ${url}`));
+
+    return {
+      rowNumber: index + 2,
+      sku,
+      action: existingSkus.has(sku) ? "update" : "create",
+      errors,
+      imageUrls,
+      product:
+        errors.length === 0
+          ? {
+              sku,
+              name_ar: row.name_ar,
+              name_en: row.name_en,
+              category_id: category?.id,
+              description_ar: row.description_ar || "",
+              description_en: row.description_en || "",
+              price: price as number,
+              offer_price: offerPrice ?? undefined,
+              ...(stock !== null ? { stock } : {}),
+              ...(threshold !== null ? { low_stock_threshold: threshold } : {}),
+              best_seller_pinned: !!bestSellerPinned,
+              limited_time_offer: !!limitedTimeOffer,
+            }
+          : undefined,
+    };
+  });
+
+  const attributes: ImportAttributeRow[] = parsed.attributes.map(
+    (raw, index) => {
+      const row = normalizeRow(raw, ATTRIBUTE_COLUMNS);
+      const errors: string[] = [];
+      const sku = row.sku || "";
+
+      if (!sku) {
+        errors.push("رمز المنتج (SKU) مطلوب");
+      } else if (!seenSkus.has(sku)) {
+        errors.push("رمز المنتج غير موجود في ورقة المنتجات");
+      }
+      if (!row.attribute_name) errors.push("اسم الخاصية مطلوب");
+
+      return {
+        rowNumber: index + 2,
+        sku,
+        errors,
+        attribute_name: row.attribute_name || "",
+        attribute_value: row.attribute_value || "",
+      };
+    }
+  );
+
+  const errorCount =
+    products.filter((row) => row.errors.length > 0).length +
+    attributes.filter((row) => row.errors.length > 0).length;
+
+  return {
+    products,
+    attributes,
+    validCount: products.filter((row) => row.errors.length === 0).length,
+    errorCount,
+  };
+}
+
+// تنزيل صورة خارجية ورفعها إلى حاوية product-images؛ التنزيل يتم على الخادم
+// (src/app/api/products/import-image) لأن CORS يمنعه من المتصفح
+async function importImage(url: string): Promise<string> {
+  if (url.includes("/storage/v1/object/public/product-images/")) {
+    return url;
+  }
+
+  const response = await fetch("/api/products/import-image/", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ url }),
+  });
+  const result: { url?: string; error?: string } = await response
+    .json()
+    .catch(() => ({}));
+
+  if (!response.ok || !result.url) {
+    throw new Error(result.error || `تعذر استيراد الصورة: ${url}`);
+  }
+
+  return result.url;
+}
+
+// ينفّذ الاستيراد للصفوف السليمة فقط، صفاً صفاً، ويعيد نتيجة كل صف
+export async function runProductImport(
+  report: ImportReport,
+  onProgress?: (done: number, total: number) => void
+): Promise<ImportResultRow[]> {
+  await requirePermission("products.manage");
+  const validRows = report.products.filter(
+    (row) => row.errors.length === 0 && row.product
+  );
+  const attributesBySku = new Map<string, ImportAttributeRow[]>();
+  report.attributes
+    .filter((row) => row.errors.length === 0)
+    .forEach((row) => {
+      attributesBySku.set(row.sku, [
+        ...(attributesBySku.get(row.sku) || []),
+        row,
+      ]);
+    });
+
+  const results: ImportResultRow[] = [];
+
+  for (const [index, row] of validRows.entries()) {
+    const messages: string[] = [];
+
+    try {
+      const imageUrls: string[] = [];
+      for (const url of row.imageUrls) {
+        try {
+          imageUrls.push(await importImage(url));
+        } catch (error) {
+          messages.push(
+            error instanceof Error ? error.message : `تعذر استيراد ${url}`
+          );
+        }
+      }
+
+      const { data: saved, error } = await supabase
+        .from("products")
+        .upsert(
+          {
+            ...row.product,
+            ...(imageUrls.length > 0 ? { image_url: imageUrls } : {}),
+            // إعادة استيراد SKU محذوف تعيده من سلة المحذوفات
+            deleted_at: null,
+          },
+          { onConflict: "sku" }
+        )
+        .select("id")
+        .single();
+
+      if (error) {
+        console.error(`خطأ في استيراد المنتج ${row.sku}:`, error.message);
+        throw new Error(
+          error.code === "23514"
+            ? "لا يمكن أن يقل المخزون عن الكمية المحجوزة للطلبات"
+            : "تعذر حفظ المنتج"
+        );
+      }
+
+      const attributes = attributesBySku.get(row.sku);
+      if (attributes) {
+        const { error: deleteError } = await supabase
+          .from("product_attributes")
+          .delete()
+          .eq("product_id", saved.id);
+
+        if (deleteError) {
+          console.error("خطأ في حذف الخصائص السابقة:", deleteError.message);
+          throw new Error("تعذر تحديث خصائص المنتج");
+        }
+
+        const { error: attributesError } = await supabase
+          .from("product_attributes")
+          .insert(
+            attributes.map((attribute) => ({
+              product_id: saved.id,
+              attribute_name: attribute.attribute_name,
+              attribute_value: attribute.attribute_value,
+            }))
+          );
+
+        if (attributesError) {
+          console.error("خطأ في استيراد الخصائص:", attributesError.message);
+          messages.push("تعذر حفظ خصائص المنتج");
+        }
+      }
+
+      results.push({
+        rowNumber: row.rowNumber,
+        sku: row.sku,
+        status: row.action === "update" ? "updated" : "created",
+        messages,
+      });
+    } catch (error) {
+      results.push({
+        rowNumber: row.rowNumber,
+        sku: row.sku,
+        status: "failed",
+        messages: [
+          ...messages,
+          error instanceof Error ? error.message : "خطأ غير معروف",
+        ],
+      });
+    }
+
+    onProgress?.(index + 1, validRows.length);
+  }
+
+  return results;
+}
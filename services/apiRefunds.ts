@@ -0,0 +1,73 @@
+import supabase from "./supabase";
+import type { Payment, Refund } from "./apiOrders";
+import { requirePermission } from "./apiPermissions";
+
+export function getRefundedAmount(payment: Payment): number {
+  return (payment.refunds || []).reduce(
+    (sum, refund) => sum + Number(refund.amount),
+    0
+  );
+}
+
+// المبلغ المتبقي القابل للاسترداد من الدفعة (صفر إذا لم تكن الدفعة محصّلة)
+export function getRefundableAmount(payment: Payment): number {
+  if (
+    payment.payment_status !== "completed" &&
+    payment.payment_status !== "partially_refunded"
+  ) {
+    return 0;
+  }
+
+  const remaining = Number(payment.amount) - getRefundedAmount(payment);
+  return Math.max(0, Math.round(remaining * 100) / 100);
+}
+
+export async function refundPayment({
+  paymentId,
+  amount,
+  reason,
+  payment,
+}: {
+  paymentId: string;
+  amount: number;
+  reason: string;
+  payment?: Payment;
+}): Promise<Refund> {
+  await requirePermission("orders.refund");
+  if (!(amount > 0)) {
+    throw new Error("يجب أن يكون مبلغ الاسترداد أكبر من صفر");
+  }
+
+  if (!reason.trim()) {
+    throw new Error("يرجى إدخال سبب الاسترداد");
+  }
+
+  if (payment && amount > getRefundableAmount(payment)) {
+    throw new Error(
+      `لا يمكن أن يتجاوز الاسترداد المبلغ المتبقي (${getRefundableAmount(
+        payment
+      ).toFixed(2)})`
+    );
+  }
+
+  const { data, error } = await supabase
+    .rpc("refund_payment", {
+      p_payment_id: paymentId,
+      p_amount: amount,
+      p_reason: reason.trim(),
+    })
+    .single();
+
+  if (error) {
+    console.error("خطأ في استرداد المبلغ:", error.message);
+    if (error.code === "P0003") {
+      throw new Error("مبلغ الاسترداد يتجاوز المبلغ المحصّل");
+    }
+    if (error.code === "P0001") {
+      throw new Error("لا يمكن استرداد هذه الدفعة");
+    }
+    throw new Error("تعذر تنفيذ عملية الاسترداد");
+  }
+
+  return data as Refund;
+}
@@ -0,0 +1,266 @@
+import supabase from "./supabase";
+import {
+  AnalyticsFilters,
+  getPreviousRange,
+  validateAnalyticsRange,
+} from "./apiAnalytics";
+import { downloadCsv, TransferFormat } from "./apiProductsTransfer";
+
+// تقارير المبيعات: المبالغ إجمالية قبل المرتجعات، من الطلبات المدفوعة فقط (sales_report)
+
+export type ReportDimension =
+  | "product"
+  | "category"
+  | "branch"
+  | "payment_method"
+  | "hour"
+  | "weekday";
+
+export const REPORT_DIMENSIONS: {
+  value: ReportDimension;
+  label: string;
+  column: string;
+}[] = [
+  { value: "product", label: "حسب المنتج", column: "المنتج" },
+  { value: "category", label: "حسب التصنيف", column: "التصنيف" },
+  { value: "branch", label: "حسب الفرع", column: "الفرع" },
+  { value: "payment_method", label: "حسب طريقة الدفع", column: "طريقة الدفع" },
+  { value: "hour", label: "حسب ساعة اليوم", column: "الساعة" },
+  { value: "weekday", label: "حسب يوم الأسبوع", column: "اليوم" },
+];
+
+export const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  paypal: "PayPal",
+  stripe: "Stripe",
+  cod: "الدفع عند الاستلام",
+};
+
+// أيام الأسبوع بترقيم ISO (1 = الاثنين)
+const WEEKDAY_LABELS: Record<string, string> = {
+  "1": "الاثنين",
+  "2": "الثلاثاء",
+  "3": "الأربعاء",
+  "4": "الخميس",
+  "5": "الجمعة",
+  "6": "السبت",
+  "7": "الأحد",
+};
+
+export type ReportExportFormat = TransferFormat | "pdf";
+
+interface SalesReportRpcRow {
+  key: string | null;
+  label: string | null;
+  order_count: number;
+  quantity: number;
+  revenue: number;
+}
+
+export interface SalesReportRow {
+  key: string;
+  label: string;
+  order_count: number;
+  // عدد القطع المباعة، أو عدد عمليات الدفع في تقرير طرق الدفع
+  quantity: number;
+  revenue: number;
+  previous_order_count: number;
+  previous_quantity: number;
+  previous_revenue: number;
+  // نسبة التغير عن الفترة السابقة، null إذا لم تكن هناك مبيعات سابقة
+  revenue_change: number | null;
+  // حصة المجموعة من إجمالي مبيعات الفترة
+  share: number;
+}
+
+export interface SalesReportTotals {
+  order_count: number;
+  quantity: number;
+  revenue: number;
+  previous_revenue: number;
+  revenue_change: number | null;
+}
+
+export interface SalesReport {
+  dimension: ReportDimension;
+  filters: AnalyticsFilters;
+  previous: AnalyticsFilters;
+  rows: SalesReportRow[];
+  totals: SalesReportTotals;
+}
+
+function getRowLabel(
+  dimension: ReportDimension,
+  key: string | null,
+  label: string | null
+) {
+  switch (dimension) {
+    case "product":
+      return label || "منتج محذوف";
+    case "category":
+      if (key === "combo") return "عروض مجمّعة";
+      return label || "بدون تصنيف";
+    case "branch":
+      return label || "بدون فرع";
+    case "payment_method":
+      return (key && PAYMENT_METHOD_LABELS[key]) || key || "غير محدد";
+    case "hour":
+      return `${String(key).padStart(2, "0")}:00`;
+    case "weekday":
+      return WEEKDAY_LABELS[String(key)] || String(key);
+  }
+}
+
+function getChange(current: number, previous: number) {
+  if (!previous) return null;
+  return Math.round(((current - previous) / previous) * 1000) / 10;
+}
+
+async function fetchSalesReport(
+  dimension: ReportDimension,
+  filters: AnalyticsFilters
+): Promise<SalesReportRpcRow[]> {
+  const { data, error } = await supabase.rpc("sales_report", {
+    p_from: filters.from,
+    p_to: filters.to,
+    p_dimension: dimension,
+    p_branch_id: filters.branchId || null,
+  });
+
+  if (error) {
+    console.error("خطأ في جلب تقرير المبيعات:", error.message);
+    throw new Error("تعذر تحميل تقرير المبيعات");
+  }
+
+  return (data || []) as SalesReportRpcRow[];
+}
+
+// تقرير الفترة مع مقارنته بالفترة السابقة المساوية لها في الطول
+export async function getSalesReport(
+  dimension: ReportDimension,
+  filters: AnalyticsFilters
+): Promise<SalesReport> {
+  validateAnalyticsRange(filters);
+  const previous = { ...getPreviousRange(filters), branchId: filters.branchId };
+
+  const [currentRows, previousRows] = await Promise.all([
+    fetchSalesReport(dimension, filters),
+    fetchSalesReport(dimension, previous),
+  ]);
+
+  const previousByKey = new Map(
+    previousRows.map((row) => [String(row.key), row])
+  );
+  const totalRevenue = currentRows.reduce(
+    (sum, row) => sum + Number(row.revenue),
+    0
+  );
+
+  // المجموعات التي باعت في الفترة السابقة فقط تظهر بقيم صفرية للفترة الحالية
+  const keys = [
+    ...currentRows.map((row) => String(row.key)),
+    ...previousRows
+      .map((row) => String(row.key))
+      .filter((key) => !currentRows.some((row) => String(row.key) === key)),
+  ];
+  const currentByKey = new Map(
+    currentRows.map((row) => [String(row.key), row])
+  );
+
+  const rows: SalesReportRow[] = keys.map((key) => {
+    const current = currentByKey.get(key);
+    const before = previousByKey.get(key);
+    const revenue = Number(current?.revenue ?? 0);
+    const previousRevenue = Number(before?.revenue ?? 0);
+
+    return {
+      key,
+      label: getRowLabel(
+        dimension,
+        current?.key ?? before?.key ?? null,
+        current?.label ?? before?.label ?? null
+      ),
+      order_count: Number(current?.order_count ?? 0),
+      quantity: Number(current?.quantity ?? 0),
+      revenue,
+      previous_order_count: Number(before?.order_count ?? 0),
+      previous_quantity: Number(before?.quantity ?? 0),
+      previous_revenue: previousRevenue,
+      revenue_change: getChange(revenue, previousRevenue),
+      share: totalRevenue
+        ? Math.round((revenue / totalRevenue) * 1000) / 10
+        : 0,
+    };
+  });
+
+  const previousTotal = rows.reduce(
+    (sum, row) => sum + row.previous_revenue,
+    0
+  );
+
+  return {
+    dimension,
+    filters,
+    previous,
+    rows,
+    totals: {
+      // طلب واحد قد يظهر في أكثر من منتج أو تصنيف، لذلك لا تُجمع الطلبات هنا
+      order_count:
+        dimension === "product" || dimension === "category"
+          ? 0
+          : rows.reduce((sum, row) => sum + row.order_count, 0),
+      quantity: rows.reduce((sum, row) => sum + row.quantity, 0),
+      revenue: totalRevenue,
+      previous_revenue: previousTotal,
+      revenue_change: getChange(totalRevenue, previousTotal),
+    },
+  };
+}
+
+export function getReportColumns(dimension: ReportDimension) {
+  const column =
+    REPORT_DIMENSIONS.find((d) => d.value === dimension)?.column || "";
+
+  return [
+    { key: "label", label: column },
+    { key: "order_count", label: "الطلبات" },
+    {
+      key: "quantity",
+      label: dimension === "payment_method" ? "عمليات الدفع" : "الكمية",
+    },
+    { key: "revenue", label: "المبيعات" },
+    { key: "previous_revenue", label: "الفترة السابقة" },
+    { key: "revenue_change", label: "التغير %" },
+    { key: "share", label: "الحصة %" },
+  ] as const;
+}
+
+export function getReportFileName(report: SalesReport, extension: string) {
+  return `sales-${report.dimension}-${report.filters.from}_${report.filters.to}.${extension}`;
+}
+
+// تصدير CSV / XLSX، أما PDF فيُرسم من جدول الصفحة (downloadElementAsPdf)
+export async function exportSalesReport(
+  report: SalesReport,
+  format: TransferFormat
+) {
+  const XLSX = await import("xlsx");
+  const columns = getReportColumns(report.dimension);
+
+  const sheet = XLSX.utils.json_to_sheet(
+    report.rows.map((row) =>
+      Object.fromEntries(
+        columns.map((column) => [column.label, row[column.key] ?? ""])
+      )
+    ),
+    { header: columns.map((column) => column.label) }
+  );
+
+  if (format === "xlsx") {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, report.dimension);
+    XLSX.writeFile(workbook, getReportFileName(report, "xlsx"));
+    return;
+  }
+
+  downloadCsv(XLSX.utils.sheet_to_csv(sheet), getReportFileName(report, "csv"));
+}
@@ -0,0 +1,345 @@
+import supabase from "./supabase";
+import { requirePermission } from "./apiPermissions";
+import { downloadCsv, TransferFormat } from "./apiProductsTransfer";
+
+// شرائح العملاء: قواعد تُطبق على سلوك الشراء وبيانات الحساب، ودرجات RFM
+// تُحسب في قاعدة البيانات (customer_rfm / segment_customers)
+
+export type SegmentRuleType =
+  | "ordered_within_days"
+  | "lapsed_days"
+  | "never_ordered"
+  | "registered_within_days"
+  | "min_orders"
+  | "spent_over"
+  | "spent_under"
+  | "city"
+  | "language"
+  | "min_rfm_total"
+  | "rfm_segment";
+
+export type SegmentMatch = "all" | "any";
+
+export type RfmSegment =
+  | "champions"
+  | "loyal"
+  | "new"
+  | "at_risk"
+  | "lost"
+  | "needs_attention"
+  | "no_orders";
+
+export interface SegmentRule {
+  type: SegmentRuleType;
+  value?: string;
+}
+
+export const SEGMENT_RULES: {
+  type: SegmentRuleType;
+  label: string;
+  input: "number" | "text" | "rfm_segment" | "none";
+  unit?: string;
+}[] = [
+  {
+    type: "ordered_within_days",
+    label: "طلب خلال آخر",
+    input: "number",
+    unit: "يوم",
+  },
+  {
+    type: "lapsed_days",
+    label: "لم يطلب منذ أكثر من",
+    input: "number",
+    unit: "يوم",
+  },
+  { type: "never_ordered", label: "لم يطلب أبداً", input: "none" },
+  {
+    type: "registered_within_days",
+    label: "سجّل خلال آخر",
+    input: "number",
+    unit: "يوم",
+  },
+  { type: "min_orders", label: "عدد الطلبات على الأقل", input: "number" },
+  { type: "spent_over", label: "إجمالي الإنفاق أكثر من", input: "number" },
+  { type: "spent_under", label: "إجمالي الإنفاق أقل من", input: "number" },
+  { type: "city", label: "المدينة", input: "text" },
+  { type: "language", label: "اللغة المفضلة", input: "text" },
+  {
+    type: "min_rfm_total",
+    label: "مجموع RFM على الأقل (3-15)",
+    input: "number",
+  },
+  { type: "rfm_segment", label: "فئة RFM", input: "rfm_segment" },
+];
+
+export const SEGMENT_MATCH_LABELS: Record<SegmentMatch, string> = {
+  all: "كل القواعد",
+  any: "أي قاعدة",
+};
+
+export const RFM_SEGMENT_LABELS: Record<RfmSegment, string> = {
+  champions: "الأفضل",
+  loyal: "مخلص",
+  new: "جديد",
+  at_risk: "معرض للفقد",
+  lost: "مفقود",
+  needs_attention: "يحتاج اهتماماً",
+  no_orders: "بدون طلبات",
+};
+
+export interface CustomerSegment {
+  id: string;
+  name: string;
+  description: string | null;
+  rules: SegmentRule[];
+  match_type: SegmentMatch;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CustomerSegmentInput = Pick<
+  CustomerSegment,
+  "name" | "description" | "rules" | "match_type"
+>;
+
+export interface SegmentCustomer {
+  id: string;
+  full_name: string | null;
+  phone: string | null;
+  city: string | null;
+  preferred_language: string | null;
+  created_at: string;
+  is_active: boolean;
+  order_count: number;
+  total_spent: number;
+  first_order_at: string | null;
+  last_order_at: string | null;
+  recency_days: number | null;
+  // الدرجات من 1 إلى 5، null للعملاء بدون طلبات مدفوعة
+  r_score: number | null;
+  f_score: number | null;
+  m_score: number | null;
+  rfm_score: string | null;
+  rfm_total: number | null;
+  rfm_segment: RfmSegment;
+}
+
+export function describeSegmentRule(rule: SegmentRule): string {
+  const definition = SEGMENT_RULES.find((r) => r.type === rule.type);
+  if (!definition) return rule.type;
+  if (definition.input === "none") return definition.label;
+  const value =
+    definition.input === "rfm_segment"
+      ? RFM_SEGMENT_LABELS[rule.value as RfmSegment] || rule.value
+      : rule.value;
+  return [definition.label, value, definition.unit].filter(Boolean).join(" ");
+}
+
+// نفس شروط validate_segment_rules في قاعدة البيانات
+export function validateSegmentRules(rules: SegmentRule[]) {
+  rules.forEach((rule) => {
+    const definition = SEGMENT_RULES.find((r) => r.type === rule.type);
+    if (!definition) {
+      throw new Error("قاعدة غير معروفة");
+    }
+    const value = rule.value?.trim() || "";
+    // المبالغ تقبل الكسور، أما الأيام والأعداد فصحيحة فقط
+    const pattern =
+      rule.type === "spent_over" || rule.type === "spent_under"
+        ? /^\d+(\.\d+)?$/
+        : /^\d+$/;
+    if (definition.input === "number" && !pattern.test(value)) {
+      throw new Error(`أدخل رقماً صحيحاً في قاعدة "${definition.label}"`);
+    }
+    if (definition.input === "text" && !value) {
+      throw new Error(`أدخل قيمة لقاعدة "${definition.label}"`);
+    }
+    if (definition.input === "rfm_segment" && !(value in RFM_SEGMENT_LABELS)) {
+      throw new Error("اختر فئة RFM");
+    }
+  });
+}
+
+function toRules(rules: SegmentRule[]): SegmentRule[] {
+  return rules.map((rule) =>
+    rule.type === "never_ordered"
+      ? { type: rule.type }
+      : { type: rule.type, value: rule.value?.trim() }
+  );
+}
+
+export async function getSegmentCustomers(
+  rules: SegmentRule[],
+  match: SegmentMatch
+): Promise<SegmentCustomer[]> {
+  validateSegmentRules(rules);
+  const { data, error } = await supabase.rpc("segment_customers", {
+    p_rules: toRules(rules),
+    p_match: match,
+  });
+
+  if (error) {
+    console.error("خطأ في جلب عملاء الشريحة:", error.message);
+    if (error.code === "P0001") {
+      throw new Error("قواعد الشريحة غير صالحة");
+    }
+    throw new Error("تعذر تحميل عملاء الشريحة");
+  }
+
+  return ((data || []) as SegmentCustomer[]).map((customer) => ({
+    ...customer,
+    total_spent: Number(customer.total_spent),
+    order_count: Number(customer.order_count),
+  }));
+}
+
+export async function getCustomerSegments(): Promise<CustomerSegment[]> {
+  const { data, error } = await supabase
+    .from("customer_segments")
+    .select("*")
+    .order("name");
+
+  if (error) {
+    console.error("خطأ في جلب الشرائح:", error.message);
+    throw new Error("تعذر تحميل شرائح العملاء");
+  }
+
+  return data || [];
+}
+
+function toRow(segment: CustomerSegmentInput) {
+  const name = segment.name.trim();
+  if (!name) {
+    throw new Error("اسم الشريحة مطلوب");
+  }
+  validateSegmentRules(segment.rules);
+
+  return {
+    name,
+    description: segment.description?.trim() || null,
+    rules: toRules(segment.rules),
+    match_type: segment.match_type,
+  };
+}
+
+function handleSaveError(error: { code?: string; message: string }): never {
+  console.error("خطأ في حفظ الشريحة:", error.message);
+  if (error.code === "23505") {
+    throw new Error("توجد شريحة أخرى بنفس الاسم");
+  }
+  if (error.code === "P0001") {
+    throw new Error("قواعد الشريحة غير صالحة");
+  }
+  throw new Error("تعذر حفظ الشريحة");
+}
+
+export async function createCustomerSegment(
+  segment: CustomerSegmentInput
+): Promise<CustomerSegment> {
+  await requirePermission("users.manage");
+  const { data, error } = await supabase
+    .from("customer_segments")
+    .insert([toRow(segment)])
+    .select()
+    .single();
+
+  if (error) handleSaveError(error);
+
+  return data;
+}
+
+export async function updateCustomerSegment(
+  id: string,
+  segment: CustomerSegmentInput
+): Promise<CustomerSegment> {
+  await requirePermission("users.manage");
+  const { data, error } = await supabase
+    .from("customer_segments")
+    .update({ ...toRow(segment), updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) handleSaveError(error);
+
+  return data;
+}
+
+export async function deleteCustomerSegment(id: string): Promise<void> {
+  await requirePermission("users.manage");
+  const { error } = await supabase
+    .from("customer_segments")
+    .delete()
+    .eq("id", id);
+
+  if (error) {
+    console.error("خطأ في حذف الشريحة:", error.message);
+    if (error.code === "23503") {
+      throw new Error("الشريحة مستخدمة في كوبونات، أزلها منها أولاً");
+    }
+    throw new Error("تعذر حذف الشريحة");
+  }
+}
+
+export async function isCustomerInSegment(
+  userId: string,
+  segmentId: string
+): Promise<boolean> {
+  const { data, error } = await supabase.rpc("customer_in_segment", {
+    p_user_id: userId,
+    p_segment_id: segmentId,
+  });
+
+  if (error) {
+    console.error("خطأ في التحقق من شريحة العميل:", error.message);
+    throw new Error("تعذر التحقق من شريحة العميل");
+  }
+
+  return Boolean(data);
+}
+
+const EXPORT_COLUMNS: { key: keyof SegmentCustomer; label: string }[] = [
+  { key: "id", label: "المعرف" },
+  { key: "full_name", label: "الاسم" },
+  { key: "phone", label: "الهاتف" },
+  { key: "city", label: "المدينة" },
+  { key: "preferred_language", label: "اللغة" },
+  { key: "order_count", label: "الطلبات" },
+  { key: "total_spent", label: "إجمالي الإنفاق" },
+  { key: "last_order_at", label: "آخر طلب" },
+  { key: "recency_days", label: "أيام منذ آخر طلب" },
+  { key: "rfm_score", label: "RFM" },
+  { key: "rfm_segment", label: "فئة RFM" },
+];
+
+export async function exportSegmentCustomers(
+  customers: SegmentCustomer[],
+  format: TransferFormat,
+  name = "segment"
+) {
+  const XLSX = await import("xlsx");
+  const sheet = XLSX.utils.json_to_sheet(
+    customers.map((customer) =>
+      Object.fromEntries(
+        EXPORT_COLUMNS.map((column) => [
+          column.label,
+          column.key === "rfm_segment"
+            ? RFM_SEGMENT_LABELS[customer.rfm_segment]
+            : customer[column.key] ?? "",
+        ])
+      )
+    ),
+    { header: EXPORT_COLUMNS.map((column) => column.label) }
+  );
+  const fileName = `customers-${name.replace(/\s+/g, "-")}`;
+
+  if (format === "xlsx") {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, "customers");
+    XLSX.writeFile(workbook, `${fileName}.xlsx`);
+    return;
+  }
+
+  downloadCsv(XLSX.utils.sheet_to_csv(sheet), `${fileName}.csv`);
+}
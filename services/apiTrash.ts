@@ -0,0 +1,234 @@
+import supabase from "./supabase";
+import { Permission, requirePermission } from "./apiPermissions";
+
+export type TrashItemType =
+  | "product"
+  | "order"
+  | "combo_offer"
+  | "gallery"
+  | "news";
+
+export interface TrashItem {
+  type: TrashItemType;
+  id: string;
+  title: string;
+  subtitle?: string | null;
+  image_url?: string | null;
+  deleted_at: string;
+  deleted_by: string | null;
+}
+
+// مدة الاحتفاظ قبل الحذف النهائي التلقائي (purge_expired_trash)
+export const TRASH_RETENTION_DAYS = 30;
+
+export const TRASH_TYPE_LABELS: Record<TrashItemType, string> = {
+  product: "المنتجات",
+  order: "الطلبات",
+  combo_offer: "العروض",
+  gallery: "معارض الصور",
+  news: "الأخبار",
+};
+
+export const TRASH_TYPE_PERMISSIONS: Record<TrashItemType, Permission> = {
+  product: "products.manage",
+  order: "orders.delete",
+  combo_offer: "content.manage",
+  gallery: "content.manage",
+  news: "content.manage",
+};
+
+const TRASH_TABLES: Record<TrashItemType, string> = {
+  product: "products",
+  order: "orders",
+  combo_offer: "combo_offers",
+  gallery: "galleries",
+  news: "news",
+};
+
+const TRASH_COLUMNS: Record<TrashItemType, string> = {
+  product: "id, name_ar, sku, image_url, deleted_at, deleted_by",
+  order: "id, total_price, status, deleted_at, deleted_by",
+  combo_offer: "id, title_ar, image_url, deleted_at, deleted_by",
+  gallery: "id, title_ar, image_urls, deleted_at, deleted_by",
+  news: "id, title_ar, images, deleted_at, deleted_by",
+};
+
+interface TrashRow {
+  id: string | number;
+  deleted_at: string;
+  deleted_by: string | null;
+  name_ar?: string;
+  title_ar?: string;
+  sku?: string | null;
+  total_price?: number;
+  // مصفوفة في المنتجات، ونص واحد في العروض
+  image_url?: string[] | string | null;
+  image_urls?: string[] | null;
+  images?: string[] | null;
+}
+
+function toTrashItem(type: TrashItemType, row: TrashRow): TrashItem {
+  const base = {
+    type,
+    id: String(row.id),
+    deleted_at: row.deleted_at,
+    deleted_by: row.deleted_by,
+  };
+
+  switch (type) {
+    case "product":
+      return {
+        ...base,
+        title: row.name_ar || "",
+        subtitle: row.sku,
+        image_url: Array.isArray(row.image_url) ? row.image_url[0] : null,
+      };
+    case "order":
+      return {
+        ...base,
+        title: `#${String(row.id).slice(0, 8)}`,
+        subtitle: `$${Number(row.total_price || 0).toFixed(2)}`,
+      };
+    case "combo_offer":
+      return {
+        ...base,
+        title: row.title_ar || "",
+        image_url: typeof row.image_url === "string" ? row.image_url : null,
+      };
+    case "gallery":
+      return {
+        ...base,
+        title: row.title_ar || "",
+        image_url: row.image_urls?.[0],
+      };
+    case "news":
+      return { ...base, title: row.title_ar || "", image_url: row.images?.[0] };
+  }
+}
+
+export async function getTrashItems(type: TrashItemType): Promise<TrashItem[]> {
+  const { data, error } = await supabase
+    .from(TRASH_TABLES[type])
+    .select(TRASH_COLUMNS[type])
+    .not("deleted_at", "is", null)
+    .order("deleted_at", { ascending: false });
+
+  if (error) {
+    console.error("خطأ في جلب سلة المحذوفات:", error.message);
+    throw new Error("تعذر تحميل سلة المحذوفات");
+  }
+
+  return ((data || []) as unknown as TrashRow[]).map((row) =>
+    toTrashItem(type, row)
+  );
+}
+
+export async function restoreTrashItem({
+  type,
+  id,
+}: {
+  type: TrashItemType;
+  id: string;
+}): Promise<void> {
+  await requirePermission(TRASH_TYPE_PERMISSIONS[type]);
+
+  const { error } = await supabase
+    .from(TRASH_TABLES[type])
+    .update({ deleted_at: null })
+    .eq("id", id);
+
+  if (error) {
+    console.error("خطأ في استعادة العنصر:", error.message);
+    if (error.code === "P0004") {
+      throw new Error("لا يوجد مخزون كافٍ لإعادة حجز منتجات هذا الطلب");
+    }
+    throw new Error("تعذر استعادة العنصر");
+  }
+}
+
+export async function purgeTrashItem({
+  type,
+  id,
+}: {
+  type: TrashItemType;
+  id: string;
+}): Promise<void> {
+  await requirePermission(TRASH_TYPE_PERMISSIONS[type]);
+
+  const { error } = await supabase.rpc("purge_trash_item", {
+    p_type: type,
+    p_id: id,
+  });
+
+  if (error) {
+    console.error("خطأ في الحذف النهائي:", error.message);
+    if (error.code === "P0002") {
+      throw new Error("العنصر غير موجود في سلة المحذوفات");
+    }
+    throw new Error("تعذر حذف العنصر نهائياً");
+  }
+
+  await processStorageCleanupQueue();
+}
+
+// تطبيق سياسة الاحتفاظ يدوياً (تعمل تلقائياً كل ليلة إن توفر pg_cron)
+export async function purgeExpiredTrash(
+  days = TRASH_RETENTION_DAYS
+): Promise<number> {
+  const { data, error } = await supabase.rpc("purge_expired_trash", {
+    p_days: days,
+  });
+
+  if (error) {
+    console.error("خطأ في تطبيق سياسة الاحتفاظ:", error.message);
+    if (error.code === "42501") {
+      throw new Error("ليس لديك صلاحية لتنفيذ هذا الإجراء");
+    }
+    throw new Error("تعذر تنظيف سلة المحذوفات");
+  }
+
+  await processStorageCleanupQueue();
+
+  return (data as number) ?? 0;
+}
+
+// حذف ملفات العناصر المحذوفة نهائياً من التخزين؛ ما يفشل يبقى في الطابور للمحاولة لاحقاً.
+// ملفات الحذف المجدول تحذفها دالة storage-cleanup (supabase/functions)
+export async function processStorageCleanupQueue(batchSize = 100) {
+  const { data: queued, error } = await supabase
+    .from("storage_cleanup_queue")
+    .select("id, bucket, path")
+    .order("created_at", { ascending: true })
+    .limit(batchSize);
+
+  if (error) {
+    console.error("خطأ في جلب ملفات التنظيف:", error.message);
+    return;
+  }
+
+  const byBucket = new Map<string, { id: string; path: string }[]>();
+  (queued || []).forEach((file) => {
+    const files = byBucket.get(file.bucket) || [];
+    files.push({ id: file.id, path: decodeURIComponent(file.path) });
+    byBucket.set(file.bucket, files);
+  });
+
+  for (const [bucket, files] of Array.from(byBucket.entries())) {
+    const { error: storageError } = await supabase.storage
+      .from(bucket)
+      .remove(files.map((file) => file.path));
+
+    if (storageError) {
+      console.error(`فشل حذف ملفات ${bucket}:`, storageError.message);
+      continue;
+    }
+
+    await supabase
+      .from("storage_cleanup_queue")
+      .delete()
+      .in(
+        "id",
+        files.map((file) => file.id)
+      );
+  }
+}
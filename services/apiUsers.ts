@@ -1,4 +1,5 @@
 import supabase from "./supabase";
+import { requirePermission } from "./apiPermissions";
 
 export interface User {
   id?: string;
@@ -9,6 +10,40 @@ export interface User {
   is_active?: boolean;
   phone?: string;
   city?: string;
+  deactivated_at?: string | null;
+  deactivation_reason?: string | null;
+  deactivated_by?: string | null;
+}
+
+export type UserStatsPeriod = "today" | "week" | "month" | "year";
+
+export const USER_STATS_PERIOD_LABELS: Record<UserStatsPeriod, string> = {
+  today: "اليوم",
+  week: "هذا الأسبوع",
+  month: "هذا الشهر",
+  year: "هذا العام",
+};
+
+function getPeriodStart(period: string): Date {
+  const now = new Date();
+  const startDate = new Date();
+
+  switch (period) {
+    case "today":
+      startDate.setHours(0, 0, 0, 0);
+      break;
+    case "week":
+      startDate.setDate(now.getDate() - 7);
+      break;
+    case "month":
+      startDate.setMonth(now.getMonth() - 1);
+      break;
+    case "year":
+      startDate.setFullYear(now.getFullYear() - 1);
+      break;
+  }
+
+  return startDate;
 }
 
 export async function getUsers(
@@ -39,25 +74,7 @@ export async function getUsers(
   }
 
   if (filters?.date) {
-    const now = new Date();
-    const startDate = new Date();
-
-    switch (filters.date) {
-      case "today":
-        startDate.setHours(0, 0, 0, 0);
-        break;
-      case "week":
-        startDate.setDate(now.getDate() - 7);
-        break;
-      case "month":
-        startDate.setMonth(now.getMonth() - 1);
-        break;
-      case "year":
-        startDate.setFullYear(now.getFullYear() - 1);
-        break;
-    }
-
-    query = query.gte("created_at", startDate.toISOString());
+    query = query.gte("created_at", getPeriodStart(filters.date).toISOString());
   }
 
   query = query.order("created_at", { ascending: false });
@@ -69,9 +86,6 @@ export async function getUsers(
     throw new Error("تعذر تحميل المستخدمين");
   }
 
-  console.log("Debug - Raw users data from getUsers:", users);
-  console.log("Debug - Users count:", count);
-
   return {
     users: users || [],
     total: count ?? 0,
@@ -93,10 +107,64 @@ export async function getUserById(id: string): Promise<User> {
   return data;
 }
 
+export interface CustomerStats {
+  order_count: number;
+  // الطلبات المدفوعة (مدفوع / مشحون / تم التوصيل / مسترد جزئياً)
+  paid_order_count: number;
+  cancelled_count: number;
+  // صافي المدفوع بعد خصم المبالغ المستردة
+  total_spent: number;
+  average_basket: number | null;
+  first_order_at: string | null;
+  last_order_at: string | null;
+  cancellation_rate: number | null;
+}
+
+export interface CustomerFavouriteProduct {
+  product_id: string | null;
+  combo_offer_id: string | null;
+  name_ar: string | null;
+  image_url: string | null;
+  quantity: number;
+  order_count: number;
+  total_amount: number;
+}
+
+export async function getCustomerStats(userId: string): Promise<CustomerStats> {
+  const { data, error } = await supabase
+    .rpc("customer_lifetime_stats", { p_user_id: userId })
+    .single();
+
+  if (error) {
+    console.error("خطأ في جلب إحصائيات العميل:", error.message);
+    throw new Error("تعذر تحميل إحصائيات العميل");
+  }
+
+  return data as CustomerStats;
+}
+
+export async function getCustomerFavouriteProducts(
+  userId: string,
+  limit = 5
+): Promise<CustomerFavouriteProduct[]> {
+  const { data, error } = await supabase.rpc("customer_favourite_products", {
+    p_user_id: userId,
+    p_limit: limit,
+  });
+
+  if (error) {
+    console.error("خطأ في جلب المنتجات المفضلة للعميل:", error.message);
+    throw new Error("تعذر تحميل المنتجات المفضلة للعميل");
+  }
+
+  return (data || []) as CustomerFavouriteProduct[];
+}
+
 export async function updateUser(
   id: string,
   updates: Partial<User>
 ): Promise<User> {
+  await requirePermission("users.manage");
   const { data, error } = await supabase
     .from("profiles")
     .update({
@@ -116,6 +184,7 @@ export async function updateUser(
 }
 
 export async function deleteUser(id: string): Promise<void> {
+  await requirePermission("users.manage");
   const { error } = await supabase.from("profiles").delete().eq("id", id);
 
   if (error) {
@@ -124,14 +193,23 @@ export async function deleteUser(id: string): Promise<void> {
   }
 }
 
+// إيقاف الحساب يحظر تسجيل الدخول وينهي الجلسات المفتوحة (راجع sync_profile_ban)
 export async function toggleUserStatus(
   id: string,
-  is_active: boolean
+  is_active: boolean,
+  reason?: string
 ): Promise<User> {
-  // For now, we'll just update the updated_at timestamp since is_active column doesn't exist
+  await requirePermission("users.manage");
+
+  if (!is_active && !reason?.trim()) {
+    throw new Error("يجب إدخال سبب إيقاف الحساب");
+  }
+
   const { data, error } = await supabase
     .from("profiles")
     .update({
+      is_active,
+      deactivation_reason: is_active ? null : reason!.trim(),
       updated_at: new Date().toISOString(),
     })
     .eq("id", id)
@@ -146,67 +224,68 @@ export async function toggleUserStatus(
   return data;
 }
 
-export async function getUserStats(): Promise<{
+export interface UserStatsBreakdown {
+  key: string | null;
   total: number;
   active: number;
   inactive: number;
+  newInPeriod: number;
+}
+
+export interface UserStats {
+  total: number;
+  active: number;
+  inactive: number;
+  newInPeriod: number;
   admins: number;
   users: number;
-}> {
-  // First, let's check what columns exist in the profiles table
-  const { data, error } = await supabase.from("profiles").select("*");
+  byRole: UserStatsBreakdown[];
+  byCity: UserStatsBreakdown[];
+}
+
+interface UserStatsRow {
+  dimension: "all" | "role" | "city";
+  key: string | null;
+  total: number;
+  active: number;
+  inactive: number;
+  new_in_period: number;
+}
+
+// الإحصائيات تُحسب في قاعدة البيانات (user_stats) دون تحميل الحسابات
+export async function getUserStats(
+  period: UserStatsPeriod = "month"
+): Promise<UserStats> {
+  const { data, error } = await supabase.rpc("user_stats", {
+    p_from: getPeriodStart(period).toISOString(),
+  });
 
   if (error) {
     console.error("خطأ في جلب إحصائيات المستخدمين:", error.message);
     throw new Error("تعذر تحميل إحصائيات المستخدمين");
   }
 
-  console.log("Debug - Raw profiles data from getUserStats:", data);
-  console.log("Debug - Sample profile structure:", data?.[0]);
+  const rows = ((data || []) as UserStatsRow[]).map((row) => ({
+    dimension: row.dimension,
+    key: row.key,
+    total: Number(row.total),
+    active: Number(row.active),
+    inactive: Number(row.inactive),
+    newInPeriod: Number(row.new_in_period),
+  }));
 
-  // For now, let's use a simplified approach since we don't know the exact structure
-  const stats = {
-    total: data?.length || 0,
-    active: data?.length || 0, // Assume all users are active for now
-    inactive: 0, // No inactive users for now
-    admins: data?.filter((user) => user.role === "admin").length || 0,
-    users: data?.filter((user) => user.role === "user").length || 0,
-  };
+  const overall = rows.find((row) => row.dimension === "all");
+  const byRole = rows.filter((row) => row.dimension === "role");
+  const byCity = rows.filter((row) => row.dimension === "city");
 
-  console.log("Debug - Calculated user stats:", stats);
-  return stats;
-}
-
-// Function to check the structure of the profiles table
-export async function checkProfilesTableStructure() {
-  console.log("=== CHECKING PROFILES TABLE STRUCTURE ===");
-
-  try {
-    // Get a sample profile to see the structure
-    const { data: sampleProfile, error: sampleError } = await supabase
-      .from("profiles")
-      .select("*")
-      .limit(1)
-      .single();
-
-    console.log("Sample profile structure:", sampleProfile);
-    console.log("Sample profile error:", sampleError);
-
-    if (sampleProfile) {
-      console.log("Available columns:", Object.keys(sampleProfile));
-    }
-
-    // Get all profiles to see the data
-    const { data: allProfiles, error: allError } = await supabase
-      .from("profiles")
-      .select("*");
-
-    console.log("All profiles count:", allProfiles?.length);
-    console.log("All profiles error:", allError);
-
-    return { sampleProfile, allProfiles };
-  } catch (error) {
-    console.error("Error checking profiles table structure:", error);
-    return null;
-  }
+  return {
+    total: overall?.total ?? 0,
+    active: overall?.active ?? 0,
+    inactive: overall?.inactive ?? 0,
+    newInPeriod: overall?.newInPeriod ?? 0,
+    admins: byRole.find((row) => row.key === "admin")?.total ?? 0,
+    users: byRole.find((row) => row.key === "user")?.total ?? 0,
+    byRole,
+    byCity,
+  };
 }
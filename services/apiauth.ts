@@ -17,7 +17,23 @@ export async function login({
   });
 
   if (error) {
-    throw new Error(error.message);
+    // الحسابات الموقوفة محظورة في Supabase Auth (راجع sync_profile_ban)
+    if (error.code === "user_banned") {
+      throw new Error("هذا الحساب موقوف، تواصل مع الإدارة");
+    }
+    throw new Error("البريد الإلكتروني أو كلمة المرور غير صالحة");
+  }
+
+  // لوحة التحكم للمشرفين فقط، حسابات المتجر لا تملك سجلاً في admin_profiles
+  const { data: adminProfile } = await supabase
+    .from("admin_profiles")
+    .select("role")
+    .eq("user_id", data.user.id)
+    .maybeSingle();
+
+  if (!adminProfile) {
+    await supabase.auth.signOut();
+    throw new Error("هذا الحساب لا يملك صلاحية الدخول إلى لوحة التحكم");
   }
 
   return data;
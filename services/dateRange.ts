@@ -0,0 +1,12 @@
+// فلتر التاريخ (YYYY-MM-DD) بالتوقيت المحلي: من بداية يوم البداية حتى بداية
+// اليوم التالي ليوم النهاية (حد علوي غير شامل)
+export function toDateRange(dateFrom?: string, dateTo?: string) {
+  const dayStart = (date: string, addDays = 0) => {
+    const [year, month, day] = date.split("-").map(Number);
+    return new Date(year, month - 1, day + addDays).toISOString();
+  };
+  return {
+    from: dateFrom ? dayStart(dateFrom) : null,
+    to: dateTo ? dayStart(dateTo, 1) : null,
+  };
+}
@@ -1,9 +1,6 @@
-import { createClient } from "@supabase/supabase-js";
+import { createClientComponentClient } from "@supabase/auth-helpers-nextjs";
 
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-
-const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
-
-const supabase = createClient(supabaseUrl, supabaseKey);
+// نفس جلسة تسجيل الدخول (الكوكيز) حتى تعمل سياسات RLS وسجل التدقيق باسم المشرف
+const supabase = createClientComponentClient();
 
 export default supabase;
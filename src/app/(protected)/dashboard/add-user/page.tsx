@@ -10,6 +10,13 @@ import { z } from "zod";
 import { v4 as uuidv4 } from "uuid";
 import { useRouter } from "next/navigation";
 import toast from "react-hot-toast";
+import {
+  ADMIN_ROLES,
+  AdminRole,
+  ROLE_LABELS,
+} from "../../../../../services/apiPermissions";
+import { getBranchOptions } from "../../../../../services/apiBranches";
+import { useQuery } from "@tanstack/react-query";
 
 type SignUpData = z.infer<typeof signUpSchema>;
 
@@ -25,6 +32,13 @@ export default function SignUpForm() {
   });
 
   const [profilePicture, setProfilePicture] = useState<File | null>(null);
+  const [role, setRole] = useState<AdminRole>("content_editor");
+  const [branchId, setBranchId] = useState("");
+
+  const { data: branches = [] } = useQuery({
+    queryKey: ["branch_options"],
+    queryFn: getBranchOptions,
+  });
 
   const handleProfilePictureChange = (
     e: React.ChangeEvent<HTMLInputElement>
@@ -42,6 +56,10 @@ export default function SignUpForm() {
 
   const submit = async (data: SignUpData) => {
     try {
+      if (role === "branch_staff" && !branchId) {
+        throw new Error("يجب تحديد الفرع لموظف الفرع");
+      }
+
       // 1. تسجيل المستخدم
       const { data: signUpData, error: signUpError } =
         await supabase.auth.signUp({
@@ -86,6 +104,8 @@ export default function SignUpForm() {
           address: data.address ?? "",
           about: data.about ?? "",
           image_url: imageUrl,
+          role,
+          branch_id: role === "branch_staff" ? branchId : null,
         });
 
       if (profileError) throw new Error(profileError.message);
@@ -165,6 +185,44 @@ export default function SignUpForm() {
                     )}
                   </div>
 
+                  {/* Role */}
+                  <div className="mb-[20px] sm:mb-0">
+                    <label className="mb-[10px] block font-medium text-black dark:text-white">
+                      الدور *
+                    </label>
+                    <select
+                      value={role}
+                      onChange={(e) => setRole(e.target.value as AdminRole)}
+                      className="h-[55px] rounded-md text-black dark:text-white border border-gray-200 dark:border-[#172036] bg-white dark:bg-[#0c1427] px-[17px] block w-full outline-0 transition-all"
+                    >
+                      {ADMIN_ROLES.map((adminRole) => (
+                        <option key={adminRole} value={adminRole}>
+                          {ROLE_LABELS[adminRole]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {role === "branch_staff" && (
+                    <div className="mb-[20px] sm:mb-0">
+                      <label className="mb-[10px] block font-medium text-black dark:text-white">
+                        الفرع *
+                      </label>
+                      <select
+                        value={branchId}
+                        onChange={(e) => setBranchId(e.target.value)}
+                        className="h-[55px] rounded-md text-black dark:text-white border border-gray-200 dark:border-[#172036] bg-white dark:bg-[#0c1427] px-[17px] block w-full outline-0 transition-all"
+                      >
+                        <option value="">اختر الفرع</option>
+                        {branches.map((branch) => (
+                          <option key={branch.id} value={branch.id}>
+                            {branch.name_ar}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+
                   {/* Optional Fields */}
 
                   {/* Full Name */}
@@ -0,0 +1,191 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import toast from "react-hot-toast";
+import {
+  ADMIN_ROLES,
+  AdminMember,
+  AdminRole,
+  ROLE_LABELS,
+  getAdminMembers,
+  updateAdminRole,
+} from "../../../../../services/apiPermissions";
+import { getBranchOptions } from "../../../../../services/apiBranches";
+import { useUser } from "@/components/Authentication/useUser";
+
+const AdminsPage: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { user } = useUser();
+
+  const { data: admins = [], isPending } = useQuery({
+    queryKey: ["admin_members"],
+    queryFn: getAdminMembers,
+  });
+
+  const { data: branches = [] } = useQuery({
+    queryKey: ["branch_options"],
+    queryFn: getBranchOptions,
+  });
+
+  const { mutate: changeRole, isPending: isSaving } = useMutation({
+    mutationFn: updateAdminRole,
+    onSuccess: () => {
+      toast.success("تم تحديث الدور بنجاح");
+      queryClient.invalidateQueries({ queryKey: ["admin_members"] });
+      queryClient.invalidateQueries({ queryKey: ["adminProfile"] });
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const handleRoleChange = (admin: AdminMember, role: AdminRole) => {
+    changeRole({
+      userId: admin.user_id,
+      role,
+      branchId:
+        role === "branch_staff" ? admin.branch_id || branches[0]?.id : null,
+    });
+  };
+
+  if (isPending)
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-500"></div>
+      </div>
+    );
+
+  return (
+    <>
+      <div className="mb-[25px] md:flex items-center justify-between">
+        <h5 className="!mb-0">المشرفون والأدوار</h5>
+
+        <ol className="breadcrumb mt-[12px] md:mt-0 rtl:flex-row-reverse">
+          <li className="breadcrumb-item inline-block relative text-sm mx-[11px] ltr:first:ml-0 rtl:first:mr-0 ltr:last:mr-0 rtl:last:ml-0">
+            <Link
+              href="/dashboard"
+              className="inline-block relative ltr:pl-[22px] rtl:pr-[22px] transition-all hover:text-primary-500"
+            >
+              <i className="material-symbols-outlined absolute ltr:left-0 rtl:right-0 !text-lg -mt-px text-primary-500 top-1/2 -translate-y-1/2">
+                home
+              </i>
+              رئيسية
+            </Link>
+          </li>
+          <li className="breadcrumb-item inline-block relative text-sm mx-[11px] ltr:first:ml-0 rtl:first:mr-0 ltr:last:mr-0 rtl:last:ml-0">
+            المشرفون
+          </li>
+        </ol>
+      </div>
+
+      <div className="trezo-card bg-white dark:bg-[#0c1427] mb-[25px] p-[20px] md:p-[25px] rounded-md">
+        <div className="trezo-card-header mb-[20px] md:mb-[25px] sm:flex items-center justify-between">
+          <div className="trezo-card-subtitle mt-[15px] sm:mt-0">
+            <Link
+              href="/dashboard/add-user"
+              className="inline-block transition-all rounded-md font-medium px-[13px] py-[6px] text-primary-500 border border-primary-500 hover:bg-primary-500 hover:text-white"
+            >
+              <span className="inline-block relative ltr:pl-[22px] rtl:pr-[22px]">
+                <i className="material-symbols-outlined !text-[22px] absolute ltr:-left-[4px] rtl:-right-[4px] top-1/2 -translate-y-1/2">
+                  add
+                </i>
+                أضف مشرف جديد
+              </span>
+            </Link>
+          </div>
+        </div>
+
+        <div className="trezo-card-content">
+          <div className="table-responsive overflow-x-auto">
+            <table className="w-full">
+              <thead className="text-black dark:text-white">
+                <tr>
+                  {["الاسم", "البريد الإلكتروني", "الدور", "الفرع"].map(
+                    (header) => (
+                      <th
+                        key={header}
+                        className="font-medium ltr:text-left rtl:text-right px-[20px] py-[11px] bg-gray-50 dark:bg-[#15203c] whitespace-nowrap ltr:first:rounded-tl-md ltr:last:rounded-tr-md rtl:first:rounded-tr-md rtl:last:rounded-tl-md"
+                      >
+                        {header}
+                      </th>
+                    )
+                  )}
+                </tr>
+              </thead>
+
+              <tbody className="text-black dark:text-white">
+                {admins.length === 0 ? (
+                  <tr>
+                    <td colSpan={4} className="text-center py-8 text-gray-500">
+                      لا يوجد مشرفون
+                    </td>
+                  </tr>
+                ) : (
+                  admins.map((admin) => (
+                    <tr key={admin.user_id}>
+                      <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[15px] border-b border-gray-100 dark:border-[#172036]">
+                        <span className="block text-[15px] font-medium">
+                          {admin.full_name || "غير محدد"}
+                        </span>
+                      </td>
+                      <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[15px] border-b border-gray-100 dark:border-[#172036] text-gray-600 dark:text-gray-300">
+                        {admin.email || "-"}
+                      </td>
+                      <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[15px] border-b border-gray-100 dark:border-[#172036]">
+                        <select
+                          value={admin.role}
+                          disabled={isSaving || admin.user_id === user?.id}
+                          onChange={(e) =>
+                            handleRoleChange(admin, e.target.value as AdminRole)
+                          }
+                          className="text-sm border border-gray-300 dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-800 text-gray-900 dark:text-white disabled:opacity-50"
+                        >
+                          {ADMIN_ROLES.map((role) => (
+                            <option key={role} value={role}>
+                              {ROLE_LABELS[role]}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[15px] border-b border-gray-100 dark:border-[#172036]">
+                        {admin.role === "branch_staff" ? (
+                          <select
+                            value={admin.branch_id || ""}
+                            disabled={isSaving}
+                            onChange={(e) =>
+                              changeRole({
+                                userId: admin.user_id,
+                                role: admin.role,
+                                branchId: e.target.value,
+                              })
+                            }
+                            className="text-sm border border-gray-300 dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-800 text-gray-900 dark:text-white disabled:opacity-50"
+                          >
+                            <option value="" disabled>
+                              اختر الفرع
+                            </option>
+                            {branches.map((branch) => (
+                              <option key={branch.id} value={branch.id}>
+                                {branch.name_ar}
+                              </option>
+                            ))}
+                          </select>
+                        ) : (
+                          <span className="text-gray-500">كل الفروع</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default AdminsPage;
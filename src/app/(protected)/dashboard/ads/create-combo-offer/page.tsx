@@ -3,12 +3,15 @@ import Image from "next/image";
 import { useRouter } from "next/navigation";
 import React, { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import {
+  ComboOfferItem,
   createComboOffer,
+  getComboProductOptions,
   uploadComboOfferImage,
 } from "../../../../../../services/apiComboOffers";
 import toast from "react-hot-toast";
+import ComboItemsEditor from "@/components/ComboOffers/ComboItemsEditor";
 
 type FormData = {
   title_ar: string;
@@ -28,14 +31,21 @@ export default function CreateComboOffer() {
 
   const [selectedImage, setSelectedImage] = useState<File | null>(null);
   const [previewImage, setPreviewImage] = useState<string | null>(null);
+  const [items, setItems] = useState<ComboOfferItem[]>([]);
 
   const {
     register,
     handleSubmit,
     formState: { errors },
     reset,
+    watch,
   } = useForm<FormData>();
 
+  const { data: products = [] } = useQuery({
+    queryKey: ["comboProductOptions"],
+    queryFn: getComboProductOptions,
+  });
+
   const createMutation = useMutation({
     mutationFn: createComboOffer,
     onSuccess: () => {
@@ -102,6 +112,11 @@ export default function CreateComboOffer() {
         image_url: imageUrl,
         starts_at: data.starts_at || null,
         ends_at: data.ends_at || null,
+        items: items.map(({ product_id, variant_id, quantity }) => ({
+          product_id,
+          variant_id,
+          quantity,
+        })),
       };
 
       await createMutation.mutateAsync(insertData);
@@ -230,6 +245,18 @@ export default function CreateComboOffer() {
                 />
               </div>
 
+              <div className="sm:col-span-2 mb-[20px]">
+                <label className="mb-[10px] block font-medium text-black dark:text-white">
+                  منتجات العرض
+                </label>
+                <ComboItemsEditor
+                  items={items}
+                  onChange={setItems}
+                  products={products}
+                  totalPrice={watch("total_price")}
+                />
+              </div>
+
               <div className="sm:col-span-2">
                 <label className="mb-[10px] block font-medium text-black dark:text-white">
                   اختر الصورة (اختياري)
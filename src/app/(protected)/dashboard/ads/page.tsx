@@ -8,14 +8,23 @@ import { useForm } from "react-hook-form";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import {
   getComboOffers,
-  getComboOfferById,
+  getComboOfferStatus,
+  getComboProductOptions,
+  getComboSummary,
   updateComboOffer,
   deleteComboOffer,
   uploadComboOfferImage,
-  deleteComboOfferImage,
+  COMBO_ISSUE_LABELS,
   type ComboOffer,
+  type ComboOfferItem,
   type UpdateComboOfferData,
 } from "../../../../../services/apiComboOffers";
+import {
+  OFFER_STATUS_CLASS_NAMES,
+  OFFER_STATUS_LABELS,
+  type OfferStatus,
+} from "../../../../../services/apiProducts";
+import ComboItemsEditor from "@/components/ComboOffers/ComboItemsEditor";
 
 type FormData = {
   title_ar: string;
@@ -30,11 +39,13 @@ type FormData = {
 const ComboOffersList: React.FC = () => {
   const queryClient = useQueryClient();
   const [searchQuery, setSearchQuery] = useState("");
+  const [statusFilter, setStatusFilter] = useState<OfferStatus | "">("");
   const [currentPage, setCurrentPage] = useState(1);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [selectedOffer, setSelectedOffer] = useState<ComboOffer | null>(null);
   const [selectedImage, setSelectedImage] = useState<File | null>(null);
   const [previewImage, setPreviewImage] = useState<string | null>(null);
+  const [editItems, setEditItems] = useState<ComboOfferItem[]>([]);
   const offersPerPage = 8;
 
   const {
@@ -43,12 +54,19 @@ const ComboOffersList: React.FC = () => {
     formState: { errors },
     reset,
     setValue,
+    watch,
   } = useForm<FormData>();
 
   // React Query hooks
   const { data: comboOffersList = [], isLoading } = useQuery({
-    queryKey: ["comboOffers"],
-    queryFn: getComboOffers,
+    queryKey: ["comboOffers", statusFilter],
+    queryFn: () => getComboOffers(statusFilter || undefined),
+  });
+
+  const { data: productOptions = [] } = useQuery({
+    queryKey: ["comboProductOptions"],
+    queryFn: getComboProductOptions,
+    enabled: isEditModalOpen,
   });
 
   const updateMutation = useMutation({
@@ -72,7 +90,7 @@ const ComboOffersList: React.FC = () => {
     mutationFn: deleteComboOffer,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["comboOffers"] });
-      toast.success("تم حذف العرض بنجاح");
+      toast.success("تم نقل العرض إلى سلة المحذوفات");
     },
     onError: (error: Error) => {
       toast.error(error.message);
@@ -118,15 +136,7 @@ const ComboOffersList: React.FC = () => {
     if (!confirmed) return;
 
     try {
-      // First get the offer to get its image URL
-      const offer = await getComboOfferById(id);
-
-      // Delete the image from storage if it exists
-      if (offer.image_url) {
-        await deleteComboOfferImage(offer.image_url);
-      }
-
-      // Delete the combo offer record
+      // The image stays in storage until the offer is purged from the trash
       await deleteMutation.mutateAsync(id);
     } catch (err) {
       toast.error((err as Error).message);
@@ -145,6 +155,7 @@ const ComboOffersList: React.FC = () => {
       offer.starts_at ? offer.starts_at.split("T")[0] : null
     );
     setValue("ends_at", offer.ends_at ? offer.ends_at.split("T")[0] : null);
+    setEditItems(offer.combo_offer_items || []);
     setPreviewImage(offer.image_url);
     setIsEditModalOpen(true);
   };
@@ -172,6 +183,11 @@ const ComboOffersList: React.FC = () => {
         image_url: imageUrl,
         starts_at: data.starts_at || null,
         ends_at: data.ends_at || null,
+        items: editItems.map(({ product_id, variant_id, quantity }) => ({
+          product_id,
+          variant_id,
+          quantity,
+        })),
       };
 
       await updateMutation.mutateAsync({
@@ -226,6 +242,23 @@ const ComboOffersList: React.FC = () => {
                 search
               </i>
             </div>
+            <select
+              value={statusFilter}
+              onChange={(e) => {
+                setStatusFilter(e.target.value as OfferStatus | "");
+                setCurrentPage(1);
+              }}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 dark:bg-[#15203c] dark:text-white"
+            >
+              <option value="">كل الحالات</option>
+              {(Object.keys(OFFER_STATUS_LABELS) as OfferStatus[]).map(
+                (status) => (
+                  <option key={status} value={status}>
+                    {OFFER_STATUS_LABELS[status]}
+                  </option>
+                )
+              )}
+            </select>
           </div>
           <Link
             href="/dashboard/ads/create-combo-offer"
@@ -248,8 +281,10 @@ const ComboOffersList: React.FC = () => {
                   "العنوان",
                   "الوصف",
                   "السعر",
+                  "المنتجات",
                   "تاريخ البداية",
                   "تاريخ النهاية",
+                  "الحالة",
                   "الصورة",
                   "التاريخ",
                   "أجرأت",
@@ -266,80 +301,127 @@ const ComboOffersList: React.FC = () => {
             <tbody>
               {isLoading ? (
                 <tr>
-                  <td colSpan={8} className="py-5 text-center text-gray-400">
+                  <td colSpan={10} className="py-5 text-center text-gray-400">
                     جاري التحميل...
                   </td>
                 </tr>
               ) : paginatedOffers.length === 0 ? (
                 <tr>
-                  <td colSpan={8} className="py-5 text-center text-gray-400">
+                  <td colSpan={10} className="py-5 text-center text-gray-400">
                     لا توجد عروض.
                   </td>
                 </tr>
               ) : (
-                paginatedOffers.map((offer) => (
-                  <tr
-                    key={offer.id}
-                    className="border-t border-gray-100 dark:border-gray-800"
-                  >
-                    <td className="py-3 px-3 font-semibold">
-                      {offer.title_ar}
-                    </td>
-                    <td className="py-3 px-3">
-                      <div
-                        className="max-w-[200px] truncate"
-                        title={offer.description_ar || ""}
-                      >
-                        {offer.description_ar || "لا يوجد وصف"}
-                      </div>
-                    </td>
-                    <td className="py-3 px-3 font-semibold text-primary-500">
-                      {formatPrice(offer.total_price)}
-                    </td>
-                    <td className="py-3 px-3">{formatDate(offer.starts_at)}</td>
-                    <td className="py-3 px-3">{formatDate(offer.ends_at)}</td>
-                    <td className="py-3 px-3">
-                      {offer.image_url ? (
-                        <Image
-                          src={offer.image_url}
-                          alt={offer.title_en}
-                          width={60}
-                          height={40}
-                          className="rounded"
-                        />
-                      ) : (
-                        <div className="w-[60px] h-[40px] bg-gray-200 dark:bg-gray-700 rounded flex items-center justify-center">
-                          <i className="material-symbols-outlined text-gray-400">
-                            image
-                          </i>
-                        </div>
-                      )}
-                    </td>
-                    <td className="py-3 px-3">
-                      {new Date(offer.created_at).toLocaleDateString("ar-EG")}
-                    </td>
-                    <td className="py-3 px-3">
-                      <div className="flex gap-2">
-                        <button
-                          onClick={() => handleEditClick(offer)}
-                          className="text-primary-500 leading-none"
+                paginatedOffers.map((offer) => {
+                  const items = offer.combo_offer_items || [];
+                  const summary = getComboSummary(items, offer.total_price);
+                  const status =
+                    offer.offer_status || getComboOfferStatus(offer);
+
+                  return (
+                    <tr
+                      key={offer.id}
+                      className="border-t border-gray-100 dark:border-gray-800"
+                    >
+                      <td className="py-3 px-3 font-semibold">
+                        {offer.title_ar}
+                      </td>
+                      <td className="py-3 px-3">
+                        <div
+                          className="max-w-[200px] truncate"
+                          title={offer.description_ar || ""}
                         >
-                          <i className="material-symbols-outlined !text-md">
-                            edit
-                          </i>
-                        </button>
-                        <button
-                          onClick={() => handleDeleteOffer(offer.id)}
-                          className="text-danger-500 leading-none"
+                          {offer.description_ar || "لا يوجد وصف"}
+                        </div>
+                      </td>
+                      <td className="py-3 px-3 font-semibold text-primary-500">
+                        {formatPrice(offer.total_price)}
+                      </td>
+                      <td className="py-3 px-3 text-sm">
+                        {items.length === 0 ? (
+                          <span className="text-gray-400">لا توجد منتجات</span>
+                        ) : (
+                          <>
+                            <span className="block">
+                              {items.length} منتجات · بدلاً من{" "}
+                              {formatPrice(summary.itemsTotal)}
+                            </span>
+                            <span
+                              className={`block ${
+                                summary.savings > 0
+                                  ? "text-success-600"
+                                  : "text-danger-500"
+                              }`}
+                            >
+                              توفير {formatPrice(summary.savings)} (
+                              {summary.savingsPercent}%)
+                            </span>
+                            {summary.issues.map((issue, index) => (
+                              <span
+                                key={index}
+                                className="block text-xs text-orange-500"
+                              >
+                                <i className="ri-error-warning-line"></i>{" "}
+                                {issue.name}: {COMBO_ISSUE_LABELS[issue.type]}
+                              </span>
+                            ))}
+                          </>
+                        )}
+                      </td>
+                      <td className="py-3 px-3">
+                        {formatDate(offer.starts_at)}
+                      </td>
+                      <td className="py-3 px-3">{formatDate(offer.ends_at)}</td>
+                      <td className="py-3 px-3">
+                        <span
+                          className={`inline-block px-[8px] py-[3px] rounded-sm text-xs whitespace-nowrap ${OFFER_STATUS_CLASS_NAMES[status]}`}
                         >
-                          <i className="material-symbols-outlined !text-md">
-                            delete
-                          </i>
-                        </button>
-                      </div>
-                    </td>
-                  </tr>
-                ))
+                          {OFFER_STATUS_LABELS[status]}
+                        </span>
+                      </td>
+                      <td className="py-3 px-3">
+                        {offer.image_url ? (
+                          <Image
+                            src={offer.image_url}
+                            alt={offer.title_en}
+                            width={60}
+                            height={40}
+                            className="rounded"
+                          />
+                        ) : (
+                          <div className="w-[60px] h-[40px] bg-gray-200 dark:bg-gray-700 rounded flex items-center justify-center">
+                            <i className="material-symbols-outlined text-gray-400">
+                              image
+                            </i>
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-3 px-3">
+                        {new Date(offer.created_at).toLocaleDateString("ar-EG")}
+                      </td>
+                      <td className="py-3 px-3">
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => handleEditClick(offer)}
+                            className="text-primary-500 leading-none"
+                          >
+                            <i className="material-symbols-outlined !text-md">
+                              edit
+                            </i>
+                          </button>
+                          <button
+                            onClick={() => handleDeleteOffer(offer.id)}
+                            className="text-danger-500 leading-none"
+                          >
+                            <i className="material-symbols-outlined !text-md">
+                              delete
+                            </i>
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })
               )}
             </tbody>
           </table>
@@ -454,6 +536,18 @@ const ComboOffersList: React.FC = () => {
                     />
                   </div>
 
+                  <div className="sm:col-span-2">
+                    <label className="mb-2 block font-medium text-black dark:text-white">
+                      منتجات العرض
+                    </label>
+                    <ComboItemsEditor
+                      items={editItems}
+                      onChange={setEditItems}
+                      products={productOptions}
+                      totalPrice={watch("total_price")}
+                    />
+                  </div>
+
                   <div className="sm:col-span-2">
                     <label className="mb-2 block font-medium text-black dark:text-white">
                       الصورة
@@ -0,0 +1,348 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { useQuery } from "@tanstack/react-query";
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_ENTITY_LABELS,
+  AuditAction,
+  AuditEntityType,
+  AuditLogEntry,
+  getAuditActors,
+  getAuditLog,
+} from "../../../../../services/apiAuditLog";
+import { ROLE_LABELS, AdminRole } from "../../../../../services/apiPermissions";
+import AuditDiffList from "@/components/AuditLog/AuditDiffList";
+
+// روابط صفحات التفاصيل للسجلات التي لها صفحة
+function getEntityHref(entry: AuditLogEntry): string | null {
+  if (entry.action === "delete") return null;
+
+  const type = entry.parent_type || entry.entity_type;
+  const id = entry.parent_id || entry.entity_id;
+
+  switch (type) {
+    case "order":
+      return `/dashboard/orders/${id}`;
+    case "product":
+      return `/dashboard/news/${id}`;
+    case "user":
+      return `/dashboard/users/${id}`;
+    case "driver":
+      return `/dashboard/drivers/${id}`;
+    case "coupon":
+      return "/dashboard/coupons";
+    case "gallery":
+      return `/dashboard/images-gallery/${id}`;
+    case "site_settings":
+      return "/dashboard/site-settings";
+    default:
+      return null;
+  }
+}
+
+const AuditLogPage: React.FC = () => {
+  const [entityType, setEntityType] = useState("");
+  const [action, setAction] = useState("");
+  const [actorId, setActorId] = useState("");
+  const [entityId, setEntityId] = useState("");
+  const [debouncedEntityId, setDebouncedEntityId] = useState("");
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [currentPage, setCurrentPage] = useState(1);
+  const pageSize = 20;
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedEntityId(entityId);
+    }, 500);
+
+    return () => clearTimeout(timer);
+  }, [entityId]);
+
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [entityType, action, actorId, debouncedEntityId, dateFrom, dateTo]);
+
+  const { data: actors = [] } = useQuery({
+    queryKey: ["audit_actors"],
+    queryFn: getAuditActors,
+  });
+
+  const { isPending, data } = useQuery({
+    queryKey: [
+      "audit_log",
+      currentPage,
+      entityType,
+      action,
+      actorId,
+      debouncedEntityId,
+      dateFrom,
+      dateTo,
+    ],
+    queryFn: () =>
+      getAuditLog(currentPage, pageSize, {
+        entityType,
+        action,
+        actorId,
+        entityId: debouncedEntityId,
+        dateFrom,
+        dateTo,
+      }),
+  });
+
+  const entries = data?.entries || [];
+  const total = data?.total || 0;
+  const totalPages = Math.max(1, Math.ceil(total / pageSize));
+  const endIndex = Math.min(currentPage * pageSize, total);
+
+  const filterClassName =
+    "w-full p-2 border transition border-[#f2f2f2] hover:bg-[#f2f2f2] rounded-lg outline-none dark:border-[#172036] dark:hover:bg-[#172036] dark:bg-[#0c1427] dark:text-white";
+
+  return (
+    <>
+      <div className="mb-[25px] md:flex items-center justify-between">
+        <h5 className="!mb-0">سجل التدقيق</h5>
+
+        <ol className="breadcrumb mt-[12px] md:mt-0 rtl:flex-row-reverse">
+          <li className="breadcrumb-item inline-block relative text-sm mx-[11px] ltr:first:ml-0 rtl:first:mr-0 ltr:last:mr-0 rtl:last:ml-0">
+            <Link
+              href="/dashboard"
+              className="inline-block relative ltr:pl-[22px] rtl:pr-[22px] transition-all hover:text-primary-500"
+            >
+              <i className="material-symbols-outlined absolute ltr:left-0 rtl:right-0 !text-lg -mt-px text-primary-500 top-1/2 -translate-y-1/2">
+                home
+              </i>
+              رئيسية
+            </Link>
+          </li>
+          <li className="breadcrumb-item inline-block relative text-sm mx-[11px] ltr:first:ml-0 rtl:first:mr-0 ltr:last:mr-0 rtl:last:ml-0">
+            سجل التدقيق
+          </li>
+        </ol>
+      </div>
+
+      <div className="trezo-card bg-white dark:bg-[#0c1427] mb-[25px] p-[20px] md:p-[25px] rounded-md">
+        <div className="mb-4 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-4">
+          <input
+            type="text"
+            value={entityId}
+            onChange={(e) => setEntityId(e.target.value)}
+            placeholder="معرف السجل..."
+            className={filterClassName}
+          />
+
+          <select
+            value={entityType}
+            onChange={(e) => setEntityType(e.target.value)}
+            className={filterClassName}
+          >
+            <option value="">كل الأنواع</option>
+            {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntityType[]).map(
+              (type) => (
+                <option key={type} value={type}>
+                  {AUDIT_ENTITY_LABELS[type]}
+                </option>
+              )
+            )}
+          </select>
+
+          <select
+            value={action}
+            onChange={(e) => setAction(e.target.value)}
+            className={filterClassName}
+          >
+            <option value="">كل الإجراءات</option>
+            {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(
+              (auditAction) => (
+                <option key={auditAction} value={auditAction}>
+                  {AUDIT_ACTION_LABELS[auditAction]}
+                </option>
+              )
+            )}
+          </select>
+
+          <select
+            value={actorId}
+            onChange={(e) => setActorId(e.target.value)}
+            className={filterClassName}
+          >
+            <option value="">كل المشرفين</option>
+            {actors.map((actor) => (
+              <option key={actor.user_id} value={actor.user_id}>
+                {actor.full_name || actor.user_id.slice(0, 8)}
+              </option>
+            ))}
+          </select>
+
+          <input
+            type="date"
+            value={dateFrom}
+            onChange={(e) => setDateFrom(e.target.value)}
+            title="من تاريخ"
+            className={filterClassName}
+          />
+
+          <input
+            type="date"
+            value={dateTo}
+            onChange={(e) => setDateTo(e.target.value)}
+            title="إلى تاريخ"
+            className={filterClassName}
+          />
+        </div>
+
+        <div className="trezo-card-content">
+          <div className="table-responsive overflow-x-auto">
+            <table className="w-full">
+              <thead className="text-black dark:text-white">
+                <tr>
+                  {[
+                    "التاريخ",
+                    "المشرف",
+                    "الإجراء",
+                    "النوع",
+                    "السجل",
+                    "التغييرات",
+                  ].map((header) => (
+                    <th
+                      key={header}
+                      className="font-medium ltr:text-left rtl:text-right px-[20px] py-[11px] bg-gray-50 dark:bg-[#15203c] whitespace-nowrap ltr:first:rounded-tl-md ltr:last:rounded-tr-md rtl:first:rounded-tr-md rtl:last:rounded-tl-md"
+                    >
+                      {header}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+
+              <tbody className="text-black dark:text-white">
+                {isPending ? (
+                  <tr>
+                    <td colSpan={6} className="text-center py-8 text-gray-500">
+                      جاري التحميل...
+                    </td>
+                  </tr>
+                ) : entries.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="text-center py-8 text-gray-500">
+                      لا توجد سجلات مطابقة
+                    </td>
+                  </tr>
+                ) : (
+                  entries.map((entry) => {
+                    const href = getEntityHref(entry);
+                    const changeCount = Object.keys(entry.diff || {}).length;
+
+                    return (
+                      <tr key={entry.id}>
+                        <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[15px] border-b border-gray-100 dark:border-[#172036] align-top">
+                          {new Date(entry.created_at).toLocaleString("ar-EG")}
+                        </td>
+                        <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[15px] border-b border-gray-100 dark:border-[#172036] align-top">
+                          <span className="block font-medium">
+                            {entry.actor_name || "غير معروف"}
+                          </span>
+                          {entry.actor_role && (
+                            <span className="block text-xs text-gray-500">
+                              {ROLE_LABELS[entry.actor_role as AdminRole] ||
+                                entry.actor_role}
+                            </span>
+                          )}
+                        </td>
+                        <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[15px] border-b border-gray-100 dark:border-[#172036] align-top">
+                          <span
+                            className={`px-[8px] py-[3px] rounded-sm text-xs ${
+                              entry.action === "delete"
+                                ? "bg-danger-50 text-danger-500"
+                                : entry.action === "create"
+                                ? "bg-success-50 text-success-600"
+                                : "bg-primary-50 text-primary-500"
+                            }`}
+                          >
+                            {AUDIT_ACTION_LABELS[entry.action]}
+                          </span>
+                        </td>
+                        <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[15px] border-b border-gray-100 dark:border-[#172036] align-top">
+                          {AUDIT_ENTITY_LABELS[entry.entity_type] ||
+                            entry.entity_type}
+                        </td>
+                        <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[15px] border-b border-gray-100 dark:border-[#172036] align-top">
+                          {href ? (
+                            <Link
+                              href={href}
+                              className="text-primary-500 hover:underline"
+                            >
+                              #{entry.entity_id.slice(0, 8)}
+                            </Link>
+                          ) : (
+                            <span>#{entry.entity_id.slice(0, 8)}</span>
+                          )}
+                        </td>
+                        <td className="ltr:text-left rtl:text-right px-[20px] py-[15px] border-b border-gray-100 dark:border-[#172036] align-top">
+                          {expandedId === entry.id ? (
+                            <>
+                              <AuditDiffList entry={entry} />
+                              <button
+                                type="button"
+                                onClick={() => setExpandedId(null)}
+                                className="mt-[6px] text-sm text-primary-500 hover:underline"
+                              >
+                                إخفاء
+                              </button>
+                            </>
+                          ) : (
+                            <button
+                              type="button"
+                              onClick={() => setExpandedId(entry.id)}
+                              className="text-sm text-primary-500 hover:underline"
+                            >
+                              عرض {changeCount} حقل
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })
+                )}
+              </tbody>
+            </table>
+
+            <div className="flex justify-between items-center mt-4">
+              <p className="text-gray-600 dark:text-gray-300 text-sm">
+                عرض {endIndex} من إجمالي {total} سجل
+              </p>
+
+              <div className="flex justify-center gap-2">
+                <button
+                  onClick={() =>
+                    setCurrentPage((prev) => Math.max(prev - 1, 1))
+                  }
+                  disabled={currentPage === 1}
+                  className="px-3 py-1 border rounded disabled:opacity-50"
+                >
+                  السابق
+                </button>
+                <span className="px-3 py-1 text-sm text-gray-600 dark:text-gray-300">
+                  {currentPage} / {totalPages}
+                </span>
+                <button
+                  onClick={() =>
+                    setCurrentPage((prev) => Math.min(prev + 1, totalPages))
+                  }
+                  disabled={currentPage === totalPages}
+                  className="px-3 py-1 border rounded disabled:opacity-50"
+                >
+                  التالي
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default AuditLogPage;
@@ -0,0 +1,516 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import dynamic from "next/dynamic";
+import { useParams } from "next/navigation";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import toast from "react-hot-toast";
+import {
+  DELIVERY_ZONE_TYPE_LABELS,
+  DeliveryZone,
+  DeliveryZoneInput,
+  DeliveryZoneType,
+  LatLng,
+  createDeliveryZone,
+  deleteDeliveryZone,
+  formatZonePolygon,
+  getDeliveryZones,
+  parseZonePolygon,
+  updateDeliveryZone,
+} from "../../../../../../../services/apiDeliveryZones";
+import {
+  getBranchOptions,
+  parseServiceAreas,
+} from "../../../../../../../services/apiBranches";
+
+type FormData = {
+  name_ar: string;
+  name_en: string;
+  zone_type: DeliveryZoneType;
+  polygon: string;
+  areas: string;
+  fee: number;
+  min_order_value: number;
+  estimated_minutes: string;
+  priority: number;
+  is_active: boolean;
+};
+
+const emptyForm: FormData = {
+  name_ar: "",
+  name_en: "",
+  zone_type: "areas",
+  polygon: "",
+  areas: "",
+  fee: 0,
+  min_order_value: 0,
+  estimated_minutes: "",
+  priority: 0,
+  is_active: true,
+};
+
+const inputClassName =
+  "h-[45px] rounded-md text-black dark:text-white border border-gray-200 dark:border-[#172036] bg-white dark:bg-[#0c1427] px-4 block w-full outline-0 transition-all";
+
+// Leaflet يحتاج window، لذلك لا يُحمّل على الخادم
+const ZoneMapEditor = dynamic(
+  () => import("@/components/DeliveryZones/ZoneMapEditor"),
+  { ssr: false }
+);
+
+const DeliveryZonesPage: React.FC = () => {
+  const params = useParams();
+  const branchId = params.id as string;
+  const queryClient = useQueryClient();
+  // null = النموذج مغلق، "new" = منطقة جديدة
+  const [editing, setEditing] = useState<DeliveryZone | "new" | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    watch,
+    setValue,
+    formState: { errors },
+  } = useForm<FormData>({ defaultValues: emptyForm });
+
+  const zoneType = watch("zone_type");
+  const polygonText = watch("polygon");
+
+  let polygonPoints: LatLng[] = [];
+  try {
+    polygonPoints = parseZonePolygon(polygonText || "");
+  } catch {
+    polygonPoints = [];
+  }
+
+  const { data: branches = [] } = useQuery({
+    queryKey: ["branch_options"],
+    queryFn: getBranchOptions,
+  });
+  const branch = branches.find((item) => item.id === branchId);
+
+  const { data: zones = [], isPending } = useQuery({
+    queryKey: ["delivery_zones", branchId],
+    queryFn: () => getDeliveryZones(branchId),
+    enabled: !!branchId,
+  });
+
+  const onSaved = () => {
+    queryClient.invalidateQueries({ queryKey: ["delivery_zones", branchId] });
+    setEditing(null);
+    reset(emptyForm);
+  };
+
+  const { mutate: saveZone, isPending: isSaving } = useMutation({
+    mutationFn: (zone: DeliveryZoneInput) =>
+      editing && editing !== "new"
+        ? updateDeliveryZone(editing.id, zone)
+        : createDeliveryZone(branchId, zone),
+    onSuccess: () => {
+      toast.success("تم حفظ منطقة التوصيل");
+      onSaved();
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const { mutate: removeZone } = useMutation({
+    mutationFn: deleteDeliveryZone,
+    onSuccess: () => {
+      toast.success("تم حذف منطقة التوصيل");
+      queryClient.invalidateQueries({ queryKey: ["delivery_zones", branchId] });
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const openForm = (zone: DeliveryZone | "new") => {
+    setEditing(zone);
+    reset(
+      zone === "new"
+        ? emptyForm
+        : {
+            name_ar: zone.name_ar,
+            name_en: zone.name_en || "",
+            zone_type: zone.zone_type,
+            polygon: formatZonePolygon(zone.polygon),
+            areas: zone.areas.join("، "),
+            fee: zone.fee,
+            min_order_value: zone.min_order_value,
+            estimated_minutes: zone.estimated_minutes?.toString() || "",
+            priority: zone.priority,
+            is_active: zone.is_active,
+          }
+    );
+  };
+
+  const onSubmit = (data: FormData) => {
+    let polygon: LatLng[] = [];
+    try {
+      polygon =
+        data.zone_type === "polygon" ? parseZonePolygon(data.polygon) : [];
+    } catch (error) {
+      toast.error((error as Error).message);
+      return;
+    }
+
+    saveZone({
+      name_ar: data.name_ar.trim(),
+      name_en: data.name_en.trim() || null,
+      zone_type: data.zone_type,
+      polygon,
+      areas: parseServiceAreas(data.areas),
+      fee: Number(data.fee) || 0,
+      min_order_value: Number(data.min_order_value) || 0,
+      estimated_minutes: data.estimated_minutes
+        ? Number(data.estimated_minutes)
+        : null,
+      priority: Number(data.priority) || 0,
+      is_active: data.is_active,
+    });
+  };
+
+  const handleDelete = (zone: DeliveryZone) => {
+    toast((t) => (
+      <div className="flex flex-col gap-2">
+        <p>حذف منطقة &quot;{zone.name_ar}&quot;؟</p>
+        <div className="flex gap-2 justify-end">
+          <button
+            onClick={() => {
+              toast.dismiss(t.id);
+              removeZone(zone.id);
+            }}
+            className="px-3 py-1 rounded-md bg-danger-500 text-white"
+          >
+            حذف
+          </button>
+          <button
+            onClick={() => toast.dismiss(t.id)}
+            className="px-3 py-1 rounded-md bg-gray-200 text-black"
+          >
+            إلغاء
+          </button>
+        </div>
+      </div>
+    ));
+  };
+
+  return (
+    <>
+      <div className="mb-[25px] md:flex items-center justify-between">
+        <h5 className="!mb-0">مناطق توصيل {branch?.name_ar || "الفرع"}</h5>
+
+        <ol className="breadcrumb mt-[12px] md:mt-0 rtl:flex-row-reverse">
+          <li className="breadcrumb-item inline-block relative text-sm mx-[11px] ltr:first:ml-0 rtl:first:mr-0 ltr:last:mr-0 rtl:last:ml-0">
+            <Link
+              href="/dashboard"
+              className="inline-block relative ltr:pl-[22px] rtl:pr-[22px] transition-all hover:text-primary-500"
+            >
+              <i className="material-symbols-outlined absolute ltr:left-0 rtl:right-0 !text-lg -mt-px text-primary-500 top-1/2 -translate-y-1/2">
+                home
+              </i>
+              رئيسية
+            </Link>
+          </li>
+          <li className="breadcrumb-item inline-block relative text-sm mx-[11px] ltr:first:ml-0 rtl:first:mr-0 ltr:last:mr-0 rtl:last:ml-0">
+            <Link
+              href="/dashboard/branches"
+              className="transition-all hover:text-primary-500"
+            >
+              الفروع
+            </Link>
+          </li>
+          <li className="breadcrumb-item inline-block relative text-sm mx-[11px] ltr:first:ml-0 rtl:first:mr-0 ltr:last:mr-0 rtl:last:ml-0">
+            مناطق التوصيل
+          </li>
+        </ol>
+      </div>
+
+      <div className="trezo-card bg-white dark:bg-[#0c1427] mb-[25px] p-[20px] md:p-[25px] rounded-md">
+        <div className="trezo-card-header mb-[20px] md:mb-[25px] sm:flex items-center justify-between">
+          <h6 className="text-lg font-semibold text-gray-900 dark:text-white !mb-0">
+            المناطق
+          </h6>
+          <button
+            type="button"
+            onClick={() => openForm("new")}
+            className="mt-[10px] sm:mt-0 inline-block transition-all rounded-md font-medium px-[13px] py-[6px] text-primary-500 border border-primary-500 hover:bg-primary-500 hover:text-white"
+          >
+            إضافة منطقة
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-500 !mb-[15px]">
+          عند إنشاء الطلب تُختار أول منطقة مفعّلة تطابق عنوان العميل: المناطق
+          المرسومة قبل قوائم المناطق، ثم الأقل في الترتيب.
+        </p>
+
+        <div className="table-responsive overflow-x-auto">
+          <table className="w-full">
+            <thead className="text-black dark:text-white">
+              <tr>
+                {[
+                  "المنطقة",
+                  "النوع",
+                  "رسوم التوصيل",
+                  "الحد الأدنى للطلب",
+                  "مدة التوصيل",
+                  "الحالة",
+                  "الإجراءات",
+                ].map((title) => (
+                  <th
+                    key={title}
+                    className="font-medium text-right px-3 py-3 bg-primary-50 dark:bg-[#15203c] whitespace-nowrap"
+                  >
+                    {title}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="text-black dark:text-white">
+              {isPending ? (
+                <tr>
+                  <td colSpan={7} className="text-center py-6 text-gray-500">
+                    جاري التحميل...
+                  </td>
+                </tr>
+              ) : zones.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="text-center py-6 text-gray-400">
+                    لا توجد مناطق توصيل لهذا الفرع
+                  </td>
+                </tr>
+              ) : (
+                zones.map((zone) => (
+                  <tr
+                    key={zone.id}
+                    className="border-b border-gray-100 dark:border-[#172036]"
+                  >
+                    <td className="py-3 px-3">
+                      <span className="block font-medium">{zone.name_ar}</span>
+                      {zone.zone_type === "areas" && (
+                        <span className="block text-xs text-gray-500">
+                          {zone.areas.join("، ")}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-3 px-3 text-sm">
+                      {DELIVERY_ZONE_TYPE_LABELS[zone.zone_type]}
+                    </td>
+                    <td className="py-3 px-3">${zone.fee}</td>
+                    <td className="py-3 px-3">${zone.min_order_value}</td>
+                    <td className="py-3 px-3">
+                      {zone.estimated_minutes
+                        ? `${zone.estimated_minutes} دقيقة`
+                        : "-"}
+                    </td>
+                    <td className="py-3 px-3">
+                      <span
+                        className={`inline-block px-[8px] py-[3px] rounded-sm text-xs ${
+                          zone.is_active
+                            ? "bg-success-50 text-success-600"
+                            : "bg-gray-100 text-gray-500"
+                        }`}
+                      >
+                        {zone.is_active ? "مفعّلة" : "موقوفة"}
+                      </span>
+                    </td>
+                    <td className="py-3 px-3">
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => openForm(zone)}
+                          className="text-primary-500 leading-none"
+                        >
+                          <i className="material-symbols-outlined !text-md">
+                            edit
+                          </i>
+                        </button>
+                        <button
+                          onClick={() => handleDelete(zone)}
+                          className="text-danger-500 leading-none"
+                        >
+                          <i className="material-symbols-outlined !text-md">
+                            delete
+                          </i>
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {editing && (
+        <div className="trezo-card bg-white dark:bg-[#0c1427] mb-[25px] p-[20px] md:p-[25px] rounded-md">
+          <div className="trezo-card-header mb-[20px] md:mb-[25px]">
+            <h6 className="text-lg font-semibold text-gray-900 dark:text-white !mb-0">
+              {editing === "new" ? "منطقة جديدة" : `تعديل ${editing.name_ar}`}
+            </h6>
+          </div>
+
+          <form onSubmit={handleSubmit(onSubmit)}>
+            <div className="sm:grid sm:grid-cols-2 sm:gap-[20px] space-y-[15px] sm:space-y-0">
+              <div>
+                <label className="mb-2 block font-medium text-black dark:text-white">
+                  اسم المنطقة (عربي)
+                </label>
+                <input
+                  {...register("name_ar", { required: "اسم المنطقة مطلوب" })}
+                  className={inputClassName}
+                />
+                {errors.name_ar && (
+                  <p className="text-red-500 mt-1">{errors.name_ar.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="mb-2 block font-medium text-black dark:text-white">
+                  اسم المنطقة (إنجليزي)
+                </label>
+                <input {...register("name_en")} className={inputClassName} />
+              </div>
+
+              <div>
+                <label className="mb-2 block font-medium text-black dark:text-white">
+                  طريقة التحديد
+                </label>
+                <select {...register("zone_type")} className={inputClassName}>
+                  {Object.entries(DELIVERY_ZONE_TYPE_LABELS).map(
+                    ([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    )
+                  )}
+                </select>
+              </div>
+
+              <div>
+                <label className="mb-2 block font-medium text-black dark:text-white">
+                  الترتيب
+                </label>
+                <input
+                  type="number"
+                  {...register("priority")}
+                  className={inputClassName}
+                />
+              </div>
+
+              {zoneType === "areas" ? (
+                <div className="sm:col-span-2">
+                  <label className="mb-2 block font-medium text-black dark:text-white">
+                    المناطق والمدن
+                  </label>
+                  <textarea
+                    {...register("areas")}
+                    rows={3}
+                    placeholder="مدينة نصر، مصر الجديدة، Heliopolis"
+                    className="rounded-md text-black dark:text-white border border-gray-200 dark:border-[#172036] bg-white dark:bg-[#0c1427] p-4 block w-full outline-0 transition-all"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    تُطابق مع مدينة أو محافظة العميل، افصل بينها بفاصلة أو سطر
+                    جديد
+                  </p>
+                </div>
+              ) : (
+                <div className="sm:col-span-2">
+                  <label className="mb-2 block font-medium text-black dark:text-white">
+                    حدود المنطقة
+                  </label>
+                  <ZoneMapEditor
+                    points={polygonPoints}
+                    onChange={(points) =>
+                      setValue("polygon", formatZonePolygon(points), {
+                        shouldDirty: true,
+                      })
+                    }
+                  />
+                  <p className="text-xs text-gray-500 mt-1 mb-[10px]">
+                    ارسم المنطقة بأداة المضلع على الخريطة وعدّلها بأداة التحرير،
+                    أو الصق GeoJSON أو أدخل نقطة في كل سطر بصيغة &quot;خط العرض،
+                    خط الطول&quot;
+                  </p>
+                  <textarea
+                    {...register("polygon")}
+                    rows={4}
+                    dir="ltr"
+                    placeholder={
+                      "30.0444, 31.2357\n30.0500, 31.2500\n30.0300, 31.2600"
+                    }
+                    className="rounded-md text-black dark:text-white border border-gray-200 dark:border-[#172036] bg-white dark:bg-[#0c1427] p-4 block w-full outline-0 transition-all font-mono text-sm"
+                  />
+                </div>
+              )}
+
+              <div>
+                <label className="mb-2 block font-medium text-black dark:text-white">
+                  رسوم التوصيل
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min={0}
+                  {...register("fee", { required: true })}
+                  className={inputClassName}
+                />
+              </div>
+
+              <div>
+                <label className="mb-2 block font-medium text-black dark:text-white">
+                  الحد الأدنى للطلب
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min={0}
+                  {...register("min_order_value")}
+                  className={inputClassName}
+                />
+              </div>
+
+              <div>
+                <label className="mb-2 block font-medium text-black dark:text-white">
+                  مدة التوصيل المتوقعة (دقيقة)
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  {...register("estimated_minutes")}
+                  className={inputClassName}
+                />
+              </div>
+
+              <label className="flex items-center gap-[8px] self-end pb-[12px]">
+                <input type="checkbox" {...register("is_active")} />
+                المنطقة مفعّلة
+              </label>
+            </div>
+
+            <div className="mt-[20px] flex gap-[10px]">
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="font-medium inline-block transition-all rounded-md py-[10px] px-[20px] bg-primary-500 text-white hover:bg-primary-400 disabled:opacity-50"
+              >
+                {isSaving ? "جاري الحفظ..." : "حفظ المنطقة"}
+              </button>
+              <button
+                type="button"
+                onClick={() => setEditing(null)}
+                className="font-medium inline-block transition-all rounded-md py-[10px] px-[20px] bg-gray-100 text-black dark:bg-[#15203c] dark:text-white"
+              >
+                إلغاء
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default DeliveryZonesPage;
@@ -0,0 +1,398 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import toast from "react-hot-toast";
+import {
+  BranchSchedule,
+  BranchScheduleException,
+  BranchShift,
+  DEFAULT_BRANCH_TIMEZONE,
+  WEEKDAY_LABELS,
+  formatBranchOpenStatus,
+  getBranchOpenStatus,
+  getBranchSchedule,
+  saveBranchSchedule,
+} from "../../../../../../../services/apiBranchSchedules";
+import { getBranchOptions } from "../../../../../../../services/apiBranches";
+
+// ترتيب العرض يبدأ بالسبت كما في أسبوع العمل المحلي
+const WEEKDAY_ORDER = [6, 0, 1, 2, 3, 4, 5];
+
+const inputClassName =
+  "h-[40px] rounded-md text-black dark:text-white border border-gray-200 dark:border-[#172036] bg-white dark:bg-[#0c1427] px-3 outline-0 transition-all";
+
+const BranchSchedulePage: React.FC = () => {
+  const params = useParams();
+  const branchId = params.id as string;
+  const queryClient = useQueryClient();
+
+  const [schedule, setSchedule] = useState<BranchSchedule>({
+    timezone: DEFAULT_BRANCH_TIMEZONE,
+    shifts: [],
+    exceptions: [],
+  });
+
+  const { data: branches = [] } = useQuery({
+    queryKey: ["branch_options"],
+    queryFn: getBranchOptions,
+  });
+  const branch = branches.find((item) => item.id === branchId);
+
+  const { data: savedSchedule, isPending } = useQuery({
+    queryKey: ["branch_schedule", branchId],
+    queryFn: () => getBranchSchedule(branchId),
+    enabled: !!branchId,
+  });
+
+  useEffect(() => {
+    if (savedSchedule) setSchedule(savedSchedule);
+  }, [savedSchedule]);
+
+  const { mutate: save, isPending: isSaving } = useMutation({
+    mutationFn: () => saveBranchSchedule(branchId, schedule),
+    onSuccess: () => {
+      toast.success("تم حفظ جدول الدوام");
+      queryClient.invalidateQueries({
+        queryKey: ["branch_schedule", branchId],
+      });
+      queryClient.invalidateQueries({ queryKey: ["branch_schedules"] });
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const updateShift = (index: number, changes: Partial<BranchShift>) =>
+    setSchedule((current) => ({
+      ...current,
+      shifts: current.shifts.map((shift, i) =>
+        i === index ? { ...shift, ...changes } : shift
+      ),
+    }));
+
+  const addShift = (weekday: number) =>
+    setSchedule((current) => ({
+      ...current,
+      shifts: [
+        ...current.shifts,
+        { weekday, opens_at: "09:00", closes_at: "17:00" },
+      ],
+    }));
+
+  const removeShift = (index: number) =>
+    setSchedule((current) => ({
+      ...current,
+      shifts: current.shifts.filter((_, i) => i !== index),
+    }));
+
+  // نسخ ورديات يوم إلى باقي أيام الأسبوع
+  const copyToAllDays = (weekday: number) =>
+    setSchedule((current) => {
+      const source = current.shifts.filter(
+        (shift) => shift.weekday === weekday
+      );
+      return {
+        ...current,
+        shifts: WEEKDAY_LABELS.flatMap((_, day) =>
+          source.map((shift) => ({ ...shift, weekday: day }))
+        ),
+      };
+    });
+
+  const updateException = (
+    index: number,
+    changes: Partial<BranchScheduleException>
+  ) =>
+    setSchedule((current) => ({
+      ...current,
+      exceptions: current.exceptions.map((item, i) =>
+        i === index ? { ...item, ...changes } : item
+      ),
+    }));
+
+  const addException = () =>
+    setSchedule((current) => ({
+      ...current,
+      exceptions: [
+        ...current.exceptions,
+        {
+          date: new Date().toISOString().slice(0, 10),
+          is_closed: true,
+          opens_at: null,
+          closes_at: null,
+          note: "",
+        },
+      ],
+    }));
+
+  const removeException = (index: number) =>
+    setSchedule((current) => ({
+      ...current,
+      exceptions: current.exceptions.filter((_, i) => i !== index),
+    }));
+
+  const status = getBranchOpenStatus(schedule);
+
+  return (
+    <>
+      <div className="mb-[25px] md:flex items-center justify-between">
+        <h5 className="!mb-0">جدول دوام {branch?.name_ar || "الفرع"}</h5>
+
+        <ol className="breadcrumb mt-[12px] md:mt-0 rtl:flex-row-reverse">
+          <li className="breadcrumb-item inline-block relative text-sm mx-[11px] ltr:first:ml-0 rtl:first:mr-0 ltr:last:mr-0 rtl:last:ml-0">
+            <Link
+              href="/dashboard"
+              className="inline-block relative ltr:pl-[22px] rtl:pr-[22px] transition-all hover:text-primary-500"
+            >
+              <i className="material-symbols-outlined absolute ltr:left-0 rtl:right-0 !text-lg -mt-px text-primary-500 top-1/2 -translate-y-1/2">
+                home
+              </i>
+              رئيسية
+            </Link>
+          </li>
+          <li className="breadcrumb-item inline-block relative text-sm mx-[11px] ltr:first:ml-0 rtl:first:mr-0 ltr:last:mr-0 rtl:last:ml-0">
+            <Link
+              href="/dashboard/branches"
+              className="transition-all hover:text-primary-500"
+            >
+              الفروع
+            </Link>
+          </li>
+          <li className="breadcrumb-item inline-block relative text-sm mx-[11px] ltr:first:ml-0 rtl:first:mr-0 ltr:last:mr-0 rtl:last:ml-0">
+            جدول الدوام
+          </li>
+        </ol>
+      </div>
+
+      {isPending ? (
+        <p className="text-center py-8 text-gray-500">جاري التحميل...</p>
+      ) : (
+        <>
+          <div className="trezo-card bg-white dark:bg-[#0c1427] mb-[25px] p-[20px] md:p-[25px] rounded-md">
+            <div className="trezo-card-header mb-[20px] md:mb-[25px] sm:flex items-center justify-between">
+              <h6 className="text-lg font-semibold text-gray-900 dark:text-white !mb-0">
+                الجدول الأسبوعي
+              </h6>
+              <span
+                className={`mt-[10px] sm:mt-0 inline-block px-[10px] py-[4px] rounded-sm text-sm ${
+                  status.isOpen
+                    ? "bg-success-50 text-success-600"
+                    : "bg-danger-50 text-danger-500"
+                }`}
+              >
+                {formatBranchOpenStatus(status, new Date(), schedule.timezone)}
+              </span>
+            </div>
+
+            <div className="mb-[20px] max-w-[320px]">
+              <label className="mb-2 block font-medium text-black dark:text-white">
+                المنطقة الزمنية
+              </label>
+              <input
+                value={schedule.timezone}
+                onChange={(e) =>
+                  setSchedule((current) => ({
+                    ...current,
+                    timezone: e.target.value.trim(),
+                  }))
+                }
+                dir="ltr"
+                className={`${inputClassName} w-full`}
+              />
+            </div>
+
+            <div className="space-y-[12px]">
+              {WEEKDAY_ORDER.map((weekday) => {
+                const dayShifts = schedule.shifts
+                  .map((shift, index) => ({ shift, index }))
+                  .filter(({ shift }) => shift.weekday === weekday);
+
+                return (
+                  <div
+                    key={weekday}
+                    className="md:flex items-start gap-[15px] border-b border-gray-100 dark:border-[#172036] pb-[12px]"
+                  >
+                    <span className="block w-[90px] font-medium text-black dark:text-white pt-[8px]">
+                      {WEEKDAY_LABELS[weekday]}
+                    </span>
+
+                    <div className="flex-1 space-y-[8px]">
+                      {dayShifts.length === 0 && (
+                        <span className="block text-gray-400 pt-[8px]">
+                          مغلق
+                        </span>
+                      )}
+                      {dayShifts.map(({ shift, index }) => (
+                        <div
+                          key={index}
+                          className="flex flex-wrap items-center gap-[8px]"
+                        >
+                          <span className="text-sm text-gray-500">من</span>
+                          <input
+                            type="time"
+                            value={shift.opens_at}
+                            onChange={(e) =>
+                              updateShift(index, { opens_at: e.target.value })
+                            }
+                            className={inputClassName}
+                          />
+                          <span className="text-sm text-gray-500">إلى</span>
+                          <input
+                            type="time"
+                            value={shift.closes_at}
+                            onChange={(e) =>
+                              updateShift(index, { closes_at: e.target.value })
+                            }
+                            className={inputClassName}
+                          />
+                          {shift.closes_at <= shift.opens_at && (
+                            <span className="text-xs text-gray-500">
+                              (حتى اليوم التالي)
+                            </span>
+                          )}
+                          <button
+                            type="button"
+                            onClick={() => removeShift(index)}
+                            className="text-danger-500 leading-none"
+                          >
+                            <i className="material-symbols-outlined !text-md">
+                              delete
+                            </i>
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+
+                    <div className="flex gap-[12px] pt-[8px] text-sm">
+                      <button
+                        type="button"
+                        onClick={() => addShift(weekday)}
+                        className="text-primary-500 hover:underline"
+                      >
+                        + وردية
+                      </button>
+                      {dayShifts.length > 0 && (
+                        <button
+                          type="button"
+                          onClick={() => copyToAllDays(weekday)}
+                          className="text-gray-500 hover:underline"
+                        >
+                          نسخ لكل الأيام
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="trezo-card bg-white dark:bg-[#0c1427] mb-[25px] p-[20px] md:p-[25px] rounded-md">
+            <div className="trezo-card-header mb-[20px] md:mb-[25px] flex items-center justify-between">
+              <h6 className="text-lg font-semibold text-gray-900 dark:text-white !mb-0">
+                العطلات والأيام الخاصة
+              </h6>
+              <button
+                type="button"
+                onClick={addException}
+                className="inline-block transition-all rounded-md font-medium px-[13px] py-[6px] text-primary-500 border border-primary-500 hover:bg-primary-500 hover:text-white"
+              >
+                إضافة يوم
+              </button>
+            </div>
+
+            <p className="text-sm text-gray-500 !mb-[15px]">
+              اليوم المضاف يحل محل الجدول الأسبوعي لذلك التاريخ. لفتح ورديتين في
+              يوم خاص أضف التاريخ مرتين.
+            </p>
+
+            <div className="space-y-[10px]">
+              {schedule.exceptions.length === 0 && (
+                <p className="text-center text-gray-400 py-[10px]">
+                  لا توجد أيام خاصة
+                </p>
+              )}
+              {schedule.exceptions.map((item, index) => (
+                <div
+                  key={index}
+                  className="flex flex-wrap items-center gap-[10px] border-b border-gray-100 dark:border-[#172036] pb-[10px]"
+                >
+                  <input
+                    type="date"
+                    value={item.date}
+                    onChange={(e) =>
+                      updateException(index, { date: e.target.value })
+                    }
+                    className={inputClassName}
+                  />
+                  <label className="flex items-center gap-[6px] text-sm">
+                    <input
+                      type="checkbox"
+                      checked={item.is_closed}
+                      onChange={(e) =>
+                        updateException(index, {
+                          is_closed: e.target.checked,
+                          opens_at: e.target.checked ? null : "09:00",
+                          closes_at: e.target.checked ? null : "17:00",
+                        })
+                      }
+                    />
+                    مغلق طوال اليوم
+                  </label>
+                  {!item.is_closed && (
+                    <>
+                      <input
+                        type="time"
+                        value={item.opens_at || ""}
+                        onChange={(e) =>
+                          updateException(index, { opens_at: e.target.value })
+                        }
+                        className={inputClassName}
+                      />
+                      <span className="text-sm text-gray-500">إلى</span>
+                      <input
+                        type="time"
+                        value={item.closes_at || ""}
+                        onChange={(e) =>
+                          updateException(index, { closes_at: e.target.value })
+                        }
+                        className={inputClassName}
+                      />
+                    </>
+                  )}
+                  <input
+                    value={item.note || ""}
+                    onChange={(e) =>
+                      updateException(index, { note: e.target.value })
+                    }
+                    placeholder="ملاحظة (مثال: عيد الفطر)"
+                    className={`${inputClassName} flex-1 min-w-[180px]`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => removeException(index)}
+                    className="text-danger-500 leading-none"
+                  >
+                    <i className="material-symbols-outlined !text-md">delete</i>
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <button
+            type="button"
+            onClick={() => save()}
+            disabled={isSaving}
+            className="font-medium inline-block transition-all rounded-md md:text-md py-[10px] md:py-[12px] px-[20px] md:px-[22px] bg-primary-500 text-white hover:bg-primary-400 disabled:opacity-50"
+          >
+            {isSaving ? "جاري الحفظ..." : "حفظ الجدول"}
+          </button>
+        </>
+      )}
+    </>
+  );
+};
+
+export default BranchSchedulePage;
@@ -4,6 +4,7 @@ import { useRouter } from "next/navigation";
 import React, { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import supabase from "../../../../../../services/supabase";
+import { parseServiceAreas } from "../../../../../../services/apiBranches";
 import toast from "react-hot-toast";
 
 type FormData = {
@@ -11,6 +12,7 @@ type FormData = {
   name_en: string;
   area_ar: string;
   area_en: string;
+  service_areas: string;
   address_ar: string;
   address_en: string;
   works_hours: string;
@@ -94,9 +96,17 @@ export default function CreateBranch() {
           .data.publicUrl;
       }
 
-      const { error: insertError } = await supabase
+      const { data: branch, error: insertError } = await supabase
         .from("branches")
-        .insert([{ ...data, image: imageUrl }]);
+        .insert([
+          {
+            ...data,
+            service_areas: parseServiceAreas(data.service_areas),
+            image: imageUrl,
+          },
+        ])
+        .select("id")
+        .single();
 
       if (insertError) {
         throw new Error("حدث خطأ أثناء حفظ البيانات");
@@ -108,8 +118,8 @@ export default function CreateBranch() {
         URL.revokeObjectURL(previewImage);
       }
       setPreviewImage(null);
-      toast.success("تم إنشاء فرع بنجاح");
-      router.push("/dashboard/branches");
+      toast.success("تم إنشاء فرع بنجاح، حدد جدول الدوام");
+      router.push(`/dashboard/branches/${branch.id}/schedule`);
     } catch (error) {
       toast.error((error as Error).message);
     } finally {
@@ -201,6 +211,21 @@ export default function CreateBranch() {
                 )}
               </div>
 
+              <div className="mb-[20px]">
+                <label className="mb-[10px] block font-medium text-black dark:text-white">
+                  مناطق التوصيل الإضافية
+                </label>
+                <input
+                  {...register("service_areas")}
+                  placeholder="مفصولة بفاصلة، مثال: الروضة، النزهة"
+                  className="h-[55px] rounded-md text-black dark:text-white border border-gray-200 dark:border-[#172036] bg-white dark:bg-[#0c1427] px-[17px] block w-full outline-0 transition-all"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  تُسند الطلبات تلقائياً لهذا الفرع إذا طابقت مدينة العميل منطقة
+                  الفرع أو إحدى هذه المناطق
+                </p>
+              </div>
+
               <div className="mb-[20px]">
                 <label className="mb-[10px] block font-medium text-black dark:text-white">
                   العنوان(ar)
@@ -258,6 +283,9 @@ export default function CreateBranch() {
                     {errors.works_hours.message}
                   </p>
                 )}
+                <p className="text-xs text-gray-500 mt-1">
+                  يُحدَّث تلقائياً عند حفظ جدول الدوام بعد إنشاء الفرع
+                </p>
               </div>
 
               <div className="mb-[20px]">
@@ -4,6 +4,13 @@ import { useEffect, useState } from "react";
 import Link from "next/link";
 import Image from "next/image";
 import supabase from "../../../../../services/supabase";
+import { parseServiceAreas } from "../../../../../services/apiBranches";
+import {
+  formatBranchOpenStatus,
+  getBranchOpenStatus,
+  getBranchSchedules,
+} from "../../../../../services/apiBranchSchedules";
+import { useQuery } from "@tanstack/react-query";
 import toast from "react-hot-toast";
 import { useForm } from "react-hook-form";
 
@@ -13,6 +20,7 @@ export interface Branch {
   name_en: string;
   area_ar: string;
   area_en: string;
+  service_areas?: string[];
   address_ar: string;
   address_en: string;
   works_hours: string;
@@ -27,6 +35,7 @@ type FormData = {
   name_en: string;
   area_ar: string;
   area_en: string;
+  service_areas: string;
   address_ar: string;
   address_en: string;
   works_hours: string;
@@ -53,6 +62,13 @@ const BranchesList: React.FC = () => {
     setValue,
   } = useForm<FormData>();
 
+  const { data: schedules = {} } = useQuery({
+    queryKey: ["branch_schedules"],
+    queryFn: getBranchSchedules,
+    // حالة "مفتوح الآن" تتغير مع الوقت
+    refetchInterval: 60 * 1000,
+  });
+
   useEffect(() => {
     const fetchBranches = async () => {
       const { data, error } = await supabase
@@ -125,6 +141,7 @@ const BranchesList: React.FC = () => {
     setValue("name_en", branch.name_en);
     setValue("area_ar", branch.area_ar);
     setValue("area_en", branch.area_en);
+    setValue("service_areas", (branch.service_areas || []).join("، "));
     setValue("address_ar", branch.address_ar);
     setValue("address_en", branch.address_en);
     setValue("works_hours", branch.works_hours);
@@ -165,9 +182,15 @@ const BranchesList: React.FC = () => {
           .data.publicUrl;
       }
 
+      const changes = {
+        ...data,
+        service_areas: parseServiceAreas(data.service_areas),
+        image: imageUrl,
+      };
+
       const { error: updateError } = await supabase
         .from("branches")
-        .update({ ...data, image: imageUrl })
+        .update(changes)
         .eq("id", selectedBranch.id);
 
       if (updateError) {
@@ -176,9 +199,7 @@ const BranchesList: React.FC = () => {
 
       setBranchesList((prev) =>
         prev.map((branch) =>
-          branch.id === selectedBranch.id
-            ? { ...branch, ...data, image: imageUrl }
-            : branch
+          branch.id === selectedBranch.id ? { ...branch, ...changes } : branch
         )
       );
 
@@ -249,6 +270,7 @@ const BranchesList: React.FC = () => {
                 {[
                   "اسم الفرع",
                   "المنطقة",
+                  "الدوام",
                   "الصوره",
                   "رقم الهاتف",
                   "التاريخ",
@@ -285,6 +307,34 @@ const BranchesList: React.FC = () => {
                       </div>
                     </div>
                   </td>
+                  <td className="py-3 px-3">
+                    {(() => {
+                      const schedule = schedules[branch.id];
+                      if (!schedule || schedule.shifts.length === 0) {
+                        return (
+                          <span className="text-sm text-gray-500">
+                            {branch.works_hours || "لا يوجد جدول"}
+                          </span>
+                        );
+                      }
+                      const status = getBranchOpenStatus(schedule);
+                      return (
+                        <span
+                          className={`inline-block px-[8px] py-[3px] rounded-sm text-xs whitespace-nowrap ${
+                            status.isOpen
+                              ? "bg-success-50 text-success-600"
+                              : "bg-danger-50 text-danger-500"
+                          }`}
+                        >
+                          {formatBranchOpenStatus(
+                            status,
+                            new Date(),
+                            schedule.timezone
+                          )}
+                        </span>
+                      );
+                    })()}
+                  </td>
                   <td className="py-3 px-3">
                     {branch.image ? (
                       <Image
@@ -306,6 +356,24 @@ const BranchesList: React.FC = () => {
                   </td>
                   <td className="py-3 px-3">
                     <div className="flex gap-2">
+                      <Link
+                        href={`/dashboard/branches/${branch.id}/schedule`}
+                        title="جدول الدوام"
+                        className="text-primary-500 leading-none"
+                      >
+                        <i className="material-symbols-outlined !text-md">
+                          schedule
+                        </i>
+                      </Link>
+                      <Link
+                        href={`/dashboard/branches/${branch.id}/delivery-zones`}
+                        title="مناطق التوصيل"
+                        className="text-primary-500 leading-none"
+                      >
+                        <i className="material-symbols-outlined !text-md">
+                          local_shipping
+                        </i>
+                      </Link>
                       <button
                         onClick={() => handleEditClick(branch)}
                         className="text-primary-500 leading-none"
@@ -328,7 +396,7 @@ const BranchesList: React.FC = () => {
               ))}
               {paginatedBranches.length === 0 && (
                 <tr>
-                  <td colSpan={6} className="py-5 text-center text-gray-400">
+                  <td colSpan={7} className="py-5 text-center text-gray-400">
                     لا توجد فروع.
                   </td>
                 </tr>
@@ -445,6 +513,17 @@ const BranchesList: React.FC = () => {
                     )}
                   </div>
 
+                  <div>
+                    <label className="mb-2 block font-medium text-black dark:text-white">
+                      مناطق التوصيل الإضافية
+                    </label>
+                    <input
+                      {...register("service_areas")}
+                      placeholder="مفصولة بفاصلة، مثال: الروضة، النزهة"
+                      className="h-[45px] rounded-md text-black dark:text-white border border-gray-200 dark:border-[#172036] bg-white dark:bg-[#0c1427] px-4 block w-full outline-0 transition-all"
+                    />
+                  </div>
+
                   <div>
                     <label className="mb-2 block font-medium text-black dark:text-white">
                       العنوان (ar)
@@ -506,6 +585,9 @@ const BranchesList: React.FC = () => {
                         {errors.works_hours.message || "مطلوب"}
                       </p>
                     )}
+                    <p className="text-xs text-gray-500 mt-1">
+                      يُحدَّث تلقائياً عند حفظ جدول الدوام
+                    </p>
                   </div>
 
                   <div>
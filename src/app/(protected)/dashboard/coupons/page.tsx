@@ -0,0 +1,717 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import toast from "react-hot-toast";
+import {
+  COUPON_DISCOUNT_TYPE_LABELS,
+  Coupon,
+  CouponDiscountType,
+  CouponInput,
+  createCoupon,
+  deleteCoupon,
+  formatCouponDiscount,
+  getCoupons,
+  updateCoupon,
+} from "../../../../../services/apiCoupons";
+import { getProductOptions } from "../../../../../services/apiProducts";
+import { useCategories } from "@/components/news/categories/useCategories";
+import { getBranchOptions } from "../../../../../services/apiBranches";
+import { getCustomerSegments } from "../../../../../services/apiSegments";
+
+type FormData = {
+  code: string;
+  description: string;
+  discount_type: CouponDiscountType;
+  discount_value: number;
+  max_discount: string;
+  min_order_value: number;
+  usage_limit: string;
+  usage_limit_per_customer: string;
+  starts_at: string;
+  ends_at: string;
+  is_active: boolean;
+  customer_segment_id: string;
+};
+
+type Scope = {
+  product_ids: string[];
+  category_ids: string[];
+  branch_ids: string[];
+};
+
+const emptyForm: FormData = {
+  code: "",
+  description: "",
+  discount_type: "percentage",
+  discount_value: 10,
+  max_discount: "",
+  min_order_value: 0,
+  usage_limit: "",
+  usage_limit_per_customer: "",
+  starts_at: "",
+  ends_at: "",
+  is_active: true,
+  customer_segment_id: "",
+};
+
+const emptyScope: Scope = { product_ids: [], category_ids: [], branch_ids: [] };
+
+const inputClassName =
+  "h-[45px] rounded-md text-black dark:text-white border border-gray-200 dark:border-[#172036] bg-white dark:bg-[#0c1427] px-4 block w-full outline-0 transition-all";
+
+// datetime-local يعمل بالتوقيت المحلي بدون منطقة زمنية
+const toLocalInput = (value: string | null) => {
+  if (!value) return "";
+  const date = new Date(value);
+  date.setMinutes(date.getMinutes() - date.getTimezoneOffset());
+  return date.toISOString().slice(0, 16);
+};
+
+const optionalNumber = (value: string) => (value === "" ? null : Number(value));
+
+function getCouponState(coupon: Coupon): { label: string; className: string } {
+  const now = new Date();
+  if (!coupon.is_active) {
+    return { label: "موقوف", className: "bg-gray-100 text-gray-500" };
+  }
+  if (coupon.starts_at && now < new Date(coupon.starts_at)) {
+    return { label: "مجدول", className: "bg-primary-50 text-primary-500" };
+  }
+  if (
+    (coupon.ends_at && now >= new Date(coupon.ends_at)) ||
+    (coupon.usage_limit != null && coupon.used_count >= coupon.usage_limit)
+  ) {
+    return { label: "منتهي", className: "bg-danger-50 text-danger-500" };
+  }
+  return { label: "فعّال", className: "bg-success-50 text-success-600" };
+}
+
+const ScopePicker: React.FC<{
+  title: string;
+  options: { id: string; name: string }[];
+  selected: string[];
+  onChange: (ids: string[]) => void;
+  searchable?: boolean;
+}> = ({ title, options, selected, onChange, searchable }) => {
+  const [search, setSearch] = useState("");
+  const visible = options.filter((option) =>
+    option.name.toLowerCase().includes(search.trim().toLowerCase())
+  );
+
+  return (
+    <div>
+      <label className="mb-2 block font-medium text-black dark:text-white">
+        {title}{" "}
+        <span className="text-xs text-gray-500 font-normal">
+          ({selected.length ? `${selected.length} محدد` : "الكل"})
+        </span>
+      </label>
+      {searchable && (
+        <input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="بحث..."
+          className={`${inputClassName} !h-[36px] mb-2`}
+        />
+      )}
+      <div className="max-h-[180px] overflow-y-auto border border-gray-200 dark:border-[#172036] rounded-md p-2 space-y-1">
+        {visible.map((option) => (
+          <label key={option.id} className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={selected.includes(option.id)}
+              onChange={(e) =>
+                onChange(
+                  e.target.checked
+                    ? [...selected, option.id]
+                    : selected.filter((id) => id !== option.id)
+                )
+              }
+            />
+            {option.name}
+          </label>
+        ))}
+        {visible.length === 0 && (
+          <p className="text-xs text-gray-400 text-center py-2">
+            لا توجد نتائج
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const CouponsPage: React.FC = () => {
+  const queryClient = useQueryClient();
+  // null = النموذج مغلق، "new" = كوبون جديد
+  const [editing, setEditing] = useState<Coupon | "new" | null>(null);
+  const [scope, setScope] = useState<Scope>(emptyScope);
+  const [search, setSearch] = useState("");
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    watch,
+    formState: { errors },
+  } = useForm<FormData>({ defaultValues: emptyForm });
+
+  const discountType = watch("discount_type");
+
+  const { data: coupons = [], isPending } = useQuery({
+    queryKey: ["coupons"],
+    queryFn: getCoupons,
+  });
+
+  const { data: products = [] } = useQuery({
+    queryKey: ["product_options"],
+    queryFn: getProductOptions,
+    enabled: !!editing,
+  });
+
+  const { data: categories = [] } = useCategories();
+
+  const { data: branches = [] } = useQuery({
+    queryKey: ["branch_options"],
+    queryFn: getBranchOptions,
+  });
+
+  const { data: segments = [] } = useQuery({
+    queryKey: ["customer_segments"],
+    queryFn: getCustomerSegments,
+  });
+
+  const { mutate: saveCoupon, isPending: isSaving } = useMutation({
+    mutationFn: (coupon: CouponInput) =>
+      editing && editing !== "new"
+        ? updateCoupon(editing.id, coupon)
+        : createCoupon(coupon),
+    onSuccess: () => {
+      toast.success("تم حفظ الكوبون");
+      setEditing(null);
+      queryClient.invalidateQueries({ queryKey: ["coupons"] });
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const { mutate: removeCoupon } = useMutation({
+    mutationFn: deleteCoupon,
+    onSuccess: () => {
+      toast.success("تم حذف الكوبون");
+      queryClient.invalidateQueries({ queryKey: ["coupons"] });
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const openForm = (coupon: Coupon | "new") => {
+    setEditing(coupon);
+    if (coupon === "new") {
+      reset(emptyForm);
+      setScope(emptyScope);
+      return;
+    }
+    reset({
+      code: coupon.code,
+      description: coupon.description || "",
+      discount_type: coupon.discount_type,
+      discount_value: coupon.discount_value,
+      max_discount: coupon.max_discount?.toString() || "",
+      min_order_value: coupon.min_order_value,
+      usage_limit: coupon.usage_limit?.toString() || "",
+      usage_limit_per_customer:
+        coupon.usage_limit_per_customer?.toString() || "",
+      starts_at: toLocalInput(coupon.starts_at),
+      ends_at: toLocalInput(coupon.ends_at),
+      is_active: coupon.is_active,
+      customer_segment_id: coupon.customer_segment_id || "",
+    });
+    setScope({
+      product_ids: coupon.product_ids,
+      category_ids: coupon.category_ids,
+      branch_ids: coupon.branch_ids,
+    });
+  };
+
+  const onSubmit = (data: FormData) =>
+    saveCoupon({
+      code: data.code,
+      description: data.description,
+      discount_type: data.discount_type,
+      discount_value: Number(data.discount_value),
+      max_discount: optionalNumber(data.max_discount),
+      min_order_value: Number(data.min_order_value) || 0,
+      usage_limit: optionalNumber(data.usage_limit),
+      usage_limit_per_customer: optionalNumber(data.usage_limit_per_customer),
+      starts_at: data.starts_at ? new Date(data.starts_at).toISOString() : null,
+      ends_at: data.ends_at ? new Date(data.ends_at).toISOString() : null,
+      is_active: data.is_active,
+      customer_segment_id: data.customer_segment_id || null,
+      ...scope,
+    });
+
+  const handleDelete = (coupon: Coupon) => {
+    toast((t) => (
+      <div className="flex flex-col gap-2">
+        <p>حذف الكوبون &quot;{coupon.code}&quot;؟</p>
+        <div className="flex gap-2 justify-end">
+          <button
+            onClick={() => {
+              toast.dismiss(t.id);
+              removeCoupon(coupon.id);
+            }}
+            className="px-3 py-1 rounded-md bg-danger-500 text-white"
+          >
+            حذف
+          </button>
+          <button
+            onClick={() => toast.dismiss(t.id)}
+            className="px-3 py-1 rounded-md bg-gray-200 text-black"
+          >
+            إلغاء
+          </button>
+        </div>
+      </div>
+    ));
+  };
+
+  const describeScope = (coupon: Coupon) => {
+    const parts = [];
+    if (coupon.product_ids.length) {
+      parts.push(`${coupon.product_ids.length} منتج`);
+    }
+    if (coupon.category_ids.length) {
+      parts.push(`${coupon.category_ids.length} تصنيف`);
+    }
+    if (coupon.branch_ids.length) {
+      parts.push(
+        branches
+          .filter((branch) => coupon.branch_ids.includes(branch.id))
+          .map((branch) => branch.name_ar)
+          .join("، ") || `${coupon.branch_ids.length} فرع`
+      );
+    }
+    if (coupon.customer_segment_id) {
+      parts.push(
+        `شريحة: ${
+          segments.find((segment) => segment.id === coupon.customer_segment_id)
+            ?.name || "-"
+        }`
+      );
+    }
+    return parts.length ? parts.join(" · ") : "كل المنتجات والفروع";
+  };
+
+  const filteredCoupons = coupons.filter((coupon) =>
+    coupon.code.includes(search.trim().toUpperCase())
+  );
+
+  return (
+    <>
+      <div className="mb-[25px] md:flex items-center justify-between">
+        <h5 className="!mb-0">كوبونات الخصم</h5>
+
+        <ol className="breadcrumb mt-[12px] md:mt-0 rtl:flex-row-reverse">
+          <li className="breadcrumb-item inline-block relative text-sm mx-[11px] ltr:first:ml-0 rtl:first:mr-0 ltr:last:mr-0 rtl:last:ml-0">
+            <Link
+              href="/dashboard"
+              className="inline-block relative ltr:pl-[22px] rtl:pr-[22px] transition-all hover:text-primary-500"
+            >
+              <i className="material-symbols-outlined absolute ltr:left-0 rtl:right-0 !text-lg -mt-px text-primary-500 top-1/2 -translate-y-1/2">
+                home
+              </i>
+              رئيسية
+            </Link>
+          </li>
+          <li className="breadcrumb-item inline-block relative text-sm mx-[11px] ltr:first:ml-0 rtl:first:mr-0 ltr:last:mr-0 rtl:last:ml-0">
+            الكوبونات
+          </li>
+        </ol>
+      </div>
+
+      <div className="trezo-card bg-white dark:bg-[#0c1427] mb-[25px] p-[20px] md:p-[25px] rounded-md">
+        <div className="trezo-card-header mb-[20px] md:mb-[25px] sm:flex items-center justify-between gap-[15px]">
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="بحث بالكود..."
+            dir="ltr"
+            className="w-full sm:max-w-[260px] p-2 border transition border-[#f2f2f2] hover:bg-[#f2f2f2] rounded-lg outline-none dark:border-[#172036] dark:hover:bg-[#172036] dark:bg-[#0c1427] dark:text-white"
+          />
+          <button
+            type="button"
+            onClick={() => openForm("new")}
+            className="mt-[10px] sm:mt-0 inline-block transition-all rounded-md font-medium px-[13px] py-[6px] text-primary-500 border border-primary-500 hover:bg-primary-500 hover:text-white whitespace-nowrap"
+          >
+            إضافة كوبون
+          </button>
+        </div>
+
+        <div className="table-responsive overflow-x-auto">
+          <table className="w-full">
+            <thead className="text-black dark:text-white">
+              <tr>
+                {[
+                  "الكود",
+                  "الخصم",
+                  "الحد الأدنى",
+                  "الاستخدام",
+                  "الصلاحية",
+                  "النطاق",
+                  "الحالة",
+                  "الإجراءات",
+                ].map((title) => (
+                  <th
+                    key={title}
+                    className="font-medium text-right px-3 py-3 bg-primary-50 dark:bg-[#15203c] whitespace-nowrap"
+                  >
+                    {title}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="text-black dark:text-white">
+              {isPending ? (
+                <tr>
+                  <td colSpan={8} className="text-center py-6 text-gray-500">
+                    جاري التحميل...
+                  </td>
+                </tr>
+              ) : filteredCoupons.length === 0 ? (
+                <tr>
+                  <td colSpan={8} className="text-center py-6 text-gray-400">
+                    لا توجد كوبونات
+                  </td>
+                </tr>
+              ) : (
+                filteredCoupons.map((coupon) => {
+                  const state = getCouponState(coupon);
+                  return (
+                    <tr
+                      key={coupon.id}
+                      className="border-b border-gray-100 dark:border-[#172036]"
+                    >
+                      <td className="py-3 px-3">
+                        <span className="block font-medium font-mono" dir="ltr">
+                          {coupon.code}
+                        </span>
+                        {coupon.description && (
+                          <span className="block text-xs text-gray-500">
+                            {coupon.description}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-3 px-3 whitespace-nowrap">
+                        {formatCouponDiscount(coupon)}
+                      </td>
+                      <td className="py-3 px-3">
+                        {coupon.min_order_value > 0
+                          ? `$${coupon.min_order_value}`
+                          : "-"}
+                      </td>
+                      <td className="py-3 px-3 text-sm whitespace-nowrap">
+                        {coupon.used_count}
+                        {coupon.usage_limit != null &&
+                          ` / ${coupon.usage_limit}`}
+                        {coupon.usage_limit_per_customer != null && (
+                          <span className="block text-xs text-gray-500">
+                            {coupon.usage_limit_per_customer} لكل عميل
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-3 px-3 text-xs text-gray-500 whitespace-nowrap">
+                        {coupon.starts_at || coupon.ends_at ? (
+                          <>
+                            <span className="block">
+                              من{" "}
+                              {coupon.starts_at
+                                ? new Date(coupon.starts_at).toLocaleString(
+                                    "ar-EG"
+                                  )
+                                : "-"}
+                            </span>
+                            <span className="block">
+                              إلى{" "}
+                              {coupon.ends_at
+                                ? new Date(coupon.ends_at).toLocaleString(
+                                    "ar-EG"
+                                  )
+                                : "-"}
+                            </span>
+                          </>
+                        ) : (
+                          "بدون مدة"
+                        )}
+                      </td>
+                      <td className="py-3 px-3 text-sm">
+                        {describeScope(coupon)}
+                      </td>
+                      <td className="py-3 px-3">
+                        <span
+                          className={`inline-block px-[8px] py-[3px] rounded-sm text-xs ${state.className}`}
+                        >
+                          {state.label}
+                        </span>
+                      </td>
+                      <td className="py-3 px-3">
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => openForm(coupon)}
+                            className="text-primary-500 leading-none"
+                          >
+                            <i className="material-symbols-outlined !text-md">
+                              edit
+                            </i>
+                          </button>
+                          <button
+                            onClick={() => handleDelete(coupon)}
+                            className="text-danger-500 leading-none"
+                          >
+                            <i className="material-symbols-outlined !text-md">
+                              delete
+                            </i>
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {editing && (
+        <div className="trezo-card bg-white dark:bg-[#0c1427] mb-[25px] p-[20px] md:p-[25px] rounded-md">
+          <div className="trezo-card-header mb-[20px] md:mb-[25px]">
+            <h6 className="text-lg font-semibold text-gray-900 dark:text-white !mb-0">
+              {editing === "new" ? "كوبون جديد" : `تعديل ${editing.code}`}
+            </h6>
+          </div>
+
+          <form onSubmit={handleSubmit(onSubmit)}>
+            <div className="sm:grid sm:grid-cols-2 lg:grid-cols-3 sm:gap-[20px] space-y-[15px] sm:space-y-0">
+              <div>
+                <label className="mb-2 block font-medium text-black dark:text-white">
+                  الكود
+                </label>
+                <input
+                  {...register("code", { required: "الكود مطلوب" })}
+                  dir="ltr"
+                  className={`${inputClassName} uppercase font-mono`}
+                />
+                {errors.code && (
+                  <p className="text-red-500 mt-1">{errors.code.message}</p>
+                )}
+              </div>
+
+              <div className="lg:col-span-2">
+                <label className="mb-2 block font-medium text-black dark:text-white">
+                  الوصف
+                </label>
+                <input
+                  {...register("description")}
+                  className={inputClassName}
+                />
+              </div>
+
+              <div>
+                <label className="mb-2 block font-medium text-black dark:text-white">
+                  نوع الخصم
+                </label>
+                <select
+                  {...register("discount_type")}
+                  className={inputClassName}
+                >
+                  {Object.entries(COUPON_DISCOUNT_TYPE_LABELS).map(
+                    ([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    )
+                  )}
+                </select>
+              </div>
+
+              <div>
+                <label className="mb-2 block font-medium text-black dark:text-white">
+                  {discountType === "percentage"
+                    ? "نسبة الخصم %"
+                    : "مبلغ الخصم"}
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min={0}
+                  {...register("discount_value", { required: true })}
+                  className={inputClassName}
+                />
+              </div>
+
+              {discountType === "percentage" && (
+                <div>
+                  <label className="mb-2 block font-medium text-black dark:text-white">
+                    أقصى خصم (اختياري)
+                  </label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min={0}
+                    {...register("max_discount")}
+                    className={inputClassName}
+                  />
+                </div>
+              )}
+
+              <div>
+                <label className="mb-2 block font-medium text-black dark:text-white">
+                  الحد الأدنى للسلة
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min={0}
+                  {...register("min_order_value")}
+                  className={inputClassName}
+                />
+              </div>
+
+              <div>
+                <label className="mb-2 block font-medium text-black dark:text-white">
+                  عدد مرات الاستخدام الكلي
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  placeholder="بلا حد"
+                  {...register("usage_limit")}
+                  className={inputClassName}
+                />
+              </div>
+
+              <div>
+                <label className="mb-2 block font-medium text-black dark:text-white">
+                  مرات الاستخدام لكل عميل
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  placeholder="بلا حد"
+                  {...register("usage_limit_per_customer")}
+                  className={inputClassName}
+                />
+              </div>
+
+              <div>
+                <label className="mb-2 block font-medium text-black dark:text-white">
+                  يبدأ في
+                </label>
+                <input
+                  type="datetime-local"
+                  {...register("starts_at")}
+                  className={inputClassName}
+                />
+              </div>
+
+              <div>
+                <label className="mb-2 block font-medium text-black dark:text-white">
+                  ينتهي في
+                </label>
+                <input
+                  type="datetime-local"
+                  {...register("ends_at")}
+                  className={inputClassName}
+                />
+              </div>
+
+              <div>
+                <label className="mb-2 block font-medium text-black dark:text-white">
+                  شريحة العملاء
+                </label>
+                <select
+                  {...register("customer_segment_id")}
+                  className={inputClassName}
+                >
+                  <option value="">كل العملاء</option>
+                  {segments.map((segment) => (
+                    <option key={segment.id} value={segment.id}>
+                      {segment.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <label className="flex items-center gap-[8px] self-end pb-[12px]">
+                <input type="checkbox" {...register("is_active")} />
+                الكوبون مفعّل
+              </label>
+            </div>
+
+            <div className="mt-[20px] sm:grid sm:grid-cols-3 sm:gap-[20px] space-y-[15px] sm:space-y-0">
+              <ScopePicker
+                title="المنتجات"
+                searchable
+                options={products.map((product) => ({
+                  id: product.id,
+                  name: product.name_ar,
+                }))}
+                selected={scope.product_ids}
+                onChange={(ids) =>
+                  setScope((current) => ({ ...current, product_ids: ids }))
+                }
+              />
+              <ScopePicker
+                title="التصنيفات"
+                options={(categories || []).map((category) => ({
+                  id: String(category.id),
+                  name: category.name_ar,
+                }))}
+                selected={scope.category_ids}
+                onChange={(ids) =>
+                  setScope((current) => ({ ...current, category_ids: ids }))
+                }
+              />
+              <ScopePicker
+                title="الفروع"
+                options={branches.map((branch) => ({
+                  id: branch.id,
+                  name: branch.name_ar,
+                }))}
+                selected={scope.branch_ids}
+                onChange={(ids) =>
+                  setScope((current) => ({ ...current, branch_ids: ids }))
+                }
+              />
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              بدون تحديد يشمل الكوبون كل المنتجات والفروع. المنتج يستفيد من
+              الخصم إذا كان محدداً أو ضمن تصنيف محدد.
+            </p>
+
+            <div className="mt-[20px] flex gap-[10px]">
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="font-medium inline-block transition-all rounded-md py-[10px] px-[20px] bg-primary-500 text-white hover:bg-primary-400 disabled:opacity-50"
+              >
+                {isSaving ? "جاري الحفظ..." : "حفظ الكوبون"}
+              </button>
+              <button
+                type="button"
+                onClick={() => setEditing(null)}
+                className="font-medium inline-block transition-all rounded-md py-[10px] px-[20px] bg-gray-100 text-black dark:bg-[#15203c] dark:text-white"
+              >
+                إلغاء
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default CouponsPage;
@@ -0,0 +1,241 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useQuery } from "@tanstack/react-query";
+import {
+  DELIVERY_OUTCOME_LABELS,
+  DeliveryOutcome,
+  getDeliveryMinutes,
+  getDriverById,
+  getDriverDeliveries,
+} from "../../../../../../services/apiDrivers";
+import {
+  ORDER_STATUS_LABELS,
+  OrderStatus,
+} from "../../../../../../services/apiOrders";
+
+const OUTCOME_CLASS_NAMES: Record<DeliveryOutcome, string> = {
+  pending: "bg-primary-50 text-primary-500",
+  delivered: "bg-success-50 text-success-600",
+  failed: "bg-danger-50 text-danger-500",
+  cancelled: "bg-gray-100 text-gray-500",
+};
+
+const filterClassName =
+  "w-full p-2 border transition border-[#f2f2f2] hover:bg-[#f2f2f2] rounded-lg outline-none dark:border-[#172036] dark:hover:bg-[#172036] dark:bg-[#0c1427] dark:text-white";
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString("ar-EG", {
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const DriverDeliveriesPage: React.FC = () => {
+  const params = useParams();
+  const driverId = params.id as string;
+  const [outcome, setOutcome] = useState<DeliveryOutcome | "">("");
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+
+  const { data: driver } = useQuery({
+    queryKey: ["driver", driverId],
+    queryFn: () => getDriverById(driverId),
+    enabled: !!driverId,
+  });
+
+  const { data: deliveries = [], isPending } = useQuery({
+    queryKey: ["driver_deliveries", driverId, outcome, dateFrom, dateTo],
+    queryFn: () =>
+      getDriverDeliveries(driverId, {
+        outcome: outcome || undefined,
+        dateFrom,
+        dateTo,
+      }),
+    enabled: !!driverId,
+  });
+
+  return (
+    <>
+      <div className="mb-[25px] md:flex items-center justify-between">
+        <h5 className="!mb-0">توصيلات {driver?.name || "المندوب"}</h5>
+
+        <ol className="breadcrumb mt-[12px] md:mt-0 rtl:flex-row-reverse">
+          <li className="breadcrumb-item inline-block relative text-sm mx-[11px] ltr:first:ml-0 rtl:first:mr-0 ltr:last:mr-0 rtl:last:ml-0">
+            <Link
+              href="/dashboard"
+              className="inline-block relative ltr:pl-[22px] rtl:pr-[22px] transition-all hover:text-primary-500"
+            >
+              <i className="material-symbols-outlined absolute ltr:left-0 rtl:right-0 !text-lg -mt-px text-primary-500 top-1/2 -translate-y-1/2">
+                home
+              </i>
+              رئيسية
+            </Link>
+          </li>
+          <li className="breadcrumb-item inline-block relative text-sm mx-[11px] ltr:first:ml-0 rtl:first:mr-0 ltr:last:mr-0 rtl:last:ml-0">
+            <Link
+              href="/dashboard/drivers"
+              className="transition-all hover:text-primary-500"
+            >
+              المندوبون
+            </Link>
+          </li>
+          <li className="breadcrumb-item inline-block relative text-sm mx-[11px] ltr:first:ml-0 rtl:first:mr-0 ltr:last:mr-0 rtl:last:ml-0">
+            قائمة التوصيل
+          </li>
+        </ol>
+      </div>
+
+      <div className="trezo-card bg-white dark:bg-[#0c1427] mb-[25px] p-[20px] md:p-[25px] rounded-md">
+        <div className="trezo-card-header mb-[20px] md:mb-[25px] sm:flex items-center justify-between">
+          <div>
+            <h6 className="text-lg font-semibold text-gray-900 dark:text-white !mb-0">
+              {driver?.name}
+            </h6>
+            <span className="text-sm text-gray-500">
+              {driver?.phone || "-"} ·{" "}
+              {driver?.branches?.name_ar || "كل الفروع"}
+              {driver && !driver.is_active && " · موقوف"}
+            </span>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-[15px] mb-[20px]">
+          <select
+            value={outcome}
+            onChange={(e) => setOutcome(e.target.value as DeliveryOutcome | "")}
+            className={filterClassName}
+          >
+            <option value="">كل النتائج</option>
+            {(Object.keys(DELIVERY_OUTCOME_LABELS) as DeliveryOutcome[]).map(
+              (value) => (
+                <option key={value} value={value}>
+                  {DELIVERY_OUTCOME_LABELS[value]}
+                </option>
+              )
+            )}
+          </select>
+          <input
+            type="date"
+            value={dateFrom}
+            onChange={(e) => setDateFrom(e.target.value)}
+            title="من تاريخ"
+            className={filterClassName}
+          />
+          <input
+            type="date"
+            value={dateTo}
+            onChange={(e) => setDateTo(e.target.value)}
+            title="إلى تاريخ"
+            className={filterClassName}
+          />
+        </div>
+
+        <div className="table-responsive overflow-x-auto">
+          <table className="w-full">
+            <thead className="text-black dark:text-white">
+              <tr>
+                {[
+                  "الطلب",
+                  "العميل",
+                  "العنوان",
+                  "حالة الطلب",
+                  "وقت الإسناد",
+                  "مدة التوصيل",
+                  "النتيجة",
+                ].map((title) => (
+                  <th
+                    key={title}
+                    className="font-medium text-right px-3 py-3 bg-primary-50 dark:bg-[#15203c] whitespace-nowrap"
+                  >
+                    {title}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="text-black dark:text-white">
+              {isPending ? (
+                <tr>
+                  <td colSpan={7} className="text-center py-6 text-gray-500">
+                    جاري التحميل...
+                  </td>
+                </tr>
+              ) : deliveries.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="text-center py-6 text-gray-400">
+                    لا توجد توصيلات
+                  </td>
+                </tr>
+              ) : (
+                deliveries.map((delivery) => {
+                  const minutes = getDeliveryMinutes(delivery);
+                  const customer = delivery.orders?.profiles;
+                  return (
+                    <tr
+                      key={delivery.id}
+                      className="border-b border-gray-100 dark:border-[#172036]"
+                    >
+                      <td className="py-3 px-3">
+                        <Link
+                          href={`/dashboard/orders/${delivery.order_id}`}
+                          className="text-primary-500 hover:underline"
+                        >
+                          #{delivery.order_id.slice(0, 8)}
+                        </Link>
+                      </td>
+                      <td className="py-3 px-3">
+                        <span className="block">
+                          {customer?.full_name || "-"}
+                        </span>
+                        <span className="block text-xs text-gray-500" dir="ltr">
+                          {customer?.phone}
+                        </span>
+                      </td>
+                      <td className="py-3 px-3 text-sm">
+                        {[customer?.address, customer?.city]
+                          .filter(Boolean)
+                          .join("، ") || "-"}
+                      </td>
+                      <td className="py-3 px-3 text-sm">
+                        {delivery.orders
+                          ? ORDER_STATUS_LABELS[
+                              delivery.orders.status as OrderStatus
+                            ]
+                          : "-"}
+                      </td>
+                      <td className="py-3 px-3 text-sm whitespace-nowrap">
+                        {formatDateTime(delivery.assigned_at)}
+                      </td>
+                      <td className="py-3 px-3 text-sm">
+                        {minutes != null ? `${minutes} دقيقة` : "-"}
+                      </td>
+                      <td className="py-3 px-3">
+                        <span
+                          className={`inline-block px-[8px] py-[3px] rounded-sm text-xs whitespace-nowrap ${
+                            OUTCOME_CLASS_NAMES[delivery.outcome]
+                          }`}
+                        >
+                          {DELIVERY_OUTCOME_LABELS[delivery.outcome]}
+                        </span>
+                        {delivery.failure_reason && (
+                          <span className="block text-xs text-gray-500 mt-1">
+                            {delivery.failure_reason}
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default DriverDeliveriesPage;
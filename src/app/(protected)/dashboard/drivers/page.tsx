@@ -0,0 +1,421 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import toast from "react-hot-toast";
+import {
+  Driver,
+  DriverInput,
+  createDriver,
+  deleteDriver,
+  getDriverPerformance,
+  getDrivers,
+  updateDriver,
+} from "../../../../../services/apiDrivers";
+import { getBranchOptions } from "../../../../../services/apiBranches";
+import { usePermissions } from "@/components/Authentication/usePermissions";
+
+type FormData = {
+  name: string;
+  phone: string;
+  branch_id: string;
+  is_active: boolean;
+};
+
+const emptyForm: FormData = {
+  name: "",
+  phone: "",
+  branch_id: "",
+  is_active: true,
+};
+
+const inputClassName =
+  "h-[45px] rounded-md text-black dark:text-white border border-gray-200 dark:border-[#172036] bg-white dark:bg-[#0c1427] px-4 block w-full outline-0 transition-all";
+
+const filterClassName =
+  "w-full p-2 border transition border-[#f2f2f2] hover:bg-[#f2f2f2] rounded-lg outline-none dark:border-[#172036] dark:hover:bg-[#172036] dark:bg-[#0c1427] dark:text-white";
+
+const DriversPage: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { can, role } = usePermissions();
+  const canManage = can("branches.manage");
+  // null = النموذج مغلق، "new" = مندوب جديد
+  const [editing, setEditing] = useState<Driver | "new" | null>(null);
+  const [branchId, setBranchId] = useState("");
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<FormData>({ defaultValues: emptyForm });
+
+  const { data: branches = [] } = useQuery({
+    queryKey: ["branch_options"],
+    queryFn: getBranchOptions,
+    enabled: role !== "branch_staff",
+  });
+
+  const { data: drivers = [], isPending } = useQuery({
+    queryKey: ["drivers", branchId],
+    queryFn: () => getDrivers({ branchId }),
+  });
+
+  const { data: performance = [] } = useQuery({
+    queryKey: ["driver_performance", branchId, dateFrom, dateTo],
+    queryFn: () => getDriverPerformance({ branchId, dateFrom, dateTo }),
+  });
+
+  const performanceByDriver = new Map(
+    performance.map((row) => [row.driver_id, row])
+  );
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["drivers"] });
+    queryClient.invalidateQueries({ queryKey: ["driver_performance"] });
+  };
+
+  const { mutate: saveDriver, isPending: isSaving } = useMutation({
+    mutationFn: (driver: DriverInput) =>
+      editing && editing !== "new"
+        ? updateDriver(editing.id, driver)
+        : createDriver(driver),
+    onSuccess: () => {
+      toast.success("تم حفظ بيانات المندوب");
+      setEditing(null);
+      reset(emptyForm);
+      onChanged();
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const { mutate: removeDriver } = useMutation({
+    mutationFn: deleteDriver,
+    onSuccess: () => {
+      toast.success("تم حذف المندوب");
+      onChanged();
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const openForm = (driver: Driver | "new") => {
+    setEditing(driver);
+    reset(
+      driver === "new"
+        ? emptyForm
+        : {
+            name: driver.name,
+            phone: driver.phone || "",
+            branch_id: driver.branch_id || "",
+            is_active: driver.is_active,
+          }
+    );
+  };
+
+  const onSubmit = (data: FormData) =>
+    saveDriver({
+      name: data.name,
+      phone: data.phone,
+      branch_id: data.branch_id || null,
+      is_active: data.is_active,
+    });
+
+  const handleDelete = (driver: Driver) => {
+    toast((t) => (
+      <div className="flex flex-col gap-2">
+        <p>حذف المندوب &quot;{driver.name}&quot;؟</p>
+        <div className="flex gap-2 justify-end">
+          <button
+            onClick={() => {
+              toast.dismiss(t.id);
+              removeDriver(driver.id);
+            }}
+            className="px-3 py-1 rounded-md bg-danger-500 text-white"
+          >
+            حذف
+          </button>
+          <button
+            onClick={() => toast.dismiss(t.id)}
+            className="px-3 py-1 rounded-md bg-gray-200 text-black"
+          >
+            إلغاء
+          </button>
+        </div>
+      </div>
+    ));
+  };
+
+  return (
+    <>
+      <div className="mb-[25px] md:flex items-center justify-between">
+        <h5 className="!mb-0">المندوبون</h5>
+
+        <ol className="breadcrumb mt-[12px] md:mt-0 rtl:flex-row-reverse">
+          <li className="breadcrumb-item inline-block relative text-sm mx-[11px] ltr:first:ml-0 rtl:first:mr-0 ltr:last:mr-0 rtl:last:ml-0">
+            <Link
+              href="/dashboard"
+              className="inline-block relative ltr:pl-[22px] rtl:pr-[22px] transition-all hover:text-primary-500"
+            >
+              <i className="material-symbols-outlined absolute ltr:left-0 rtl:right-0 !text-lg -mt-px text-primary-500 top-1/2 -translate-y-1/2">
+                home
+              </i>
+              رئيسية
+            </Link>
+          </li>
+          <li className="breadcrumb-item inline-block relative text-sm mx-[11px] ltr:first:ml-0 rtl:first:mr-0 ltr:last:mr-0 rtl:last:ml-0">
+            المندوبون
+          </li>
+        </ol>
+      </div>
+
+      <div className="trezo-card bg-white dark:bg-[#0c1427] mb-[25px] p-[20px] md:p-[25px] rounded-md">
+        <div className="trezo-card-header mb-[20px] md:mb-[25px] sm:flex items-center justify-between">
+          <h6 className="text-lg font-semibold text-gray-900 dark:text-white !mb-0">
+            أداء المندوبين
+          </h6>
+          {canManage && (
+            <button
+              type="button"
+              onClick={() => openForm("new")}
+              className="mt-[10px] sm:mt-0 inline-block transition-all rounded-md font-medium px-[13px] py-[6px] text-primary-500 border border-primary-500 hover:bg-primary-500 hover:text-white"
+            >
+              إضافة مندوب
+            </button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-[15px] mb-[20px]">
+          {role !== "branch_staff" && (
+            <select
+              value={branchId}
+              onChange={(e) => setBranchId(e.target.value)}
+              className={filterClassName}
+            >
+              <option value="">كل الفروع</option>
+              {branches.map((branch) => (
+                <option key={branch.id} value={branch.id}>
+                  {branch.name_ar}
+                </option>
+              ))}
+            </select>
+          )}
+          <input
+            type="date"
+            value={dateFrom}
+            onChange={(e) => setDateFrom(e.target.value)}
+            title="من تاريخ"
+            className={filterClassName}
+          />
+          <input
+            type="date"
+            value={dateTo}
+            onChange={(e) => setDateTo(e.target.value)}
+            title="إلى تاريخ"
+            className={filterClassName}
+          />
+        </div>
+
+        <div className="table-responsive overflow-x-auto">
+          <table className="w-full">
+            <thead className="text-black dark:text-white">
+              <tr>
+                {[
+                  "المندوب",
+                  "الفرع",
+                  "التوصيلات",
+                  "تم التسليم",
+                  "تعذر التسليم",
+                  "قيد التوصيل",
+                  "متوسط مدة التوصيل",
+                  "نسبة النجاح",
+                  "الإجراءات",
+                ].map((title) => (
+                  <th
+                    key={title}
+                    className="font-medium text-right px-3 py-3 bg-primary-50 dark:bg-[#15203c] whitespace-nowrap"
+                  >
+                    {title}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="text-black dark:text-white">
+              {isPending ? (
+                <tr>
+                  <td colSpan={9} className="text-center py-6 text-gray-500">
+                    جاري التحميل...
+                  </td>
+                </tr>
+              ) : drivers.length === 0 ? (
+                <tr>
+                  <td colSpan={9} className="text-center py-6 text-gray-400">
+                    لا يوجد مندوبون
+                  </td>
+                </tr>
+              ) : (
+                drivers.map((driver) => {
+                  const stats = performanceByDriver.get(driver.id);
+                  return (
+                    <tr
+                      key={driver.id}
+                      className="border-b border-gray-100 dark:border-[#172036]"
+                    >
+                      <td className="py-3 px-3">
+                        <Link
+                          href={`/dashboard/drivers/${driver.id}`}
+                          className="block font-medium hover:text-primary-500"
+                        >
+                          {driver.name}
+                        </Link>
+                        <span className="block text-xs text-gray-500">
+                          {driver.phone || "-"}
+                          {!driver.is_active && " · موقوف"}
+                        </span>
+                      </td>
+                      <td className="py-3 px-3 text-sm">
+                        {driver.branches?.name_ar || "كل الفروع"}
+                      </td>
+                      <td className="py-3 px-3">
+                        {stats?.assigned_count ?? 0}
+                      </td>
+                      <td className="py-3 px-3 text-success-600">
+                        {stats?.delivered_count ?? 0}
+                      </td>
+                      <td className="py-3 px-3 text-danger-500">
+                        {stats?.failed_count ?? 0}
+                      </td>
+                      <td className="py-3 px-3">{stats?.open_count ?? 0}</td>
+                      <td className="py-3 px-3">
+                        {stats?.avg_delivery_minutes != null
+                          ? `${stats.avg_delivery_minutes} دقيقة`
+                          : "-"}
+                      </td>
+                      <td className="py-3 px-3">
+                        {stats?.success_rate != null
+                          ? `${stats.success_rate}%`
+                          : "-"}
+                      </td>
+                      <td className="py-3 px-3">
+                        <div className="flex gap-2">
+                          <Link
+                            href={`/dashboard/drivers/${driver.id}`}
+                            title="قائمة التوصيل"
+                            className="text-primary-500 leading-none"
+                          >
+                            <i className="material-symbols-outlined !text-md">
+                              list_alt
+                            </i>
+                          </Link>
+                          {canManage && (
+                            <>
+                              <button
+                                onClick={() => openForm(driver)}
+                                className="text-primary-500 leading-none"
+                              >
+                                <i className="material-symbols-outlined !text-md">
+                                  edit
+                                </i>
+                              </button>
+                              <button
+                                onClick={() => handleDelete(driver)}
+                                className="text-danger-500 leading-none"
+                              >
+                                <i className="material-symbols-outlined !text-md">
+                                  delete
+                                </i>
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {editing && (
+        <div className="trezo-card bg-white dark:bg-[#0c1427] mb-[25px] p-[20px] md:p-[25px] rounded-md">
+          <div className="trezo-card-header mb-[20px] md:mb-[25px]">
+            <h6 className="text-lg font-semibold text-gray-900 dark:text-white !mb-0">
+              {editing === "new" ? "مندوب جديد" : `تعديل ${editing.name}`}
+            </h6>
+          </div>
+
+          <form onSubmit={handleSubmit(onSubmit)}>
+            <div className="sm:grid sm:grid-cols-2 sm:gap-[20px] space-y-[15px] sm:space-y-0">
+              <div>
+                <label className="mb-2 block font-medium text-black dark:text-white">
+                  الاسم
+                </label>
+                <input
+                  {...register("name", { required: "اسم المندوب مطلوب" })}
+                  className={inputClassName}
+                />
+                {errors.name && (
+                  <p className="text-red-500 mt-1">{errors.name.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="mb-2 block font-medium text-black dark:text-white">
+                  رقم الهاتف
+                </label>
+                <input
+                  {...register("phone")}
+                  dir="ltr"
+                  className={inputClassName}
+                />
+              </div>
+
+              <div>
+                <label className="mb-2 block font-medium text-black dark:text-white">
+                  الفرع
+                </label>
+                <select {...register("branch_id")} className={inputClassName}>
+                  <option value="">كل الفروع</option>
+                  {branches.map((branch) => (
+                    <option key={branch.id} value={branch.id}>
+                      {branch.name_ar}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <label className="flex items-center gap-[8px] self-end pb-[12px]">
+                <input type="checkbox" {...register("is_active")} />
+                المندوب متاح للتوصيل
+              </label>
+            </div>
+
+            <div className="mt-[20px] flex gap-[10px]">
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="font-medium inline-block transition-all rounded-md py-[10px] px-[20px] bg-primary-500 text-white hover:bg-primary-400 disabled:opacity-50"
+              >
+                {isSaving ? "جاري الحفظ..." : "حفظ"}
+              </button>
+              <button
+                type="button"
+                onClick={() => setEditing(null)}
+                className="font-medium inline-block transition-all rounded-md py-[10px] px-[20px] bg-gray-100 text-black dark:bg-[#15203c] dark:text-white"
+              >
+                إلغاء
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default DriversPage;
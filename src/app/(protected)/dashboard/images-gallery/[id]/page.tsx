@@ -10,6 +10,7 @@ import {
   getGalleriesById,
 } from "../../../../../../services/apiGallery";
 import toast from "react-hot-toast";
+import AuditHistoryCard from "@/components/AuditLog/AuditHistoryCard";
 
 interface Gallery {
   id: string;
@@ -54,7 +55,7 @@ const GalleryDetails: React.FC = () => {
   const deleteMutation = useMutation({
     mutationFn: deleteGalleries,
     onSuccess: () => {
-      toast.success("تم حذف المعرض بنجاح");
+      toast.success("تم نقل المعرض إلى سلة المحذوفات");
       router.push("/dashboard/images-gallery");
     },
     onError: (error) => {
@@ -228,6 +229,8 @@ const GalleryDetails: React.FC = () => {
       </div>
 
       {/* Modal تأكيد الحذف */}
+      {id && <AuditHistoryCard entityType="gallery" entityId={id} />}
+
       {isDeleteModalOpen && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
           <div className="bg-white dark:bg-[#0c1427] rounded-lg p-6 max-w-md w-full mx-4">
@@ -0,0 +1,272 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import toast from "react-hot-toast";
+import {
+  KitchenStatus,
+  Order,
+  advanceKitchenStatus,
+  getKitchenOrders,
+  subscribeToKitchenChanges,
+  updateOrderStatus,
+} from "../../../../../services/apiOrders";
+import { getVariantLabel } from "../../../../../services/apiProducts";
+import { usePermissions } from "@/components/Authentication/usePermissions";
+
+// أعمدة اللوحة بالترتيب؛ الزر في كل بطاقة ينقل الطلب إلى المرحلة التالية،
+// وبدون next يخرج الطلب للتوصيل (shipped) ويغادر اللوحة
+const KITCHEN_STAGES: {
+  key: KitchenStatus;
+  title: string;
+  next?: KitchenStatus;
+  actionLabel: string;
+  color: string;
+}[] = [
+  {
+    key: "queued",
+    title: "طلبات جديدة",
+    next: "preparing",
+    actionLabel: "بدء التحضير",
+    color: "border-primary-500",
+  },
+  {
+    key: "preparing",
+    title: "قيد التحضير",
+    next: "ready",
+    actionLabel: "جاهز للتسليم",
+    color: "border-warning-500",
+  },
+  {
+    key: "ready",
+    title: "جاهز للتسليم",
+    actionLabel: "خرج للتوصيل",
+    color: "border-success-500",
+  },
+];
+
+// ألوان الوقت المنقضي منذ إنشاء الطلب (بالدقائق)
+function getElapsedClassName(minutes: number): string {
+  if (minutes < 10) return "bg-success-50 text-success-600";
+  if (minutes < 20) return "bg-orange-100 text-orange-600";
+  return "bg-danger-50 text-danger-500";
+}
+
+const KitchenPage: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const boardRef = useRef<HTMLDivElement>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [isFullscreen, setIsFullscreen] = useState(false);
+
+  const { data: orders = [], isPending } = useQuery({
+    queryKey: ["kitchenOrders"],
+    // المطبخ يعرض الطلبات المدفوعة التي لم تخرج بعد فقط
+    queryFn: () => getKitchenOrders(["paid"]),
+    // احتياطاً إن انقطع الاتصال اللحظي
+    refetchInterval: 60 * 1000,
+  });
+
+  useEffect(() => {
+    return subscribeToKitchenChanges(() => {
+      queryClient.invalidateQueries({ queryKey: ["kitchenOrders"] });
+    });
+  }, [queryClient]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    const handleChange = () => setIsFullscreen(!!document.fullscreenElement);
+    document.addEventListener("fullscreenchange", handleChange);
+    return () => document.removeEventListener("fullscreenchange", handleChange);
+  }, []);
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen();
+    } else {
+      boardRef.current?.requestFullscreen();
+    }
+  };
+
+  const {
+    mutate: advanceOrder,
+    isPending: isAdvancing,
+    variables,
+  } = useMutation({
+    mutationFn: ({
+      id,
+      stage,
+    }: {
+      id: string;
+      stage: (typeof KITCHEN_STAGES)[number];
+    }) =>
+      stage.next
+        ? advanceKitchenStatus(id, stage.next)
+        : updateOrderStatus(id, "shipped"),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["kitchenOrders"] });
+      queryClient.invalidateQueries({ queryKey: ["orders"] });
+      queryClient.invalidateQueries({ queryKey: ["orderStats"] });
+    },
+    onError: (err) => {
+      toast.error(err.message || "حدث خطأ أثناء تحديث حالة الطلب");
+      queryClient.invalidateQueries({ queryKey: ["kitchenOrders"] });
+    },
+  });
+
+  const renderCard = (order: Order, stage: (typeof KITCHEN_STAGES)[number]) => {
+    const minutes = Math.max(
+      0,
+      Math.floor((now - new Date(order.created_at || now).getTime()) / 60000)
+    );
+    const isUpdating = isAdvancing && variables?.id === order.id;
+
+    return (
+      <div
+        key={order.id}
+        className={`bg-white dark:bg-[#0c1427] rounded-md p-[15px] border-t-4 ${stage.color} shadow-sm`}
+      >
+        <div className="flex items-center justify-between mb-[10px]">
+          <Link
+            href={`/dashboard/orders/${order.id}`}
+            className="font-semibold text-black dark:text-white hover:text-primary-500"
+          >
+            #{order.id?.slice(0, 8)}
+          </Link>
+          <span
+            className={`px-[8px] py-[3px] rounded-sm text-sm font-semibold ${getElapsedClassName(
+              minutes
+            )}`}
+          >
+            {minutes} د
+          </span>
+        </div>
+
+        {order.profiles?.full_name && (
+          <p className="text-xs text-gray-500 dark:text-gray-400 !mb-[8px]">
+            {order.profiles.full_name}
+            {order.profiles.phone ? ` - ${order.profiles.phone}` : ""}
+          </p>
+        )}
+
+        <ul className="mb-[12px] space-y-[6px]">
+          {order.order_items?.map((item) => (
+            <li key={item.id} className="flex items-start gap-[8px]">
+              <span className="min-w-[32px] text-center rounded-sm bg-gray-100 dark:bg-[#15203c] text-black dark:text-white font-bold text-lg leading-[32px]">
+                {item.quantity}×
+              </span>
+              <span>
+                <span className="block text-black dark:text-white font-medium">
+                  {item.products?.name_ar ||
+                    item.combo_offers?.title_ar ||
+                    "منتج محذوف"}
+                </span>
+                {item.product_variants && (
+                  <span className="block text-sm text-primary-500">
+                    {getVariantLabel(item.product_variants)}
+                  </span>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+
+        {can("orders.update") && (
+          <button
+            type="button"
+            onClick={() => advanceOrder({ id: order.id as string, stage })}
+            disabled={isUpdating}
+            className="w-full py-[12px] rounded-md bg-primary-500 text-white font-semibold text-base transition-all hover:bg-primary-400 disabled:opacity-50"
+          >
+            {isUpdating ? "جاري التحديث..." : stage.actionLabel}
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <>
+      <div className="mb-[25px] md:flex items-center justify-between">
+        <h5 className="!mb-0">شاشة المطبخ</h5>
+
+        <ol className="breadcrumb mt-[12px] md:mt-0 rtl:flex-row-reverse">
+          <li className="breadcrumb-item inline-block relative text-sm mx-[11px] ltr:first:ml-0 rtl:first:mr-0 ltr:last:mr-0 rtl:last:ml-0">
+            <Link
+              href="/dashboard"
+              className="inline-block relative ltr:pl-[22px] rtl:pr-[22px] transition-all hover:text-primary-500"
+            >
+              <i className="material-symbols-outlined absolute ltr:left-0 rtl:right-0 !text-lg -mt-px text-primary-500 top-1/2 -translate-y-1/2">
+                home
+              </i>
+              رئيسية
+            </Link>
+          </li>
+          <li className="breadcrumb-item inline-block relative text-sm mx-[11px] ltr:first:ml-0 rtl:first:mr-0 ltr:last:mr-0 rtl:last:ml-0">
+            شاشة المطبخ
+          </li>
+        </ol>
+      </div>
+
+      <div
+        ref={boardRef}
+        className="bg-gray-50 dark:bg-[#0a0e19] rounded-md p-[15px] md:p-[20px] min-h-[calc(100vh-200px)] overflow-y-auto"
+      >
+        <div className="flex items-center justify-between mb-[15px]">
+          <span className="text-sm text-gray-500 dark:text-gray-400">
+            {orders.length} طلب مفتوح
+          </span>
+          <button
+            type="button"
+            onClick={toggleFullscreen}
+            className="inline-flex items-center gap-[6px] px-[13px] py-[6px] rounded-md border border-gray-200 dark:border-[#172036] bg-white dark:bg-[#0c1427] transition-all hover:text-primary-500"
+          >
+            <i className="material-symbols-outlined !text-[20px]">
+              {isFullscreen ? "fullscreen_exit" : "fullscreen"}
+            </i>
+            {isFullscreen ? "خروج من ملء الشاشة" : "ملء الشاشة"}
+          </button>
+        </div>
+
+        {isPending ? (
+          <p className="text-center py-8 text-gray-500">جاري التحميل...</p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-[20px]">
+            {KITCHEN_STAGES.map((stage) => {
+              const stageOrders = orders.filter(
+                (order) => (order.kitchen_status ?? "queued") === stage.key
+              );
+
+              return (
+                <div key={stage.key}>
+                  <div className="flex items-center justify-between mb-[12px]">
+                    <h6 className="!mb-0 !text-lg">{stage.title}</h6>
+                    <span className="px-[10px] py-[2px] rounded-full bg-white dark:bg-[#0c1427] text-sm font-semibold">
+                      {stageOrders.length}
+                    </span>
+                  </div>
+                  <div className="space-y-[15px]">
+                    {stageOrders.length === 0 ? (
+                      <p className="text-center text-sm text-gray-400 py-[20px] border border-dashed border-gray-200 dark:border-[#172036] rounded-md">
+                        لا توجد طلبات
+                      </p>
+                    ) : (
+                      stageOrders.map((order) => renderCard(order, stage))
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default KitchenPage;
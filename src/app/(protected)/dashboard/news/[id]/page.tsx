@@ -24,17 +24,29 @@ import {
 } from "react-simple-wysiwyg";
 import {
   getProductById,
+  getProductOfferStatus,
   updateProduct,
   uploadProductImage,
+  OFFER_STATUS_CLASS_NAMES,
+  OFFER_STATUS_LABELS,
   Product,
   ProductAttribute,
 } from "../../../../../../services/apiProducts";
+import { getAvailableStock } from "../../../../../../services/apiInventory";
+import StockMovementsCard from "@/components/news/StockMovementsCard";
+import ProductPerformanceCard from "@/components/news/ProductPerformanceCard";
+import AuditHistoryCard from "@/components/AuditLog/AuditHistoryCard";
+import ProductVariantsEditor, {
+  prepareVariantsForSave,
+  VariantFormValue,
+} from "@/components/news/ProductVariantsEditor";
 import { useEffect, useState } from "react";
 import { Controller, SubmitHandler, useForm } from "react-hook-form";
 import Image from "next/image";
 import toast from "react-hot-toast";
 
 interface ProductFormData {
+  sku: string;
   name_ar: string;
   name_en: string;
   category_id: string;
@@ -42,22 +54,35 @@ interface ProductFormData {
   description_en: string;
   price: number;
   offer_price?: number;
+  offer_starts_at: string;
+  offer_ends_at: string;
   stock: number;
-  is_best_seller: boolean;
+  low_stock_threshold: number;
+  best_seller_pinned: boolean;
   limited_time_offer: boolean;
   image_url?: string[];
 }
 
+// datetime-local يعمل بالتوقيت المحلي بدون منطقة زمنية
+const toLocalInput = (value?: string | null) => {
+  if (!value) return "";
+  const date = new Date(value);
+  date.setMinutes(date.getMinutes() - date.getTimezoneOffset());
+  return date.toISOString().slice(0, 16);
+};
+
 export default function EditProductPage() {
   const [serverImages, setServerImages] = useState<string[]>([]);
   const [selectedImage, setSelectedImage] = useState<File | null>(null);
   const [isUploadingImage, setIsUploadingImage] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [attributes, setAttributes] = useState<ProductAttribute[]>([]);
+  const [variants, setVariants] = useState<VariantFormValue[]>([]);
   const router = useRouter();
 
-  const { register, handleSubmit, reset, control } = useForm({
+  const { register, handleSubmit, reset, control, watch } = useForm({
     defaultValues: {
+      sku: "",
       name_ar: "",
       name_en: "",
       category_id: "",
@@ -65,8 +90,11 @@ export default function EditProductPage() {
       description_en: "",
       price: 0,
       offer_price: 0,
+      offer_starts_at: "",
+      offer_ends_at: "",
       stock: 0,
-      is_best_seller: false,
+      low_stock_threshold: 5,
+      best_seller_pinned: false,
       limited_time_offer: false,
     },
   });
@@ -90,6 +118,7 @@ export default function EditProductPage() {
   useEffect(() => {
     if (product) {
       reset({
+        sku: product.sku || "",
         name_ar: product.name_ar || "",
         name_en: product.name_en || "",
         category_id: product.category_id?.toString() || "",
@@ -97,8 +126,11 @@ export default function EditProductPage() {
         description_en: product.description_en || "",
         price: product.price || 0,
         offer_price: product.offer_price || 0,
+        offer_starts_at: toLocalInput(product.offer_starts_at),
+        offer_ends_at: toLocalInput(product.offer_ends_at),
         stock: product.stock || 0,
-        is_best_seller: product.is_best_seller || false,
+        low_stock_threshold: product.low_stock_threshold ?? 5,
+        best_seller_pinned: product.best_seller_pinned || false,
         limited_time_offer: product.limited_time_offer || false,
       });
 
@@ -106,6 +138,8 @@ export default function EditProductPage() {
         setServerImages(product.image_url);
       }
 
+      setVariants(product.variants || []);
+
       // تحسين تحميل الخصائص
       if (product.attributes && Array.isArray(product.attributes)) {
         setAttributes(product.attributes);
@@ -154,6 +188,7 @@ export default function EditProductPage() {
   };
 
   const queryClient = useQueryClient();
+  const offerStatus = product ? getProductOfferStatus(product) : null;
 
   const onSubmit: SubmitHandler<ProductFormData> = async (data) => {
     try {
@@ -170,8 +205,16 @@ export default function EditProductPage() {
 
       const updatedData: Partial<Product> = {
         ...data,
+        sku: data.sku.trim() || null,
+        offer_starts_at: data.offer_starts_at
+          ? new Date(data.offer_starts_at).toISOString()
+          : null,
+        offer_ends_at: data.offer_ends_at
+          ? new Date(data.offer_ends_at).toISOString()
+          : null,
         image_url: uploadedImageUrl ? [uploadedImageUrl] : serverImages,
         attributes: attributes || [],
+        variants: await prepareVariantsForSave(variants),
       };
 
       // تنفيذ التحديث في Supabase
@@ -180,9 +223,11 @@ export default function EditProductPage() {
       // يمكنك هنا إعادة التوجيه أو عرض رسالة نجاح
       toast.success("تم تحديث المنتج بنجاح");
       queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["product", id] });
+      queryClient.invalidateQueries({ queryKey: ["low_stock_products"] });
       router.push("/dashboard/news");
     } catch (error: Error | unknown) {
-      toast.error("حدث خطأ ما");
+      toast.error(error instanceof Error ? error.message : "حدث خطأ ما");
       console.log("حدث خطأ أثناء تحديث المنتج:", error);
     } finally {
       setIsSubmitting(false);
@@ -271,6 +316,38 @@ export default function EditProductPage() {
                     {...register("offer_price")}
                     className="h-[55px] rounded-md text-black dark:text-white border border-gray-200 dark:border-[#172036] bg-white dark:bg-[#0c1427] px-[17px] block w-full outline-0 transition-all placeholder:text-gray-500 dark:placeholder:text-gray-400 focus:border-primary-500"
                   />
+                  {offerStatus && (
+                    <span
+                      className={`inline-block mt-1 px-[8px] py-[2px] rounded-sm text-xs ${OFFER_STATUS_CLASS_NAMES[offerStatus]}`}
+                    >
+                      {OFFER_STATUS_LABELS[offerStatus]}
+                    </span>
+                  )}
+                </div>
+
+                <div>
+                  <label className="block font-medium mb-2">
+                    بداية العرض (اختياري)
+                  </label>
+                  <input
+                    type="datetime-local"
+                    {...register("offer_starts_at")}
+                    className="h-[55px] rounded-md text-black dark:text-white border border-gray-200 dark:border-[#172036] bg-white dark:bg-[#0c1427] px-[17px] block w-full outline-0 transition-all placeholder:text-gray-500 dark:placeholder:text-gray-400 focus:border-primary-500"
+                  />
+                </div>
+
+                <div>
+                  <label className="block font-medium mb-2">
+                    نهاية العرض (اختياري)
+                  </label>
+                  <input
+                    type="datetime-local"
+                    {...register("offer_ends_at")}
+                    className="h-[55px] rounded-md text-black dark:text-white border border-gray-200 dark:border-[#172036] bg-white dark:bg-[#0c1427] px-[17px] block w-full outline-0 transition-all placeholder:text-gray-500 dark:placeholder:text-gray-400 focus:border-primary-500"
+                  />
+                  <span className="text-sm text-gray-500 dark:text-gray-400">
+                    يُلغى سعر العرض تلقائياً بعد انتهائه
+                  </span>
                 </div>
 
                 <div>
@@ -280,6 +357,35 @@ export default function EditProductPage() {
                     {...register("stock")}
                     className="h-[55px] rounded-md text-black dark:text-white border border-gray-200 dark:border-[#172036] bg-white dark:bg-[#0c1427] px-[17px] block w-full outline-0 transition-all placeholder:text-gray-500 dark:placeholder:text-gray-400 focus:border-primary-500"
                   />
+                  <span className="text-sm text-gray-500 dark:text-gray-400">
+                    محجوز للطلبات: {product.reserved_stock || 0} — المتاح:{" "}
+                    {getAvailableStock(product)}
+                  </span>
+                </div>
+
+                <div>
+                  <label className="block font-medium mb-2">
+                    حد تنبيه انخفاض المخزون
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    {...register("low_stock_threshold", {
+                      valueAsNumber: true,
+                    })}
+                    className="h-[55px] rounded-md text-black dark:text-white border border-gray-200 dark:border-[#172036] bg-white dark:bg-[#0c1427] px-[17px] block w-full outline-0 transition-all placeholder:text-gray-500 dark:placeholder:text-gray-400 focus:border-primary-500"
+                  />
+                </div>
+
+                <div>
+                  <label className="block font-medium mb-2">
+                    رمز المنتج (SKU)
+                  </label>
+                  <input
+                    dir="ltr"
+                    {...register("sku")}
+                    className="h-[55px] rounded-md text-black dark:text-white border border-gray-200 dark:border-[#172036] bg-white dark:bg-[#0c1427] px-[17px] block w-full outline-0 transition-all placeholder:text-gray-500 dark:placeholder:text-gray-400 focus:border-primary-500"
+                  />
                 </div>
 
                 <div>
@@ -287,15 +393,15 @@ export default function EditProductPage() {
                   <div className="flex items-center">
                     <input
                       type="checkbox"
-                      id="is_best_seller"
+                      id="best_seller_pinned"
                       className="w-4 h-4 text-primary-500 bg-gray-100 border-gray-300 rounded focus:ring-primary-500 dark:focus:ring-primary-600 dark:ring-offset-gray-800 focus:ring-2 dark:bg-gray-700 dark:border-gray-600"
-                      {...register("is_best_seller")}
+                      {...register("best_seller_pinned")}
                     />
                     <label
-                      htmlFor="is_best_seller"
+                      htmlFor="best_seller_pinned"
                       className="mr-2 text-sm text-gray-700 dark:text-gray-300"
                     >
-                      تحديد كأفضل مبيع
+                      تثبيت ضمن أفضل المبيعات
                     </label>
                   </div>
                 </div>
@@ -604,6 +710,25 @@ export default function EditProductPage() {
             )}
           </div>
         </div>
+
+        <ProductVariantsEditor
+          variants={variants}
+          onChange={setVariants}
+          basePrice={watch("price")}
+          skuPrefix={watch("name_en")}
+        />
+
+        {id && (
+          <ProductPerformanceCard
+            productId={id}
+            isBestSeller={product.is_best_seller}
+            isPinned={product.best_seller_pinned}
+          />
+        )}
+
+        {id && <StockMovementsCard productId={id} />}
+
+        {id && <AuditHistoryCard entityType="product" entityId={id} />}
       </div>
 
       {/* الأزرار */}
@@ -35,8 +35,13 @@ import { UUID } from "crypto";
 
 import Image from "next/image";
 import Link from "next/link";
+import ProductVariantsEditor, {
+  prepareVariantsForSave,
+  VariantFormValue,
+} from "@/components/news/ProductVariantsEditor";
 
 type ProductFormValues = {
+  sku?: string;
   name_ar: string;
   name_en: string;
   category_id: UUID;
@@ -44,8 +49,11 @@ type ProductFormValues = {
   description_en: string;
   price: number;
   offer_price?: number;
+  offer_starts_at: string;
+  offer_ends_at: string;
   stock: number;
-  is_best_seller: boolean;
+  low_stock_threshold: number;
+  best_seller_pinned: boolean;
   limited_time_offer: boolean;
   images: File[];
 };
@@ -63,12 +71,13 @@ const CreateProductForm: React.FC = () => {
     "Write the product description in English..."
   );
 
-  const { register, handleSubmit, setValue, formState } =
+  const { register, handleSubmit, setValue, watch, formState } =
     useForm<ProductFormValues>({
       defaultValues: {
         price: 0,
         stock: 0,
-        is_best_seller: false,
+        low_stock_threshold: 5,
+        best_seller_pinned: false,
         limited_time_offer: false,
         images: [],
       },
@@ -77,6 +86,9 @@ const CreateProductForm: React.FC = () => {
   // Attributes management
   const [attributes, setAttributes] = useState<ProductAttribute[]>([]);
 
+  // Variants management
+  const [variants, setVariants] = useState<VariantFormValue[]>([]);
+
   const { errors } = formState;
 
   const handleCategoryChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
@@ -89,6 +101,7 @@ const CreateProductForm: React.FC = () => {
     onSuccess: () => {
       toast.success("تم إنشاء المنتج بنجاح");
       queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["low_stock_products"] });
       router.push("/dashboard/news");
     },
     onError: (error) => toast.error("حدث خطأ ما" + error.message),
@@ -189,8 +202,10 @@ const CreateProductForm: React.FC = () => {
         uploadProductImage(image)
       );
       const uploadedImageUrls = await Promise.all(uploadPromises);
+      const preparedVariants = await prepareVariantsForSave(variants);
 
       const finalData: Product = {
+        sku: data.sku?.trim() || null,
         name_ar: data.name_ar,
         name_en: data.name_en,
         description_ar: data.description_ar,
@@ -201,11 +216,19 @@ const CreateProductForm: React.FC = () => {
           data.offer_price && data.offer_price > 0
             ? data.offer_price
             : undefined,
+        offer_starts_at: data.offer_starts_at
+          ? new Date(data.offer_starts_at).toISOString()
+          : null,
+        offer_ends_at: data.offer_ends_at
+          ? new Date(data.offer_ends_at).toISOString()
+          : null,
         stock: data.stock,
-        is_best_seller: data.is_best_seller,
+        low_stock_threshold: data.low_stock_threshold,
+        best_seller_pinned: data.best_seller_pinned,
         limited_time_offer: data.limited_time_offer,
         image_url: uploadedImageUrls,
         attributes: attributes,
+        variants: preparedVariants,
       };
 
       mutate(finalData);
@@ -378,6 +401,44 @@ const CreateProductForm: React.FC = () => {
                     )}
                   </div>
 
+                  <div className="mb-[20px] sm:mb-0">
+                    <label className="mb-[10px] text-black dark:text-white font-medium block">
+                      بداية العرض (اختياري)
+                    </label>
+                    <input
+                      type="datetime-local"
+                      className="h-[55px] rounded-md text-black dark:text-white border border-gray-200 dark:border-[#172036] bg-white dark:bg-[#0c1427] px-[17px] block w-full outline-0 transition-all placeholder:text-gray-500 dark:placeholder:text-gray-400 focus:border-primary-500"
+                      id="offer_starts_at"
+                      {...register("offer_starts_at")}
+                    />
+                  </div>
+
+                  <div className="mb-[20px] sm:mb-0">
+                    <label className="mb-[10px] text-black dark:text-white font-medium block">
+                      نهاية العرض (اختياري)
+                    </label>
+                    <input
+                      type="datetime-local"
+                      className="h-[55px] rounded-md text-black dark:text-white border border-gray-200 dark:border-[#172036] bg-white dark:bg-[#0c1427] px-[17px] block w-full outline-0 transition-all placeholder:text-gray-500 dark:placeholder:text-gray-400 focus:border-primary-500"
+                      id="offer_ends_at"
+                      {...register("offer_ends_at", {
+                        validate: (value, values) =>
+                          !value ||
+                          !values.offer_starts_at ||
+                          value > values.offer_starts_at ||
+                          "نهاية العرض يجب أن تكون بعد بدايته",
+                      })}
+                    />
+                    {errors?.offer_ends_at?.message && (
+                      <span className="text-red-700 text-sm">
+                        {errors.offer_ends_at.message}
+                      </span>
+                    )}
+                    <span className="block text-sm text-gray-500 dark:text-gray-400">
+                      يُلغى سعر العرض تلقائياً بعد انتهائه
+                    </span>
+                  </div>
+
                   <div className="mb-[20px] sm:mb-0">
                     <label className="mb-[10px] text-black dark:text-white font-medium block">
                       المخزون
@@ -402,6 +463,44 @@ const CreateProductForm: React.FC = () => {
                     )}
                   </div>
 
+                  <div className="mb-[20px] sm:mb-0">
+                    <label className="mb-[10px] text-black dark:text-white font-medium block">
+                      حد تنبيه انخفاض المخزون
+                    </label>
+                    <input
+                      type="number"
+                      className="h-[55px] rounded-md text-black dark:text-white border border-gray-200 dark:border-[#172036] bg-white dark:bg-[#0c1427] px-[17px] block w-full outline-0 transition-all placeholder:text-gray-500 dark:placeholder:text-gray-400 focus:border-primary-500"
+                      placeholder="5"
+                      id="low_stock_threshold"
+                      {...register("low_stock_threshold", {
+                        valueAsNumber: true,
+                        min: {
+                          value: 0,
+                          message: "الحد يجب أن يكون أكبر من أو يساوي 0",
+                        },
+                      })}
+                    />
+                    {errors?.low_stock_threshold?.message && (
+                      <span className="text-red-700 text-sm">
+                        {errors.low_stock_threshold.message}
+                      </span>
+                    )}
+                  </div>
+
+                  <div className="mb-[20px] sm:mb-0">
+                    <label className="mb-[10px] text-black dark:text-white font-medium block">
+                      رمز المنتج (SKU)
+                    </label>
+                    <input
+                      type="text"
+                      dir="ltr"
+                      className="h-[55px] rounded-md text-black dark:text-white border border-gray-200 dark:border-[#172036] bg-white dark:bg-[#0c1427] px-[17px] block w-full outline-0 transition-all placeholder:text-gray-500 dark:placeholder:text-gray-400 focus:border-primary-500"
+                      placeholder="اختياري، يستخدم للاستيراد والتصدير"
+                      id="sku"
+                      {...register("sku")}
+                    />
+                  </div>
+
                   <div className="mb-[20px] sm:mb-0">
                     <label className="mb-[10px] text-black dark:text-white font-medium block">
                       أفضل مبيع
@@ -409,15 +508,15 @@ const CreateProductForm: React.FC = () => {
                     <div className="flex items-center">
                       <input
                         type="checkbox"
-                        id="is_best_seller"
+                        id="best_seller_pinned"
                         className="w-4 h-4 text-primary-500 bg-gray-100 border-gray-300 rounded focus:ring-primary-500 dark:focus:ring-primary-600 dark:ring-offset-gray-800 focus:ring-2 dark:bg-gray-700 dark:border-gray-600"
-                        {...register("is_best_seller")}
+                        {...register("best_seller_pinned")}
                       />
                       <label
-                        htmlFor="is_best_seller"
+                        htmlFor="best_seller_pinned"
                         className="mr-2 text-sm text-gray-700 dark:text-gray-300"
                       >
-                        تحديد كأفضل مبيع
+                        تثبيت ضمن أفضل المبيعات
                       </label>
                     </div>
                   </div>
@@ -700,6 +799,13 @@ const CreateProductForm: React.FC = () => {
           </div>
         </div>
 
+        <ProductVariantsEditor
+          variants={variants}
+          onChange={setVariants}
+          basePrice={watch("price")}
+          skuPrefix={watch("name_en")}
+        />
+
         <div className="trezo-card mb-[25px]">
           <div className="trezo-card-content">
             <button
@@ -0,0 +1,344 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { useQueryClient } from "@tanstack/react-query";
+import toast from "react-hot-toast";
+import {
+  ImportReport,
+  ImportResultRow,
+  parseImportFiles,
+  runProductImport,
+  validateProductImport,
+} from "../../../../../../services/apiProductsTransfer";
+
+const RESULT_STATUS_LABELS: Record<ImportResultRow["status"], string> = {
+  created: "تم الإنشاء",
+  updated: "تم التحديث",
+  failed: "فشل",
+};
+
+export default function ProductImportPage() {
+  const queryClient = useQueryClient();
+  const [files, setFiles] = useState<File[]>([]);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [results, setResults] = useState<ImportResultRow[] | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setFiles(Array.from(event.target.files || []));
+    setReport(null);
+    setResults(null);
+  };
+
+  const handleValidate = async () => {
+    if (files.length === 0) {
+      toast.error("اختر ملف CSV أو XLSX أولاً");
+      return;
+    }
+
+    try {
+      setIsValidating(true);
+      setResults(null);
+      const parsed = await parseImportFiles(files);
+
+      if (parsed.products.length === 0) {
+        toast.error("لم يتم العثور على صفوف منتجات في الملف");
+        setReport(null);
+        return;
+      }
+
+      setReport(await validateProductImport(parsed));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "تعذر قراءة الملف");
+      console.error(error);
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!report || report.validCount === 0) return;
+
+    try {
+      setIsImporting(true);
+      setProgress({ done: 0, total: report.validCount });
+      const importResults = await runProductImport(report, (done, total) =>
+        setProgress({ done, total })
+      );
+      setResults(importResults);
+
+      const failed = importResults.filter((r) => r.status === "failed");
+      if (failed.length > 0) {
+        toast.error(`فشل استيراد ${failed.length} منتج`);
+      } else {
+        toast.success("تم استيراد المنتجات بنجاح");
+      }
+
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["low_stock_products"] });
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "تعذر استيراد المنتجات"
+      );
+      console.error(error);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const productErrors =
+    report?.products.filter((row) => row.errors.length > 0) || [];
+  const attributeErrors =
+    report?.attributes.filter((row) => row.errors.length > 0) || [];
+
+  return (
+    <>
+      <div className="mb-[25px] md:flex items-center justify-between">
+        <h5 className="!mb-0">استيراد المنتجات</h5>
+
+        <ol className="breadcrumb mt-[12px] md:mt-0 rtl:flex-row-reverse">
+          <li className="breadcrumb-item inline-block relative text-sm mx-[11px] ltr:first:ml-0 rtl:first:mr-0 ltr:last:mr-0 rtl:last:ml-0">
+            <Link
+              href="/dashboard"
+              className="inline-block relative ltr:pl-[22px] rtl:pr-[22px] transition-all hover:text-primary-500"
+            >
+              <i className="material-symbols-outlined absolute ltr:left-0 rtl:right-0 !text-lg -mt-px text-primary-500 top-1/2 -translate-y-1/2">
+                home
+              </i>
+              رئيسية
+            </Link>
+          </li>
+          <li className="breadcrumb-item inline-block  relative text-sm mx-[11px] ltr:first:ml-0 rtl:first:mr-0 ltr:last:mr-0 rtl:last:ml-0">
+            <Link
+              href="/dashboard/news"
+              className="transition-all hover:text-primary-500"
+            >
+              المنتجات
+            </Link>
+          </li>
+          <li className="breadcrumb-item inline-block  relative text-sm mx-[11px] ltr:first:ml-0 rtl:first:mr-0 ltr:last:mr-0 rtl:last:ml-0">
+            استيراد
+          </li>
+        </ol>
+      </div>
+
+      <div className="trezo-card bg-white dark:bg-[#0c1427] mb-[25px] p-[20px] md:p-[25px] rounded-md">
+        <div className="trezo-card-header mb-[20px] md:mb-[25px]">
+          <div className="trezo-card-title">
+            <h5 className="!mb-0">رفع الملف</h5>
+          </div>
+        </div>
+
+        <div className="trezo-card-content">
+          <ul className="list-disc ltr:pl-[20px] rtl:pr-[20px] mb-[20px] text-sm text-gray-600 dark:text-gray-400 space-y-1">
+            <li>
+              ملف XLSX بورقتين <span dir="ltr">products</span> و{" "}
+              <span dir="ltr">product_attributes</span>، أو ملفا CSV منفصلان لكل
+              منهما.
+            </li>
+            <li>
+              يمكن كتابة رؤوس الأعمدة بالإنجليزية (مثل{" "}
+              <span dir="ltr">name_ar, price</span>) كما في ملف التصدير، أو
+              بالعربية (مثل: الاسم بالعربي، السعر).
+            </li>
+            <li>
+              يتم البحث عن التصنيف بالاسم العربي أو الإنجليزي، ويُحدَّث المنتج
+              إذا كان رمز SKU موجوداً مسبقاً.
+            </li>
+            <li>
+              روابط الصور مفصولة بـ <span dir="ltr">|</span> ويتم تنزيلها إلى
+              مخزن صور المنتجات.
+            </li>
+          </ul>
+
+          <div className="sm:flex items-center gap-[15px]">
+            <input
+              type="file"
+              accept=".csv,.xlsx,.xls"
+              multiple
+              onChange={handleFileChange}
+              className="block mb-[15px] sm:mb-0 text-sm"
+            />
+            <button
+              type="button"
+              onClick={handleValidate}
+              disabled={isValidating || isImporting || files.length === 0}
+              className="font-medium inline-block transition-all rounded-md md:text-md py-[10px] px-[20px] border border-primary-500 text-primary-500 hover:bg-primary-500 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isValidating ? "جاري التحقق..." : "تحقق (تشغيل تجريبي)"}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {report && (
+        <div className="trezo-card bg-white dark:bg-[#0c1427] mb-[25px] p-[20px] md:p-[25px] rounded-md">
+          <div className="trezo-card-header mb-[20px] md:mb-[25px] sm:flex items-center justify-between">
+            <div className="trezo-card-title">
+              <h5 className="!mb-0">تقرير التحقق</h5>
+            </div>
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={isImporting || report.validCount === 0}
+              className="mt-[15px] sm:mt-0 font-medium inline-block transition-all rounded-md md:text-md py-[10px] px-[20px] bg-primary-500 text-white hover:bg-primary-400 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isImporting
+                ? `جاري الاستيراد... (${progress.done}/${progress.total})`
+                : `استيراد ${report.validCount} منتج صالح`}
+            </button>
+          </div>
+
+          <div className="trezo-card-content">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-[20px]">
+              <div className="p-4 rounded-md bg-gray-50 dark:bg-[#15203c]">
+                <p className="text-sm text-gray-500">صفوف المنتجات</p>
+                <p className="text-xl font-semibold">
+                  {report.products.length}
+                </p>
+              </div>
+              <div className="p-4 rounded-md bg-gray-50 dark:bg-[#15203c]">
+                <p className="text-sm text-gray-500">منتجات جديدة</p>
+                <p className="text-xl font-semibold text-success-600">
+                  {
+                    report.products.filter(
+                      (row) =>
+                        row.errors.length === 0 && row.action === "create"
+                    ).length
+                  }
+                </p>
+              </div>
+              <div className="p-4 rounded-md bg-gray-50 dark:bg-[#15203c]">
+                <p className="text-sm text-gray-500">منتجات سيتم تحديثها</p>
+                <p className="text-xl font-semibold text-primary-500">
+                  {
+                    report.products.filter(
+                      (row) =>
+                        row.errors.length === 0 && row.action === "update"
+                    ).length
+                  }
+                </p>
+              </div>
+              <div className="p-4 rounded-md bg-gray-50 dark:bg-[#15203c]">
+                <p className="text-sm text-gray-500">صفوف بها أخطاء</p>
+                <p className="text-xl font-semibold text-danger-500">
+                  {report.errorCount}
+                </p>
+              </div>
+            </div>
+
+            {productErrors.length === 0 && attributeErrors.length === 0 ? (
+              <p className="text-success-600 text-center py-4">
+                جميع الصفوف صالحة للاستيراد
+              </p>
+            ) : (
+              <div className="table-responsive overflow-x-auto">
+                <table className="w-full">
+                  <thead className="text-black dark:text-white">
+                    <tr>
+                      {["الورقة", "الصف", "SKU", "الأخطاء"].map((header) => (
+                        <th
+                          key={header}
+                          className="font-medium ltr:text-left rtl:text-right px-[20px] py-[11px] bg-gray-50 dark:bg-[#15203c] whitespace-nowrap"
+                        >
+                          {header}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="text-black dark:text-white">
+                    {[
+                      ...productErrors.map((row) => ({
+                        ...row,
+                        sheet: "المنتجات",
+                      })),
+                      ...attributeErrors.map((row) => ({
+                        ...row,
+                        sheet: "الخصائص",
+                      })),
+                    ].map((row) => (
+                      <tr key={`${row.sheet}-${row.rowNumber}`}>
+                        <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[12px] border-b border-gray-100 dark:border-[#172036]">
+                          {row.sheet}
+                        </td>
+                        <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[12px] border-b border-gray-100 dark:border-[#172036]">
+                          {row.rowNumber}
+                        </td>
+                        <td
+                          className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[12px] border-b border-gray-100 dark:border-[#172036]"
+                          dir="ltr"
+                        >
+                          {row.sku || "-"}
+                        </td>
+                        <td className="ltr:text-left rtl:text-right px-[20px] py-[12px] border-b border-gray-100 dark:border-[#172036] text-danger-500">
+                          {row.errors.join("، ")}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {results && (
+        <div className="trezo-card bg-white dark:bg-[#0c1427] mb-[25px] p-[20px] md:p-[25px] rounded-md">
+          <div className="trezo-card-header mb-[20px] md:mb-[25px]">
+            <div className="trezo-card-title">
+              <h5 className="!mb-0">نتيجة الاستيراد</h5>
+            </div>
+          </div>
+
+          <div className="trezo-card-content table-responsive overflow-x-auto">
+            <table className="w-full">
+              <thead className="text-black dark:text-white">
+                <tr>
+                  {["الصف", "SKU", "الحالة", "ملاحظات"].map((header) => (
+                    <th
+                      key={header}
+                      className="font-medium ltr:text-left rtl:text-right px-[20px] py-[11px] bg-gray-50 dark:bg-[#15203c] whitespace-nowrap"
+                    >
+                      {header}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="text-black dark:text-white">
+                {results.map((row) => (
+                  <tr key={row.rowNumber}>
+                    <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[12px] border-b border-gray-100 dark:border-[#172036]">
+                      {row.rowNumber}
+                    </td>
+                    <td
+                      className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[12px] border-b border-gray-100 dark:border-[#172036]"
+                      dir="ltr"
+                    >
+                      {row.sku}
+                    </td>
+                    <td
+                      className={`ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[12px] border-b border-gray-100 dark:border-[#172036] ${
+                        row.status === "failed"
+                          ? "text-danger-500"
+                          : "text-success-600"
+                      }`}
+                    >
+                      {RESULT_STATUS_LABELS[row.status]}
+                    </td>
+                    <td className="ltr:text-left rtl:text-right px-[20px] py-[12px] border-b border-gray-100 dark:border-[#172036]">
+                      {row.messages.join("، ") || "-"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -6,10 +6,38 @@ import Link from "next/link";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import {
   deleteProduct,
+  getProductOfferStatus,
   getProducts,
+  OFFER_STATUS_CLASS_NAMES,
+  OFFER_STATUS_LABELS,
+  Product,
+  refreshBestSellers,
 } from "../../../../../services/apiProducts";
 import { getCategories } from "../../../../../services/apiCategories";
+import {
+  exportProducts,
+  TransferFormat,
+} from "../../../../../services/apiProductsTransfer";
 import toast from "react-hot-toast";
+import { usePermissions } from "@/components/Authentication/usePermissions";
+
+const OfferStatusBadge: React.FC<{ product: Product }> = ({ product }) => {
+  const status = getProductOfferStatus(product);
+  if (!status) return null;
+
+  return (
+    <span
+      className={`block w-fit mt-1 px-[8px] py-[2px] rounded-sm text-xs ${OFFER_STATUS_CLASS_NAMES[status]}`}
+      title={
+        product.offer_ends_at
+          ? `ينتهي ${new Date(product.offer_ends_at).toLocaleString("ar-EG")}`
+          : undefined
+      }
+    >
+      عرض {OFFER_STATUS_LABELS[status]}
+    </span>
+  );
+};
 
 const ProductListTable: React.FC = () => {
   const [selectedCategory, setSelectedCategory] = useState<string>("");
@@ -63,6 +91,21 @@ const ProductListTable: React.FC = () => {
       }),
   });
 
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (format: TransferFormat) => {
+    try {
+      setIsExporting(true);
+      await exportProducts(format);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "تعذر تصدير المنتجات"
+      );
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const products = data?.products || [];
   const total = data?.total || 0;
   const totalPages = Math.ceil(total / pageSize);
@@ -90,11 +133,12 @@ const ProductListTable: React.FC = () => {
   }, []);
 
   const queryClient = useQueryClient();
+  const { can } = usePermissions();
 
   const { mutate } = useMutation({
     mutationFn: deleteProduct,
     onSuccess: () => {
-      toast.success("تم حذف المنتج بنجاح");
+      toast.success("تم نقل المنتج إلى سلة المحذوفات");
       queryClient.invalidateQueries({ queryKey: ["products"] });
     },
     onError: (err) => {
@@ -103,6 +147,16 @@ const ProductListTable: React.FC = () => {
     },
   });
 
+  const { mutate: refreshBestSellersMutation, isPending: isRefreshing } =
+    useMutation({
+      mutationFn: refreshBestSellers,
+      onSuccess: (count) => {
+        toast.success(`تم تحديث أفضل المبيعات (${count} منتج)`);
+        queryClient.invalidateQueries({ queryKey: ["products"] });
+      },
+      onError: (err) => toast.error(err.message),
+    });
+
   const endIndex = Math.min(currentPage * pageSize, total);
 
   useEffect(() => {
@@ -157,18 +211,56 @@ const ProductListTable: React.FC = () => {
       </div>
       <div className="trezo-card bg-white dark:bg-[#0c1427] mb-[25px] p-[20px] md:p-[25px] rounded-md">
         <div className="trezo-card-header mb-[20px] md:mb-[25px] sm:flex items-center justify-between">
-          <div className="trezo-card-subtitle mt-[15px] sm:mt-0">
-            <Link
-              href="/dashboard/news/create-news/"
-              className="inline-block transition-all rounded-md font-medium px-[13px] py-[6px] text-primary-500 border border-primary-500 hover:bg-primary-500 hover:text-white"
+          {can("products.manage") && (
+            <div className="trezo-card-subtitle mt-[15px] sm:mt-0">
+              <Link
+                href="/dashboard/news/create-news/"
+                className="inline-block transition-all rounded-md font-medium px-[13px] py-[6px] text-primary-500 border border-primary-500 hover:bg-primary-500 hover:text-white"
+              >
+                <span className="inline-block relative ltr:pl-[22px] rtl:pr-[22px]">
+                  <i className="material-symbols-outlined !text-[22px] absolute ltr:-left-[4px] rtl:-right-[4px] top-1/2 -translate-y-1/2">
+                    add
+                  </i>
+                  أضف منتج جديد
+                </span>
+              </Link>
+            </div>
+          )}
+          <div className="mt-[15px] sm:mt-0 flex items-center gap-[10px]">
+            {can("products.manage") && (
+              <button
+                type="button"
+                onClick={() => refreshBestSellersMutation()}
+                disabled={isRefreshing}
+                className="inline-block transition-all rounded-md font-medium px-[13px] py-[6px] text-primary-500 border border-primary-500 hover:bg-primary-500 hover:text-white disabled:opacity-50"
+              >
+                تحديث أفضل المبيعات
+              </button>
+            )}
+            {can("products.manage") && (
+              <Link
+                href="/dashboard/news/import"
+                className="inline-block transition-all rounded-md font-medium px-[13px] py-[6px] text-primary-500 border border-primary-500 hover:bg-primary-500 hover:text-white"
+              >
+                استيراد
+              </Link>
+            )}
+            <button
+              type="button"
+              onClick={() => handleExport("csv")}
+              disabled={isExporting}
+              className="inline-block transition-all rounded-md font-medium px-[13px] py-[6px] text-gray-600 dark:text-gray-300 border border-gray-300 dark:border-[#172036] hover:border-primary-500 hover:text-primary-500 disabled:opacity-50"
             >
-              <span className="inline-block relative ltr:pl-[22px] rtl:pr-[22px]">
-                <i className="material-symbols-outlined !text-[22px] absolute ltr:-left-[4px] rtl:-right-[4px] top-1/2 -translate-y-1/2">
-                  add
-                </i>
-                أضف منتج جديد
-              </span>
-            </Link>
+              تصدير CSV
+            </button>
+            <button
+              type="button"
+              onClick={() => handleExport("xlsx")}
+              disabled={isExporting}
+              className="inline-block transition-all rounded-md font-medium px-[13px] py-[6px] text-gray-600 dark:text-gray-300 border border-gray-300 dark:border-[#172036] hover:border-primary-500 hover:text-primary-500 disabled:opacity-50"
+            >
+              تصدير XLSX
+            </button>
           </div>
         </div>
 
@@ -320,12 +412,13 @@ const ProductListTable: React.FC = () => {
                         <span className="font-medium text-green-600 dark:text-green-400">
                           {getPriceDisplay(item)}
                         </span>
+                        <OfferStatusBadge product={item} />
                       </td>
 
                       <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[15px] border-b border-gray-100 dark:border-[#172036] ltr:first:border-l ltr:last:border-r rtl:first:border-r rtl:last:border-l">
                         {item.is_best_seller ? (
                           <span className="px-2 py-1 bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200 rounded-full text-xs">
-                            نعم
+                            {item.best_seller_pinned ? "مثبّت" : "نعم"}
                           </span>
                         ) : (
                           <span className="px-2 py-1 bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 rounded-full text-xs">
@@ -347,92 +440,94 @@ const ProductListTable: React.FC = () => {
                       </td>
 
                       <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[15px] border-b border-gray-100 dark:border-[#172036] ltr:first:border-l ltr:last:border-r rtl:first:border-r rtl:last:border-l">
-                        <div className="flex items-center gap-[9px]">
-                          <div className="relative group">
-                            <Link
-                              href={`/dashboard/news/${item.id}`}
-                              className="text-gray-500 leading-none"
-                              type="button"
-                            >
-                              <i className="material-symbols-outlined !text-md">
-                                edit
-                              </i>
-                            </Link>
-
-                            {/* Tooltip */}
-                            <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 bg-gray-800 text-white text-xs rounded px-2 py-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                              تعديل
-                              {/* Arrow */}
-                              <div className="absolute top-full left-1/2 -translate-x-1/2 border-4 border-white dark:border-[#172036] border-t-gray-800 dark:border-t-gray-800"></div>
+                        {can("products.manage") && (
+                          <div className="flex items-center gap-[9px]">
+                            <div className="relative group">
+                              <Link
+                                href={`/dashboard/news/${item.id}`}
+                                className="text-gray-500 leading-none"
+                                type="button"
+                              >
+                                <i className="material-symbols-outlined !text-md">
+                                  edit
+                                </i>
+                              </Link>
+
+                              {/* Tooltip */}
+                              <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 bg-gray-800 text-white text-xs rounded px-2 py-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                تعديل
+                                {/* Arrow */}
+                                <div className="absolute top-full left-1/2 -translate-x-1/2 border-4 border-white dark:border-[#172036] border-t-gray-800 dark:border-t-gray-800"></div>
+                              </div>
                             </div>
-                          </div>
 
-                          <div className="relative group">
-                            <button
-                              onClick={() => {
-                                toast(
-                                  (t) => (
-                                    <span>
-                                      هل أنت متأكد أنك تريد حذف هذا المنتج؟
-                                      <div
-                                        style={{
-                                          marginTop: 8,
-                                          display: "flex",
-                                          gap: 8,
-                                        }}
-                                      >
-                                        <button
-                                          onClick={() => {
-                                            mutate(item.id as string);
-                                            toast.dismiss(t.id);
-                                          }}
+                            <div className="relative group">
+                              <button
+                                onClick={() => {
+                                  toast(
+                                    (t) => (
+                                      <span>
+                                        هل أنت متأكد أنك تريد حذف هذا المنتج؟
+                                        <div
                                           style={{
-                                            background: "#ef4444",
-                                            color: "white",
-                                            border: "none",
-                                            padding: "4px 12px",
-                                            borderRadius: 4,
-                                            marginRight: 8,
-                                            cursor: "pointer",
+                                            marginTop: 8,
+                                            display: "flex",
+                                            gap: 8,
                                           }}
                                         >
-                                          نعم
-                                        </button>
-                                        <button
-                                          onClick={() => toast.dismiss(t.id)}
-                                          style={{
-                                            background: "#e5e7eb",
-                                            color: "#111827",
-                                            border: "none",
-                                            padding: "4px 12px",
-                                            borderRadius: 4,
-                                            cursor: "pointer",
-                                          }}
-                                        >
-                                          إلغاء
-                                        </button>
-                                      </div>
-                                    </span>
-                                  ),
-                                  { duration: 6000 }
-                                );
-                              }}
-                              disabled={isPending}
-                              className="text-danger-500 leading-none"
-                            >
-                              <i className="material-symbols-outlined !text-md">
-                                delete
-                              </i>
-                            </button>
-
-                            {/* Tooltip */}
-                            <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 bg-gray-800 text-white text-xs rounded px-2 py-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                              مسح
-                              {/* Arrow */}
-                              <div className="absolute top-full left-1/2 -translate-x-1/2 border-4 border-white dark:border-[#172036] border-t-gray-800 dark:border-t-gray-800"></div>
+                                          <button
+                                            onClick={() => {
+                                              mutate(item.id as string);
+                                              toast.dismiss(t.id);
+                                            }}
+                                            style={{
+                                              background: "#ef4444",
+                                              color: "white",
+                                              border: "none",
+                                              padding: "4px 12px",
+                                              borderRadius: 4,
+                                              marginRight: 8,
+                                              cursor: "pointer",
+                                            }}
+                                          >
+                                            نعم
+                                          </button>
+                                          <button
+                                            onClick={() => toast.dismiss(t.id)}
+                                            style={{
+                                              background: "#e5e7eb",
+                                              color: "#111827",
+                                              border: "none",
+                                              padding: "4px 12px",
+                                              borderRadius: 4,
+                                              cursor: "pointer",
+                                            }}
+                                          >
+                                            إلغاء
+                                          </button>
+                                        </div>
+                                      </span>
+                                    ),
+                                    { duration: 6000 }
+                                  );
+                                }}
+                                disabled={isPending}
+                                className="text-danger-500 leading-none"
+                              >
+                                <i className="material-symbols-outlined !text-md">
+                                  delete
+                                </i>
+                              </button>
+
+                              {/* Tooltip */}
+                              <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 bg-gray-800 text-white text-xs rounded px-2 py-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                مسح
+                                {/* Arrow */}
+                                <div className="absolute top-full left-1/2 -translate-x-1/2 border-4 border-white dark:border-[#172036] border-t-gray-800 dark:border-t-gray-800"></div>
+                              </div>
                             </div>
                           </div>
-                        </div>
+                        )}
                       </td>
                     </tr>
                   ))
@@ -1,20 +1,63 @@
 "use client";
 
-import React from "react";
+import React, { useState } from "react";
 import Link from "next/link";
 import Image from "next/image";
 import { useParams } from "next/navigation";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import {
   getOrderById,
+  getOrderStatusHistory,
   updateOrderStatus,
+  updateOrderBranch,
+  autoAssignOrderBranch,
+  getNextOrderStatuses,
+  ORDER_STATUS_LABELS,
+  OrderStatus,
 } from "../../../../../../services/apiOrders";
+import type { Payment } from "../../../../../../services/apiOrders";
+import {
+  getRefundableAmount,
+  getRefundedAmount,
+  refundPayment,
+} from "../../../../../../services/apiRefunds";
+import { getVariantLabel } from "../../../../../../services/apiProducts";
+import { getBranchOptions } from "../../../../../../services/apiBranches";
+import { applyOrderDeliveryZone } from "../../../../../../services/apiDeliveryZones";
+import {
+  COUPON_REJECTION_MESSAGES,
+  CouponEvaluation,
+  previewCouponForOrder,
+  redeemCoupon,
+  removeOrderCoupon,
+} from "../../../../../../services/apiCoupons";
+import {
+  DELIVERY_OUTCOME_LABELS,
+  assignOrderDriver,
+  getDrivers,
+  getOrderDeliveries,
+  recordDeliveryFailure,
+} from "../../../../../../services/apiDrivers";
+import RefundModal from "@/components/Orders/RefundModal";
+import AuditHistoryCard from "@/components/AuditLog/AuditHistoryCard";
 import toast from "react-hot-toast";
+import { usePermissions } from "@/components/Authentication/usePermissions";
+
+const PAYMENT_STATUS_LABELS: Record<Payment["payment_status"], string> = {
+  pending: "قيد الانتظار",
+  completed: "مكتمل",
+  failed: "فشل",
+  partially_refunded: "مسترد جزئياً",
+  refunded: "مسترد",
+};
 
 const OrderDetailsPage: React.FC = () => {
   const params = useParams();
   const orderId = params.id as string;
   const queryClient = useQueryClient();
+  const { can, role } = usePermissions();
+  // موظف الفرع لا يستطيع نقل الطلب خارج فرعه
+  const canChangeBranch = can("orders.update") && role !== "branch_staff";
 
   const {
     data: order,
@@ -28,19 +71,208 @@ const OrderDetailsPage: React.FC = () => {
 
   console.log("Order details page - order data:", order);
 
-  const { mutate: updateStatus } = useMutation({
-    mutationFn: ({ id, status }: { id: string; status: string }) =>
-      updateOrderStatus(
-        id,
-        status as "pending" | "paid" | "shipped" | "delivered" | "cancelled"
-      ),
+  const { data: statusHistory = [] } = useQuery({
+    queryKey: ["orderStatusHistory", orderId],
+    queryFn: () => getOrderStatusHistory(orderId),
+    enabled: !!orderId,
+  });
+
+  const [statusNote, setStatusNote] = useState("");
+
+  const { mutate: updateStatus, isPending: isUpdatingStatus } = useMutation({
+    mutationFn: ({
+      id,
+      status,
+      note,
+    }: {
+      id: string;
+      status: OrderStatus;
+      note?: string;
+    }) => updateOrderStatus(id, status, note),
     onSuccess: () => {
       toast.success("تم تحديث حالة الطلب بنجاح");
+      setStatusNote("");
       queryClient.invalidateQueries({ queryKey: ["order", orderId] });
+      queryClient.invalidateQueries({
+        queryKey: ["orderStatusHistory", orderId],
+      });
       queryClient.invalidateQueries({ queryKey: ["orders"] });
+      // الشحن والإلغاء يحرّكان المخزون
+      queryClient.invalidateQueries({ queryKey: ["low_stock_products"] });
+      // الشحن والتسليم يُسجَّلان على محاولة التوصيل المفتوحة
+      queryClient.invalidateQueries({
+        queryKey: ["order_deliveries", orderId],
+      });
     },
     onError: (err) => {
-      toast.error("حدث خطأ أثناء تحديث حالة الطلب");
+      toast.error(err.message || "حدث خطأ أثناء تحديث حالة الطلب");
+      console.error(err);
+    },
+  });
+
+  const { data: branches = [] } = useQuery({
+    queryKey: ["branch_options"],
+    queryFn: getBranchOptions,
+    enabled: canChangeBranch,
+  });
+
+  const onBranchChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["order", orderId] });
+    queryClient.invalidateQueries({ queryKey: ["orders"] });
+    queryClient.invalidateQueries({ queryKey: ["orderStats"] });
+  };
+
+  const { mutate: changeBranch, isPending: isChangingBranch } = useMutation({
+    mutationFn: (branchId: string | null) =>
+      updateOrderBranch(orderId, branchId),
+    onSuccess: () => {
+      toast.success("تم تحديث فرع الطلب");
+      onBranchChanged();
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const { mutate: autoAssignBranch, isPending: isAutoAssigning } = useMutation({
+    mutationFn: () => autoAssignOrderBranch(orderId),
+    onSuccess: (branchId) => {
+      if (branchId) {
+        toast.success("تم تحديد الفرع حسب مدينة العميل");
+        onBranchChanged();
+      } else {
+        toast.error("لا يوجد فرع يخدم مدينة أو منطقة هذا العميل");
+      }
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const { mutate: applyDeliveryZone, isPending: isApplyingZone } = useMutation({
+    mutationFn: () => applyOrderDeliveryZone(orderId),
+    onSuccess: (zone) => {
+      if (zone) {
+        toast.success(`تم تطبيق رسوم منطقة ${zone.name_ar}`);
+        queryClient.invalidateQueries({ queryKey: ["order", orderId] });
+      } else {
+        toast.error("لا توجد منطقة توصيل تغطي عنوان هذا العميل");
+      }
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const { data: drivers = [] } = useQuery({
+    queryKey: ["drivers", "active"],
+    queryFn: () => getDrivers({ activeOnly: true }),
+    enabled: can("orders.update"),
+  });
+  // مندوبو فرع الطلب والمندوبون غير المرتبطين بفرع
+  const availableDrivers = drivers.filter(
+    (driver) =>
+      !driver.branch_id ||
+      !order?.branch_id ||
+      driver.branch_id === order.branch_id
+  );
+
+  const { data: deliveries = [] } = useQuery({
+    queryKey: ["order_deliveries", orderId],
+    queryFn: () => getOrderDeliveries(orderId),
+    enabled: !!orderId,
+  });
+  const openDelivery = deliveries.find(
+    (delivery) => delivery.outcome === "pending"
+  );
+
+  const onDeliveryChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["order", orderId] });
+    queryClient.invalidateQueries({ queryKey: ["order_deliveries", orderId] });
+    queryClient.invalidateQueries({ queryKey: ["driver_performance"] });
+  };
+
+  const { mutate: assignDriver, isPending: isAssigningDriver } = useMutation({
+    mutationFn: (driverId: string) => assignOrderDriver(orderId, driverId),
+    onSuccess: () => {
+      toast.success("تم إسناد الطلب للمندوب");
+      onDeliveryChanged();
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const [failureReason, setFailureReason] = useState("");
+
+  const { mutate: markDeliveryFailed, isPending: isMarkingFailed } =
+    useMutation({
+      mutationFn: () => recordDeliveryFailure(orderId, failureReason),
+      onSuccess: () => {
+        toast.success("تم تسجيل تعذر التسليم");
+        setFailureReason("");
+        onDeliveryChanged();
+      },
+      onError: (err) => toast.error(err.message),
+    });
+
+  const [couponCode, setCouponCode] = useState("");
+  const [couponPreview, setCouponPreview] = useState<CouponEvaluation | null>(
+    null
+  );
+
+  const onCouponChanged = () => {
+    setCouponCode("");
+    setCouponPreview(null);
+    queryClient.invalidateQueries({ queryKey: ["order", orderId] });
+    queryClient.invalidateQueries({ queryKey: ["orders"] });
+    queryClient.invalidateQueries({ queryKey: ["coupons"] });
+  };
+
+  const { mutate: previewCoupon, isPending: isPreviewingCoupon } = useMutation({
+    mutationFn: () => previewCouponForOrder(order!, couponCode),
+    onSuccess: ({ evaluation }) => setCouponPreview(evaluation),
+    onError: (err) => {
+      setCouponPreview(null);
+      toast.error(err.message);
+    },
+  });
+
+  const { mutate: applyCoupon, isPending: isApplyingCoupon } = useMutation({
+    mutationFn: () => redeemCoupon(orderId, couponCode),
+    onSuccess: () => {
+      toast.success("تم تطبيق الكوبون");
+      onCouponChanged();
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const { mutate: removeCoupon, isPending: isRemovingCoupon } = useMutation({
+    mutationFn: () => removeOrderCoupon(orderId),
+    onSuccess: () => {
+      toast.success("تمت إزالة الكوبون");
+      onCouponChanged();
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const [refundingPayment, setRefundingPayment] = useState<Payment | null>(
+    null
+  );
+
+  const { mutate: refund, isPending: isRefunding } = useMutation({
+    mutationFn: ({
+      payment,
+      amount,
+      reason,
+    }: {
+      payment: Payment;
+      amount: number;
+      reason: string;
+    }) => refundPayment({ paymentId: payment.id!, amount, reason, payment }),
+    onSuccess: () => {
+      toast.success("تم تسجيل الاسترداد بنجاح");
+      setRefundingPayment(null);
+      queryClient.invalidateQueries({ queryKey: ["order", orderId] });
+      queryClient.invalidateQueries({
+        queryKey: ["orderStatusHistory", orderId],
+      });
+      queryClient.invalidateQueries({ queryKey: ["orders"] });
+    },
+    onError: (err) => {
+      toast.error(err.message || "حدث خطأ أثناء الاسترداد");
       console.error(err);
     },
   });
@@ -71,6 +303,15 @@ const OrderDetailsPage: React.FC = () => {
         text: "ملغي",
         color: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
       },
+      partially_refunded: {
+        text: "مسترد جزئياً",
+        color:
+          "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200",
+      },
+      refunded: {
+        text: "مسترد",
+        color: "bg-gray-200 text-gray-800 dark:bg-gray-700 dark:text-gray-200",
+      },
     };
     return (
       statusMap[status as keyof typeof statusMap] || {
@@ -176,19 +417,48 @@ const OrderDetailsPage: React.FC = () => {
                   >
                     {getStatusDisplay(order.status).text}
                   </span>
-                  <select
-                    value={order.status}
-                    onChange={(e) =>
-                      updateStatus({ id: order.id!, status: e.target.value })
-                    }
-                    className="text-sm border border-gray-300 dark:border-gray-600 rounded px-3 py-1 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
-                  >
-                    <option value="pending">في الانتظار</option>
-                    <option value="paid">مدفوع</option>
-                    <option value="shipped">تم الشحن</option>
-                    <option value="delivered">تم التوصيل</option>
-                    <option value="cancelled">ملغي</option>
-                  </select>
+                  {order.refund_status && order.refund_status !== "none" && (
+                    <span
+                      className={`px-3 py-1 rounded-full text-sm font-medium ${
+                        getStatusDisplay(order.refund_status).color
+                      }`}
+                    >
+                      {getStatusDisplay(order.refund_status).text}
+                    </span>
+                  )}
+                  {can("orders.update") &&
+                    getNextOrderStatuses(order.status).length > 0 && (
+                      <>
+                        <input
+                          type="text"
+                          value={statusNote}
+                          onChange={(e) => setStatusNote(e.target.value)}
+                          placeholder="ملاحظة (اختياري)"
+                          className="text-sm border border-gray-300 dark:border-gray-600 rounded px-3 py-1 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                        />
+                        <select
+                          value={order.status}
+                          disabled={isUpdatingStatus}
+                          onChange={(e) =>
+                            updateStatus({
+                              id: order.id!,
+                              status: e.target.value as OrderStatus,
+                              note: statusNote,
+                            })
+                          }
+                          className="text-sm border border-gray-300 dark:border-gray-600 rounded px-3 py-1 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                        >
+                          {[
+                            order.status,
+                            ...getNextOrderStatuses(order.status),
+                          ].map((status) => (
+                            <option key={status} value={status}>
+                              {ORDER_STATUS_LABELS[status]}
+                            </option>
+                          ))}
+                        </select>
+                      </>
+                    )}
                 </div>
               </div>
 
@@ -214,8 +484,19 @@ const OrderDetailsPage: React.FC = () => {
                       const failedPayments = order.payments.filter(
                         (p) => p.payment_status === "failed"
                       );
+                      const refundedPayments = order.payments.filter(
+                        (p) =>
+                          p.payment_status === "refunded" ||
+                          p.payment_status === "partially_refunded"
+                      );
 
-                      if (completedPayments.length > 0) {
+                      if (refundedPayments.length > 0) {
+                        return (
+                          <span className="px-3 py-1 rounded-full text-sm font-medium bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200">
+                            تم الاسترداد ({refundedPayments.length})
+                          </span>
+                        );
+                      } else if (completedPayments.length > 0) {
                         return (
                           <span className="px-3 py-1 rounded-full text-sm font-medium bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">
                             تم الدفع ({completedPayments.length})
@@ -379,24 +660,46 @@ const OrderDetailsPage: React.FC = () => {
                             >
                               <td className="py-3">
                                 <div className="flex items-center">
-                                  {item.products?.image_url &&
-                                    item.products.image_url[0] && (
-                                      <Image
-                                        src={item.products.image_url[0]}
-                                        alt={item.products?.name_ar || "منتج"}
-                                        width={40}
-                                        height={40}
-                                        className="object-cover rounded-md mr-3"
-                                      />
-                                    )}
+                                  {(item.product_variants?.image_url ||
+                                    item.products?.image_url?.[0] ||
+                                    item.combo_offers?.image_url) && (
+                                    <Image
+                                      src={
+                                        item.product_variants?.image_url ||
+                                        item.products?.image_url?.[0] ||
+                                        (item.combo_offers?.image_url as string)
+                                      }
+                                      alt={item.products?.name_ar || "منتج"}
+                                      width={40}
+                                      height={40}
+                                      className="object-cover rounded-md mr-3"
+                                    />
+                                  )}
                                   <div>
                                     <p className="font-medium text-gray-900 dark:text-white text-sm">
                                       {item.products?.name_ar ||
+                                        item.combo_offers?.title_ar ||
                                         "منتج غير محدد"}
                                     </p>
                                     <p className="text-xs text-gray-500 dark:text-gray-400">
-                                      {item.products?.name_en}
+                                      {item.products?.name_en ||
+                                        item.combo_offers?.title_en}
                                     </p>
+                                    {item.combo_offer_id && (
+                                      <p className="text-xs text-orange-500">
+                                        عرض مجمّع ·{" "}
+                                        {item.combo_components?.length || 0}{" "}
+                                        منتجات
+                                      </p>
+                                    )}
+                                    {item.product_variants && (
+                                      <p className="text-xs text-primary-500">
+                                        {getVariantLabel(item.product_variants)}{" "}
+                                        <span dir="ltr">
+                                          ({item.product_variants.sku})
+                                        </span>
+                                      </p>
+                                    )}
                                   </div>
                                 </div>
                               </td>
@@ -419,6 +722,27 @@ const OrderDetailsPage: React.FC = () => {
                           ))}
                         </tbody>
                         <tfoot>
+                          {!!order.discount_amount && (
+                            <tr className="border-t-2 border-gray-200 dark:border-gray-700">
+                              <td
+                                colSpan={3}
+                                className="py-3 text-right font-medium text-gray-900 dark:text-white"
+                              >
+                                الخصم
+                                {order.coupon_code && (
+                                  <span className="font-mono text-sm text-gray-500 mx-1">
+                                    ({order.coupon_code})
+                                  </span>
+                                )}
+                                :
+                              </td>
+                              <td className="py-3 text-right">
+                                <span className="text-sm font-semibold text-danger-500">
+                                  -${order.discount_amount}
+                                </span>
+                              </td>
+                            </tr>
+                          )}
                           <tr className="border-t-2 border-gray-200 dark:border-gray-700">
                             <td
                               colSpan={3}
@@ -466,58 +790,114 @@ const OrderDetailsPage: React.FC = () => {
                             <th className="text-right py-2 text-sm font-medium text-gray-600 dark:text-gray-400">
                               التاريخ
                             </th>
+                            <th className="text-right py-2 text-sm font-medium text-gray-600 dark:text-gray-400">
+                              الحالة
+                            </th>
+                            <th className="text-right py-2 text-sm font-medium text-gray-600 dark:text-gray-400"></th>
                           </tr>
                         </thead>
                         <tbody>
                           {order.payments.map((payment, index) => (
-                            <tr
-                              key={payment.id || index}
-                              className="border-b border-gray-100 dark:border-gray-700"
-                            >
-                              <td className="py-3">
-                                <div className="flex items-center">
-                                  <i className="material-symbols-outlined mr-2 text-gray-500">
-                                    {payment.payment_method === "paypal"
-                                      ? "payments"
-                                      : payment.payment_method === "stripe"
-                                      ? "credit_card"
-                                      : payment.payment_method === "cod"
-                                      ? "local_shipping"
-                                      : "payments"}
-                                  </i>
-                                  <span className="font-medium text-gray-900 dark:text-white text-sm">
-                                    {getPaymentMethodDisplay(
-                                      payment.payment_method
-                                    )}
+                            <React.Fragment key={payment.id || index}>
+                              <tr className="border-b border-gray-100 dark:border-gray-700">
+                                <td className="py-3">
+                                  <div className="flex items-center">
+                                    <i className="material-symbols-outlined mr-2 text-gray-500">
+                                      {payment.payment_method === "paypal"
+                                        ? "payments"
+                                        : payment.payment_method === "stripe"
+                                        ? "credit_card"
+                                        : payment.payment_method === "cod"
+                                        ? "local_shipping"
+                                        : "payments"}
+                                    </i>
+                                    <span className="font-medium text-gray-900 dark:text-white text-sm">
+                                      {getPaymentMethodDisplay(
+                                        payment.payment_method
+                                      )}
+                                    </span>
+                                  </div>
+                                </td>
+                                <td className="py-3 text-center">
+                                  <span className="text-sm font-semibold text-green-600 dark:text-green-400">
+                                    ${payment.amount}
                                   </span>
-                                </div>
-                              </td>
-                              <td className="py-3 text-center">
-                                <span className="text-sm font-semibold text-green-600 dark:text-green-400">
-                                  ${payment.amount}
-                                </span>
-                              </td>
-                              <td className="py-3 text-right">
-                                <span className="text-sm text-gray-600 dark:text-gray-400 font-mono">
-                                  {payment.transaction_id || "غير متوفر"}
-                                </span>
-                              </td>
-                              <td className="py-3 text-right">
-                                <span className="text-sm text-gray-600 dark:text-gray-400">
-                                  {payment.created_at
-                                    ? new Date(
-                                        payment.created_at
-                                      ).toLocaleDateString("ar-EG", {
-                                        year: "numeric",
-                                        month: "short",
-                                        day: "numeric",
-                                        hour: "2-digit",
-                                        minute: "2-digit",
-                                      })
-                                    : "غير متوفر"}
-                                </span>
-                              </td>
-                            </tr>
+                                </td>
+                                <td className="py-3 text-right">
+                                  <span className="text-sm text-gray-600 dark:text-gray-400 font-mono">
+                                    {payment.transaction_id || "غير متوفر"}
+                                  </span>
+                                </td>
+                                <td className="py-3 text-right">
+                                  <span className="text-sm text-gray-600 dark:text-gray-400">
+                                    {payment.created_at
+                                      ? new Date(
+                                          payment.created_at
+                                        ).toLocaleDateString("ar-EG", {
+                                          year: "numeric",
+                                          month: "short",
+                                          day: "numeric",
+                                          hour: "2-digit",
+                                          minute: "2-digit",
+                                        })
+                                      : "غير متوفر"}
+                                  </span>
+                                </td>
+                                <td className="py-3 text-right">
+                                  <span className="text-sm text-gray-600 dark:text-gray-400">
+                                    {PAYMENT_STATUS_LABELS[
+                                      payment.payment_status
+                                    ] || payment.payment_status}
+                                  </span>
+                                </td>
+                                <td className="py-3 text-right">
+                                  {can("orders.refund") &&
+                                    getRefundableAmount(payment) > 0 && (
+                                      <button
+                                        type="button"
+                                        onClick={() =>
+                                          setRefundingPayment(payment)
+                                        }
+                                        className="text-sm text-danger-500 hover:underline"
+                                      >
+                                        استرداد
+                                      </button>
+                                    )}
+                                </td>
+                              </tr>
+                              {payment.refunds?.map((refundEntry) => (
+                                <tr
+                                  key={refundEntry.id}
+                                  className="border-b border-gray-100 dark:border-gray-700 bg-red-50/50 dark:bg-red-900/10"
+                                >
+                                  <td className="py-2 text-sm text-gray-600 dark:text-gray-400">
+                                    <i className="material-symbols-outlined mr-2 text-danger-500 align-middle !text-base">
+                                      undo
+                                    </i>
+                                    استرداد
+                                  </td>
+                                  <td className="py-2 text-center">
+                                    <span className="text-sm font-semibold text-danger-500">
+                                      -${Number(refundEntry.amount).toFixed(2)}
+                                    </span>
+                                  </td>
+                                  <td
+                                    colSpan={2}
+                                    className="py-2 text-right text-sm text-gray-600 dark:text-gray-400"
+                                  >
+                                    {refundEntry.reason}
+                                  </td>
+                                  <td
+                                    colSpan={2}
+                                    className="py-2 text-right text-sm text-gray-600 dark:text-gray-400"
+                                  >
+                                    {new Date(
+                                      refundEntry.created_at
+                                    ).toLocaleDateString("ar-EG")}
+                                  </td>
+                                </tr>
+                              ))}
+                            </React.Fragment>
                           ))}
                         </tbody>
                         <tfoot>
@@ -539,8 +919,30 @@ const OrderDetailsPage: React.FC = () => {
                                   .toFixed(2)}
                               </span>
                             </td>
-                            <td colSpan={3}></td>
+                            <td colSpan={4}></td>
                           </tr>
+                          {order.payments.some(
+                            (payment) => getRefundedAmount(payment) > 0
+                          ) && (
+                            <tr>
+                              <td className="py-3 text-right font-medium text-gray-900 dark:text-white">
+                                إجمالي المسترد:
+                              </td>
+                              <td className="py-3 text-center">
+                                <span className="text-lg font-bold text-danger-500">
+                                  -$
+                                  {order.payments
+                                    .reduce(
+                                      (sum, payment) =>
+                                        sum + getRefundedAmount(payment),
+                                      0
+                                    )
+                                    .toFixed(2)}
+                                </span>
+                              </td>
+                              <td colSpan={4}></td>
+                            </tr>
+                          )}
                         </tfoot>
                       </table>
                     </div>
@@ -582,69 +984,39 @@ const OrderDetailsPage: React.FC = () => {
                     </div>
                   </div>
 
-                  {order.status !== "pending" && (
-                    <div className="flex items-center">
-                      <div className="w-3 h-3 bg-blue-500 rounded-full mr-3"></div>
+                  {statusHistory.map((entry) => (
+                    <div key={entry.id} className="flex items-start">
+                      <div
+                        className={`w-3 h-3 rounded-full mr-3 mt-1 ${
+                          entry.to_status === "cancelled"
+                            ? "bg-red-500"
+                            : entry.to_status === "delivered"
+                            ? "bg-green-500"
+                            : entry.to_status === "shipped"
+                            ? "bg-purple-500"
+                            : "bg-blue-500"
+                        }`}
+                      ></div>
                       <div>
                         <p className="text-sm font-medium text-gray-900 dark:text-white">
-                          تم الدفع
+                          {entry.from_status
+                            ? `${ORDER_STATUS_LABELS[entry.from_status]} ← `
+                            : ""}
+                          {ORDER_STATUS_LABELS[entry.to_status]}
                         </p>
                         <p className="text-xs text-gray-600 dark:text-gray-400">
-                          {new Date(
-                            order.updated_at as string
-                          ).toLocaleDateString("ar-EG")}
+                          {new Date(entry.created_at).toLocaleString("ar-EG")}
+                          {" - "}
+                          {entry.changed_by_name || "النظام"}
                         </p>
+                        {entry.note && (
+                          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                            {entry.note}
+                          </p>
+                        )}
                       </div>
                     </div>
-                  )}
-
-                  {["shipped", "delivered"].includes(order.status) && (
-                    <div className="flex items-center">
-                      <div className="w-3 h-3 bg-purple-500 rounded-full mr-3"></div>
-                      <div>
-                        <p className="text-sm font-medium text-gray-900 dark:text-white">
-                          تم الشحن
-                        </p>
-                        <p className="text-xs text-gray-600 dark:text-gray-400">
-                          {new Date(
-                            order.updated_at as string
-                          ).toLocaleDateString("ar-EG")}
-                        </p>
-                      </div>
-                    </div>
-                  )}
-
-                  {order.status === "delivered" && (
-                    <div className="flex items-center">
-                      <div className="w-3 h-3 bg-green-500 rounded-full mr-3"></div>
-                      <div>
-                        <p className="text-sm font-medium text-gray-900 dark:text-white">
-                          تم التوصيل
-                        </p>
-                        <p className="text-xs text-gray-600 dark:text-gray-400">
-                          {new Date(
-                            order.updated_at as string
-                          ).toLocaleDateString("ar-EG")}
-                        </p>
-                      </div>
-                    </div>
-                  )}
-
-                  {order.status === "cancelled" && (
-                    <div className="flex items-center">
-                      <div className="w-3 h-3 bg-red-500 rounded-full mr-3"></div>
-                      <div>
-                        <p className="text-sm font-medium text-gray-900 dark:text-white">
-                          تم الإلغاء
-                        </p>
-                        <p className="text-xs text-gray-600 dark:text-gray-400">
-                          {new Date(
-                            order.updated_at as string
-                          ).toLocaleDateString("ar-EG")}
-                        </p>
-                      </div>
-                    </div>
-                  )}
+                  ))}
                 </div>
               </div>
             </div>
@@ -717,6 +1089,271 @@ const OrderDetailsPage: React.FC = () => {
             </div>
           </div>
 
+          {/* Fulfilling Branch */}
+          <div className="trezo-card bg-white dark:bg-[#0c1427] p-[20px] md:p-[25px] rounded-md mt-6">
+            <div className="trezo-card-header mb-[20px] md:mb-[25px]">
+              <h6 className="text-lg font-semibold text-gray-900 dark:text-white">
+                فرع التجهيز
+              </h6>
+            </div>
+
+            <div className="space-y-4">
+              <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                <h4 className="font-medium text-gray-900 dark:text-white mb-2">
+                  الفرع الحالي
+                </h4>
+                <p className="text-gray-600 dark:text-gray-400">
+                  {order.branches?.name_ar || "غير محدد"}
+                </p>
+              </div>
+
+              {canChangeBranch && (
+                <>
+                  <select
+                    value={order.branch_id || ""}
+                    onChange={(e) => changeBranch(e.target.value || null)}
+                    disabled={isChangingBranch}
+                    className="w-full p-2 border transition border-[#f2f2f2] hover:bg-[#f2f2f2] rounded-lg outline-none dark:border-[#172036] dark:hover:bg-[#172036] dark:bg-[#0c1427] dark:text-white disabled:opacity-50"
+                  >
+                    <option value="">بدون فرع</option>
+                    {branches.map((branch) => (
+                      <option key={branch.id} value={branch.id}>
+                        {branch.name_ar}
+                      </option>
+                    ))}
+                  </select>
+
+                  <button
+                    type="button"
+                    onClick={() => autoAssignBranch()}
+                    disabled={isAutoAssigning}
+                    className="w-full flex items-center justify-center px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors disabled:opacity-50"
+                  >
+                    <i className="material-symbols-outlined mr-2">
+                      my_location
+                    </i>
+                    تحديد تلقائي حسب مدينة العميل
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+
+          {/* Delivery */}
+          <div className="trezo-card bg-white dark:bg-[#0c1427] p-[20px] md:p-[25px] rounded-md mt-6">
+            <div className="trezo-card-header mb-[20px] md:mb-[25px]">
+              <h6 className="text-lg font-semibold text-gray-900 dark:text-white">
+                التوصيل
+              </h6>
+            </div>
+
+            <div className="space-y-4">
+              <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                <h4 className="font-medium text-gray-900 dark:text-white mb-2">
+                  منطقة التوصيل
+                </h4>
+                <p className="text-gray-600 dark:text-gray-400">
+                  {order.delivery_zones?.name_ar || "غير محددة"}
+                </p>
+                {order.delivery_zones?.estimated_minutes && (
+                  <p className="text-sm text-gray-500 mt-1">
+                    مدة التوصيل المتوقعة:{" "}
+                    {order.delivery_zones.estimated_minutes} دقيقة
+                  </p>
+                )}
+              </div>
+
+              <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                <h4 className="font-medium text-gray-900 dark:text-white mb-2">
+                  رسوم التوصيل المطبقة
+                </h4>
+                <p className="text-lg font-semibold text-gray-900 dark:text-white">
+                  {order.delivery_fee != null
+                    ? `$${order.delivery_fee}`
+                    : "لم تُحتسب"}
+                </p>
+              </div>
+
+              <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                <h4 className="font-medium text-gray-900 dark:text-white mb-2">
+                  المندوب
+                </h4>
+                <p className="text-gray-600 dark:text-gray-400">
+                  {order.drivers ? (
+                    <>
+                      {order.drivers.name}
+                      {order.drivers.phone && (
+                        <span className="text-sm" dir="ltr">
+                          {" "}
+                          · {order.drivers.phone}
+                        </span>
+                      )}
+                    </>
+                  ) : (
+                    "غير مسند"
+                  )}
+                </p>
+              </div>
+
+              {can("orders.update") &&
+                !["delivered", "cancelled"].includes(order.status) && (
+                  <select
+                    value={order.driver_id || ""}
+                    onChange={(e) =>
+                      e.target.value && assignDriver(e.target.value)
+                    }
+                    disabled={isAssigningDriver}
+                    className="w-full p-2 border transition border-[#f2f2f2] hover:bg-[#f2f2f2] rounded-lg outline-none dark:border-[#172036] dark:hover:bg-[#172036] dark:bg-[#0c1427] dark:text-white disabled:opacity-50"
+                  >
+                    <option value="">اختر مندوباً</option>
+                    {availableDrivers.map((driver) => (
+                      <option key={driver.id} value={driver.id}>
+                        {driver.name}
+                      </option>
+                    ))}
+                  </select>
+                )}
+
+              {can("orders.update") && openDelivery && (
+                <div className="flex gap-2">
+                  <input
+                    value={failureReason}
+                    onChange={(e) => setFailureReason(e.target.value)}
+                    placeholder="سبب تعذر التسليم"
+                    className="flex-1 min-w-0 p-2 border transition border-[#f2f2f2] rounded-lg outline-none dark:border-[#172036] dark:bg-[#0c1427] dark:text-white"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => markDeliveryFailed()}
+                    disabled={isMarkingFailed || !failureReason.trim()}
+                    className="px-3 py-2 rounded-lg text-danger-500 border border-danger-500 hover:bg-danger-500 hover:text-white transition-colors disabled:opacity-50"
+                  >
+                    تعذر التسليم
+                  </button>
+                </div>
+              )}
+
+              {deliveries.length > 0 && (
+                <ul className="space-y-2 text-sm">
+                  {deliveries.map((delivery) => (
+                    <li
+                      key={delivery.id}
+                      className="flex items-start justify-between gap-2 border-b border-gray-100 dark:border-[#172036] pb-2"
+                    >
+                      <span>
+                        <span className="block text-gray-900 dark:text-white">
+                          {delivery.drivers?.name}
+                        </span>
+                        <span className="block text-xs text-gray-500">
+                          {new Date(delivery.assigned_at).toLocaleString(
+                            "ar-EG"
+                          )}
+                          {delivery.failure_reason &&
+                            ` · ${delivery.failure_reason}`}
+                        </span>
+                      </span>
+                      <span className="text-xs text-gray-500 whitespace-nowrap">
+                        {DELIVERY_OUTCOME_LABELS[delivery.outcome]}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {canChangeBranch && order.status === "pending" && (
+                <button
+                  type="button"
+                  onClick={() => applyDeliveryZone()}
+                  disabled={isApplyingZone}
+                  className="w-full flex items-center justify-center px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors disabled:opacity-50"
+                >
+                  <i className="material-symbols-outlined mr-2">
+                    local_shipping
+                  </i>
+                  إعادة احتساب رسوم التوصيل
+                </button>
+              )}
+            </div>
+          </div>
+
+          {/* Coupon */}
+          <div className="trezo-card bg-white dark:bg-[#0c1427] p-[20px] md:p-[25px] rounded-md mt-6">
+            <div className="trezo-card-header mb-[20px] md:mb-[25px]">
+              <h6 className="text-lg font-semibold text-gray-900 dark:text-white">
+                كوبون الخصم
+              </h6>
+            </div>
+
+            {order.coupon_code ? (
+              <div className="space-y-4">
+                <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                  <p className="font-mono text-gray-900 dark:text-white">
+                    {order.coupon_code}
+                  </p>
+                  <p className="text-sm text-danger-500 mt-1">
+                    خصم ${order.discount_amount}
+                  </p>
+                </div>
+                {can("orders.update") && order.status === "pending" && (
+                  <button
+                    type="button"
+                    onClick={() => removeCoupon()}
+                    disabled={isRemovingCoupon}
+                    className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors disabled:opacity-50"
+                  >
+                    إزالة الكوبون
+                  </button>
+                )}
+              </div>
+            ) : can("orders.update") && order.status === "pending" ? (
+              <div className="space-y-3">
+                <div className="flex gap-2">
+                  <input
+                    value={couponCode}
+                    onChange={(e) => {
+                      setCouponCode(e.target.value);
+                      setCouponPreview(null);
+                    }}
+                    placeholder="كود الكوبون"
+                    dir="ltr"
+                    className="flex-1 min-w-0 p-2 border transition border-[#f2f2f2] rounded-lg outline-none uppercase font-mono dark:border-[#172036] dark:bg-[#0c1427] dark:text-white"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => previewCoupon()}
+                    disabled={isPreviewingCoupon || !couponCode.trim()}
+                    className="px-3 py-2 rounded-lg text-primary-500 border border-primary-500 hover:bg-primary-500 hover:text-white transition-colors disabled:opacity-50"
+                  >
+                    تحقق
+                  </button>
+                </div>
+
+                {couponPreview &&
+                  (couponPreview.valid ? (
+                    <div className="p-3 bg-success-50 text-success-600 rounded-lg text-sm">
+                      خصم ${couponPreview.discount} من ${couponPreview.subtotal}
+                      <button
+                        type="button"
+                        onClick={() => applyCoupon()}
+                        disabled={isApplyingCoupon}
+                        className="block w-full mt-2 px-3 py-2 rounded-lg bg-success-600 text-white disabled:opacity-50"
+                      >
+                        تطبيق الكوبون
+                      </button>
+                    </div>
+                  ) : (
+                    <p className="p-3 bg-danger-50 text-danger-500 rounded-lg text-sm">
+                      {COUPON_REJECTION_MESSAGES[couponPreview.reason]}
+                    </p>
+                  ))}
+              </div>
+            ) : (
+              <p className="text-gray-500 dark:text-gray-400 text-sm">
+                لا يوجد كوبون على هذا الطلب
+              </p>
+            )}
+          </div>
+
           {/* Payment Summary */}
           <div className="trezo-card bg-white dark:bg-[#0c1427] p-[20px] md:p-[25px] rounded-md mt-6">
             <div className="trezo-card-header mb-[20px] md:mb-[25px]">
@@ -830,20 +1467,30 @@ const OrderDetailsPage: React.FC = () => {
                 العودة إلى الطلبات
               </Link>
 
-              <button
-                onClick={() => {
-                  // Print order details
-                  window.print();
-                }}
+              <Link
+                href={`/dashboard/orders/${order.id}/print`}
                 className="w-full flex items-center justify-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
               >
                 <i className="material-symbols-outlined mr-2">print</i>
-                طباعة الطلب
-              </button>
+                الفاتورة وإيصال التجهيز
+              </Link>
             </div>
           </div>
         </div>
       </div>
+
+      <AuditHistoryCard entityType="order" entityId={order.id!} />
+
+      <RefundModal
+        isOpen={!!refundingPayment}
+        onClose={() => setRefundingPayment(null)}
+        maxAmount={refundingPayment ? getRefundableAmount(refundingPayment) : 0}
+        isPending={isRefunding}
+        onSubmit={(amount, reason) =>
+          refundingPayment &&
+          refund({ payment: refundingPayment, amount, reason })
+        }
+      />
     </>
   );
 };
@@ -0,0 +1,206 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import toast from "react-hot-toast";
+import { getOrderById } from "../../../../../../../services/apiOrders";
+import { getAboutUs } from "../../../../../../../services/apiAboutUs";
+import {
+  canIssueInvoice,
+  formatInvoiceNumber,
+  getInvoice,
+  issueInvoice,
+} from "../../../../../../../services/apiInvoices";
+import InvoiceDocument from "@/components/Orders/InvoiceDocument";
+import PackingSlipDocument from "@/components/Orders/PackingSlipDocument";
+import { DocumentLang } from "@/components/Orders/documentLabels";
+import { downloadElementAsPdf } from "@/components/Orders/downloadPdf";
+
+type DocumentType = "invoice" | "packing-slip";
+
+const OrderPrintPage: React.FC = () => {
+  const params = useParams();
+  const orderId = params.id as string;
+  const documentRef = useRef<HTMLDivElement>(null);
+  const queryClient = useQueryClient();
+
+  const [documentType, setDocumentType] = useState<DocumentType>("invoice");
+  const [lang, setLang] = useState<DocumentLang>("ar");
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const { data: order, isPending } = useQuery({
+    queryKey: ["order", orderId],
+    queryFn: () => getOrderById(orderId),
+    enabled: !!orderId,
+  });
+
+  const { data: settings } = useQuery({
+    queryKey: ["site_settings"],
+    queryFn: getAboutUs,
+  });
+
+  // العرض لا يصدر فاتورة؛ الإصدار يتم بزر صريح فقط
+  const { data: invoice, isPending: isInvoicePending } = useQuery({
+    queryKey: ["invoice", orderId],
+    queryFn: () => getInvoice(orderId),
+    enabled: !!orderId && documentType === "invoice",
+  });
+
+  const { mutate: issue, isPending: isIssuing } = useMutation({
+    mutationFn: () => issueInvoice(orderId),
+    onSuccess: (issued) => {
+      toast.success(
+        `تم إصدار الفاتورة ${formatInvoiceNumber(issued.invoice_number)}`
+      );
+      queryClient.setQueryData(["invoice", orderId], issued);
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const handleDownload = async () => {
+    if (!documentRef.current || !order) return;
+
+    setIsDownloading(true);
+    try {
+      const fileName =
+        documentType === "invoice" && invoice
+          ? `${formatInvoiceNumber(invoice.invoice_number)}.pdf`
+          : `packing-slip-${order.id?.slice(0, 8)}.pdf`;
+      await downloadElementAsPdf(documentRef.current, fileName);
+    } catch (err) {
+      console.error(err);
+      toast.error("تعذر إنشاء ملف PDF");
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  if (isPending) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-500"></div>
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Link
+          href="/dashboard/orders"
+          className="text-primary-500 hover:text-primary-600"
+        >
+          العودة إلى قائمة الطلبات
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="no-print mb-[25px] flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setDocumentType("invoice")}
+            className={`px-4 py-2 rounded-md border ${
+              documentType === "invoice"
+                ? "bg-primary-500 text-white border-primary-500"
+                : "border-gray-300 dark:border-gray-600"
+            }`}
+          >
+            الفاتورة
+          </button>
+          <button
+            type="button"
+            onClick={() => setDocumentType("packing-slip")}
+            className={`px-4 py-2 rounded-md border ${
+              documentType === "packing-slip"
+                ? "bg-primary-500 text-white border-primary-500"
+                : "border-gray-300 dark:border-gray-600"
+            }`}
+          >
+            إيصال التجهيز
+          </button>
+          <select
+            value={lang}
+            onChange={(e) => setLang(e.target.value as DocumentLang)}
+            className="px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-[#0c1427]"
+          >
+            <option value="ar">العربية</option>
+            <option value="en">English</option>
+          </select>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Link
+            href={`/dashboard/orders/${orderId}`}
+            className="px-4 py-2 rounded-md border border-gray-300 dark:border-gray-600"
+          >
+            العودة للطلب
+          </Link>
+          <button
+            type="button"
+            onClick={() => window.print()}
+            className="px-4 py-2 rounded-md bg-blue-600 text-white hover:bg-blue-700"
+          >
+            <i className="material-symbols-outlined align-middle ltr:mr-1 rtl:ml-1">
+              print
+            </i>
+            طباعة
+          </button>
+          <button
+            type="button"
+            onClick={handleDownload}
+            disabled={isDownloading || (documentType === "invoice" && !invoice)}
+            className="px-4 py-2 rounded-md bg-primary-500 text-white hover:bg-primary-400 disabled:opacity-50"
+          >
+            <i className="material-symbols-outlined align-middle ltr:mr-1 rtl:ml-1">
+              picture_as_pdf
+            </i>
+            {isDownloading ? "جاري التحميل..." : "تحميل PDF"}
+          </button>
+        </div>
+      </div>
+
+      <div ref={documentRef}>
+        {documentType === "invoice" ? (
+          invoice ? (
+            <InvoiceDocument
+              order={order}
+              invoice={invoice}
+              settings={settings}
+              lang={lang}
+            />
+          ) : isInvoicePending ? (
+            <p className="text-center py-8 text-gray-500">جاري التحميل...</p>
+          ) : canIssueInvoice(order.status) ? (
+            <div className="text-center py-8">
+              <p className="text-gray-500 mb-4">
+                لم تصدر فاتورة لهذا الطلب بعد، والفاتورة لا تُلغى بعد إصدارها.
+              </p>
+              <button
+                type="button"
+                onClick={() => issue()}
+                disabled={isIssuing}
+                className="px-4 py-2 rounded-md bg-primary-500 text-white hover:bg-primary-400 disabled:opacity-50"
+              >
+                {isIssuing ? "جاري الإصدار..." : "إصدار الفاتورة"}
+              </button>
+            </div>
+          ) : (
+            <p className="text-center py-8 text-gray-500">
+              لا تصدر فاتورة لطلب معلق أو ملغي
+            </p>
+          )
+        ) : (
+          <PackingSlipDocument order={order} settings={settings} lang={lang} />
+        )}
+      </div>
+    </>
+  );
+};
+
+export default OrderPrintPage;
@@ -3,21 +3,33 @@
 import React, { useEffect, useState } from "react";
 import Link from "next/link";
 import Image from "next/image";
-import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  keepPreviousData,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
 import {
   getOrders,
   updateOrderStatus,
   deleteOrder,
   getOrderStats,
   debugOrderData,
+  getNextOrderStatuses,
+  ORDER_STATUS_LABELS,
+  OrderStatus,
 } from "../../../../../services/apiOrders";
+import { getVariantLabel } from "../../../../../services/apiProducts";
+import { getBranchOptions } from "../../../../../services/apiBranches";
 import toast from "react-hot-toast";
+import { usePermissions } from "@/components/Authentication/usePermissions";
 
 const OrdersPage: React.FC = () => {
   const [selectedStatus, setSelectedStatus] = useState<string>("");
   const [searchQuery, setSearchQuery] = useState<string>("");
   const [debouncedSearchQuery, setDebouncedSearchQuery] = useState<string>("");
   const [dateFilter, setDateFilter] = useState<string>("");
+  const [branchFilter, setBranchFilter] = useState<string>("");
   const [currentPage, setCurrentPage] = useState(1);
   const pageSize = 10;
 
@@ -30,6 +42,9 @@ const OrdersPage: React.FC = () => {
     return () => clearTimeout(timer);
   }, [searchQuery]);
 
+  const isRefundFilter =
+    selectedStatus === "partially_refunded" || selectedStatus === "refunded";
+
   const { isPending, data } = useQuery({
     queryKey: [
       "orders",
@@ -37,20 +52,27 @@ const OrdersPage: React.FC = () => {
       selectedStatus,
       debouncedSearchQuery,
       dateFilter,
+      branchFilter,
     ],
     queryFn: () =>
       getOrders(currentPage, pageSize, {
-        status: selectedStatus,
+        // خيارات الاسترداد في نفس القائمة تُطبق على refund_status
+        ...(isRefundFilter
+          ? { refundStatus: selectedStatus }
+          : { status: selectedStatus }),
         search: debouncedSearchQuery,
         date: dateFilter,
+        branchId: branchFilter,
       }),
+    // إبقاء الصفحة الحالية معروضة أثناء جلب نتائج البحث/الصفحة التالية
+    placeholderData: keepPreviousData,
   });
 
   console.log(data);
 
   const { data: stats } = useQuery({
-    queryKey: ["orderStats"],
-    queryFn: getOrderStats,
+    queryKey: ["orderStats", branchFilter],
+    queryFn: () => getOrderStats(branchFilter || undefined),
   });
 
   const orders = data?.orders || [];
@@ -58,20 +80,26 @@ const OrdersPage: React.FC = () => {
   const totalPages = Math.ceil(total / pageSize);
 
   const queryClient = useQueryClient();
+  const { can, role } = usePermissions();
+  // موظف الفرع يرى طلبات فرعه فقط (RLS)، فلا حاجة لفلتر الفروع
+  const showBranchFilter = role !== null && role !== "branch_staff";
+
+  const { data: branches = [] } = useQuery({
+    queryKey: ["branch_options"],
+    queryFn: getBranchOptions,
+    enabled: showBranchFilter,
+  });
 
   const { mutate: updateStatus } = useMutation({
-    mutationFn: ({ id, status }: { id: string; status: string }) =>
-      updateOrderStatus(
-        id,
-        status as "pending" | "paid" | "shipped" | "delivered" | "cancelled"
-      ),
+    mutationFn: ({ id, status }: { id: string; status: OrderStatus }) =>
+      updateOrderStatus(id, status),
     onSuccess: () => {
       toast.success("تم تحديث حالة الطلب بنجاح");
       queryClient.invalidateQueries({ queryKey: ["orders"] });
       queryClient.invalidateQueries({ queryKey: ["orderStats"] });
     },
     onError: (err) => {
-      toast.error("حدث خطأ أثناء تحديث حالة الطلب");
+      toast.error(err.message || "حدث خطأ أثناء تحديث حالة الطلب");
       console.error(err);
     },
   });
@@ -79,7 +107,7 @@ const OrdersPage: React.FC = () => {
   const { mutate: deleteOrderMutation } = useMutation({
     mutationFn: deleteOrder,
     onSuccess: () => {
-      toast.success("تم حذف الطلب بنجاح");
+      toast.success("تم نقل الطلب إلى سلة المحذوفات");
       queryClient.invalidateQueries({ queryKey: ["orders"] });
       queryClient.invalidateQueries({ queryKey: ["orderStats"] });
     },
@@ -89,11 +117,12 @@ const OrdersPage: React.FC = () => {
     },
   });
 
+  const startIndex = total === 0 ? 0 : (currentPage - 1) * pageSize + 1;
   const endIndex = Math.min(currentPage * pageSize, total);
 
   useEffect(() => {
     setCurrentPage(1);
-  }, [selectedStatus, searchQuery, dateFilter]);
+  }, [selectedStatus, searchQuery, dateFilter, branchFilter]);
 
   // Debug order data
   useEffect(() => {
@@ -126,6 +155,15 @@ const OrdersPage: React.FC = () => {
         text: "ملغي",
         color: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
       },
+      partially_refunded: {
+        text: "مسترد جزئياً",
+        color:
+          "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200",
+      },
+      refunded: {
+        text: "مسترد",
+        color: "bg-gray-200 text-gray-800 dark:bg-gray-700 dark:text-gray-200",
+      },
     };
     return (
       statusMap[status as keyof typeof statusMap] || {
@@ -289,14 +327,18 @@ const OrdersPage: React.FC = () => {
           </h6>
         </div>
 
-        <div className="mb-4 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        <div
+          className={`mb-4 grid grid-cols-1 sm:grid-cols-2 gap-4 ${
+            showBranchFilter ? "lg:grid-cols-4" : "lg:grid-cols-3"
+          }`}
+        >
           {/* Search Bar */}
           <div className="relative">
             <input
               type="text"
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
-              placeholder="ابحث عن طلب أو معرف المستخدم أو اسم العميل..."
+              placeholder="ابحث برقم الطلب أو اسم العميل أو الهاتف أو البريد أو المنتج..."
               className="w-full p-2 pr-10 border transition border-[#f2f2f2] hover:bg-[#f2f2f2] rounded-lg outline-none dark:border-[#172036] dark:hover:bg-[#172036] dark:bg-[#0c1427] dark:text-white"
             />
             <i className="material-symbols-outlined absolute right-2 top-1/2 -translate-y-1/2 text-gray-500">
@@ -316,6 +358,8 @@ const OrdersPage: React.FC = () => {
             <option value="shipped">تم الشحن</option>
             <option value="delivered">تم التوصيل</option>
             <option value="cancelled">ملغي</option>
+            <option value="partially_refunded">مسترد جزئياً</option>
+            <option value="refunded">مسترد</option>
           </select>
 
           {/* Date Filter */}
@@ -330,6 +374,22 @@ const OrdersPage: React.FC = () => {
             <option value="month">هذا الشهر</option>
             <option value="year">هذا العام</option>
           </select>
+
+          {/* Branch Filter */}
+          {showBranchFilter && (
+            <select
+              value={branchFilter}
+              onChange={(e) => setBranchFilter(e.target.value)}
+              className="w-full p-2 border transition border-[#f2f2f2] hover:bg-[#f2f2f2] rounded-lg outline-none dark:border-[#172036] dark:hover:bg-[#172036] dark:bg-[#0c1427] dark:text-white"
+            >
+              <option value="">كل الفروع</option>
+              {branches.map((branch) => (
+                <option key={branch.id} value={branch.id}>
+                  {branch.name_ar}
+                </option>
+              ))}
+            </select>
+          )}
         </div>
 
         <div className="trezo-card-content">
@@ -340,6 +400,7 @@ const OrdersPage: React.FC = () => {
                   {[
                     "رقم الطلب",
                     "اسم العميل",
+                    "الفرع",
                     "المنتجات",
                     "الحالة",
                     "طريقة الدفع",
@@ -360,7 +421,7 @@ const OrdersPage: React.FC = () => {
               <tbody className="text-black dark:text-white">
                 {orders?.length === 0 ? (
                   <tr>
-                    <td colSpan={8} className="text-center py-8 text-gray-500">
+                    <td colSpan={9} className="text-center py-8 text-gray-500">
                       لا توجد طلبات متاحة
                     </td>
                   </tr>
@@ -383,6 +444,12 @@ const OrdersPage: React.FC = () => {
                         </div>
                       </td>
 
+                      <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[15px] border-b border-gray-100 dark:border-[#172036] ltr:first:border-l ltr:last:border-r rtl:first:border-r rtl:last:border-l">
+                        {order.branches?.name_ar || (
+                          <span className="text-gray-400">غير محدد</span>
+                        )}
+                      </td>
+
                       <td className="ltr:text-left rtl:text-right px-[20px] py-[15px] border-b border-gray-100 dark:border-[#172036] ltr:first:border-l ltr:last:border-r rtl:first:border-r rtl:last:border-l">
                         <div className="max-w-[200px]">
                           {order.order_items && order.order_items.length > 0 ? (
@@ -406,7 +473,12 @@ const OrdersPage: React.FC = () => {
                                       )}
                                     <span className="font-medium text-gray-900 dark:text-white truncate">
                                       {item.products?.name_ar ||
+                                        item.combo_offers?.title_ar ||
                                         "منتج غير محدد"}
+                                      {item.product_variants &&
+                                        ` (${getVariantLabel(
+                                          item.product_variants
+                                        )})`}
                                     </span>
                                     <span className="text-gray-500 dark:text-gray-400 ml-1">
                                       ×{item.quantity}
@@ -435,6 +507,16 @@ const OrdersPage: React.FC = () => {
                         >
                           {getStatusDisplay(order.status).text}
                         </span>
+                        {order.refund_status &&
+                          order.refund_status !== "none" && (
+                            <span
+                              className={`block w-fit mt-1 px-2 py-1 rounded-full text-xs font-medium ${
+                                getStatusDisplay(order.refund_status).color
+                              }`}
+                            >
+                              {getStatusDisplay(order.refund_status).text}
+                            </span>
+                          )}
                       </td>
 
                       <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[15px] border-b border-gray-100 dark:border-[#172036] ltr:first:border-l ltr:last:border-r rtl:first:border-r rtl:last:border-l">
@@ -479,24 +561,34 @@ const OrdersPage: React.FC = () => {
                       <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[15px] border-b border-gray-100 dark:border-[#172036] ltr:first:border-l ltr:last:border-r rtl:first:border-r rtl:last:border-l">
                         <div className="flex items-center gap-[9px]">
                           {/* Status Update Dropdown */}
-                          <div className="relative group">
-                            <select
-                              value={order.status}
-                              onChange={(e) =>
-                                updateStatus({
-                                  id: order.id!,
-                                  status: e.target.value,
-                                })
-                              }
-                              className="text-sm border border-gray-300 dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
-                            >
-                              <option value="pending">في الانتظار</option>
-                              <option value="paid">مدفوع</option>
-                              <option value="shipped">تم الشحن</option>
-                              <option value="delivered">تم التوصيل</option>
-                              <option value="cancelled">ملغي</option>
-                            </select>
-                          </div>
+                          {can("orders.update") && (
+                            <div className="relative group">
+                              <select
+                                value={order.status}
+                                onChange={(e) =>
+                                  updateStatus({
+                                    id: order.id!,
+                                    status: e.target.value as OrderStatus,
+                                  })
+                                }
+                                disabled={
+                                  getNextOrderStatuses(order.status).length ===
+                                  0
+                                }
+                                className="text-sm border border-gray-300 dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-800 text-gray-900 dark:text-white disabled:opacity-50"
+                              >
+                                {/* الحالة الحالية + الحالات المسموح الانتقال إليها فقط */}
+                                {[
+                                  order.status,
+                                  ...getNextOrderStatuses(order.status),
+                                ].map((status) => (
+                                  <option key={status} value={status}>
+                                    {ORDER_STATUS_LABELS[status]}
+                                  </option>
+                                ))}
+                              </select>
+                            </div>
+                          )}
 
                           {/* View Details */}
                           <div className="relative group">
@@ -518,70 +610,72 @@ const OrdersPage: React.FC = () => {
                           </div>
 
                           {/* Delete */}
-                          <div className="relative group">
-                            <button
-                              onClick={() => {
-                                toast(
-                                  (t) => (
-                                    <span>
-                                      هل أنت متأكد أنك تريد حذف هذا الطلب؟
-                                      <div
-                                        style={{
-                                          marginTop: 8,
-                                          display: "flex",
-                                          gap: 8,
-                                        }}
-                                      >
-                                        <button
-                                          onClick={() => {
-                                            deleteOrderMutation(order.id!);
-                                            toast.dismiss(t.id);
-                                          }}
-                                          style={{
-                                            background: "#ef4444",
-                                            color: "white",
-                                            border: "none",
-                                            padding: "4px 12px",
-                                            borderRadius: 4,
-                                            marginRight: 8,
-                                            cursor: "pointer",
-                                          }}
-                                        >
-                                          نعم
-                                        </button>
-                                        <button
-                                          onClick={() => toast.dismiss(t.id)}
+                          {can("orders.delete") && (
+                            <div className="relative group">
+                              <button
+                                onClick={() => {
+                                  toast(
+                                    (t) => (
+                                      <span>
+                                        هل أنت متأكد أنك تريد حذف هذا الطلب؟
+                                        <div
                                           style={{
-                                            background: "#e5e7eb",
-                                            color: "#111827",
-                                            border: "none",
-                                            padding: "4px 12px",
-                                            borderRadius: 4,
-                                            cursor: "pointer",
+                                            marginTop: 8,
+                                            display: "flex",
+                                            gap: 8,
                                           }}
                                         >
-                                          إلغاء
-                                        </button>
-                                      </div>
-                                    </span>
-                                  ),
-                                  { duration: 6000 }
-                                );
-                              }}
-                              disabled={isPending}
-                              className="text-danger-500 leading-none"
-                            >
-                              <i className="material-symbols-outlined !text-md">
-                                delete
-                              </i>
-                            </button>
-
-                            {/* Tooltip */}
-                            <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 bg-gray-800 text-white text-xs rounded px-2 py-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                              مسح
-                              <div className="absolute top-full left-1/2 -translate-x-1/2 border-4 border-white dark:border-[#172036] border-t-gray-800 dark:border-t-gray-800"></div>
+                                          <button
+                                            onClick={() => {
+                                              deleteOrderMutation(order.id!);
+                                              toast.dismiss(t.id);
+                                            }}
+                                            style={{
+                                              background: "#ef4444",
+                                              color: "white",
+                                              border: "none",
+                                              padding: "4px 12px",
+                                              borderRadius: 4,
+                                              marginRight: 8,
+                                              cursor: "pointer",
+                                            }}
+                                          >
+                                            نعم
+                                          </button>
+                                          <button
+                                            onClick={() => toast.dismiss(t.id)}
+                                            style={{
+                                              background: "#e5e7eb",
+                                              color: "#111827",
+                                              border: "none",
+                                              padding: "4px 12px",
+                                              borderRadius: 4,
+                                              cursor: "pointer",
+                                            }}
+                                          >
+                                            إلغاء
+                                          </button>
+                                        </div>
+                                      </span>
+                                    ),
+                                    { duration: 6000 }
+                                  );
+                                }}
+                                disabled={isPending}
+                                className="text-danger-500 leading-none"
+                              >
+                                <i className="material-symbols-outlined !text-md">
+                                  delete
+                                </i>
+                              </button>
+
+                              {/* Tooltip */}
+                              <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 bg-gray-800 text-white text-xs rounded px-2 py-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                مسح
+                                <div className="absolute top-full left-1/2 -translate-x-1/2 border-4 border-white dark:border-[#172036] border-t-gray-800 dark:border-t-gray-800"></div>
+                              </div>
                             </div>
-                          </div>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -592,7 +686,7 @@ const OrdersPage: React.FC = () => {
 
             <div className="flex justify-between items-center mt-4">
               <p className="text-gray-600 dark:text-gray-300 text-sm">
-                عرض {endIndex} طلبات من إجمالي {total} طلب
+                عرض {startIndex} - {endIndex} من إجمالي {total} طلب
               </p>
 
               <div className="flex justify-center gap-2">
@@ -620,7 +714,7 @@ const OrdersPage: React.FC = () => {
                   onClick={() =>
                     setCurrentPage((prev) => Math.min(prev + 1, totalPages))
                   }
-                  disabled={currentPage === totalPages}
+                  disabled={currentPage >= totalPages}
                   className="px-3 py-1 border rounded disabled:opacity-50"
                 >
                   التالي
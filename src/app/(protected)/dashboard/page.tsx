@@ -1,14 +1,25 @@
 "use client";
 
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import Head from "next/head";
-import {
-  getOrders,
-  getOrderStats,
-  Order,
-} from "../../../../services/apiOrders";
+import { getOrders, Order } from "../../../../services/apiOrders";
 import { getProducts } from "../../../../services/apiProducts";
-import { getUsers, getUserStats, User } from "../../../../services/apiUsers";
+import { getUserStats } from "../../../../services/apiUsers";
+import {
+  ANALYTICS_BUCKET_LABELS,
+  ANALYTICS_RANGE_LABELS,
+  AnalyticsBucket,
+  AnalyticsRangePreset,
+  formatBucketLabel,
+  getAnalyticsRange,
+  getSalesSummary,
+  getSalesTimeseries,
+  getTodayInTimezone,
+} from "../../../../services/apiAnalytics";
+import { getBranchOptions } from "../../../../services/apiBranches";
+import LowStockProducts from "@/components/LowStockProducts";
+import { usePermissions } from "@/components/Authentication/usePermissions";
+import { useQuery } from "@tanstack/react-query";
 import dynamic from "next/dynamic";
 import { ApexOptions } from "apexcharts";
 
@@ -18,6 +29,7 @@ const Chart = dynamic(() => import("react-apexcharts"), { ssr: false });
 interface DashboardStats {
   totalOrders: number;
   totalSales: number;
+  totalRefunds: number;
   totalUsers: number;
   totalProducts: number;
   pendingOrders: number;
@@ -37,6 +49,7 @@ export default function DashboardPage() {
   const [stats, setStats] = useState<DashboardStats>({
     totalOrders: 0,
     totalSales: 0,
+    totalRefunds: 0,
     totalUsers: 0,
     totalProducts: 0,
     pendingOrders: 0,
@@ -53,89 +66,76 @@ export default function DashboardPage() {
   const [recentOrders, setRecentOrders] = useState<Order[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isChartLoaded, setChartLoaded] = useState(false);
+  const [branchFilter, setBranchFilter] = useState("");
+  const [rangePreset, setRangePreset] = useState<AnalyticsRangePreset>("7d");
+  const [customFrom, setCustomFrom] = useState("");
+  const [customTo, setCustomTo] = useState(getTodayInTimezone());
+  const [bucket, setBucket] = useState<AnalyticsBucket>("day");
+
+  const range = useMemo(
+    () =>
+      rangePreset === "custom"
+        ? { from: customFrom, to: customTo }
+        : getAnalyticsRange(rangePreset),
+    [rangePreset, customFrom, customTo]
+  );
+
+  // موظف الفرع يرى أرقام فرعه فقط (RLS)
+  const { role } = usePermissions();
+  const showBranchFilter = role !== null && role !== "branch_staff";
+
+  const { data: branches = [] } = useQuery({
+    queryKey: ["branch_options"],
+    queryFn: getBranchOptions,
+    enabled: showBranchFilter,
+  });
 
   useEffect(() => {
     setChartLoaded(true);
   }, []);
 
   useEffect(() => {
+    // الفترة المخصصة تنتظر حتى يكتمل إدخال التاريخين
+    if (!range.from || !range.to || range.to < range.from) return;
+
     const fetchDashboardData = async () => {
       try {
         setIsLoading(true);
 
-        // Fetch all data in parallel
-        const [orderStats, orders, products, userStats, users] =
+        const filters = { ...range, branchId: branchFilter || undefined };
+
+        // التجميع يتم في قاعدة البيانات (sales_summary / sales_timeseries)
+        const [summary, series, products, userStats, orders] =
           await Promise.all([
-            getOrderStats(),
-            getOrders(1, 1000), // Get more orders for better analytics
-            getProducts(1, 1000),
+            getSalesSummary(filters),
+            getSalesTimeseries(filters, bucket),
+            getProducts(1, 1),
             getUserStats(),
-            getUsers(1, 1000),
+            getOrders(1, 5, { branchId: branchFilter }),
           ]);
 
-        // Calculate total sales from orders
-        const totalSales = orders.orders.reduce(
-          (sum: number, order: Order) => sum + order.total_price,
-          0
-        );
-        const averageOrderValue =
-          orders.orders.length > 0 ? totalSales / orders.orders.length : 0;
-
-        // Generate chart data for last 7 days
-        const last7Days = Array.from({ length: 7 }, (_, i) => {
-          const date = new Date();
-          date.setDate(date.getDate() - i);
-          return date.toISOString().split("T")[0];
-        }).reverse();
-
-        const salesData = last7Days.map((date) => {
-          const dayOrders = orders.orders.filter((order: Order) =>
-            order.created_at?.startsWith(date)
-          );
-          return dayOrders.reduce(
-            (sum: number, order: Order) => sum + order.total_price,
-            0
-          );
-        });
-
-        const ordersData = last7Days.map((date) => {
-          return orders.orders.filter((order: Order) =>
-            order.created_at?.startsWith(date)
-          ).length;
-        });
-
-        const usersData = last7Days.map((date) => {
-          return users.users.filter((user: User) =>
-            user.created_at?.startsWith(date)
-          ).length;
-        });
-
-        const finalStats = {
-          totalOrders: orderStats.total,
-          totalSales,
+        setStats({
+          totalOrders: summary.order_count,
+          totalSales: summary.net_revenue,
+          totalRefunds: summary.refunds,
           totalUsers: userStats.total,
           totalProducts: products.total,
-          pendingOrders: orderStats.pending,
-          completedOrders: orderStats.delivered,
-          cancelledOrders: orderStats.cancelled,
-          averageOrderValue,
-        };
-
-        setStats(finalStats);
+          pendingOrders: summary.pending_count,
+          completedOrders: summary.delivered_count,
+          cancelledOrders: summary.cancelled_count,
+          averageOrderValue: summary.average_order_value ?? 0,
+        });
 
         setChartData({
-          salesData,
-          ordersData,
-          usersData,
-          labels: last7Days.map((date) =>
-            new Date(date).toLocaleDateString("ar-EG", {
-              month: "short",
-              day: "numeric",
-            })
+          salesData: series.map((point) => point.net_revenue),
+          ordersData: series.map((point) => point.order_count),
+          usersData: series.map((point) => point.new_customers),
+          labels: series.map((point) =>
+            formatBucketLabel(point.bucket, bucket)
           ),
         });
 
-        setRecentOrders(orders.orders.slice(0, 5));
+        setRecentOrders(orders.orders);
       } catch (error) {
         console.error("Error fetching dashboard data:", error);
       } finally {
@@ -144,7 +144,7 @@ export default function DashboardPage() {
     };
 
     fetchDashboardData();
-  }, []);
+  }, [branchFilter, range, bucket]);
 
   const salesChartOptions: ApexOptions = {
     chart: {
@@ -378,7 +378,7 @@ export default function DashboardPage() {
         aria-label="لوحة التحكم"
       >
         {/* Header Section */}
-        <header className="flex justify-between items-center">
+        <header className="flex flex-wrap gap-4 justify-between items-center">
           <section className="text-right">
             <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
               لوحة التحكم
@@ -387,6 +387,73 @@ export default function DashboardPage() {
               نظرة عامة على المبيعات والطلبات ونشاط المستخدمين
             </p>
           </section>
+
+          <div className="flex flex-wrap gap-3 items-center">
+            <select
+              value={rangePreset}
+              onChange={(e) =>
+                setRangePreset(e.target.value as AnalyticsRangePreset)
+              }
+              aria-label="الفترة"
+              className="p-2 border transition border-[#f2f2f2] hover:bg-[#f2f2f2] rounded-lg outline-none dark:border-[#172036] dark:hover:bg-[#172036] dark:bg-[#0c1427] dark:text-white"
+            >
+              {Object.entries(ANALYTICS_RANGE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+
+            {rangePreset === "custom" && (
+              <>
+                <input
+                  type="date"
+                  value={customFrom}
+                  max={customTo || undefined}
+                  onChange={(e) => setCustomFrom(e.target.value)}
+                  aria-label="من"
+                  className="p-2 border transition border-[#f2f2f2] hover:bg-[#f2f2f2] rounded-lg outline-none dark:border-[#172036] dark:hover:bg-[#172036] dark:bg-[#0c1427] dark:text-white"
+                />
+                <input
+                  type="date"
+                  value={customTo}
+                  min={customFrom || undefined}
+                  onChange={(e) => setCustomTo(e.target.value)}
+                  aria-label="إلى"
+                  className="p-2 border transition border-[#f2f2f2] hover:bg-[#f2f2f2] rounded-lg outline-none dark:border-[#172036] dark:hover:bg-[#172036] dark:bg-[#0c1427] dark:text-white"
+                />
+              </>
+            )}
+
+            <select
+              value={bucket}
+              onChange={(e) => setBucket(e.target.value as AnalyticsBucket)}
+              aria-label="التجميع"
+              className="p-2 border transition border-[#f2f2f2] hover:bg-[#f2f2f2] rounded-lg outline-none dark:border-[#172036] dark:hover:bg-[#172036] dark:bg-[#0c1427] dark:text-white"
+            >
+              {Object.entries(ANALYTICS_BUCKET_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+
+            {showBranchFilter && (
+              <select
+                value={branchFilter}
+                onChange={(e) => setBranchFilter(e.target.value)}
+                aria-label="الفرع"
+                className="p-2 border transition border-[#f2f2f2] hover:bg-[#f2f2f2] rounded-lg outline-none dark:border-[#172036] dark:hover:bg-[#172036] dark:bg-[#0c1427] dark:text-white"
+              >
+                <option value="">كل الفروع</option>
+                {branches.map((branch) => (
+                  <option key={branch.id} value={branch.id}>
+                    {branch.name_ar}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
         </header>
 
         {/* Stats Cards Section */}
@@ -544,10 +611,10 @@ export default function DashboardPage() {
         >
           <article className="bg-white dark:bg-gray-800 rounded-xl p-6 shadow-lg border border-gray-200 dark:border-gray-700 hover:shadow-xl transition-all duration-300">
             <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 text-right">
-              المبيعات اليومية
+              المبيعات ({ANALYTICS_BUCKET_LABELS[bucket]})
             </h2>
             {isChartLoaded && (
-              <div role="img" aria-label="رسم بياني للمبيعات اليومية">
+              <div role="img" aria-label="رسم بياني للمبيعات">
                 <Chart
                   options={salesChartOptions}
                   series={[{ name: "المبيعات", data: chartData.salesData }]}
@@ -560,10 +627,10 @@ export default function DashboardPage() {
 
           <article className="bg-white dark:bg-gray-800 rounded-xl p-6 shadow-lg border border-gray-200 dark:border-gray-700 hover:shadow-xl transition-all duration-300">
             <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 text-right">
-              الطلبات اليومية
+              الطلبات ({ANALYTICS_BUCKET_LABELS[bucket]})
             </h2>
             {isChartLoaded && (
-              <div role="img" aria-label="رسم بياني للطلبات اليومية">
+              <div role="img" aria-label="رسم بياني للطلبات">
                 <Chart
                   options={ordersChartOptions}
                   series={[{ name: "الطلبات", data: chartData.ordersData }]}
@@ -643,6 +710,22 @@ export default function DashboardPage() {
                   {stats.cancelledOrders}
                 </span>
               </div>
+              <div
+                className="flex justify-between items-center"
+                role="listitem"
+              >
+                <span className="text-gray-600 dark:text-gray-400">
+                  المرتجعات
+                </span>
+                <span
+                  className="font-semibold text-danger-500"
+                  aria-label={`إجمالي المرتجعات: ${stats.totalRefunds.toFixed(
+                    2
+                  )} دولار`}
+                >
+                  -${stats.totalRefunds.toFixed(2)}
+                </span>
+              </div>
               <div
                 className="flex justify-between items-center"
                 role="listitem"
@@ -705,6 +788,14 @@ export default function DashboardPage() {
             </div>
           </article>
         </section>
+
+        {/* Inventory Section */}
+        <section
+          className="grid grid-cols-1 lg:grid-cols-2 gap-6"
+          aria-label="المخزون"
+        >
+          <LowStockProducts />
+        </section>
       </main>
     </>
   );
@@ -0,0 +1,360 @@
+"use client";
+
+import React, { useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { useQuery } from "@tanstack/react-query";
+import toast from "react-hot-toast";
+import {
+  exportSalesReport,
+  getReportColumns,
+  getReportFileName,
+  getSalesReport,
+  REPORT_DIMENSIONS,
+  ReportDimension,
+  ReportExportFormat,
+} from "../../../../../services/apiReports";
+import {
+  ANALYTICS_RANGE_LABELS,
+  AnalyticsRangePreset,
+  getAnalyticsRange,
+  getTodayInTimezone,
+} from "../../../../../services/apiAnalytics";
+import { getBranchOptions } from "../../../../../services/apiBranches";
+import { downloadElementAsPdf } from "@/components/Orders/downloadPdf";
+import { usePermissions } from "@/components/Authentication/usePermissions";
+
+const selectClassName =
+  "w-full p-2 border transition border-[#f2f2f2] hover:bg-[#f2f2f2] rounded-lg outline-none dark:border-[#172036] dark:hover:bg-[#172036] dark:bg-[#0c1427] dark:text-white";
+
+const ChangeBadge: React.FC<{ value: number | null }> = ({ value }) => {
+  if (value === null) return <span className="text-gray-400">-</span>;
+
+  return (
+    <span
+      className={`font-medium ${
+        value > 0
+          ? "text-success-600"
+          : value < 0
+          ? "text-danger-500"
+          : "text-gray-500"
+      }`}
+      dir="ltr"
+    >
+      {value > 0 ? "+" : ""}
+      {value}%
+    </span>
+  );
+};
+
+const ReportsPage: React.FC = () => {
+  const [dimension, setDimension] = useState<ReportDimension>("product");
+  const [rangePreset, setRangePreset] = useState<AnalyticsRangePreset>("30d");
+  const [customFrom, setCustomFrom] = useState("");
+  const [customTo, setCustomTo] = useState(getTodayInTimezone());
+  const [branchFilter, setBranchFilter] = useState("");
+  const [isExporting, setIsExporting] = useState(false);
+  const reportRef = useRef<HTMLDivElement>(null);
+
+  // موظف الفرع يرى مبيعات فرعه فقط (RLS)
+  const { role } = usePermissions();
+  const showBranchFilter = role !== null && role !== "branch_staff";
+
+  const { data: branches = [] } = useQuery({
+    queryKey: ["branch_options"],
+    queryFn: getBranchOptions,
+    enabled: showBranchFilter,
+  });
+
+  const range = useMemo(
+    () =>
+      rangePreset === "custom"
+        ? { from: customFrom, to: customTo }
+        : getAnalyticsRange(rangePreset),
+    [rangePreset, customFrom, customTo]
+  );
+  const isRangeValid = !!range.from && !!range.to && range.from <= range.to;
+
+  const { data: report, isPending } = useQuery({
+    queryKey: ["sales_report", dimension, range, branchFilter],
+    queryFn: () =>
+      getSalesReport(dimension, {
+        ...range,
+        branchId: branchFilter || undefined,
+      }),
+    enabled: isRangeValid,
+  });
+
+  const columns = getReportColumns(dimension);
+  const showOrderTotal = dimension !== "product" && dimension !== "category";
+
+  const handleExport = async (format: ReportExportFormat) => {
+    if (!report) return;
+
+    setIsExporting(true);
+    try {
+      if (format === "pdf") {
+        if (reportRef.current) {
+          await downloadElementAsPdf(
+            reportRef.current,
+            getReportFileName(report, "pdf")
+          );
+        }
+      } else {
+        await exportSalesReport(report, format);
+      }
+    } catch (err) {
+      console.error(err);
+      toast.error("تعذر تصدير التقرير");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="mb-[25px] md:flex items-center justify-between">
+        <h5 className="!mb-0">تقارير المبيعات</h5>
+
+        <ol className="breadcrumb mt-[12px] md:mt-0 rtl:flex-row-reverse">
+          <li className="breadcrumb-item inline-block relative text-sm mx-[11px] ltr:first:ml-0 rtl:first:mr-0 ltr:last:mr-0 rtl:last:ml-0">
+            <Link
+              href="/dashboard"
+              className="inline-block relative ltr:pl-[22px] rtl:pr-[22px] transition-all hover:text-primary-500"
+            >
+              <i className="material-symbols-outlined absolute ltr:left-0 rtl:right-0 !text-lg -mt-px text-primary-500 top-1/2 -translate-y-1/2">
+                home
+              </i>
+              رئيسية
+            </Link>
+          </li>
+          <li className="breadcrumb-item inline-block relative text-sm mx-[11px] ltr:first:ml-0 rtl:first:mr-0 ltr:last:mr-0 rtl:last:ml-0">
+            تقارير المبيعات
+          </li>
+        </ol>
+      </div>
+
+      <div className="trezo-card bg-white dark:bg-[#0c1427] mb-[25px] p-[20px] md:p-[25px] rounded-md">
+        <div className="flex flex-wrap gap-[10px] mb-[20px]">
+          {REPORT_DIMENSIONS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setDimension(option.value)}
+              className={`inline-block transition-all rounded-md font-medium px-[13px] py-[6px] border ${
+                dimension === option.value
+                  ? "bg-primary-500 border-primary-500 text-white"
+                  : "text-primary-500 border-primary-500 hover:bg-primary-500 hover:text-white"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          <select
+            value={rangePreset}
+            onChange={(e) =>
+              setRangePreset(e.target.value as AnalyticsRangePreset)
+            }
+            aria-label="الفترة"
+            className={selectClassName}
+          >
+            {Object.entries(ANALYTICS_RANGE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+
+          {rangePreset === "custom" && (
+            <>
+              <input
+                type="date"
+                value={customFrom}
+                max={customTo || undefined}
+                onChange={(e) => setCustomFrom(e.target.value)}
+                aria-label="من"
+                className={selectClassName}
+              />
+              <input
+                type="date"
+                value={customTo}
+                min={customFrom || undefined}
+                onChange={(e) => setCustomTo(e.target.value)}
+                aria-label="إلى"
+                className={selectClassName}
+              />
+            </>
+          )}
+
+          {showBranchFilter && (
+            <select
+              value={branchFilter}
+              onChange={(e) => setBranchFilter(e.target.value)}
+              aria-label="الفرع"
+              className={selectClassName}
+            >
+              <option value="">كل الفروع</option>
+              {branches.map((branch) => (
+                <option key={branch.id} value={branch.id}>
+                  {branch.name_ar}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+      </div>
+
+      <div className="trezo-card bg-white dark:bg-[#0c1427] mb-[25px] p-[20px] md:p-[25px] rounded-md">
+        <div className="trezo-card-header mb-[20px] md:mb-[25px] sm:flex items-center justify-between gap-4">
+          <div className="trezo-card-title">
+            <h5 className="!mb-0">
+              {REPORT_DIMENSIONS.find((d) => d.value === dimension)?.label}
+            </h5>
+            {report && (
+              <p className="text-sm text-gray-500 mt-[5px]">
+                {report.filters.from} - {report.filters.to} مقارنة بـ{" "}
+                {report.previous.from} - {report.previous.to}
+              </p>
+            )}
+          </div>
+
+          <div className="flex gap-[8px] mt-[15px] sm:mt-0">
+            {(["csv", "xlsx", "pdf"] as ReportExportFormat[]).map((format) => (
+              <button
+                key={format}
+                type="button"
+                onClick={() => handleExport(format)}
+                disabled={!report || isExporting}
+                className="inline-block transition-all rounded-md font-medium px-[13px] py-[6px] text-primary-500 border border-primary-500 hover:bg-primary-500 hover:text-white disabled:opacity-50"
+              >
+                {format.toUpperCase()}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {!isRangeValid ? (
+          <p className="text-center py-8 text-gray-500">
+            اختر بداية ونهاية الفترة
+          </p>
+        ) : isPending ? (
+          <div className="flex items-center justify-center min-h-[200px]">
+            <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary-500"></div>
+          </div>
+        ) : (
+          report && (
+            <div ref={reportRef} className="bg-white dark:bg-[#0c1427]">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-[25px]">
+                {[
+                  {
+                    label: "المبيعات",
+                    value: `$${report.totals.revenue.toFixed(2)}`,
+                    className:
+                      "bg-green-50 dark:bg-green-900/20 text-green-600 dark:text-green-400",
+                  },
+                  {
+                    label: "الفترة السابقة",
+                    value: `$${report.totals.previous_revenue.toFixed(2)}`,
+                    className:
+                      "bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400",
+                  },
+                  {
+                    label: "التغير",
+                    value: <ChangeBadge value={report.totals.revenue_change} />,
+                    className: "bg-primary-50 dark:bg-[#15203c]",
+                  },
+                  {
+                    label: showOrderTotal ? "الطلبات" : "الكمية",
+                    value: showOrderTotal
+                      ? report.totals.order_count
+                      : report.totals.quantity,
+                    className:
+                      "bg-orange-50 dark:bg-orange-900/20 text-orange-600 dark:text-orange-400",
+                  },
+                ].map((card) => (
+                  <div
+                    key={card.label}
+                    className={`p-4 rounded-lg text-center ${card.className}`}
+                  >
+                    <div className="text-xl font-bold mb-1">{card.value}</div>
+                    <div className="text-sm text-gray-600 dark:text-gray-400">
+                      {card.label}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="table-responsive overflow-x-auto">
+                <table className="w-full">
+                  <thead className="text-black dark:text-white">
+                    <tr>
+                      {columns.map((column) => (
+                        <th
+                          key={column.key}
+                          className="font-medium ltr:text-left rtl:text-right px-[20px] py-[11px] bg-gray-50 dark:bg-[#15203c] whitespace-nowrap ltr:first:rounded-tl-md ltr:last:rounded-tr-md rtl:first:rounded-tr-md rtl:last:rounded-tl-md"
+                        >
+                          {column.label}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+
+                  <tbody className="text-black dark:text-white">
+                    {report.rows.length === 0 ? (
+                      <tr>
+                        <td
+                          colSpan={columns.length}
+                          className="text-center py-8 text-gray-500"
+                        >
+                          لا توجد مبيعات في هذه الفترة
+                        </td>
+                      </tr>
+                    ) : (
+                      report.rows.map((row) => (
+                        <tr key={row.key}>
+                          <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[15px] border-b border-gray-100 dark:border-[#172036] font-medium">
+                            {row.label}
+                          </td>
+                          <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[15px] border-b border-gray-100 dark:border-[#172036]">
+                            {row.order_count}
+                          </td>
+                          <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[15px] border-b border-gray-100 dark:border-[#172036]">
+                            {row.quantity}
+                          </td>
+                          <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[15px] border-b border-gray-100 dark:border-[#172036]">
+                            ${row.revenue.toFixed(2)}
+                          </td>
+                          <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[15px] border-b border-gray-100 dark:border-[#172036] text-gray-500">
+                            ${row.previous_revenue.toFixed(2)}
+                          </td>
+                          <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[15px] border-b border-gray-100 dark:border-[#172036]">
+                            <ChangeBadge value={row.revenue_change} />
+                          </td>
+                          <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[15px] border-b border-gray-100 dark:border-[#172036]">
+                            <div className="flex items-center gap-[8px]">
+                              <div className="w-[60px] h-[6px] rounded-full bg-gray-100 dark:bg-[#172036]">
+                                <div
+                                  className="h-[6px] rounded-full bg-primary-500"
+                                  style={{ width: `${row.share}%` }}
+                                ></div>
+                              </div>
+                              {row.share}%
+                            </div>
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )
+        )}
+      </div>
+    </>
+  );
+};
+
+export default ReportsPage;
@@ -0,0 +1,638 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import toast from "react-hot-toast";
+import {
+  createCustomerSegment,
+  CustomerSegment,
+  deleteCustomerSegment,
+  describeSegmentRule,
+  exportSegmentCustomers,
+  getCustomerSegments,
+  getSegmentCustomers,
+  RFM_SEGMENT_LABELS,
+  RfmSegment,
+  SEGMENT_MATCH_LABELS,
+  SEGMENT_RULES,
+  SegmentMatch,
+  SegmentRule,
+  SegmentRuleType,
+  updateCustomerSegment,
+  validateSegmentRules,
+} from "../../../../../services/apiSegments";
+import { TransferFormat } from "../../../../../services/apiProductsTransfer";
+import { usePermissions } from "@/components/Authentication/usePermissions";
+
+const inputClassName =
+  "h-[45px] rounded-md text-black dark:text-white border border-gray-200 dark:border-[#172036] bg-white dark:bg-[#0c1427] px-4 block w-full outline-0 transition-all";
+
+// الجدول يعرض أول العملاء فقط، والتصدير يشمل الكل
+const VISIBLE_ROWS = 100;
+
+const RFM_SEGMENT_CLASSES: Record<RfmSegment, string> = {
+  champions: "bg-success-50 text-success-600",
+  loyal: "bg-primary-50 text-primary-500",
+  new: "bg-blue-50 text-blue-600",
+  at_risk: "bg-orange-50 text-orange-600",
+  lost: "bg-danger-50 text-danger-500",
+  needs_attention: "bg-yellow-50 text-yellow-700",
+  no_orders: "bg-gray-100 text-gray-500",
+};
+
+type Filters = { rules: SegmentRule[]; match: SegmentMatch };
+
+const SegmentsPage: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  // الشريحة المحفوظة المفتوحة في المحرر، null لشريحة جديدة
+  const [selected, setSelected] = useState<CustomerSegment | null>(null);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [match, setMatch] = useState<SegmentMatch>("all");
+  const [rules, setRules] = useState<SegmentRule[]>([]);
+  // القواعد التي عُرضت نتائجها آخر مرة
+  const [applied, setApplied] = useState<Filters | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const { data: segments = [] } = useQuery({
+    queryKey: ["customer_segments"],
+    queryFn: getCustomerSegments,
+  });
+
+  const {
+    data: customers = [],
+    isFetching,
+    error,
+  } = useQuery({
+    queryKey: ["segment_customers", applied],
+    queryFn: () => getSegmentCustomers(applied!.rules, applied!.match),
+    enabled: applied !== null,
+  });
+
+  const { mutate: saveSegment, isPending: isSaving } = useMutation({
+    mutationFn: () => {
+      const segment = { name, description, rules, match_type: match };
+      return selected
+        ? updateCustomerSegment(selected.id, segment)
+        : createCustomerSegment(segment);
+    },
+    onSuccess: (segment) => {
+      toast.success("تم حفظ الشريحة");
+      setSelected(segment);
+      queryClient.invalidateQueries({ queryKey: ["customer_segments"] });
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const { mutate: removeSegment } = useMutation({
+    mutationFn: deleteCustomerSegment,
+    onSuccess: (_, id) => {
+      toast.success("تم حذف الشريحة");
+      if (selected?.id === id) openSegment(null);
+      queryClient.invalidateQueries({ queryKey: ["customer_segments"] });
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const openSegment = (segment: CustomerSegment | null) => {
+    setSelected(segment);
+    setName(segment?.name || "");
+    setDescription(segment?.description || "");
+    setMatch(segment?.match_type || "all");
+    setRules(segment?.rules || []);
+    setApplied(
+      segment ? { rules: segment.rules, match: segment.match_type } : null
+    );
+  };
+
+  const addRule = () =>
+    setRules((current) => [
+      ...current,
+      { type: "ordered_within_days", value: "30" },
+    ]);
+
+  const updateRule = (index: number, rule: SegmentRule) =>
+    setRules((current) => current.map((r, i) => (i === index ? rule : r)));
+
+  const removeRule = (index: number) =>
+    setRules((current) => current.filter((_, i) => i !== index));
+
+  const handleRun = () => {
+    try {
+      validateSegmentRules(rules);
+      setApplied({ rules, match });
+    } catch (err) {
+      toast.error((err as Error).message);
+    }
+  };
+
+  const handleDelete = (segment: CustomerSegment) => {
+    toast((t) => (
+      <div className="flex flex-col gap-2">
+        <p>حذف الشريحة &quot;{segment.name}&quot;؟</p>
+        <div className="flex gap-2 justify-end">
+          <button
+            onClick={() => {
+              toast.dismiss(t.id);
+              removeSegment(segment.id);
+            }}
+            className="px-3 py-1 rounded-md bg-danger-500 text-white"
+          >
+            حذف
+          </button>
+          <button
+            onClick={() => toast.dismiss(t.id)}
+            className="px-3 py-1 rounded-md bg-gray-200 text-black"
+          >
+            إلغاء
+          </button>
+        </div>
+      </div>
+    ));
+  };
+
+  const handleExport = async (format: TransferFormat) => {
+    setIsExporting(true);
+    try {
+      await exportSegmentCustomers(customers, format, name.trim() || undefined);
+    } catch (err) {
+      console.error("خطأ في تصدير العملاء:", err);
+      toast.error("تعذر تصدير العملاء");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const totalSpent = customers.reduce(
+    (sum, customer) => sum + customer.total_spent,
+    0
+  );
+  const buyers = customers.filter((customer) => customer.order_count > 0);
+  const segmentCounts = (Object.keys(RFM_SEGMENT_LABELS) as RfmSegment[])
+    .map((segment) => ({
+      segment,
+      count: customers.filter((customer) => customer.rfm_segment === segment)
+        .length,
+    }))
+    .filter(({ count }) => count > 0);
+
+  return (
+    <>
+      <div className="mb-[25px] md:flex items-center justify-between">
+        <h5 className="!mb-0">شرائح العملاء</h5>
+
+        <ol className="breadcrumb mt-[12px] md:mt-0 rtl:flex-row-reverse">
+          <li className="breadcrumb-item inline-block relative text-sm mx-[11px] ltr:first:ml-0 rtl:first:mr-0 ltr:last:mr-0 rtl:last:ml-0">
+            <Link
+              href="/dashboard"
+              className="inline-block relative ltr:pl-[22px] rtl:pr-[22px] transition-all hover:text-primary-500"
+            >
+              <i className="material-symbols-outlined absolute ltr:left-0 rtl:right-0 !text-lg -mt-px text-primary-500 top-1/2 -translate-y-1/2">
+                home
+              </i>
+              رئيسية
+            </Link>
+          </li>
+          <li className="breadcrumb-item inline-block relative text-sm mx-[11px] ltr:first:ml-0 rtl:first:mr-0 ltr:last:mr-0 rtl:last:ml-0">
+            شرائح العملاء
+          </li>
+        </ol>
+      </div>
+
+      <div className="lg:grid lg:grid-cols-3 gap-[25px]">
+        <div className="trezo-card bg-white dark:bg-[#0c1427] mb-[25px] p-[20px] md:p-[25px] rounded-md">
+          <div className="trezo-card-header mb-[20px] flex items-center justify-between">
+            <h6 className="text-lg font-semibold text-gray-900 dark:text-white !mb-0">
+              الشرائح المحفوظة
+            </h6>
+            <button
+              type="button"
+              onClick={() => openSegment(null)}
+              className="inline-block transition-all rounded-md font-medium px-[13px] py-[6px] text-primary-500 border border-primary-500 hover:bg-primary-500 hover:text-white whitespace-nowrap"
+            >
+              شريحة جديدة
+            </button>
+          </div>
+
+          {segments.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-4">
+              لا توجد شرائح محفوظة
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {segments.map((segment) => (
+                <li
+                  key={segment.id}
+                  className={`p-3 rounded-md border transition-all ${
+                    selected?.id === segment.id
+                      ? "border-primary-500 bg-primary-50 dark:bg-[#15203c]"
+                      : "border-gray-100 dark:border-[#172036]"
+                  }`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <button
+                      type="button"
+                      onClick={() => openSegment(segment)}
+                      className="text-right flex-1"
+                    >
+                      <span className="block font-medium text-black dark:text-white">
+                        {segment.name}
+                      </span>
+                      <span className="block text-xs text-gray-500 mt-1">
+                        {segment.rules.length
+                          ? segment.rules
+                              .map(describeSegmentRule)
+                              .join(
+                                segment.match_type === "any" ? " أو " : " و "
+                              )
+                          : "كل العملاء"}
+                      </span>
+                    </button>
+                    {can("users.manage") && (
+                      <button
+                        onClick={() => handleDelete(segment)}
+                        className="text-danger-500 leading-none"
+                      >
+                        <i className="material-symbols-outlined !text-md">
+                          delete
+                        </i>
+                      </button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="lg:col-span-2 trezo-card bg-white dark:bg-[#0c1427] mb-[25px] p-[20px] md:p-[25px] rounded-md">
+          <div className="trezo-card-header mb-[20px]">
+            <h6 className="text-lg font-semibold text-gray-900 dark:text-white !mb-0">
+              {selected ? `تعديل ${selected.name}` : "بناء شريحة"}
+            </h6>
+          </div>
+
+          <div className="sm:grid sm:grid-cols-2 sm:gap-[20px] space-y-[15px] sm:space-y-0 mb-[20px]">
+            <div>
+              <label className="mb-2 block font-medium text-black dark:text-white">
+                اسم الشريحة
+              </label>
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="mb-2 block font-medium text-black dark:text-white">
+                مطابقة
+              </label>
+              <select
+                value={match}
+                onChange={(e) => setMatch(e.target.value as SegmentMatch)}
+                className={inputClassName}
+              >
+                {Object.entries(SEGMENT_MATCH_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="sm:col-span-2">
+              <label className="mb-2 block font-medium text-black dark:text-white">
+                الوصف
+              </label>
+              <input
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-[10px]">
+            {rules.map((rule, index) => {
+              const definition = SEGMENT_RULES.find(
+                (r) => r.type === rule.type
+              );
+              return (
+                <div key={index} className="flex items-center gap-[10px]">
+                  <select
+                    value={rule.type}
+                    onChange={(e) => {
+                      const type = e.target.value as SegmentRuleType;
+                      const input = SEGMENT_RULES.find(
+                        (r) => r.type === type
+                      )?.input;
+                      updateRule(index, {
+                        type,
+                        value: input === "rfm_segment" ? "champions" : "",
+                      });
+                    }}
+                    className={`${inputClassName} sm:max-w-[260px]`}
+                  >
+                    {SEGMENT_RULES.map((r) => (
+                      <option key={r.type} value={r.type}>
+                        {r.label}
+                      </option>
+                    ))}
+                  </select>
+
+                  {definition?.input === "rfm_segment" ? (
+                    <select
+                      value={rule.value}
+                      onChange={(e) =>
+                        updateRule(index, { ...rule, value: e.target.value })
+                      }
+                      className={inputClassName}
+                    >
+                      {Object.entries(RFM_SEGMENT_LABELS).map(
+                        ([value, label]) => (
+                          <option key={value} value={value}>
+                            {label}
+                          </option>
+                        )
+                      )}
+                    </select>
+                  ) : definition?.input !== "none" ? (
+                    <input
+                      type={definition?.input === "number" ? "number" : "text"}
+                      min={0}
+                      step={definition?.input === "number" ? "any" : undefined}
+                      value={rule.value || ""}
+                      onChange={(e) =>
+                        updateRule(index, { ...rule, value: e.target.value })
+                      }
+                      className={inputClassName}
+                    />
+                  ) : (
+                    <span className="flex-1" />
+                  )}
+
+                  {definition?.unit && (
+                    <span className="text-sm text-gray-500 whitespace-nowrap">
+                      {definition.unit}
+                    </span>
+                  )}
+
+                  <button
+                    type="button"
+                    onClick={() => removeRule(index)}
+                    className="text-danger-500 leading-none"
+                  >
+                    <i className="material-symbols-outlined !text-md">close</i>
+                  </button>
+                </div>
+              );
+            })}
+            {rules.length === 0 && (
+              <p className="text-sm text-gray-400">
+                بدون قواعد تشمل الشريحة كل العملاء.
+              </p>
+            )}
+          </div>
+
+          <div className="mt-[20px] flex flex-wrap gap-[10px]">
+            <button
+              type="button"
+              onClick={addRule}
+              className="font-medium inline-block transition-all rounded-md py-[10px] px-[20px] bg-gray-100 text-black dark:bg-[#15203c] dark:text-white"
+            >
+              إضافة قاعدة
+            </button>
+            <button
+              type="button"
+              onClick={handleRun}
+              disabled={isFetching}
+              className="font-medium inline-block transition-all rounded-md py-[10px] px-[20px] bg-primary-500 text-white hover:bg-primary-400 disabled:opacity-50"
+            >
+              {isFetching ? "جاري البحث..." : "عرض العملاء"}
+            </button>
+            {can("users.manage") && (
+              <button
+                type="button"
+                onClick={() => saveSegment()}
+                disabled={isSaving}
+                className="font-medium inline-block transition-all rounded-md py-[10px] px-[20px] border border-primary-500 text-primary-500 hover:bg-primary-500 hover:text-white disabled:opacity-50"
+              >
+                {isSaving ? "جاري الحفظ..." : "حفظ الشريحة"}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {applied && (
+        <div className="trezo-card bg-white dark:bg-[#0c1427] mb-[25px] p-[20px] md:p-[25px] rounded-md">
+          <div className="trezo-card-header mb-[20px] md:mb-[25px] sm:flex items-center justify-between gap-[15px]">
+            <h6 className="text-lg font-semibold text-gray-900 dark:text-white !mb-0">
+              عملاء الشريحة
+            </h6>
+            <div className="mt-[10px] sm:mt-0 flex flex-wrap gap-[10px]">
+              {selected && can("coupons.manage") && (
+                <Link
+                  href="/dashboard/coupons/"
+                  className="inline-block transition-all rounded-md font-medium px-[13px] py-[6px] text-primary-500 border border-primary-500 hover:bg-primary-500 hover:text-white whitespace-nowrap"
+                >
+                  استهداف بكوبون
+                </Link>
+              )}
+              {(["csv", "xlsx"] as TransferFormat[]).map((format) => (
+                <button
+                  key={format}
+                  type="button"
+                  onClick={() => handleExport(format)}
+                  disabled={isExporting || customers.length === 0}
+                  className="inline-block transition-all rounded-md font-medium px-[13px] py-[6px] text-primary-500 border border-primary-500 hover:bg-primary-500 hover:text-white disabled:opacity-50 whitespace-nowrap"
+                >
+                  تصدير {format.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {error ? (
+            <p className="text-center py-6 text-danger-500">
+              {(error as Error).message}
+            </p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-[20px]">
+                {[
+                  {
+                    label: "العملاء",
+                    value: customers.length,
+                    className:
+                      "bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400",
+                  },
+                  {
+                    label: "اشتروا من قبل",
+                    value: buyers.length,
+                    className:
+                      "bg-primary-50 dark:bg-[#15203c] text-primary-500",
+                  },
+                  {
+                    label: "إجمالي الإنفاق",
+                    value: `$${totalSpent.toFixed(2)}`,
+                    className:
+                      "bg-green-50 dark:bg-green-900/20 text-green-600 dark:text-green-400",
+                  },
+                  {
+                    label: "متوسط إنفاق المشتري",
+                    value: `$${(buyers.length
+                      ? totalSpent / buyers.length
+                      : 0
+                    ).toFixed(2)}`,
+                    className:
+                      "bg-orange-50 dark:bg-orange-900/20 text-orange-600 dark:text-orange-400",
+                  },
+                ].map((card) => (
+                  <div
+                    key={card.label}
+                    className={`p-4 rounded-lg text-center ${card.className}`}
+                  >
+                    <div className="text-xl font-bold mb-1">
+                      {isFetching ? "..." : card.value}
+                    </div>
+                    <div className="text-sm text-gray-600 dark:text-gray-400">
+                      {card.label}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {segmentCounts.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-[20px]">
+                  {segmentCounts.map(({ segment, count }) => (
+                    <span
+                      key={segment}
+                      className={`inline-block px-[8px] py-[3px] rounded-sm text-xs ${RFM_SEGMENT_CLASSES[segment]}`}
+                    >
+                      {RFM_SEGMENT_LABELS[segment]}: {count}
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              <div className="table-responsive overflow-x-auto">
+                <table className="w-full">
+                  <thead className="text-black dark:text-white">
+                    <tr>
+                      {[
+                        "العميل",
+                        "المدينة",
+                        "الطلبات",
+                        "الإنفاق",
+                        "آخر طلب",
+                        "RFM",
+                        "الفئة",
+                      ].map((title) => (
+                        <th
+                          key={title}
+                          className="font-medium text-right px-3 py-3 bg-primary-50 dark:bg-[#15203c] whitespace-nowrap"
+                        >
+                          {title}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="text-black dark:text-white">
+                    {isFetching ? (
+                      <tr>
+                        <td
+                          colSpan={7}
+                          className="text-center py-6 text-gray-500"
+                        >
+                          جاري التحميل...
+                        </td>
+                      </tr>
+                    ) : customers.length === 0 ? (
+                      <tr>
+                        <td
+                          colSpan={7}
+                          className="text-center py-6 text-gray-400"
+                        >
+                          لا يوجد عملاء مطابقون
+                        </td>
+                      </tr>
+                    ) : (
+                      customers.slice(0, VISIBLE_ROWS).map((customer) => (
+                        <tr
+                          key={customer.id}
+                          className="border-b border-gray-100 dark:border-[#172036]"
+                        >
+                          <td className="py-3 px-3">
+                            <Link
+                              href={`/dashboard/users/${customer.id}`}
+                              className="block font-medium hover:text-primary-500"
+                            >
+                              {customer.full_name || "بدون اسم"}
+                            </Link>
+                            {customer.phone && (
+                              <span
+                                className="block text-xs text-gray-500"
+                                dir="ltr"
+                              >
+                                {customer.phone}
+                              </span>
+                            )}
+                          </td>
+                          <td className="py-3 px-3">{customer.city || "-"}</td>
+                          <td className="py-3 px-3">{customer.order_count}</td>
+                          <td className="py-3 px-3 whitespace-nowrap">
+                            ${customer.total_spent.toFixed(2)}
+                          </td>
+                          <td className="py-3 px-3 text-sm whitespace-nowrap">
+                            {customer.last_order_at ? (
+                              <>
+                                {new Date(
+                                  customer.last_order_at
+                                ).toLocaleDateString("ar-EG")}
+                                <span className="block text-xs text-gray-500">
+                                  منذ {customer.recency_days} يوم
+                                </span>
+                              </>
+                            ) : (
+                              "-"
+                            )}
+                          </td>
+                          <td className="py-3 px-3 font-mono" dir="ltr">
+                            {customer.rfm_score || "-"}
+                          </td>
+                          <td className="py-3 px-3">
+                            <span
+                              className={`inline-block px-[8px] py-[3px] rounded-sm text-xs ${
+                                RFM_SEGMENT_CLASSES[customer.rfm_segment]
+                              }`}
+                            >
+                              {RFM_SEGMENT_LABELS[customer.rfm_segment]}
+                            </span>
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+              {customers.length > VISIBLE_ROWS && !isFetching && (
+                <p className="text-xs text-gray-500 mt-2">
+                  يُعرض أول {VISIBLE_ROWS} عميل من {customers.length}، والتصدير
+                  يشمل الجميع.
+                </p>
+              )}
+            </>
+          )}
+          <p className="text-xs text-gray-500 mt-2">
+            درجات RFM (الحداثة، التكرار، القيمة) من 1 إلى 5 مقارنة ببقية
+            العملاء، وتُحسب من الطلبات المدفوعة.
+          </p>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default SegmentsPage;
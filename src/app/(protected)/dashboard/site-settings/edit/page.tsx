@@ -38,6 +38,10 @@ const SiteSettings: React.FC = () => {
   );
   const [siteNameAr, setSiteNameAr] = useState("");
   const [siteNameEn, setSiteNameEn] = useState("");
+  const [taxRate, setTaxRate] = useState("0");
+  const [taxNumber, setTaxNumber] = useState("");
+  const [bestSellerWindowDays, setBestSellerWindowDays] = useState("30");
+  const [bestSellerLimit, setBestSellerLimit] = useState("10");
 
   function onChange(e: ContentEditableEvent) {
     setAboutUsAr(e.target.value);
@@ -111,6 +115,13 @@ const SiteSettings: React.FC = () => {
           about_us_ar: aboutUsAr,
           about_us_en: aboutUsEn,
           logo_url: logoUrl,
+          tax_rate: Number(taxRate) || 0,
+          tax_number: taxNumber.trim() || null,
+          best_seller_window_days: Math.max(
+            Number(bestSellerWindowDays) || 30,
+            1
+          ),
+          best_seller_limit: Math.max(Number(bestSellerLimit) || 0, 0),
           updated_at: new Date().toISOString(),
         });
 
@@ -158,6 +169,65 @@ const SiteSettings: React.FC = () => {
                 />
               </div>
 
+              <div className="mb-[20px] sm:mb-0">
+                <label className="mb-[10px] text-black dark:text-white font-medium block">
+                  نسبة الضريبة (%)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={taxRate}
+                  onChange={(e) => setTaxRate(e.target.value)}
+                  className="h-[55px] rounded-md text-black dark:text-white border border-gray-200 dark:border-[#172036] bg-white dark:bg-[#0c1427] px-[17px] block w-full outline-0 transition-all placeholder:text-gray-500 dark:placeholder:text-gray-400 focus:border-primary-500"
+                  placeholder="14"
+                />
+              </div>
+
+              <div className="mb-[20px] sm:mb-0">
+                <label className="mb-[10px] text-black dark:text-white font-medium block">
+                  الرقم الضريبي
+                </label>
+                <input
+                  type="text"
+                  value={taxNumber}
+                  onChange={(e) => setTaxNumber(e.target.value)}
+                  className="h-[55px] rounded-md text-black dark:text-white border border-gray-200 dark:border-[#172036] bg-white dark:bg-[#0c1427] px-[17px] block w-full outline-0 transition-all placeholder:text-gray-500 dark:placeholder:text-gray-400 focus:border-primary-500"
+                  placeholder="Tax Registration Number"
+                />
+              </div>
+
+              <div className="mb-[20px] sm:mb-0">
+                <label className="mb-[10px] text-black dark:text-white font-medium block">
+                  فترة حساب أفضل المبيعات (بالأيام)
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={bestSellerWindowDays}
+                  onChange={(e) => setBestSellerWindowDays(e.target.value)}
+                  className="h-[55px] rounded-md text-black dark:text-white border border-gray-200 dark:border-[#172036] bg-white dark:bg-[#0c1427] px-[17px] block w-full outline-0 transition-all placeholder:text-gray-500 dark:placeholder:text-gray-400 focus:border-primary-500"
+                  placeholder="30"
+                />
+              </div>
+
+              <div className="mb-[20px] sm:mb-0">
+                <label className="mb-[10px] text-black dark:text-white font-medium block">
+                  عدد المنتجات الأكثر مبيعاً
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={bestSellerLimit}
+                  onChange={(e) => setBestSellerLimit(e.target.value)}
+                  className="h-[55px] rounded-md text-black dark:text-white border border-gray-200 dark:border-[#172036] bg-white dark:bg-[#0c1427] px-[17px] block w-full outline-0 transition-all placeholder:text-gray-500 dark:placeholder:text-gray-400 focus:border-primary-500"
+                  placeholder="10"
+                />
+              </div>
+
               <div className="sm:col-span-2 mb-[20px] sm:mb-0">
                 <label className="mb-[10px] text-black dark:text-white font-medium block">
                   وصف الموقع (العربي)
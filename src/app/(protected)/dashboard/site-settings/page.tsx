@@ -6,6 +6,7 @@ import React from "react";
 import { getAboutUs } from "../../../../../services/apiAboutUs";
 import type { SiteSettings } from "../../../../../services/apiAboutUs";
 import Image from "next/image";
+import AuditHistoryCard from "@/components/AuditLog/AuditHistoryCard";
 
 export default function SiteSettings() {
   const { data: site_settings } = useQuery<SiteSettings>({
@@ -110,6 +111,13 @@ export default function SiteSettings() {
           </div>
         </div>
       </div>
+
+      {site_settings?.id && (
+        <AuditHistoryCard
+          entityType="site_settings"
+          entityId={site_settings.id}
+        />
+      )}
     </>
   );
 }
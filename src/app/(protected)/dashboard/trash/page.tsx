@@ -0,0 +1,294 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import toast from "react-hot-toast";
+import {
+  TRASH_RETENTION_DAYS,
+  TRASH_TYPE_LABELS,
+  TRASH_TYPE_PERMISSIONS,
+  TrashItem,
+  TrashItemType,
+  getTrashItems,
+  purgeExpiredTrash,
+  purgeTrashItem,
+  restoreTrashItem,
+} from "../../../../../services/apiTrash";
+import { usePermissions } from "@/components/Authentication/usePermissions";
+
+// الاستعلامات التي تتأثر باستعادة عنصر من السلة
+const RELATED_QUERY_KEYS: Record<TrashItemType, string[]> = {
+  product: ["products", "low_stock_products"],
+  order: ["orders", "low_stock_products"],
+  combo_offer: ["comboOffers"],
+  gallery: ["galleries"],
+  news: ["news"],
+};
+
+function getDaysLeft(deletedAt: string): number {
+  const purgeAt =
+    new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  return Math.max(0, Math.ceil((purgeAt - Date.now()) / (24 * 60 * 60 * 1000)));
+}
+
+const TrashPage: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+
+  const types = (Object.keys(TRASH_TYPE_LABELS) as TrashItemType[]).filter(
+    (type) => can(TRASH_TYPE_PERMISSIONS[type])
+  );
+  const [selectedType, setSelectedType] = useState<TrashItemType>("product");
+  const activeType = types.includes(selectedType) ? selectedType : types[0];
+
+  const { data: items = [], isPending } = useQuery({
+    queryKey: ["trash", activeType],
+    queryFn: () => getTrashItems(activeType),
+    enabled: !!activeType,
+  });
+
+  const invalidate = (type: TrashItemType) => {
+    queryClient.invalidateQueries({ queryKey: ["trash"] });
+    RELATED_QUERY_KEYS[type].forEach((key) =>
+      queryClient.invalidateQueries({ queryKey: [key] })
+    );
+  };
+
+  const { mutate: restore, isPending: isRestoring } = useMutation({
+    mutationFn: restoreTrashItem,
+    onSuccess: (_, { type }) => {
+      toast.success("تمت استعادة العنصر بنجاح");
+      invalidate(type);
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const { mutate: purge, isPending: isPurging } = useMutation({
+    mutationFn: purgeTrashItem,
+    onSuccess: (_, { type }) => {
+      toast.success("تم حذف العنصر نهائياً");
+      invalidate(type);
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const { mutate: applyRetention, isPending: isApplyingRetention } =
+    useMutation({
+      mutationFn: () => purgeExpiredTrash(),
+      onSuccess: (count) => {
+        toast.success(`تم حذف ${count} عنصر منتهي المدة نهائياً`);
+        queryClient.invalidateQueries({ queryKey: ["trash"] });
+      },
+      onError: (error) => toast.error(error.message),
+    });
+
+  const confirmPurge = (item: TrashItem) => {
+    toast(
+      (t) => (
+        <span>
+          سيتم حذف &quot;{item.title}&quot; وملفاته نهائياً ولا يمكن التراجع.
+          متأكد؟
+          <div style={{ marginTop: 8, display: "flex", gap: 8 }}>
+            <button
+              onClick={() => {
+                purge({ type: item.type, id: item.id });
+                toast.dismiss(t.id);
+              }}
+              style={{
+                background: "#ef4444",
+                color: "white",
+                border: "none",
+                padding: "4px 12px",
+                borderRadius: 4,
+                marginRight: 8,
+                cursor: "pointer",
+              }}
+            >
+              نعم
+            </button>
+            <button
+              onClick={() => toast.dismiss(t.id)}
+              style={{
+                background: "#e5e7eb",
+                color: "#111827",
+                border: "none",
+                padding: "4px 12px",
+                borderRadius: 4,
+                cursor: "pointer",
+              }}
+            >
+              إلغاء
+            </button>
+          </div>
+        </span>
+      ),
+      { duration: 6000 }
+    );
+  };
+
+  const canApplyRetention =
+    can("products.manage") && can("orders.delete") && can("content.manage");
+
+  return (
+    <>
+      <div className="mb-[25px] md:flex items-center justify-between">
+        <h5 className="!mb-0">سلة المحذوفات</h5>
+
+        <ol className="breadcrumb mt-[12px] md:mt-0 rtl:flex-row-reverse">
+          <li className="breadcrumb-item inline-block relative text-sm mx-[11px] ltr:first:ml-0 rtl:first:mr-0 ltr:last:mr-0 rtl:last:ml-0">
+            <Link
+              href="/dashboard"
+              className="inline-block relative ltr:pl-[22px] rtl:pr-[22px] transition-all hover:text-primary-500"
+            >
+              <i className="material-symbols-outlined absolute ltr:left-0 rtl:right-0 !text-lg -mt-px text-primary-500 top-1/2 -translate-y-1/2">
+                home
+              </i>
+              رئيسية
+            </Link>
+          </li>
+          <li className="breadcrumb-item inline-block relative text-sm mx-[11px] ltr:first:ml-0 rtl:first:mr-0 ltr:last:mr-0 rtl:last:ml-0">
+            سلة المحذوفات
+          </li>
+        </ol>
+      </div>
+
+      <div className="trezo-card bg-white dark:bg-[#0c1427] mb-[25px] p-[20px] md:p-[25px] rounded-md">
+        <div className="trezo-card-header mb-[20px] md:mb-[25px] sm:flex items-center justify-between">
+          <p className="text-gray-500 dark:text-gray-400 text-sm !mb-0">
+            تُحذف العناصر نهائياً مع صورها بعد {TRASH_RETENTION_DAYS} يوماً من
+            نقلها إلى السلة.
+          </p>
+          {canApplyRetention && (
+            <button
+              type="button"
+              onClick={() => applyRetention()}
+              disabled={isApplyingRetention}
+              className="mt-[15px] sm:mt-0 inline-block transition-all rounded-md font-medium px-[13px] py-[6px] text-danger-500 border border-danger-500 hover:bg-danger-500 hover:text-white disabled:opacity-50"
+            >
+              {isApplyingRetention
+                ? "جاري التنظيف..."
+                : "حذف العناصر المنتهية الآن"}
+            </button>
+          )}
+        </div>
+
+        <div className="mb-[20px] flex flex-wrap gap-[10px]">
+          {types.map((type) => (
+            <button
+              key={type}
+              type="button"
+              onClick={() => setSelectedType(type)}
+              className={`px-[13px] py-[6px] rounded-md font-medium border transition-all ${
+                activeType === type
+                  ? "bg-primary-500 border-primary-500 text-white"
+                  : "border-gray-200 dark:border-[#172036] text-gray-600 dark:text-gray-300 hover:border-primary-500 hover:text-primary-500"
+              }`}
+            >
+              {TRASH_TYPE_LABELS[type]}
+            </button>
+          ))}
+        </div>
+
+        <div className="trezo-card-content">
+          <div className="table-responsive overflow-x-auto">
+            <table className="w-full">
+              <thead className="text-black dark:text-white">
+                <tr>
+                  {[
+                    "العنصر",
+                    "تاريخ الحذف",
+                    "يُحذف نهائياً بعد",
+                    "الإجراءات",
+                  ].map((header) => (
+                    <th
+                      key={header}
+                      className="font-medium ltr:text-left rtl:text-right px-[20px] py-[11px] bg-gray-50 dark:bg-[#15203c] whitespace-nowrap ltr:first:rounded-tl-md ltr:last:rounded-tr-md rtl:first:rounded-tr-md rtl:last:rounded-tl-md"
+                    >
+                      {header}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+
+              <tbody className="text-black dark:text-white">
+                {isPending ? (
+                  <tr>
+                    <td colSpan={4} className="text-center py-8 text-gray-500">
+                      جاري التحميل...
+                    </td>
+                  </tr>
+                ) : items.length === 0 ? (
+                  <tr>
+                    <td colSpan={4} className="text-center py-8 text-gray-500">
+                      سلة المحذوفات فارغة
+                    </td>
+                  </tr>
+                ) : (
+                  items.map((item) => (
+                    <tr key={`${item.type}-${item.id}`}>
+                      <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[15px] border-b border-gray-100 dark:border-[#172036]">
+                        <div className="flex items-center gap-[12px]">
+                          {item.image_url && (
+                            <Image
+                              src={item.image_url}
+                              alt={item.title}
+                              width={40}
+                              height={40}
+                              className="rounded-md object-cover w-[40px] h-[40px]"
+                            />
+                          )}
+                          <div>
+                            <span className="block text-[15px] font-medium">
+                              {item.title}
+                            </span>
+                            {item.subtitle && (
+                              <span className="block text-xs text-gray-500">
+                                {item.subtitle}
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                      </td>
+                      <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[15px] border-b border-gray-100 dark:border-[#172036]">
+                        {new Date(item.deleted_at).toLocaleString("ar-EG")}
+                      </td>
+                      <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[15px] border-b border-gray-100 dark:border-[#172036]">
+                        {getDaysLeft(item.deleted_at)} يوم
+                      </td>
+                      <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[15px] border-b border-gray-100 dark:border-[#172036]">
+                        <div className="flex items-center gap-[12px]">
+                          <button
+                            type="button"
+                            onClick={() =>
+                              restore({ type: item.type, id: item.id })
+                            }
+                            disabled={isRestoring}
+                            className="text-primary-500 hover:underline disabled:opacity-50"
+                          >
+                            استعادة
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => confirmPurge(item)}
+                            disabled={isPurging}
+                            className="text-danger-500 hover:underline disabled:opacity-50"
+                          >
+                            حذف نهائي
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default TrashPage;
@@ -1,10 +1,32 @@
 "use client";
 
-import React from "react";
+import React, { useState } from "react";
 import Link from "next/link";
+import Image from "next/image";
 import { useParams } from "next/navigation";
-import { useQuery } from "@tanstack/react-query";
-import { getUserById } from "../../../../../../services/apiUsers";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import toast from "react-hot-toast";
+import {
+  getCustomerFavouriteProducts,
+  getCustomerStats,
+  getUserById,
+  toggleUserStatus,
+} from "../../../../../../services/apiUsers";
+import {
+  getOrders,
+  ORDER_STATUS_LABELS,
+} from "../../../../../../services/apiOrders";
+import AuditHistoryCard from "@/components/AuditLog/AuditHistoryCard";
+import { usePermissions } from "@/components/Authentication/usePermissions";
+
+const RECENT_ORDERS_LIMIT = 10;
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("ar-EG", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
 
 const UserDetailsPage: React.FC = () => {
   const params = useParams();
@@ -20,6 +42,45 @@ const UserDetailsPage: React.FC = () => {
     enabled: !!userId,
   });
 
+  const { can } = usePermissions();
+  const canViewOrders = !!userId && can("orders.view");
+
+  const { data: stats, isPending: isStatsPending } = useQuery({
+    queryKey: ["customer_stats", userId],
+    queryFn: () => getCustomerStats(userId),
+    enabled: canViewOrders,
+  });
+
+  const { data: favourites = [] } = useQuery({
+    queryKey: ["customer_favourites", userId],
+    queryFn: () => getCustomerFavouriteProducts(userId),
+    enabled: canViewOrders,
+  });
+
+  const { data: recentOrdersData } = useQuery({
+    queryKey: ["orders", "customer", userId],
+    queryFn: () => getOrders(1, RECENT_ORDERS_LIMIT, { userId }),
+    enabled: canViewOrders,
+  });
+  const recentOrders = recentOrdersData?.orders || [];
+  const recentOrdersTotal = recentOrdersData?.total || 0;
+
+  const queryClient = useQueryClient();
+  const [deactivationReason, setDeactivationReason] = useState("");
+
+  const { mutate: toggleStatus, isPending: isToggling } = useMutation({
+    mutationFn: (isActive: boolean) =>
+      toggleUserStatus(userId, isActive, deactivationReason),
+    onSuccess: (updated) => {
+      toast.success(updated.is_active ? "تم تفعيل الحساب" : "تم إيقاف الحساب");
+      setDeactivationReason("");
+      queryClient.invalidateQueries({ queryKey: ["user", userId] });
+      queryClient.invalidateQueries({ queryKey: ["users"] });
+      queryClient.invalidateQueries({ queryKey: ["userStats"] });
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
   if (isPending) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -106,6 +167,31 @@ const UserDetailsPage: React.FC = () => {
                 </span>
               </div>
 
+              <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                <h4 className="font-medium text-gray-900 dark:text-white mb-2">
+                  حالة الحساب
+                </h4>
+                <span
+                  className={`px-2 py-1 rounded-full text-xs font-medium ${
+                    user.is_active === false
+                      ? "bg-danger-50 text-danger-500"
+                      : "bg-success-50 text-success-600"
+                  }`}
+                >
+                  {user.is_active === false ? "موقوف" : "نشط"}
+                </span>
+                {user.is_active === false && (
+                  <div className="mt-2 text-sm text-gray-600 dark:text-gray-400 space-y-1">
+                    {user.deactivated_at && (
+                      <p>تاريخ الإيقاف: {formatDate(user.deactivated_at)}</p>
+                    )}
+                    {user.deactivation_reason && (
+                      <p>السبب: {user.deactivation_reason}</p>
+                    )}
+                  </div>
+                )}
+              </div>
+
               <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
                 <h4 className="font-medium text-gray-900 dark:text-white mb-2">
                   تاريخ التسجيل
@@ -149,6 +235,40 @@ const UserDetailsPage: React.FC = () => {
             </div>
 
             <div className="space-y-3">
+              {can("users.manage") &&
+                (user.is_active === false ? (
+                  <button
+                    type="button"
+                    onClick={() => toggleStatus(true)}
+                    disabled={isToggling}
+                    className="w-full flex items-center justify-center px-4 py-2 rounded-lg text-white bg-success-600 hover:bg-success-700 transition-colors disabled:opacity-50"
+                  >
+                    <i className="material-symbols-outlined mr-2">
+                      check_circle
+                    </i>
+                    تفعيل الحساب
+                  </button>
+                ) : (
+                  <>
+                    <textarea
+                      value={deactivationReason}
+                      onChange={(e) => setDeactivationReason(e.target.value)}
+                      placeholder="سبب الإيقاف"
+                      rows={2}
+                      className="w-full rounded-lg text-black dark:text-white border border-gray-200 dark:border-[#172036] bg-white dark:bg-[#0c1427] p-3 outline-0 transition-all focus:border-primary-500"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => toggleStatus(false)}
+                      disabled={isToggling || !deactivationReason.trim()}
+                      className="w-full flex items-center justify-center px-4 py-2 rounded-lg text-white bg-danger-500 hover:bg-danger-600 transition-colors disabled:opacity-50"
+                    >
+                      <i className="material-symbols-outlined mr-2">block</i>
+                      إيقاف الحساب
+                    </button>
+                  </>
+                ))}
+
               <Link
                 href="/dashboard/users"
                 className="w-full flex items-center justify-center px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
@@ -211,45 +331,223 @@ const UserDetailsPage: React.FC = () => {
             </div>
           </div>
 
-          {/* User Statistics */}
-          <div className="trezo-card bg-white dark:bg-[#0c1427] p-[20px] md:p-[25px] rounded-md mt-6">
-            <div className="trezo-card-header mb-[20px] md:mb-[25px]">
-              <h6 className="text-lg font-semibold text-gray-900 dark:text-white">
-                إحصائيات المستخدم
-              </h6>
+          {/* Customer Statistics */}
+          {can("orders.view") && (
+            <div className="trezo-card bg-white dark:bg-[#0c1427] p-[20px] md:p-[25px] rounded-md mt-6">
+              <div className="trezo-card-header mb-[20px] md:mb-[25px]">
+                <h6 className="text-lg font-semibold text-gray-900 dark:text-white">
+                  إحصائيات العميل
+                </h6>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                {[
+                  {
+                    label: "إجمالي المشتريات",
+                    value: `$${stats?.total_spent ?? 0}`,
+                    className:
+                      "bg-green-50 dark:bg-green-900/20 text-green-600 dark:text-green-400",
+                  },
+                  {
+                    label: "عدد الطلبات",
+                    value: stats?.order_count ?? 0,
+                    className:
+                      "bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400",
+                  },
+                  {
+                    label: "متوسط السلة",
+                    value:
+                      stats?.average_basket != null
+                        ? `$${stats.average_basket}`
+                        : "-",
+                    className:
+                      "bg-primary-50 dark:bg-[#15203c] text-primary-500",
+                  },
+                  {
+                    label: "الطلبات المدفوعة",
+                    value: stats?.paid_order_count ?? 0,
+                    className:
+                      "bg-green-50 dark:bg-green-900/20 text-green-600 dark:text-green-400",
+                  },
+                  {
+                    label: "آخر طلب",
+                    value: stats?.last_order_at
+                      ? formatDate(stats.last_order_at)
+                      : "-",
+                    className:
+                      "bg-orange-50 dark:bg-orange-900/20 text-orange-600 dark:text-orange-400",
+                  },
+                  {
+                    label: "نسبة الإلغاء",
+                    value:
+                      stats?.cancellation_rate != null
+                        ? `${stats.cancellation_rate}%`
+                        : "-",
+                    className:
+                      "bg-danger-50 dark:bg-danger-900/20 text-danger-500",
+                  },
+                ].map((card) => (
+                  <div
+                    key={card.label}
+                    className={`p-4 rounded-lg text-center ${card.className}`}
+                  >
+                    <div className="text-xl font-bold mb-1">
+                      {isStatsPending ? "..." : card.value}
+                    </div>
+                    <div className="text-sm text-gray-600 dark:text-gray-400">
+                      {card.label}
+                    </div>
+                  </div>
+                ))}
+              </div>
             </div>
+          )}
 
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              <div className="p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg text-center">
-                <div className="text-2xl font-bold text-blue-600 dark:text-blue-400 mb-1">
-                  0
-                </div>
-                <div className="text-sm text-gray-600 dark:text-gray-400">
-                  إجمالي الطلبات
-                </div>
+          {/* Favourite Products */}
+          {can("orders.view") && favourites.length > 0 && (
+            <div className="trezo-card bg-white dark:bg-[#0c1427] p-[20px] md:p-[25px] rounded-md mt-6">
+              <div className="trezo-card-header mb-[20px] md:mb-[25px]">
+                <h6 className="text-lg font-semibold text-gray-900 dark:text-white">
+                  المنتجات المفضلة
+                </h6>
               </div>
 
-              <div className="p-4 bg-green-50 dark:bg-green-900/20 rounded-lg text-center">
-                <div className="text-2xl font-bold text-green-600 dark:text-green-400 mb-1">
-                  0
-                </div>
-                <div className="text-sm text-gray-600 dark:text-gray-400">
-                  الطلبات المكتملة
-                </div>
+              <ul className="space-y-3">
+                {favourites.map((item) => (
+                  <li
+                    key={item.product_id || item.combo_offer_id}
+                    className="flex items-center justify-between gap-3"
+                  >
+                    <div className="flex items-center gap-3">
+                      {item.image_url ? (
+                        <Image
+                          src={item.image_url}
+                          alt={item.name_ar || "منتج"}
+                          width={40}
+                          height={40}
+                          className="object-cover rounded-md"
+                        />
+                      ) : (
+                        <div className="w-[40px] h-[40px] bg-gray-100 dark:bg-gray-800 rounded-md"></div>
+                      )}
+                      <div>
+                        {item.product_id ? (
+                          <Link
+                            href={`/dashboard/news/${item.product_id}`}
+                            className="font-medium text-gray-900 dark:text-white hover:text-primary-500"
+                          >
+                            {item.name_ar || "منتج محذوف"}
+                          </Link>
+                        ) : (
+                          <span className="font-medium text-gray-900 dark:text-white">
+                            {item.name_ar || "عرض محذوف"}
+                          </span>
+                        )}
+                        <span className="block text-xs text-gray-500">
+                          في {item.order_count} طلبات
+                        </span>
+                      </div>
+                    </div>
+                    <div className="text-left text-sm">
+                      <span className="block font-semibold text-gray-900 dark:text-white">
+                        {item.quantity} قطعة
+                      </span>
+                      <span className="text-gray-500">
+                        ${item.total_amount}
+                      </span>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Recent Orders */}
+          {can("orders.view") && (
+            <div className="trezo-card bg-white dark:bg-[#0c1427] p-[20px] md:p-[25px] rounded-md mt-6">
+              <div className="trezo-card-header mb-[20px] md:mb-[25px]">
+                <h6 className="text-lg font-semibold text-gray-900 dark:text-white">
+                  أحدث الطلبات
+                </h6>
               </div>
 
-              <div className="p-4 bg-orange-50 dark:bg-orange-900/20 rounded-lg text-center">
-                <div className="text-2xl font-bold text-orange-600 dark:text-orange-400 mb-1">
-                  0
-                </div>
-                <div className="text-sm text-gray-600 dark:text-gray-400">
-                  إجمالي المشتريات
-                </div>
+              <div className="table-responsive overflow-x-auto">
+                <table className="w-full">
+                  <thead className="text-black dark:text-white">
+                    <tr>
+                      {[
+                        "الطلب",
+                        "التاريخ",
+                        "المنتجات",
+                        "الإجمالي",
+                        "الحالة",
+                      ].map((title) => (
+                        <th
+                          key={title}
+                          className="font-medium text-right px-3 py-3 bg-primary-50 dark:bg-[#15203c] whitespace-nowrap"
+                        >
+                          {title}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="text-black dark:text-white">
+                    {recentOrders.length === 0 ? (
+                      <tr>
+                        <td
+                          colSpan={5}
+                          className="text-center py-6 text-gray-400"
+                        >
+                          لا توجد طلبات لهذا العميل
+                        </td>
+                      </tr>
+                    ) : (
+                      recentOrders.map((order) => (
+                        <tr
+                          key={order.id}
+                          className="border-b border-gray-100 dark:border-[#172036]"
+                        >
+                          <td className="py-3 px-3">
+                            <Link
+                              href={`/dashboard/orders/${order.id}`}
+                              className="text-primary-500 hover:underline"
+                            >
+                              #{order.id?.slice(0, 8)}
+                            </Link>
+                          </td>
+                          <td className="py-3 px-3 text-sm whitespace-nowrap">
+                            {formatDate(order.created_at as string)}
+                          </td>
+                          <td className="py-3 px-3 text-sm">
+                            {order.order_items?.reduce(
+                              (sum, item) => sum + item.quantity,
+                              0
+                            ) || 0}
+                          </td>
+                          <td className="py-3 px-3 text-sm font-medium">
+                            ${order.total_price}
+                          </td>
+                          <td className="py-3 px-3 text-sm">
+                            {ORDER_STATUS_LABELS[order.status]}
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
               </div>
+
+              {recentOrdersTotal > recentOrders.length && (
+                <p className="mt-3 text-sm text-gray-500">
+                  يعرض آخر {recentOrders.length} من {recentOrdersTotal} طلب
+                </p>
+              )}
             </div>
-          </div>
+          )}
         </div>
       </div>
+
+      <AuditHistoryCard entityType="user" entityId={userId} />
     </>
   );
 };
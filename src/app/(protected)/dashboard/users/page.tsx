@@ -6,14 +6,18 @@ import Link from "next/link";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { getUsers, deleteUser } from "../../../../../services/apiUsers";
 import toast from "react-hot-toast";
+import { usePermissions } from "@/components/Authentication/usePermissions";
+import UserStatsOverview from "@/components/Users/UserStatsOverview";
 
 const UsersPage: React.FC = () => {
   const [selectedRole, setSelectedRole] = useState<string>("");
   const [searchQuery, setSearchQuery] = useState<string>("");
   const [debouncedSearchQuery, setDebouncedSearchQuery] = useState<string>("");
   const [dateFilter, setDateFilter] = useState<string>("");
+  const [statusFilter, setStatusFilter] = useState<string>("");
   const [currentPage, setCurrentPage] = useState(1);
   const pageSize = 10;
+  const { can } = usePermissions();
 
   // Add debounce effect for search
   useEffect(() => {
@@ -31,12 +35,14 @@ const UsersPage: React.FC = () => {
       selectedRole,
       debouncedSearchQuery,
       dateFilter,
+      statusFilter,
     ],
     queryFn: () =>
       getUsers(currentPage, pageSize, {
         role: selectedRole,
         search: debouncedSearchQuery,
         date: dateFilter,
+        is_active: statusFilter ? statusFilter === "active" : undefined,
       }),
   });
 
@@ -65,7 +71,7 @@ const UsersPage: React.FC = () => {
 
   useEffect(() => {
     setCurrentPage(1);
-  }, [selectedRole, searchQuery, dateFilter]);
+  }, [selectedRole, searchQuery, dateFilter, statusFilter]);
 
   if (isPending)
     return (
@@ -97,24 +103,28 @@ const UsersPage: React.FC = () => {
         </ol>
       </div>
 
+      <UserStatsOverview />
+
       <div className="trezo-card bg-white dark:bg-[#0c1427] mb-[25px] p-[20px] md:p-[25px] rounded-md">
         <div className="trezo-card-header mb-[20px] md:mb-[25px] sm:flex items-center justify-between">
-          <div className="trezo-card-subtitle mt-[15px] sm:mt-0">
-            <Link
-              href="/dashboard/add-user"
-              className="inline-block transition-all rounded-md font-medium px-[13px] py-[6px] text-primary-500 border border-primary-500 hover:bg-primary-500 hover:text-white"
-            >
-              <span className="inline-block relative ltr:pl-[22px] rtl:pr-[22px]">
-                <i className="material-symbols-outlined !text-[22px] absolute ltr:-left-[4px] rtl:-right-[4px] top-1/2 -translate-y-1/2">
-                  add
-                </i>
-                أضف مستخدم جديد
-              </span>
-            </Link>
-          </div>
+          {can("admins.manage") && (
+            <div className="trezo-card-subtitle mt-[15px] sm:mt-0">
+              <Link
+                href="/dashboard/add-user"
+                className="inline-block transition-all rounded-md font-medium px-[13px] py-[6px] text-primary-500 border border-primary-500 hover:bg-primary-500 hover:text-white"
+              >
+                <span className="inline-block relative ltr:pl-[22px] rtl:pr-[22px]">
+                  <i className="material-symbols-outlined !text-[22px] absolute ltr:-left-[4px] rtl:-right-[4px] top-1/2 -translate-y-1/2">
+                    add
+                  </i>
+                  أضف مستخدم جديد
+                </span>
+              </Link>
+            </div>
+          )}
         </div>
 
-        <div className="mb-4 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        <div className="mb-4 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
           {/* Search Bar */}
           <div className="relative">
             <input
@@ -152,6 +162,17 @@ const UsersPage: React.FC = () => {
             <option value="month">هذا الشهر</option>
             <option value="year">هذا العام</option>
           </select>
+
+          {/* Status Filter */}
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value)}
+            className="w-full p-2 border transition border-[#f2f2f2] hover:bg-[#f2f2f2] rounded-lg outline-none dark:border-[#172036] dark:hover:bg-[#172036] dark:bg-[#0c1427] dark:text-white"
+          >
+            <option value="">كل الحالات</option>
+            <option value="active">نشط</option>
+            <option value="inactive">موقوف</option>
+          </select>
         </div>
 
         <div className="trezo-card-content">
@@ -164,6 +185,7 @@ const UsersPage: React.FC = () => {
                     "الرقم",
                     "المحافظة",
                     "تاريخ التسجيل",
+                    "الحالة",
                     "الإجراءات",
                   ].map((header) => (
                     <th
@@ -179,7 +201,7 @@ const UsersPage: React.FC = () => {
               <tbody className="text-black dark:text-white">
                 {users?.length === 0 ? (
                   <tr>
-                    <td colSpan={5} className="text-center py-8 text-gray-500">
+                    <td colSpan={6} className="text-center py-8 text-gray-500">
                       لا يوجد مستخدمين متاحين
                     </td>
                   </tr>
@@ -218,92 +240,107 @@ const UsersPage: React.FC = () => {
                       </td>
 
                       <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[15px] border-b border-gray-100 dark:border-[#172036] ltr:first:border-l ltr:last:border-r rtl:first:border-r rtl:last:border-l">
-                        <div className="flex items-center gap-[9px]">
-                          {/* Edit */}
-                          <div className="relative group">
-                            <Link
-                              href={`/dashboard/users/${user.id}`}
-                              className="text-gray-500 leading-none"
-                              type="button"
-                            >
-                              <i className="material-symbols-outlined !text-md">
-                                edit
-                              </i>
-                            </Link>
-
-                            {/* Tooltip */}
-                            <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 bg-gray-800 text-white text-xs rounded px-2 py-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                              تعديل
-                              <div className="absolute top-full left-1/2 -translate-x-1/2 border-4 border-white dark:border-[#172036] border-t-gray-800 dark:border-t-gray-800"></div>
+                        <span
+                          className={`px-2 py-1 rounded-full text-xs font-medium ${
+                            user.is_active === false
+                              ? "bg-danger-50 text-danger-500"
+                              : "bg-success-50 text-success-600"
+                          }`}
+                          title={user.deactivation_reason || undefined}
+                        >
+                          {user.is_active === false ? "موقوف" : "نشط"}
+                        </span>
+                      </td>
+
+                      <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[15px] border-b border-gray-100 dark:border-[#172036] ltr:first:border-l ltr:last:border-r rtl:first:border-r rtl:last:border-l">
+                        {can("users.manage") && (
+                          <div className="flex items-center gap-[9px]">
+                            {/* Edit */}
+                            <div className="relative group">
+                              <Link
+                                href={`/dashboard/users/${user.id}`}
+                                className="text-gray-500 leading-none"
+                                type="button"
+                              >
+                                <i className="material-symbols-outlined !text-md">
+                                  edit
+                                </i>
+                              </Link>
+
+                              {/* Tooltip */}
+                              <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 bg-gray-800 text-white text-xs rounded px-2 py-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                تعديل
+                                <div className="absolute top-full left-1/2 -translate-x-1/2 border-4 border-white dark:border-[#172036] border-t-gray-800 dark:border-t-gray-800"></div>
+                              </div>
                             </div>
-                          </div>
 
-                          {/* Delete */}
-                          <div className="relative group">
-                            <button
-                              onClick={() => {
-                                toast(
-                                  (t) => (
-                                    <span>
-                                      هل أنت متأكد أنك تريد حذف هذا المستخدم؟
-                                      <div
-                                        style={{
-                                          marginTop: 8,
-                                          display: "flex",
-                                          gap: 8,
-                                        }}
-                                      >
-                                        <button
-                                          onClick={() => {
-                                            deleteUserMutation(user.id!);
-                                            toast.dismiss(t.id);
-                                          }}
+                            {/* Delete */}
+                            <div className="relative group">
+                              <button
+                                onClick={() => {
+                                  toast(
+                                    (t) => (
+                                      <span>
+                                        هل أنت متأكد أنك تريد حذف هذا المستخدم؟
+                                        <div
                                           style={{
-                                            background: "#ef4444",
-                                            color: "white",
-                                            border: "none",
-                                            padding: "4px 12px",
-                                            borderRadius: 4,
-                                            marginRight: 8,
-                                            cursor: "pointer",
+                                            marginTop: 8,
+                                            display: "flex",
+                                            gap: 8,
                                           }}
                                         >
-                                          نعم
-                                        </button>
-                                        <button
-                                          onClick={() => toast.dismiss(t.id)}
-                                          style={{
-                                            background: "#e5e7eb",
-                                            color: "#111827",
-                                            border: "none",
-                                            padding: "4px 12px",
-                                            borderRadius: 4,
-                                            cursor: "pointer",
-                                          }}
-                                        >
-                                          إلغاء
-                                        </button>
-                                      </div>
-                                    </span>
-                                  ),
-                                  { duration: 6000 }
-                                );
-                              }}
-                              disabled={isPending}
-                              className="text-danger-500 leading-none"
-                            >
-                              <i className="material-symbols-outlined !text-md">
-                                delete
-                              </i>
-                            </button>
-
-                            {/* Tooltip */}
-                            <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 bg-gray-800 text-white text-xs rounded px-2 py-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                              مسح
-                              <div className="absolute top-full left-1/2 -translate-x-1/2 border-4 border-white dark:border-[#172036] border-t-gray-800 dark:border-t-gray-800"></div>
+                                          <button
+                                            onClick={() => {
+                                              deleteUserMutation(user.id!);
+                                              toast.dismiss(t.id);
+                                            }}
+                                            style={{
+                                              background: "#ef4444",
+                                              color: "white",
+                                              border: "none",
+                                              padding: "4px 12px",
+                                              borderRadius: 4,
+                                              marginRight: 8,
+                                              cursor: "pointer",
+                                            }}
+                                          >
+                                            نعم
+                                          </button>
+                                          <button
+                                            onClick={() => toast.dismiss(t.id)}
+                                            style={{
+                                              background: "#e5e7eb",
+                                              color: "#111827",
+                                              border: "none",
+                                              padding: "4px 12px",
+                                              borderRadius: 4,
+                                              cursor: "pointer",
+                                            }}
+                                          >
+                                            إلغاء
+                                          </button>
+                                        </div>
+                                      </span>
+                                    ),
+                                    { duration: 6000 }
+                                  );
+                                }}
+                                disabled={isPending}
+                                className="text-danger-500 leading-none"
+                              >
+                                <i className="material-symbols-outlined !text-md">
+                                  delete
+                                </i>
+                              </button>
+
+                              {/* Tooltip */}
+                              <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 bg-gray-800 text-white text-xs rounded px-2 py-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                مسح
+                                <div className="absolute top-full left-1/2 -translate-x-1/2 border-4 border-white dark:border-[#172036] border-t-gray-800 dark:border-t-gray-800"></div>
+                              </div>
                             </div>
                           </div>
-                        </div>
+                        )}
                       </td>
                     </tr>
                   ))
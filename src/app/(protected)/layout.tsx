@@ -20,6 +20,17 @@ export default async function ProtectedLayout({
     redirect("/");
   }
 
+  // حسابات المتجر لا تملك دوراً في لوحة التحكم
+  const { data: adminProfile } = await supabase
+    .from("admin_profiles")
+    .select("role")
+    .eq("user_id", session.user.id)
+    .maybeSingle();
+
+  if (!adminProfile) {
+    redirect("/?error=unauthorized");
+  }
+
   return (
     <LayoutProvider>
       {children}
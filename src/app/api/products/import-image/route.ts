@@ -0,0 +1,146 @@
+import { createRouteHandlerClient } from "@supabase/auth-helpers-nextjs";
+import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import {
+  AdminRole,
+  hasPermission,
+} from "../../../../../services/apiPermissions";
+
+// تنزيل صور الاستيراد من الخادم: معظم المواقع لا تسمح بجلب صورها من المتصفح (CORS)
+
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const DOWNLOAD_TIMEOUT_MS = 15 * 1000;
+
+// لا تُجلب روابط الشبكة الداخلية للخادم
+function isPrivateHost(hostname: string) {
+  const host = hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (
+    host === "localhost" ||
+    host.endsWith(".localhost") ||
+    host.endsWith(".internal")
+  ) {
+    return true;
+  }
+
+  // IPv6: loopback والعناوين المحلية والخاصة
+  if (host.includes(":")) {
+    return (
+      host === "::1" ||
+      host.startsWith("::ffff:") ||
+      /^f[cd]/.test(host) ||
+      host.startsWith("fe80:")
+    );
+  }
+
+  const parts = host.split(".").map(Number);
+  if (parts.length !== 4 || parts.some((part) => Number.isNaN(part))) {
+    return false;
+  }
+  const [a, b] = parts;
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168)
+  );
+}
+
+function parseImageUrl(value: unknown): URL | null {
+  if (typeof value !== "string") return null;
+  try {
+    const url = new URL(value);
+    if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+    return isPrivateHost(url.hostname) ? null : url;
+  } catch {
+    return null;
+  }
+}
+
+function errorResponse(message: string, status: number) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+export async function POST(request: Request) {
+  const supabase = createRouteHandlerClient({ cookies });
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  if (!session) {
+    return errorResponse("يجب تسجيل الدخول", 401);
+  }
+
+  const { data: adminProfile } = await supabase
+    .from("admin_profiles")
+    .select("role")
+    .eq("user_id", session.user.id)
+    .maybeSingle();
+
+  if (
+    !adminProfile ||
+    !hasPermission(adminProfile.role as AdminRole, "products.manage")
+  ) {
+    return errorResponse("ليس لديك صلاحية لتنفيذ هذا الإجراء", 403);
+  }
+
+  const body = await request.json().catch(() => null);
+  const url = parseImageUrl(body?.url);
+  if (!url) {
+    return errorResponse("رابط صورة غير صالح", 400);
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+    });
+  } catch {
+    return errorResponse(`تعذر تنزيل الصورة: ${url}`, 502);
+  }
+
+  // إعادة التوجيه قد تنتهي إلى عنوان داخلي
+  if (!parseImageUrl(response.url || url.toString())) {
+    return errorResponse("رابط صورة غير صالح", 400);
+  }
+
+  if (!response.ok) {
+    return errorResponse(`تعذر تنزيل الصورة (${response.status}): ${url}`, 502);
+  }
+
+  const contentType = response.headers.get("content-type")?.split(";")[0];
+  if (!contentType?.startsWith("image/")) {
+    return errorResponse(`الرابط لا يشير إلى صورة: ${url}`, 400);
+  }
+
+  if (Number(response.headers.get("content-length")) > MAX_IMAGE_BYTES) {
+    return errorResponse(`حجم الصورة أكبر من 5 ميجابايت: ${url}`, 400);
+  }
+
+  const data = await response.arrayBuffer();
+  if (data.byteLength > MAX_IMAGE_BYTES) {
+    return errorResponse(`حجم الصورة أكبر من 5 ميجابايت: ${url}`, 400);
+  }
+
+  const extension = contentType.split("/")[1]?.split("+")[0] || "jpg";
+  const fileName = `products/${Date.now()}-${Math.random()
+    .toString(36)
+    .substring(2)}.${extension}`;
+
+  // الرفع بجلسة المشرف نفسها حتى تُطبق سياسات التخزين
+  const { error } = await supabase.storage
+    .from("product-images")
+    .upload(fileName, data, { contentType });
+
+  if (error) {
+    console.error("خطأ أثناء رفع صورة المنتج:", error.message);
+    return errorResponse("تعذر رفع صورة المنتج", 500);
+  }
+
+  const { data: publicUrlData } = supabase.storage
+    .from("product-images")
+    .getPublicUrl(fileName);
+
+  return NextResponse.json({ url: publicUrlData.publicUrl });
+}
@@ -0,0 +1,41 @@
+"use client";
+
+import { AuditLogEntry, formatAuditValue } from "../../../services/apiAuditLog";
+
+interface AuditDiffListProps {
+  entry: AuditLogEntry;
+}
+
+// يعرض الحقول التي تغيّرت فقط؛ الإنشاء والحذف يعرضان القيم كاملة
+const AuditDiffList: React.FC<AuditDiffListProps> = ({ entry }) => {
+  const changes = Object.entries(entry.diff || {});
+
+  if (changes.length === 0) {
+    return <span className="text-gray-500">-</span>;
+  }
+
+  return (
+    <ul className="space-y-[4px] text-sm">
+      {changes.map(([field, change]) => (
+        <li key={field} className="break-all">
+          <span className="font-medium text-black dark:text-white">
+            {field}:
+          </span>{" "}
+          {entry.action !== "create" && (
+            <span className="text-danger-500 line-through">
+              {formatAuditValue(change.from)}
+            </span>
+          )}
+          {entry.action === "update" && " ← "}
+          {entry.action !== "delete" && (
+            <span className="text-success-600">
+              {formatAuditValue(change.to)}
+            </span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default AuditDiffList;
@@ -0,0 +1,98 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { usePermissions } from "@/components/Authentication/usePermissions";
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_ENTITY_LABELS,
+  AuditEntityType,
+  getEntityAuditLog,
+} from "../../../services/apiAuditLog";
+import AuditDiffList from "./AuditDiffList";
+
+interface AuditHistoryCardProps {
+  entityType: AuditEntityType;
+  entityId: string;
+}
+
+const AuditHistoryCard: React.FC<AuditHistoryCardProps> = ({
+  entityType,
+  entityId,
+}) => {
+  const { can } = usePermissions();
+  const canView = can("audit_log.view");
+
+  const { data: entries, isLoading } = useQuery({
+    queryKey: ["audit_log", entityType, entityId],
+    queryFn: () => getEntityAuditLog(entityType, entityId),
+    enabled: canView && !!entityId,
+  });
+
+  if (!canView) return null;
+
+  return (
+    <div className="trezo-card bg-white dark:bg-[#0c1427] mb-[25px] p-[20px] md:p-[25px] rounded-md">
+      <div className="trezo-card-header mb-[20px] md:mb-[25px] flex items-center justify-between">
+        <div className="trezo-card-title">
+          <h5 className="!mb-0">سجل التعديلات</h5>
+        </div>
+      </div>
+
+      <div className="trezo-card-content">
+        {isLoading ? (
+          <p className="text-gray-500 dark:text-gray-400 text-center py-8">
+            جاري التحميل...
+          </p>
+        ) : !entries || entries.length === 0 ? (
+          <p className="text-gray-500 dark:text-gray-400 text-center py-8">
+            لا توجد تعديلات مسجلة بعد.
+          </p>
+        ) : (
+          <div className="table-responsive overflow-x-auto">
+            <table className="w-full">
+              <thead className="text-black dark:text-white">
+                <tr>
+                  {["التاريخ", "المشرف", "الإجراء", "التغييرات"].map(
+                    (header) => (
+                      <th
+                        key={header}
+                        className="font-medium ltr:text-left rtl:text-right px-[20px] py-[11px] bg-gray-50 dark:bg-[#15203c] whitespace-nowrap"
+                      >
+                        {header}
+                      </th>
+                    )
+                  )}
+                </tr>
+              </thead>
+              <tbody className="text-black dark:text-white">
+                {entries.map((entry) => (
+                  <tr key={entry.id}>
+                    <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[12px] border-b border-gray-100 dark:border-[#172036] align-top">
+                      {new Date(entry.created_at).toLocaleString("ar-EG")}
+                    </td>
+                    <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[12px] border-b border-gray-100 dark:border-[#172036] align-top">
+                      {entry.actor_name || "غير معروف"}
+                    </td>
+                    <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[12px] border-b border-gray-100 dark:border-[#172036] align-top">
+                      {AUDIT_ACTION_LABELS[entry.action]}
+                      {entry.entity_type !== entityType && (
+                        <span className="block text-xs text-gray-500">
+                          {AUDIT_ENTITY_LABELS[entry.entity_type]}
+                        </span>
+                      )}
+                    </td>
+                    <td className="ltr:text-left rtl:text-right px-[20px] py-[12px] border-b border-gray-100 dark:border-[#172036]">
+                      <AuditDiffList entry={entry} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuditHistoryCard;
@@ -14,7 +14,7 @@ const SignInForm: React.FC = () => {
   const [showPassword, setShowPassword] = useState(false);
 
   // Custom hook to handle sign-in logic
-  const { login, isPending, isError } = useSignIn();
+  const { login, isPending, isError, error } = useSignIn();
 
   const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
@@ -105,7 +105,8 @@ const SignInForm: React.FC = () => {
 
                 {isError && (
                   <div className="text-red-500 text-sm mb-4">
-                    البريد الإلكتروني أو كلمة المرور غير صالحة
+                    {error?.message ||
+                      "البريد الإلكتروني أو كلمة المرور غير صالحة"}
                   </div>
                 )}
 
@@ -0,0 +1,18 @@
+import { useAdminProfile } from "@/components/MyProfile/useAdminProfile";
+import {
+  AdminRole,
+  Permission,
+  hasPermission,
+} from "../../../services/apiPermissions";
+
+export function usePermissions() {
+  const { data: adminProfile, isPending } = useAdminProfile();
+  const role = (adminProfile?.role as AdminRole | undefined) ?? null;
+
+  return {
+    role,
+    branchId: (adminProfile?.branch_id as string | null | undefined) ?? null,
+    isPending,
+    can: (permission: Permission) => hasPermission(role, permission),
+  };
+}
@@ -9,6 +9,7 @@ export function useSignIn() {
     mutate: login,
     isPending,
     isError,
+    error,
   } = useMutation({
     mutationFn: async ({
       email,
@@ -28,5 +29,5 @@ export function useSignIn() {
     },
   });
 
-  return { login, isPending, isError };
+  return { login, isPending, isError, error };
 }
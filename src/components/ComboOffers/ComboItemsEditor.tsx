@@ -0,0 +1,199 @@
+"use client";
+
+import {
+  COMBO_ISSUE_LABELS,
+  ComboComponentProduct,
+  ComboOfferItem,
+  getComboItemName,
+  getComboItemUnitPrice,
+  getComboSummary,
+} from "../../../services/apiComboOffers";
+import { getVariantLabel } from "../../../services/apiProducts";
+
+interface ComboItemsEditorProps {
+  items: ComboOfferItem[];
+  onChange: (items: ComboOfferItem[]) => void;
+  products: ComboComponentProduct[];
+  totalPrice: number;
+}
+
+const inputClassName =
+  "h-[45px] rounded-md text-black dark:text-white border border-gray-200 dark:border-[#172036] bg-white dark:bg-[#0c1427] px-[12px] block w-full outline-0 transition-all focus:border-primary-500";
+
+const ComboItemsEditor: React.FC<ComboItemsEditorProps> = ({
+  items,
+  onChange,
+  products,
+  totalPrice,
+}) => {
+  // الأسطر الجديدة التي لم يُختر منتجها بعد لا تدخل في الحساب
+  const summary = getComboSummary(
+    items.filter((item) => item.id || item.product_id),
+    Number(totalPrice) || 0
+  );
+
+  const updateItem = (index: number, changes: Partial<ComboOfferItem>) =>
+    onChange(
+      items.map((item, i) => (i === index ? { ...item, ...changes } : item))
+    );
+
+  const selectProduct = (index: number, productId: string) => {
+    const product = products.find((p) => p.id === productId) || null;
+    updateItem(index, {
+      product_id: product?.id || null,
+      products: product,
+      variant_id: null,
+      product_variants: null,
+    });
+  };
+
+  const selectVariant = (index: number, variantId: string) => {
+    const variant =
+      products
+        .find((p) => p.id === items[index].product_id)
+        ?.product_variants?.find((v) => v.id === variantId) || null;
+    updateItem(index, {
+      variant_id: variant?.id || null,
+      product_variants: variant,
+    });
+  };
+
+  return (
+    <div>
+      <div className="space-y-[10px]">
+        {items.map((item, index) => {
+          const isMissing =
+            !!item.id && (!item.products || !!item.products.deleted_at);
+          const variants =
+            products.find((p) => p.id === item.product_id)?.product_variants ||
+            [];
+
+          return (
+            <div
+              key={index}
+              className="grid grid-cols-12 gap-[10px] items-center"
+            >
+              <div className="col-span-12 sm:col-span-5">
+                <select
+                  value={item.product_id || ""}
+                  onChange={(e) => selectProduct(index, e.target.value)}
+                  className={`${inputClassName} ${
+                    isMissing ? "!border-danger-500" : ""
+                  }`}
+                >
+                  <option value="">اختر المنتج</option>
+                  {isMissing && item.product_id && (
+                    <option value={item.product_id} disabled>
+                      {getComboItemName(item)} (محذوف)
+                    </option>
+                  )}
+                  {products.map((product) => (
+                    <option key={product.id} value={product.id}>
+                      {product.name_ar}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="col-span-6 sm:col-span-3">
+                <select
+                  value={item.variant_id || ""}
+                  onChange={(e) => selectVariant(index, e.target.value)}
+                  disabled={variants.length === 0}
+                  className={`${inputClassName} disabled:opacity-50`}
+                >
+                  <option value="">
+                    {variants.length === 0 ? "بدون متغيرات" : "أي متغير"}
+                  </option>
+                  {variants.map((variant) => (
+                    <option key={variant.id} value={variant.id}>
+                      {getVariantLabel(variant) || variant.sku}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="col-span-3 sm:col-span-2">
+                <input
+                  type="number"
+                  min={1}
+                  value={item.quantity}
+                  onChange={(e) =>
+                    updateItem(index, {
+                      quantity: Math.max(Number(e.target.value) || 1, 1),
+                    })
+                  }
+                  className={inputClassName}
+                  title="الكمية"
+                />
+              </div>
+              <div className="col-span-3 sm:col-span-2 flex items-center justify-between gap-[6px]">
+                <span className="text-sm text-gray-500 whitespace-nowrap">
+                  ${(getComboItemUnitPrice(item) * item.quantity).toFixed(2)}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => onChange(items.filter((_, i) => i !== index))}
+                  className="text-danger-500 leading-none"
+                >
+                  <i className="material-symbols-outlined !text-md">delete</i>
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <button
+        type="button"
+        onClick={() =>
+          onChange([
+            ...items,
+            { product_id: null, variant_id: null, quantity: 1 },
+          ])
+        }
+        className="mt-[12px] inline-block transition-all rounded-md font-medium px-[13px] py-[6px] text-primary-500 border border-primary-500 hover:bg-primary-500 hover:text-white"
+      >
+        <span className="relative ltr:pl-6 rtl:pr-6">
+          <i className="material-symbols-outlined absolute ltr:left-0 rtl:right-0 top-1/2 -translate-y-1/2">
+            add
+          </i>
+          إضافة منتج
+        </span>
+      </button>
+
+      {items.length > 0 && (
+        <div className="mt-[15px] p-[15px] rounded-md bg-gray-50 dark:bg-[#15203c] text-sm space-y-[6px]">
+          <p className="flex justify-between">
+            <span>مجموع أسعار المنتجات</span>
+            <span className="font-medium">${summary.itemsTotal}</span>
+          </p>
+          <p className="flex justify-between">
+            <span>سعر العرض</span>
+            <span className="font-medium">${Number(totalPrice) || 0}</span>
+          </p>
+          <p
+            className={`flex justify-between font-semibold ${
+              summary.savings > 0 ? "text-success-600" : "text-danger-500"
+            }`}
+          >
+            <span>التوفير</span>
+            <span>
+              ${summary.savings} ({summary.savingsPercent}%)
+            </span>
+          </p>
+          {summary.savings <= 0 && (
+            <p className="text-danger-500">
+              سعر العرض لا يقل عن مجموع أسعار منتجاته
+            </p>
+          )}
+          {summary.issues.map((issue, index) => (
+            <p key={index} className="text-orange-500">
+              {issue.name}: {COMBO_ISSUE_LABELS[issue.type]}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComboItemsEditor;
@@ -0,0 +1,128 @@
+"use client";
+
+import React, { useEffect, useRef } from "react";
+import L from "leaflet";
+import "leaflet-draw";
+import "leaflet/dist/leaflet.css";
+import "leaflet-draw/dist/leaflet.draw.css";
+import type { LatLng } from "../../../services/apiDeliveryZones";
+
+// رسم حدود منطقة التوصيل على الخريطة (Leaflet + leaflet-draw)؛ المنطقة مضلع واحد
+
+// القاهرة، عندما لا توجد حدود بعد
+const DEFAULT_CENTER: L.LatLngTuple = [30.0444, 31.2357];
+const DEFAULT_ZOOM = 11;
+
+interface ZoneMapEditorProps {
+  points: LatLng[];
+  onChange: (points: LatLng[]) => void;
+}
+
+function samePoints(a: LatLng[], b: LatLng[]) {
+  return (
+    a.length === b.length &&
+    a.every((point, i) => point.lat === b[i].lat && point.lng === b[i].lng)
+  );
+}
+
+function toPoints(layer: L.Polygon): LatLng[] {
+  const ring = layer.getLatLngs()[0] as L.LatLng[];
+  return ring.map((point) => ({
+    lat: Number(point.lat.toFixed(6)),
+    lng: Number(point.lng.toFixed(6)),
+  }));
+}
+
+const ZoneMapEditor: React.FC<ZoneMapEditorProps> = ({ points, onChange }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const drawnRef = useRef<L.FeatureGroup | null>(null);
+  // الحدود المرسومة حالياً، حتى لا يُعاد رسم ما خرج من الخريطة نفسها
+  const pointsRef = useRef<LatLng[]>([]);
+  const onChangeRef = useRef(onChange);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const map = L.map(containerRef.current).setView(
+      DEFAULT_CENTER,
+      DEFAULT_ZOOM
+    );
+    L.tileLayer("https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png", {
+      attribution: "&copy; OpenStreetMap",
+      maxZoom: 19,
+    }).addTo(map);
+
+    const drawn = new L.FeatureGroup().addTo(map);
+    map.addControl(
+      new L.Control.Draw({
+        position: "topright",
+        draw: {
+          polygon: { allowIntersection: false, showArea: false },
+          polyline: false,
+          rectangle: false,
+          circle: false,
+          marker: false,
+          circlemarker: false,
+        },
+        edit: { featureGroup: drawn },
+      })
+    );
+
+    const emit = () => {
+      const layer = drawn.getLayers()[0] as L.Polygon | undefined;
+      const next = layer ? toPoints(layer) : [];
+      pointsRef.current = next;
+      onChangeRef.current(next);
+    };
+
+    map.on(L.Draw.Event.CREATED, (event) => {
+      drawn.clearLayers();
+      drawn.addLayer((event as L.DrawEvents.Created).layer);
+      emit();
+    });
+    map.on(L.Draw.Event.EDITED, emit);
+    map.on(L.Draw.Event.DELETED, emit);
+
+    mapRef.current = map;
+    drawnRef.current = drawn;
+
+    return () => {
+      map.remove();
+      mapRef.current = null;
+      drawnRef.current = null;
+      pointsRef.current = [];
+    };
+  }, []);
+
+  // حدود أُدخلت نصاً أو منطقة قائمة فُتحت للتعديل
+  useEffect(() => {
+    const map = mapRef.current;
+    const drawn = drawnRef.current;
+    if (!map || !drawn || samePoints(points, pointsRef.current)) return;
+
+    pointsRef.current = points;
+    drawn.clearLayers();
+    if (points.length >= 3) {
+      const polygon = L.polygon(
+        points.map((point) => [point.lat, point.lng] as L.LatLngTuple)
+      );
+      drawn.addLayer(polygon);
+      map.fitBounds(polygon.getBounds(), { padding: [20, 20] });
+    }
+  }, [points]);
+
+  return (
+    <div
+      ref={containerRef}
+      dir="ltr"
+      className="h-[360px] w-full rounded-md border border-gray-200 dark:border-[#172036] z-0"
+    />
+  );
+};
+
+export default ZoneMapEditor;
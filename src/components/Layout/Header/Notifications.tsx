@@ -0,0 +1,176 @@
+"use client";
+
+import React, { useState, useEffect, useRef } from "react";
+import { useRouter } from "next/navigation";
+import { useOrderNotifications } from "./useOrderNotifications";
+
+const Notifications: React.FC = () => {
+  const router = useRouter();
+  const {
+    enabled,
+    notifications,
+    unreadCount,
+    soundEnabled,
+    desktopEnabled,
+    markAsRead,
+    markAllAsRead,
+    clearAll,
+    toggleSound,
+    toggleDesktop,
+  } = useOrderNotifications();
+
+  const [active, setActive] = useState<boolean>(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (
+        dropdownRef.current &&
+        !dropdownRef.current.contains(event.target as Node)
+      ) {
+        setActive(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClickOutside);
+
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+    };
+  }, []);
+
+  if (!enabled) return null;
+
+  const handleOpen = (id: string, orderId: string) => {
+    markAsRead(id);
+    setActive(false);
+    router.push(`/dashboard/orders/${orderId}`);
+  };
+
+  return (
+    <div
+      className="relative mx-[8px] md:mx-[10px] lg:mx-[12px] ltr:first:ml-0 ltr:last:mr-0 rtl:first:mr-0 rtl:last:ml-0"
+      ref={dropdownRef}
+    >
+      <button
+        type="button"
+        onClick={() => setActive((prevState) => !prevState)}
+        className="leading-none inline-block transition-all relative top-[2px] hover:text-primary-500"
+        title="الإشعارات"
+      >
+        <i className="material-symbols-outlined !text-[20px] md:!text-[22px]">
+          notifications
+        </i>
+        {unreadCount > 0 && (
+          <span className="absolute -top-[6px] ltr:-right-[8px] rtl:-left-[8px] min-w-[18px] h-[18px] px-[4px] rounded-full bg-danger-500 text-white text-[10px] font-semibold flex items-center justify-center">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {active && (
+        <div className="bg-white dark:bg-[#0c1427] transition-all shadow-3xl dark:shadow-none pt-[15px] absolute mt-[13px] md:mt-[14px] w-[290px] sm:w-[350px] z-[1] top-full ltr:right-0 rtl:left-0 rounded-md">
+          <div className="flex items-center justify-between border-b border-gray-100 dark:border-[#172036] pb-[12px] mx-[20px]">
+            <span className="font-semibold text-black dark:text-white">
+              الإشعارات{" "}
+              {unreadCount > 0 && (
+                <span className="text-gray-500 font-normal">
+                  ({unreadCount})
+                </span>
+              )}
+            </span>
+            {unreadCount > 0 && (
+              <button
+                type="button"
+                onClick={markAllAsRead}
+                className="text-xs text-primary-500 hover:underline"
+              >
+                تحديد الكل كمقروء
+              </button>
+            )}
+          </div>
+
+          <ul className="max-h-[320px] overflow-y-auto">
+            {notifications.length === 0 ? (
+              <li className="text-center text-sm text-gray-500 py-[20px]">
+                لا توجد إشعارات
+              </li>
+            ) : (
+              notifications.map((notification) => (
+                <li
+                  key={notification.id}
+                  className="border-b border-gray-100 dark:border-[#172036] last:border-none"
+                >
+                  <button
+                    type="button"
+                    onClick={() =>
+                      handleOpen(notification.id, notification.orderId)
+                    }
+                    className={`w-full ltr:text-left rtl:text-right py-[10px] px-[20px] flex items-start gap-[10px] transition-all hover:bg-gray-50 dark:hover:bg-[#15203c] ${
+                      notification.read ? "" : "bg-primary-50 dark:bg-[#15203c]"
+                    }`}
+                  >
+                    <i
+                      className={`material-symbols-outlined !text-[20px] mt-[2px] ${
+                        notification.type === "created"
+                          ? "text-success-600"
+                          : "text-primary-500"
+                      }`}
+                    >
+                      {notification.type === "created"
+                        ? "shopping_cart"
+                        : "sync_alt"}
+                    </i>
+                    <span className="block">
+                      <span className="block text-black dark:text-white font-medium text-sm">
+                        {notification.title}
+                      </span>
+                      <span className="block text-xs text-gray-500 dark:text-gray-400">
+                        {notification.message}
+                      </span>
+                      <span className="block text-[11px] text-gray-400 mt-[2px]">
+                        {new Date(notification.createdAt).toLocaleString(
+                          "ar-EG"
+                        )}
+                      </span>
+                    </span>
+                  </button>
+                </li>
+              ))
+            )}
+          </ul>
+
+          <div className="border-t border-gray-100 dark:border-[#172036] px-[20px] py-[12px] space-y-[8px] text-sm">
+            <label className="flex items-center justify-between cursor-pointer">
+              <span>تنبيه صوتي</span>
+              <input
+                type="checkbox"
+                checked={soundEnabled}
+                onChange={toggleSound}
+              />
+            </label>
+            <label className="flex items-center justify-between cursor-pointer">
+              <span>إشعارات سطح المكتب</span>
+              <input
+                type="checkbox"
+                checked={desktopEnabled}
+                onChange={toggleDesktop}
+              />
+            </label>
+            {notifications.length > 0 && (
+              <button
+                type="button"
+                onClick={clearAll}
+                className="text-xs text-danger-500 hover:underline"
+              >
+                مسح الإشعارات
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Notifications;
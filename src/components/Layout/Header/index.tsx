@@ -6,6 +6,8 @@ import DarkMode from "./DarkMode";
 
 import Fullscreen from "./Fullscreen";
 
+import Notifications from "./Notifications";
+
 import ProfileMenu from "./ProfileMenu";
 
 interface HeaderProps {
@@ -55,6 +57,8 @@ const Header: React.FC<HeaderProps> = ({ toggleActive }) => {
 
             <Fullscreen />
 
+            <Notifications />
+
             <ProfileMenu />
           </div>
         </div>
@@ -0,0 +1,229 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  ORDER_STATUS_LABELS,
+  Order,
+  OrderChangeEvent,
+  subscribeToOrderChanges,
+} from "../../../../services/apiOrders";
+import { useUser } from "@/components/Authentication/useUser";
+import { usePermissions } from "@/components/Authentication/usePermissions";
+
+export interface OrderNotification {
+  id: string;
+  orderId: string;
+  type: OrderChangeEvent["type"];
+  title: string;
+  message: string;
+  createdAt: string;
+  read: boolean;
+}
+
+const STORAGE_KEY = "orderNotifications";
+const SOUND_KEY = "orderNotificationsSound";
+const DESKTOP_KEY = "orderNotificationsDesktop";
+const MAX_NOTIFICATIONS = 30;
+
+function loadNotifications(): OrderNotification[] {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+  } catch {
+    return [];
+  }
+}
+
+// نغمة قصيرة بدون ملف صوتي
+function playNotificationSound() {
+  try {
+    const context = new AudioContext();
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+
+    oscillator.type = "sine";
+    oscillator.frequency.value = 880;
+    gain.gain.setValueAtTime(0.2, context.currentTime);
+    gain.gain.exponentialRampToValueAtTime(0.001, context.currentTime + 0.4);
+
+    oscillator.connect(gain);
+    gain.connect(context.destination);
+    oscillator.start();
+    oscillator.stop(context.currentTime + 0.4);
+    oscillator.onended = () => context.close();
+  } catch (error) {
+    console.error("تعذر تشغيل صوت الإشعار:", error);
+  }
+}
+
+function toNotification(event: OrderChangeEvent): OrderNotification {
+  if (event.type === "created") {
+    const orderId = event.order.id as string;
+    return {
+      id: `created-${orderId}`,
+      orderId,
+      type: event.type,
+      title: `طلب جديد #${orderId.slice(0, 8)}`,
+      message: `بقيمة $${Number(event.order.total_price || 0).toFixed(2)}`,
+      createdAt: event.order.created_at || new Date().toISOString(),
+      read: false,
+    };
+  }
+
+  const { history } = event;
+  return {
+    id: `status-${history.id}`,
+    orderId: history.order_id,
+    type: event.type,
+    title: `تحديث الطلب #${history.order_id.slice(0, 8)}`,
+    message: `${
+      history.from_status ? ORDER_STATUS_LABELS[history.from_status] : "—"
+    } ← ${ORDER_STATUS_LABELS[history.to_status] ?? history.to_status}`,
+    createdAt: history.created_at,
+    read: false,
+  };
+}
+
+export function useOrderNotifications() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { user } = useUser();
+  const { can } = usePermissions();
+  const canViewOrders = can("orders.view");
+
+  const [notifications, setNotifications] = useState<OrderNotification[]>([]);
+  const [soundEnabled, setSoundEnabled] = useState(false);
+  const [desktopEnabled, setDesktopEnabled] = useState(false);
+
+  // القيم الحالية داخل معالج الاشتراك دون إعادة الاشتراك عند كل تغيير
+  const settingsRef = useRef({ soundEnabled, desktopEnabled, userId: "" });
+  settingsRef.current = {
+    soundEnabled,
+    desktopEnabled,
+    userId: user?.id || "",
+  };
+
+  useEffect(() => {
+    setNotifications(loadNotifications());
+    setSoundEnabled(localStorage.getItem(SOUND_KEY) === "on");
+    setDesktopEnabled(
+      localStorage.getItem(DESKTOP_KEY) === "on" &&
+        typeof Notification !== "undefined" &&
+        Notification.permission === "granted"
+    );
+  }, []);
+
+  const updateNotifications = useCallback(
+    (update: (current: OrderNotification[]) => OrderNotification[]) => {
+      setNotifications((current) => {
+        const next = update(current).slice(0, MAX_NOTIFICATIONS);
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+        return next;
+      });
+    },
+    []
+  );
+
+  useEffect(() => {
+    if (!canViewOrders) return;
+
+    return subscribeToOrderChanges((event) => {
+      // تحديث الكاش مباشرة ثم إعادة الجلب في الخلفية
+      if (event.type === "status_changed") {
+        const { order_id, to_status } = event.history;
+        queryClient.setQueriesData<{ orders: Order[]; total: number }>(
+          { queryKey: ["orders"] },
+          (old) =>
+            old && {
+              ...old,
+              orders: old.orders.map((order) =>
+                order.id === order_id ? { ...order, status: to_status } : order
+              ),
+            }
+        );
+        queryClient.invalidateQueries({ queryKey: ["order", order_id] });
+        queryClient.invalidateQueries({
+          queryKey: ["orderStatusHistory", order_id],
+        });
+      }
+      queryClient.invalidateQueries({ queryKey: ["orders"] });
+      queryClient.invalidateQueries({ queryKey: ["orderStats"] });
+
+      // لا داعي لتنبيه الموظف بتغيير قام به بنفسه
+      const settings = settingsRef.current;
+      if (
+        event.type === "status_changed" &&
+        event.history.changed_by === settings.userId
+      ) {
+        return;
+      }
+
+      const notification = toNotification(event);
+      updateNotifications((current) => [
+        notification,
+        ...current.filter((item) => item.id !== notification.id),
+      ]);
+
+      if (settings.soundEnabled) playNotificationSound();
+
+      if (
+        settings.desktopEnabled &&
+        typeof Notification !== "undefined" &&
+        Notification.permission === "granted"
+      ) {
+        const desktopNotification = new Notification(notification.title, {
+          body: notification.message,
+          tag: notification.id,
+        });
+        desktopNotification.onclick = () => {
+          window.focus();
+          router.push(`/dashboard/orders/${notification.orderId}`);
+        };
+      }
+    });
+  }, [canViewOrders, queryClient, router, updateNotifications]);
+
+  const markAsRead = (id: string) =>
+    updateNotifications((current) =>
+      current.map((item) => (item.id === id ? { ...item, read: true } : item))
+    );
+
+  const markAllAsRead = () =>
+    updateNotifications((current) =>
+      current.map((item) => ({ ...item, read: true }))
+    );
+
+  const clearAll = () => updateNotifications(() => []);
+
+  const toggleSound = () => {
+    const next = !soundEnabled;
+    localStorage.setItem(SOUND_KEY, next ? "on" : "off");
+    setSoundEnabled(next);
+    if (next) playNotificationSound();
+  };
+
+  const toggleDesktop = async () => {
+    if (typeof Notification === "undefined") return;
+
+    let next = !desktopEnabled;
+    if (next && Notification.permission !== "granted") {
+      next = (await Notification.requestPermission()) === "granted";
+    }
+    localStorage.setItem(DESKTOP_KEY, next ? "on" : "off");
+    setDesktopEnabled(next);
+  };
+
+  return {
+    enabled: canViewOrders,
+    notifications,
+    unreadCount: notifications.filter((item) => !item.read).length,
+    soundEnabled,
+    desktopEnabled,
+    markAsRead,
+    markAllAsRead,
+    clearAll,
+    toggleSound,
+    toggleDesktop,
+  };
+}
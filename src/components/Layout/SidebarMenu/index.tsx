@@ -5,6 +5,7 @@ import Link from "next/link";
 import Image from "next/image";
 import { usePathname } from "next/navigation";
 import { useLogout } from "@/components/Authentication/useLogout";
+import { usePermissions } from "@/components/Authentication/usePermissions";
 
 interface SidebarMenuProps {
   toggleActive: () => void;
@@ -14,6 +15,7 @@ const SidebarMenu: React.FC<SidebarMenuProps> = ({ toggleActive }) => {
   const pathname = usePathname();
 
   const { logout } = useLogout();
+  const { can } = usePermissions();
 
   // Initialize openIndex to 0 to open the first item by default
   const [openIndex, setOpenIndex] = React.useState<number | null>(0);
@@ -95,56 +97,148 @@ const SidebarMenu: React.FC<SidebarMenuProps> = ({ toggleActive }) => {
                       openIndex === 0 ? "open" : "hidden"
                     }`}
                   >
-                    <li className="sidemenu-item mb-[4px] last:mb-0">
-                      <Link
-                        href="/dashboard/news/create-news"
-                        className={`sidemenu-link rounded-md flex items-center relative transition-all font-medium text-gray-500 dark:text-gray-400 py-[9px] ltr:pl-[38px] ltr:pr-[30px] rtl:pr-[14px] rtl:pl-[30px] hover:text-primary-500 hover:bg-primary-50 w-full text-left dark:hover:bg-[#15203c] ${
-                          pathname === "/dashboard/news/create-news"
-                            ? "active"
-                            : ""
-                        }`}
-                      >
-                        <i className="ri-newspaper-line  transition-all text-gray-500 dark:text-gray-400 ltr:mr-[7px] rtl:ml-[7px] !text-[22px] leading-none relative -top-px"></i>
-                        إنشاء منتج
-                      </Link>
-                    </li>
-                    <li className="sidemenu-item mb-[4px] last:mb-0">
-                      <Link
-                        href="/dashboard/news/categories/"
-                        className={`sidemenu-link rounded-md flex items-center relative transition-all font-medium text-gray-500 dark:text-gray-400 py-[9px] ltr:pl-[38px] ltr:pr-[30px] rtl:pr-[14px] rtl:pl-[30px] hover:text-primary-500 hover:bg-primary-50 w-full text-left dark:hover:bg-[#15203c] ${
-                          pathname === "/dashboard/news/categories/"
-                            ? "active"
-                            : ""
-                        }`}
-                      >
-                        <i className="ri-price-tag-3-line  transition-all text-gray-500 dark:text-gray-400 ltr:mr-[7px] rtl:ml-[7px] !text-[22px] leading-none relative -top-px"></i>
-                        تصنيفات
-                      </Link>
-                    </li>
+                    {can("products.manage") && (
+                      <li className="sidemenu-item mb-[4px] last:mb-0">
+                        <Link
+                          href="/dashboard/news/create-news"
+                          className={`sidemenu-link rounded-md flex items-center relative transition-all font-medium text-gray-500 dark:text-gray-400 py-[9px] ltr:pl-[38px] ltr:pr-[30px] rtl:pr-[14px] rtl:pl-[30px] hover:text-primary-500 hover:bg-primary-50 w-full text-left dark:hover:bg-[#15203c] ${
+                            pathname === "/dashboard/news/create-news"
+                              ? "active"
+                              : ""
+                          }`}
+                        >
+                          <i className="ri-newspaper-line  transition-all text-gray-500 dark:text-gray-400 ltr:mr-[7px] rtl:ml-[7px] !text-[22px] leading-none relative -top-px"></i>
+                          إنشاء منتج
+                        </Link>
+                      </li>
+                    )}
+                    {can("categories.manage") && (
+                      <li className="sidemenu-item mb-[4px] last:mb-0">
+                        <Link
+                          href="/dashboard/news/categories/"
+                          className={`sidemenu-link rounded-md flex items-center relative transition-all font-medium text-gray-500 dark:text-gray-400 py-[9px] ltr:pl-[38px] ltr:pr-[30px] rtl:pr-[14px] rtl:pl-[30px] hover:text-primary-500 hover:bg-primary-50 w-full text-left dark:hover:bg-[#15203c] ${
+                            pathname === "/dashboard/news/categories/"
+                              ? "active"
+                              : ""
+                          }`}
+                        >
+                          <i className="ri-price-tag-3-line  transition-all text-gray-500 dark:text-gray-400 ltr:mr-[7px] rtl:ml-[7px] !text-[22px] leading-none relative -top-px"></i>
+                          تصنيفات
+                        </Link>
+                      </li>
+                    )}
                   </div>
                 </ul>
               </div>
             </div>
 
-            <Link
-              href="/dashboard/orders"
-              className={`sidemenu-link rounded-md flex items-center relative transition-all font-medium text-gray-500 dark:text-gray-400 py-[9px] ltr:pl-[38px] ltr:pr-[30px] rtl:pr-[14px] rtl:pl-[30px] hover:text-primary-500 hover:bg-primary-50 w-full text-left dark:hover:bg-[#15203c] ${
-                pathname === "/dashboard/orders/" ? "active" : ""
-              }`}
-            >
-              <i className="ri-multi-image-fill  transition-all text-gray-500 dark:text-gray-400 ltr:mr-[7px] rtl:ml-[7px] !text-[22px] leading-none relative -top-px"></i>
-              قائمة الطلبات
-            </Link>
-
-            <Link
-              href="/dashboard/users/"
-              className={`sidemenu-link rounded-md flex items-center relative transition-all font-medium text-gray-500 dark:text-gray-400 py-[9px] ltr:pl-[38px] ltr:pr-[30px] rtl:pr-[14px] rtl:pl-[30px] hover:text-primary-500 hover:bg-primary-50 w-full text-left dark:hover:bg-[#15203c] ${
-                pathname === "/dashboard/users/" ? "active" : ""
-              }`}
-            >
-              <i className="ri-menu-search-line  transition-all text-gray-500 dark:text-gray-400 ltr:mr-[7px] rtl:ml-[7px] !text-[22px] leading-none relative -top-px"></i>
-              قائمة المستخدمين
-            </Link>
+            {can("orders.view") && (
+              <Link
+                href="/dashboard/orders"
+                className={`sidemenu-link rounded-md flex items-center relative transition-all font-medium text-gray-500 dark:text-gray-400 py-[9px] ltr:pl-[38px] ltr:pr-[30px] rtl:pr-[14px] rtl:pl-[30px] hover:text-primary-500 hover:bg-primary-50 w-full text-left dark:hover:bg-[#15203c] ${
+                  pathname === "/dashboard/orders/" ? "active" : ""
+                }`}
+              >
+                <i className="ri-multi-image-fill  transition-all text-gray-500 dark:text-gray-400 ltr:mr-[7px] rtl:ml-[7px] !text-[22px] leading-none relative -top-px"></i>
+                قائمة الطلبات
+              </Link>
+            )}
+
+            {can("orders.view") && (
+              <Link
+                href="/dashboard/kitchen/"
+                className={`sidemenu-link rounded-md flex items-center relative transition-all font-medium text-gray-500 dark:text-gray-400 py-[9px] ltr:pl-[38px] ltr:pr-[30px] rtl:pr-[14px] rtl:pl-[30px] hover:text-primary-500 hover:bg-primary-50 w-full text-left dark:hover:bg-[#15203c] ${
+                  pathname === "/dashboard/kitchen/" ? "active" : ""
+                }`}
+              >
+                <i className="ri-restaurant-line  transition-all text-gray-500 dark:text-gray-400 ltr:mr-[7px] rtl:ml-[7px] !text-[22px] leading-none relative -top-px"></i>
+                شاشة المطبخ
+              </Link>
+            )}
+
+            {can("orders.view") && (
+              <Link
+                href="/dashboard/drivers/"
+                className={`sidemenu-link rounded-md flex items-center relative transition-all font-medium text-gray-500 dark:text-gray-400 py-[9px] ltr:pl-[38px] ltr:pr-[30px] rtl:pr-[14px] rtl:pl-[30px] hover:text-primary-500 hover:bg-primary-50 w-full text-left dark:hover:bg-[#15203c] ${
+                  pathname === "/dashboard/drivers/" ? "active" : ""
+                }`}
+              >
+                <i className="ri-e-bike-2-line  transition-all text-gray-500 dark:text-gray-400 ltr:mr-[7px] rtl:ml-[7px] !text-[22px] leading-none relative -top-px"></i>
+                المندوبون
+              </Link>
+            )}
+
+            {can("orders.view") && (
+              <Link
+                href="/dashboard/reports/"
+                className={`sidemenu-link rounded-md flex items-center relative transition-all font-medium text-gray-500 dark:text-gray-400 py-[9px] ltr:pl-[38px] ltr:pr-[30px] rtl:pr-[14px] rtl:pl-[30px] hover:text-primary-500 hover:bg-primary-50 w-full text-left dark:hover:bg-[#15203c] ${
+                  pathname === "/dashboard/reports/" ? "active" : ""
+                }`}
+              >
+                <i className="ri-bar-chart-box-line  transition-all text-gray-500 dark:text-gray-400 ltr:mr-[7px] rtl:ml-[7px] !text-[22px] leading-none relative -top-px"></i>
+                تقارير المبيعات
+              </Link>
+            )}
+
+            {can("coupons.manage") && (
+              <Link
+                href="/dashboard/coupons/"
+                className={`sidemenu-link rounded-md flex items-center relative transition-all font-medium text-gray-500 dark:text-gray-400 py-[9px] ltr:pl-[38px] ltr:pr-[30px] rtl:pr-[14px] rtl:pl-[30px] hover:text-primary-500 hover:bg-primary-50 w-full text-left dark:hover:bg-[#15203c] ${
+                  pathname === "/dashboard/coupons/" ? "active" : ""
+                }`}
+              >
+                <i className="ri-coupon-3-line  transition-all text-gray-500 dark:text-gray-400 ltr:mr-[7px] rtl:ml-[7px] !text-[22px] leading-none relative -top-px"></i>
+                الكوبونات
+              </Link>
+            )}
+
+            {can("users.view") && (
+              <Link
+                href="/dashboard/users/"
+                className={`sidemenu-link rounded-md flex items-center relative transition-all font-medium text-gray-500 dark:text-gray-400 py-[9px] ltr:pl-[38px] ltr:pr-[30px] rtl:pr-[14px] rtl:pl-[30px] hover:text-primary-500 hover:bg-primary-50 w-full text-left dark:hover:bg-[#15203c] ${
+                  pathname === "/dashboard/users/" ? "active" : ""
+                }`}
+              >
+                <i className="ri-menu-search-line  transition-all text-gray-500 dark:text-gray-400 ltr:mr-[7px] rtl:ml-[7px] !text-[22px] leading-none relative -top-px"></i>
+                قائمة المستخدمين
+              </Link>
+            )}
+
+            {can("users.view") && (
+              <Link
+                href="/dashboard/segments/"
+                className={`sidemenu-link rounded-md flex items-center relative transition-all font-medium text-gray-500 dark:text-gray-400 py-[9px] ltr:pl-[38px] ltr:pr-[30px] rtl:pr-[14px] rtl:pl-[30px] hover:text-primary-500 hover:bg-primary-50 w-full text-left dark:hover:bg-[#15203c] ${
+                  pathname === "/dashboard/segments/" ? "active" : ""
+                }`}
+              >
+                <i className="ri-group-line  transition-all text-gray-500 dark:text-gray-400 ltr:mr-[7px] rtl:ml-[7px] !text-[22px] leading-none relative -top-px"></i>
+                شرائح العملاء
+              </Link>
+            )}
+
+            {can("audit_log.view") && (
+              <Link
+                href="/dashboard/audit-log/"
+                className={`sidemenu-link rounded-md flex items-center relative transition-all font-medium text-gray-500 dark:text-gray-400 py-[9px] ltr:pl-[38px] ltr:pr-[30px] rtl:pr-[14px] rtl:pl-[30px] hover:text-primary-500 hover:bg-primary-50 w-full text-left dark:hover:bg-[#15203c] ${
+                  pathname === "/dashboard/audit-log/" ? "active" : ""
+                }`}
+              >
+                <i className="ri-history-line  transition-all text-gray-500 dark:text-gray-400 ltr:mr-[7px] rtl:ml-[7px] !text-[22px] leading-none relative -top-px"></i>
+                سجل التدقيق
+              </Link>
+            )}
+
+            {can("products.manage") && (
+              <Link
+                href="/dashboard/trash/"
+                className={`sidemenu-link rounded-md flex items-center relative transition-all font-medium text-gray-500 dark:text-gray-400 py-[9px] ltr:pl-[38px] ltr:pr-[30px] rtl:pr-[14px] rtl:pl-[30px] hover:text-primary-500 hover:bg-primary-50 w-full text-left dark:hover:bg-[#15203c] ${
+                  pathname === "/dashboard/trash/" ? "active" : ""
+                }`}
+              >
+                <i className="ri-delete-bin-line  transition-all text-gray-500 dark:text-gray-400 ltr:mr-[7px] rtl:ml-[7px] !text-[22px] leading-none relative -top-px"></i>
+                سلة المحذوفات
+              </Link>
+            )}
 
             <span className="block relative font-medium uppercase text-gray-400 mb-[8px] text-xs [&:not(:first-child)]:mt-[22px]">
               أخري
@@ -210,16 +304,30 @@ const SidebarMenu: React.FC<SidebarMenuProps> = ({ toggleActive }) => {
                         تغيير كلمة المرور
                       </Link>
                     </li>
-                    <li className="sidemenu-item mb-[4px] last:mb-0">
-                      <Link
-                        href="/dashboard/add-user/"
-                        className={`sidemenu-link rounded-md flex items-center relative transition-all font-medium text-gray-500 dark:text-gray-400 py-[9px] ltr:pl-[38px] ltr:pr-[30px] rtl:pr-[38px] rtl:pl-[30px] hover:text-primary-500 hover:bg-primary-50 w-full text-left dark:hover:bg-[#15203c] ${
-                          pathname === "/dashboard/add-user/" ? "active" : ""
-                        }`}
-                      >
-                        أضف مستخدم
-                      </Link>
-                    </li>
+                    {can("admins.manage") && (
+                      <li className="sidemenu-item mb-[4px] last:mb-0">
+                        <Link
+                          href="/dashboard/add-user/"
+                          className={`sidemenu-link rounded-md flex items-center relative transition-all font-medium text-gray-500 dark:text-gray-400 py-[9px] ltr:pl-[38px] ltr:pr-[30px] rtl:pr-[38px] rtl:pl-[30px] hover:text-primary-500 hover:bg-primary-50 w-full text-left dark:hover:bg-[#15203c] ${
+                            pathname === "/dashboard/add-user/" ? "active" : ""
+                          }`}
+                        >
+                          أضف مستخدم
+                        </Link>
+                      </li>
+                    )}
+                    {can("admins.manage") && (
+                      <li className="sidemenu-item mb-[4px] last:mb-0">
+                        <Link
+                          href="/dashboard/admins/"
+                          className={`sidemenu-link rounded-md flex items-center relative transition-all font-medium text-gray-500 dark:text-gray-400 py-[9px] ltr:pl-[38px] ltr:pr-[30px] rtl:pr-[38px] rtl:pl-[30px] hover:text-primary-500 hover:bg-primary-50 w-full text-left dark:hover:bg-[#15203c] ${
+                            pathname === "/dashboard/admins/" ? "active" : ""
+                          }`}
+                        >
+                          المشرفون والأدوار
+                        </Link>
+                      </li>
+                    )}
                   </ul>
                 </div>
               </div>
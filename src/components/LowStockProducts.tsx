@@ -0,0 +1,78 @@
+"use client";
+
+import Link from "next/link";
+import { useQuery } from "@tanstack/react-query";
+
+import { getLowStockProducts } from "../../services/apiInventory";
+
+const LowStockProducts: React.FC = () => {
+  const { data, isLoading } = useQuery({
+    queryKey: ["low_stock_products"],
+    queryFn: () => getLowStockProducts(),
+  });
+
+  return (
+    <article className="bg-white dark:bg-gray-800 rounded-xl p-6 shadow-lg border border-gray-200 dark:border-gray-700 hover:shadow-xl transition-all duration-300">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white text-right">
+          منتجات على وشك النفاد
+        </h2>
+        {!!data?.total && (
+          <span className="inline-block px-2 py-1 text-xs font-medium rounded-full bg-danger-100 text-danger-500">
+            {data.total}
+          </span>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-gray-500 dark:text-gray-400 text-center py-8">
+          جاري التحميل...
+        </p>
+      ) : !data || data.products.length === 0 ? (
+        <p className="text-gray-500 dark:text-gray-400 text-center py-8">
+          جميع المنتجات فوق حد التنبيه
+        </p>
+      ) : (
+        <div
+          className="space-y-3"
+          role="list"
+          aria-label="قائمة المنتجات منخفضة المخزون"
+        >
+          {data.products.map((product) => (
+            <Link
+              key={`${product.id}-${product.variant_id || ""}`}
+              href={`/dashboard/news/${product.id}`}
+              className="flex justify-between items-center p-3 rounded-xl border border-gray-200 dark:border-gray-600 hover:shadow-md transition-all duration-200"
+              role="listitem"
+            >
+              <div className="text-right">
+                <p className="font-medium text-gray-900 dark:text-white">
+                  {product.name_ar}
+                </p>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  {product.variant_sku && `${product.variant_sku} — `}
+                  المخزون {product.stock} — محجوز {product.reserved_stock} — حد
+                  التنبيه {product.low_stock_threshold}
+                </p>
+              </div>
+              <span
+                className={`font-semibold ${
+                  product.available_stock <= 0
+                    ? "text-danger-500"
+                    : "text-warning-500"
+                }`}
+                aria-label={`المتاح: ${product.available_stock}`}
+              >
+                {product.available_stock <= 0
+                  ? "نفد"
+                  : `${product.available_stock} متاح`}
+              </span>
+            </Link>
+          ))}
+        </div>
+      )}
+    </article>
+  );
+};
+
+export default LowStockProducts;
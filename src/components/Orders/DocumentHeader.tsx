@@ -0,0 +1,50 @@
+import React from "react";
+import Image from "next/image";
+import type { SiteSettings } from "../../../services/apiAboutUs";
+import { DocumentLang } from "./documentLabels";
+
+interface DocumentHeaderProps {
+  settings?: SiteSettings;
+  lang: DocumentLang;
+  title: string;
+  children?: React.ReactNode;
+}
+
+const DocumentHeader: React.FC<DocumentHeaderProps> = ({
+  settings,
+  lang,
+  title,
+  children,
+}) => {
+  const siteName =
+    lang === "ar" ? settings?.site_name_ar : settings?.site_name_en;
+
+  return (
+    <div className="flex items-start justify-between border-b-2 border-gray-800 pb-4 mb-6">
+      <div className="flex items-center gap-3">
+        {settings?.logo_url && (
+          <Image
+            src={settings.logo_url}
+            alt={siteName || "logo"}
+            width={64}
+            height={64}
+            className="object-contain"
+          />
+        )}
+        <div>
+          <h2 className="text-xl font-bold text-black">{siteName}</h2>
+          <p className="text-sm text-gray-600">
+            {lang === "ar" ? settings?.site_name_en : settings?.site_name_ar}
+          </p>
+        </div>
+      </div>
+
+      <div className="ltr:text-right rtl:text-left">
+        <h1 className="text-2xl font-bold text-black mb-1">{title}</h1>
+        {children}
+      </div>
+    </div>
+  );
+};
+
+export default DocumentHeader;
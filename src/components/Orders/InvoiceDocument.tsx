@@ -0,0 +1,182 @@
+import React from "react";
+import type { Order } from "../../../services/apiOrders";
+import type { SiteSettings } from "../../../services/apiAboutUs";
+import { getVariantLabel } from "../../../services/apiProducts";
+import {
+  formatInvoiceNumber,
+  type Invoice,
+} from "../../../services/apiInvoices";
+import DocumentHeader from "./DocumentHeader";
+import {
+  DOCUMENT_LABELS,
+  DocumentLang,
+  formatDocumentDate,
+  formatDocumentMoney,
+} from "./documentLabels";
+
+interface InvoiceDocumentProps {
+  order: Order;
+  invoice: Invoice;
+  settings?: SiteSettings;
+  lang: DocumentLang;
+}
+
+const InvoiceDocument: React.FC<InvoiceDocumentProps> = ({
+  order,
+  invoice,
+  settings,
+  lang,
+}) => {
+  const t = DOCUMENT_LABELS[lang];
+  const money = (value: number) => formatDocumentMoney(value, lang);
+
+  return (
+    <div
+      dir={lang === "ar" ? "rtl" : "ltr"}
+      className="print-document bg-white text-black p-8 mx-auto max-w-[210mm] shadow"
+    >
+      <DocumentHeader settings={settings} lang={lang} title={t.invoice}>
+        <p className="text-sm">
+          {t.invoiceNumber}:{" "}
+          <strong>{formatInvoiceNumber(invoice.invoice_number)}</strong>
+        </p>
+        <p className="text-sm">
+          {t.orderNumber}: #{order.id?.slice(0, 8)}
+        </p>
+        <p className="text-sm">
+          {t.date}: {formatDocumentDate(invoice.issued_at, lang)}
+        </p>
+        {settings?.tax_number && (
+          <p className="text-sm">
+            {t.taxNumber}: {settings.tax_number}
+          </p>
+        )}
+      </DocumentHeader>
+
+      <div className="mb-6 text-sm">
+        <h3 className="font-semibold mb-1">{t.customer}</h3>
+        <p>{order.profiles?.full_name || t.notSpecified}</p>
+        {order.profiles?.phone && (
+          <p>
+            {t.phone}: {order.profiles.phone}
+          </p>
+        )}
+        {(order.profiles?.address || order.profiles?.city) && (
+          <p>
+            {t.address}:{" "}
+            {[order.profiles?.address, order.profiles?.city]
+              .filter(Boolean)
+              .join("، ")}
+          </p>
+        )}
+      </div>
+
+      <table className="w-full text-sm border-collapse mb-6">
+        <thead>
+          <tr className="bg-gray-100">
+            <th className="border border-gray-300 p-2 ltr:text-left rtl:text-right">
+              {t.product}
+            </th>
+            <th className="border border-gray-300 p-2 text-center">
+              {t.quantity}
+            </th>
+            <th className="border border-gray-300 p-2 text-center">
+              {t.unitPrice}
+            </th>
+            <th className="border border-gray-300 p-2 text-center">
+              {t.lineTotal}
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {order.order_items?.map((item, index) => (
+            <tr key={item.id || index}>
+              <td className="border border-gray-300 p-2">
+                {(lang === "ar"
+                  ? item.products?.name_ar || item.combo_offers?.title_ar
+                  : item.products?.name_en || item.combo_offers?.title_en) ||
+                  t.notSpecified}
+                {item.product_variants && (
+                  <span className="block text-xs text-gray-500">
+                    {getVariantLabel(item.product_variants)} —{" "}
+                    {item.product_variants.sku}
+                  </span>
+                )}
+              </td>
+              <td className="border border-gray-300 p-2 text-center">
+                {item.quantity}
+              </td>
+              <td className="border border-gray-300 p-2 text-center">
+                {money(item.price)}
+              </td>
+              <td className="border border-gray-300 p-2 text-center">
+                {money(item.price * item.quantity)}
+              </td>
+            </tr>
+          ))}
+          {!!order.delivery_fee && (
+            <tr>
+              <td className="border border-gray-300 p-2" colSpan={3}>
+                {t.deliveryFee}
+              </td>
+              <td className="border border-gray-300 p-2 text-center">
+                {money(Number(order.delivery_fee))}
+              </td>
+            </tr>
+          )}
+          {!!order.discount_amount && (
+            <tr>
+              <td className="border border-gray-300 p-2" colSpan={3}>
+                {t.discount}
+                {order.coupon_code && ` (${order.coupon_code})`}
+              </td>
+              <td className="border border-gray-300 p-2 text-center">
+                -{money(Number(order.discount_amount))}
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+
+      <div className="flex justify-end">
+        <table className="text-sm w-[280px]">
+          <tbody>
+            <tr>
+              <td className="py-1">{t.subtotal}</td>
+              <td className="py-1 ltr:text-right rtl:text-left">
+                {money(invoice.subtotal)}
+              </td>
+            </tr>
+            <tr>
+              <td className="py-1">
+                {t.tax} ({invoice.tax_rate}%)
+              </td>
+              <td className="py-1 ltr:text-right rtl:text-left">
+                {money(invoice.tax_amount)}
+              </td>
+            </tr>
+            <tr className="border-t-2 border-gray-800 font-bold">
+              <td className="py-2">{t.total}</td>
+              <td className="py-2 ltr:text-right rtl:text-left">
+                {money(invoice.total)}
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      {order.payments && order.payments.length > 0 && (
+        <p className="text-sm mt-4">
+          {t.paymentMethod}:{" "}
+          {order.payments.map((payment) => payment.payment_method).join(", ")}
+        </p>
+      )}
+
+      <p className="text-xs text-gray-500 mt-8 text-center">
+        {t.pricesIncludeTax}
+      </p>
+    </div>
+  );
+};
+
+export default InvoiceDocument;
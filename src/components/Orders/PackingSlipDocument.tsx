@@ -0,0 +1,129 @@
+import React from "react";
+import type { Order } from "../../../services/apiOrders";
+import type { SiteSettings } from "../../../services/apiAboutUs";
+import { getVariantLabel } from "../../../services/apiProducts";
+import DocumentHeader from "./DocumentHeader";
+import {
+  DOCUMENT_LABELS,
+  DocumentLang,
+  formatDocumentDate,
+} from "./documentLabels";
+
+interface PackingSlipDocumentProps {
+  order: Order;
+  settings?: SiteSettings;
+  lang: DocumentLang;
+}
+
+const PackingSlipDocument: React.FC<PackingSlipDocumentProps> = ({
+  order,
+  settings,
+  lang,
+}) => {
+  const t = DOCUMENT_LABELS[lang];
+  const itemsCount =
+    order.order_items?.reduce((sum, item) => sum + item.quantity, 0) || 0;
+
+  return (
+    <div
+      dir={lang === "ar" ? "rtl" : "ltr"}
+      className="print-document bg-white text-black p-8 mx-auto max-w-[210mm] shadow"
+    >
+      <DocumentHeader settings={settings} lang={lang} title={t.packingSlip}>
+        <p className="text-sm">
+          {t.orderNumber}: <strong>#{order.id?.slice(0, 8)}</strong>
+        </p>
+        <p className="text-sm">
+          {t.date}: {formatDocumentDate(order.created_at, lang)}
+        </p>
+      </DocumentHeader>
+
+      <div className="grid grid-cols-2 gap-4 mb-6 text-sm">
+        <div>
+          <h3 className="font-semibold mb-1">{t.customer}</h3>
+          <p className="text-lg font-bold">
+            {order.profiles?.full_name || t.notSpecified}
+          </p>
+          <p>
+            {t.phone}: {order.profiles?.phone || t.notSpecified}
+          </p>
+        </div>
+        <div>
+          <p>
+            {t.address}: {order.profiles?.address || t.notSpecified}
+          </p>
+          <p>
+            {t.city}: {order.profiles?.city || t.notSpecified}
+          </p>
+        </div>
+      </div>
+
+      <table className="w-full text-sm border-collapse mb-6">
+        <thead>
+          <tr className="bg-gray-100">
+            <th className="border border-gray-300 p-2 w-[60px] text-center">
+              {t.packed}
+            </th>
+            <th className="border border-gray-300 p-2 ltr:text-left rtl:text-right">
+              {t.product}
+            </th>
+            <th className="border border-gray-300 p-2 text-center">
+              {t.quantity}
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {order.order_items?.map((item, index) => (
+            <tr key={item.id || index}>
+              <td className="border border-gray-300 p-2 text-center">
+                <span className="inline-block w-4 h-4 border border-gray-500"></span>
+              </td>
+              <td className="border border-gray-300 p-2">
+                <p className="font-medium">
+                  {(lang === "ar"
+                    ? item.products?.name_ar || item.combo_offers?.title_ar
+                    : item.products?.name_en || item.combo_offers?.title_en) ||
+                    t.notSpecified}
+                  {item.product_variants && (
+                    <span className="block text-xs text-gray-500">
+                      {getVariantLabel(item.product_variants)} —{" "}
+                      {item.product_variants.sku}
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {lang === "ar"
+                    ? item.products?.name_en || item.combo_offers?.title_en
+                    : item.products?.name_ar || item.combo_offers?.title_ar}
+                </p>
+              </td>
+              <td className="border border-gray-300 p-2 text-center text-lg font-bold">
+                {item.quantity}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr>
+            <td
+              colSpan={2}
+              className="border border-gray-300 p-2 font-semibold"
+            >
+              {t.itemsCount}
+            </td>
+            <td className="border border-gray-300 p-2 text-center font-bold">
+              {itemsCount}
+            </td>
+          </tr>
+        </tfoot>
+      </table>
+
+      <div className="grid grid-cols-2 gap-8 mt-12 text-sm">
+        <div className="border-t border-gray-500 pt-2">{t.preparedBy}</div>
+        <div className="border-t border-gray-500 pt-2">{t.receivedBy}</div>
+      </div>
+    </div>
+  );
+};
+
+export default PackingSlipDocument;
@@ -0,0 +1,100 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Dialog } from "@headlessui/react";
+
+interface RefundModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (amount: number, reason: string) => void;
+  maxAmount: number;
+  isPending?: boolean;
+}
+
+export default function RefundModal({
+  isOpen,
+  onClose,
+  onSubmit,
+  maxAmount,
+  isPending = false,
+}: RefundModalProps) {
+  const [amount, setAmount] = useState(String(maxAmount));
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    setAmount(String(maxAmount));
+    setReason("");
+  }, [maxAmount, isOpen]);
+
+  const numericAmount = Number(amount);
+  const isValid =
+    numericAmount > 0 && numericAmount <= maxAmount && reason.trim() !== "";
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+    onSubmit(numericAmount, reason.trim());
+  };
+
+  return (
+    <Dialog open={isOpen} onClose={onClose} className="relative z-50">
+      <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <Dialog.Panel className="w-full max-w-md bg-white dark:bg-[#0a0e19] rounded-lg shadow-lg p-6">
+          <Dialog.Title className="text-xl font-semibold mb-4 text-right">
+            استرداد مبلغ
+          </Dialog.Title>
+          <form onSubmit={handleSubmit}>
+            <div className="mb-4">
+              <label className="block text-sm font-medium mb-1 text-right text-black dark:text-white">
+                المبلغ (الحد الأقصى ${maxAmount.toFixed(2)})
+              </label>
+              <input
+                type="number"
+                min="0.01"
+                max={maxAmount}
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="w-full border border-gray-300 dark:border-[#172036] px-3 py-2 rounded-md bg-white dark:bg-[#0c1427] text-black dark:text-white focus:outline-none focus:ring focus:ring-primary-500"
+              />
+              {numericAmount > maxAmount && (
+                <p className="text-red-500 text-sm mt-1">
+                  المبلغ يتجاوز المبلغ المتبقي القابل للاسترداد
+                </p>
+              )}
+            </div>
+            <div className="mb-4">
+              <label className="block text-sm font-medium mb-1 text-right text-black dark:text-white">
+                سبب الاسترداد
+              </label>
+              <textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={3}
+                className="w-full border border-gray-300 dark:border-[#172036] px-3 py-2 rounded-md bg-white dark:bg-[#0c1427] text-black dark:text-white focus:outline-none focus:ring focus:ring-primary-500"
+                placeholder="مثال: منتج ناقص في الطلب"
+              />
+            </div>
+            <div className="flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 rounded-md border border-gray-300 text-gray-600 hover:bg-gray-100 dark:hover:bg-[#1a2332]"
+              >
+                إلغاء
+              </button>
+              <button
+                type="submit"
+                disabled={!isValid || isPending}
+                className="px-4 py-2 rounded-md bg-danger-500 text-white hover:bg-danger-600 disabled:opacity-50"
+              >
+                {isPending ? "جاري التنفيذ..." : "تأكيد الاسترداد"}
+              </button>
+            </div>
+          </form>
+        </Dialog.Panel>
+      </div>
+    </Dialog>
+  );
+}
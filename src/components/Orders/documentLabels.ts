@@ -0,0 +1,79 @@
+export type DocumentLang = "ar" | "en";
+
+export const DOCUMENT_LABELS = {
+  ar: {
+    invoice: "فاتورة ضريبية",
+    packingSlip: "إيصال تجهيز الطلب",
+    invoiceNumber: "رقم الفاتورة",
+    orderNumber: "رقم الطلب",
+    date: "التاريخ",
+    customer: "العميل",
+    phone: "الهاتف",
+    address: "العنوان",
+    city: "المدينة",
+    product: "المنتج",
+    quantity: "الكمية",
+    unitPrice: "سعر الوحدة",
+    lineTotal: "الإجمالي",
+    deliveryFee: "رسوم التوصيل",
+    discount: "خصم",
+    subtotal: "الإجمالي قبل الضريبة",
+    tax: "ضريبة القيمة المضافة",
+    total: "الإجمالي المستحق",
+    paymentMethod: "طريقة الدفع",
+    taxNumber: "الرقم الضريبي",
+    pricesIncludeTax: "الأسعار شاملة ضريبة القيمة المضافة",
+    packed: "تم التجهيز",
+    preparedBy: "جهزه",
+    receivedBy: "استلمه (المندوب)",
+    itemsCount: "عدد القطع",
+    notSpecified: "غير محدد",
+  },
+  en: {
+    invoice: "Tax Invoice",
+    packingSlip: "Packing Slip",
+    invoiceNumber: "Invoice No.",
+    orderNumber: "Order No.",
+    date: "Date",
+    customer: "Customer",
+    phone: "Phone",
+    address: "Address",
+    city: "City",
+    product: "Product",
+    quantity: "Qty",
+    unitPrice: "Unit Price",
+    lineTotal: "Total",
+    deliveryFee: "Delivery Fee",
+    discount: "Discount",
+    subtotal: "Subtotal (excl. tax)",
+    tax: "VAT",
+    total: "Amount Due",
+    paymentMethod: "Payment Method",
+    taxNumber: "Tax Reg. No.",
+    pricesIncludeTax: "Prices include VAT",
+    packed: "Packed",
+    preparedBy: "Prepared by",
+    receivedBy: "Received by (driver)",
+    itemsCount: "Items",
+    notSpecified: "N/A",
+  },
+};
+
+export function formatDocumentDate(
+  date: string | undefined,
+  lang: DocumentLang
+) {
+  if (!date) return "";
+  return new Date(date).toLocaleDateString(lang === "ar" ? "ar-EG" : "en-GB", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+export function formatDocumentMoney(value: number, lang: DocumentLang) {
+  return value.toLocaleString(lang === "ar" ? "ar-EG" : "en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+}
@@ -0,0 +1,36 @@
+// تحويل عنصر HTML إلى PDF (يتم رسم العنصر كصورة للحفاظ على الخط العربي واتجاه RTL)
+export async function downloadElementAsPdf(
+  element: HTMLElement,
+  fileName: string
+) {
+  const [{ default: html2canvas }, { jsPDF }] = await Promise.all([
+    import("html2canvas"),
+    import("jspdf"),
+  ]);
+
+  const canvas = await html2canvas(element, {
+    scale: 2,
+    useCORS: true,
+    backgroundColor: "#ffffff",
+  });
+
+  const pdf = new jsPDF({ orientation: "portrait", unit: "mm", format: "a4" });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const imageHeight = (canvas.height * pageWidth) / canvas.width;
+  const imageData = canvas.toDataURL("image/png");
+
+  // تقسيم المستند على أكثر من صفحة إذا كان أطول من A4
+  let position = 0;
+  pdf.addImage(imageData, "PNG", 0, position, pageWidth, imageHeight);
+  let remaining = imageHeight - pageHeight;
+
+  while (remaining > 0) {
+    position -= pageHeight;
+    pdf.addPage();
+    pdf.addImage(imageData, "PNG", 0, position, pageWidth, imageHeight);
+    remaining -= pageHeight;
+  }
+
+  pdf.save(fileName);
+}
@@ -0,0 +1,152 @@
+"use client";
+
+import React, { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  getUserStats,
+  USER_STATS_PERIOD_LABELS,
+  UserStatsBreakdown,
+  UserStatsPeriod,
+} from "../../../services/apiUsers";
+
+const ROLE_LABELS: Record<string, string> = {
+  admin: "مدير",
+  user: "مستخدم",
+};
+
+const BreakdownTable: React.FC<{
+  title: string;
+  rows: UserStatsBreakdown[];
+  getLabel: (key: string | null) => string;
+}> = ({ title, rows, getLabel }) => (
+  <div>
+    <h6 className="!text-sm font-semibold mb-[10px]">{title}</h6>
+    <div className="table-responsive overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead className="text-black dark:text-white">
+          <tr>
+            {["", "الإجمالي", "نشط", "موقوف", "جديد"].map((header) => (
+              <th
+                key={header}
+                className="font-medium ltr:text-left rtl:text-right px-[12px] py-[8px] bg-gray-50 dark:bg-[#15203c] whitespace-nowrap"
+              >
+                {header}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="text-black dark:text-white">
+          {rows.length === 0 ? (
+            <tr>
+              <td colSpan={5} className="text-center py-4 text-gray-500">
+                لا توجد بيانات
+              </td>
+            </tr>
+          ) : (
+            rows.map((row) => (
+              <tr key={row.key ?? ""}>
+                <td className="px-[12px] py-[8px] border-b border-gray-100 dark:border-[#172036] whitespace-nowrap">
+                  {getLabel(row.key)}
+                </td>
+                <td className="px-[12px] py-[8px] border-b border-gray-100 dark:border-[#172036]">
+                  {row.total}
+                </td>
+                <td className="px-[12px] py-[8px] border-b border-gray-100 dark:border-[#172036] text-success-600">
+                  {row.active}
+                </td>
+                <td className="px-[12px] py-[8px] border-b border-gray-100 dark:border-[#172036] text-danger-500">
+                  {row.inactive}
+                </td>
+                <td className="px-[12px] py-[8px] border-b border-gray-100 dark:border-[#172036] text-primary-500">
+                  {row.newInPeriod}
+                </td>
+              </tr>
+            ))
+          )}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
+const UserStatsOverview: React.FC = () => {
+  const [period, setPeriod] = useState<UserStatsPeriod>("month");
+
+  const { data: stats, isPending } = useQuery({
+    queryKey: ["userStats", period],
+    queryFn: () => getUserStats(period),
+  });
+
+  return (
+    <div className="trezo-card bg-white dark:bg-[#0c1427] mb-[25px] p-[20px] md:p-[25px] rounded-md">
+      <div className="trezo-card-header mb-[20px] md:mb-[25px] flex items-center justify-between gap-4">
+        <h5 className="!mb-0">إحصائيات المستخدمين</h5>
+        <select
+          value={period}
+          onChange={(e) => setPeriod(e.target.value as UserStatsPeriod)}
+          className="p-2 border transition border-[#f2f2f2] hover:bg-[#f2f2f2] rounded-lg outline-none dark:border-[#172036] dark:hover:bg-[#172036] dark:bg-[#0c1427] dark:text-white"
+        >
+          {Object.entries(USER_STATS_PERIOD_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-[25px]">
+        {[
+          {
+            label: "إجمالي الحسابات",
+            value: stats?.total ?? 0,
+            className:
+              "bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400",
+          },
+          {
+            label: "حسابات نشطة",
+            value: stats?.active ?? 0,
+            className:
+              "bg-green-50 dark:bg-green-900/20 text-green-600 dark:text-green-400",
+          },
+          {
+            label: "حسابات موقوفة",
+            value: stats?.inactive ?? 0,
+            className: "bg-danger-50 dark:bg-danger-900/20 text-danger-500",
+          },
+          {
+            label: `جدد (${USER_STATS_PERIOD_LABELS[period]})`,
+            value: stats?.newInPeriod ?? 0,
+            className: "bg-primary-50 dark:bg-[#15203c] text-primary-500",
+          },
+        ].map((card) => (
+          <div
+            key={card.label}
+            className={`p-4 rounded-lg text-center ${card.className}`}
+          >
+            <div className="text-xl font-bold mb-1">
+              {isPending ? "..." : card.value}
+            </div>
+            <div className="text-sm text-gray-600 dark:text-gray-400">
+              {card.label}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-[25px]">
+        <BreakdownTable
+          title="حسب الدور"
+          rows={stats?.byRole || []}
+          getLabel={(key) => (key && ROLE_LABELS[key]) || key || "غير محدد"}
+        />
+        <BreakdownTable
+          title="حسب المحافظة"
+          rows={stats?.byCity || []}
+          getLabel={(key) => key || "غير محدد"}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default UserStatsOverview;
@@ -0,0 +1,170 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import dynamic from "next/dynamic";
+import { useQuery } from "@tanstack/react-query";
+import { ApexOptions } from "apexcharts";
+import {
+  ANALYTICS_RANGE_LABELS,
+  AnalyticsBucket,
+  AnalyticsRangePreset,
+  formatBucketLabel,
+  getAnalyticsRange,
+  getProductPerformance,
+  getProductSalesTimeseries,
+} from "../../../services/apiAnalytics";
+
+const Chart = dynamic(() => import("react-apexcharts"), { ssr: false });
+
+type PerformancePreset = Exclude<AnalyticsRangePreset, "custom">;
+
+// الفترات الطويلة تُجمع أسبوعياً أو شهرياً ليبقى الرسم مقروءاً
+const PRESET_BUCKETS: Record<PerformancePreset, AnalyticsBucket> = {
+  "7d": "day",
+  "30d": "day",
+  "90d": "week",
+  year: "month",
+};
+
+interface ProductPerformanceCardProps {
+  productId: string;
+  isBestSeller?: boolean;
+  isPinned?: boolean;
+}
+
+const ProductPerformanceCard: React.FC<ProductPerformanceCardProps> = ({
+  productId,
+  isBestSeller,
+  isPinned,
+}) => {
+  const [preset, setPreset] = useState<PerformancePreset>("30d");
+  const bucket = PRESET_BUCKETS[preset];
+  const range = useMemo(() => getAnalyticsRange(preset), [preset]);
+
+  const { data: performance, isLoading } = useQuery({
+    queryKey: ["product_performance", productId, range],
+    queryFn: () => getProductPerformance(productId, range),
+  });
+
+  const { data: series = [] } = useQuery({
+    queryKey: ["product_sales_timeseries", productId, range, bucket],
+    queryFn: () => getProductSalesTimeseries(productId, range, bucket),
+  });
+
+  const chartOptions: ApexOptions = {
+    chart: { type: "area", toolbar: { show: false }, zoom: { enabled: false } },
+    dataLabels: { enabled: false },
+    stroke: { curve: "smooth", width: 2 },
+    colors: ["#605DFF", "#10B981"],
+    xaxis: {
+      categories: series.map((point) =>
+        formatBucketLabel(point.bucket, bucket)
+      ),
+      labels: { style: { colors: "#64748B", fontFamily: "inherit" } },
+    },
+    yaxis: [
+      {
+        title: { text: "الكمية" },
+        labels: { style: { colors: "#64748B", fontFamily: "inherit" } },
+      },
+      {
+        opposite: true,
+        title: { text: "المبيعات" },
+        labels: {
+          style: { colors: "#64748B", fontFamily: "inherit" },
+          formatter: (value) => `$${value.toFixed(0)}`,
+        },
+      },
+    ],
+    legend: { position: "top" },
+    tooltip: { theme: "dark" },
+    grid: { borderColor: "#e2e8f0" },
+  };
+
+  return (
+    <div className="trezo-card bg-white dark:bg-[#0c1427] mb-[25px] p-[20px] md:p-[25px] rounded-md">
+      <div className="trezo-card-header mb-[20px] md:mb-[25px] flex items-center justify-between gap-4">
+        <div className="trezo-card-title flex items-center gap-[10px]">
+          <h5 className="!mb-0">أداء المنتج</h5>
+          {isBestSeller && (
+            <span className="px-2 py-1 bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200 rounded-full text-xs">
+              {isPinned ? "أفضل مبيع (مثبّت)" : "أفضل مبيع"}
+            </span>
+          )}
+        </div>
+        <select
+          value={preset}
+          onChange={(e) => setPreset(e.target.value as PerformancePreset)}
+          className="p-2 border transition border-[#f2f2f2] hover:bg-[#f2f2f2] rounded-lg outline-none dark:border-[#172036] dark:hover:bg-[#172036] dark:bg-[#0c1427] dark:text-white"
+        >
+          {(Object.keys(PRESET_BUCKETS) as PerformancePreset[]).map((value) => (
+            <option key={value} value={value}>
+              {ANALYTICS_RANGE_LABELS[value]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-[25px]">
+        {[
+          {
+            label: "الكمية المباعة",
+            value: performance?.units_sold ?? 0,
+            className:
+              "bg-blue-50 dark:bg-blue-900/20 text-blue-600 dark:text-blue-400",
+          },
+          {
+            label: "المبيعات",
+            value: `$${(performance?.revenue ?? 0).toFixed(2)}`,
+            className:
+              "bg-green-50 dark:bg-green-900/20 text-green-600 dark:text-green-400",
+          },
+          {
+            label: "الحصة من مبيعات التصنيف",
+            value:
+              performance?.category_share != null
+                ? `${performance.category_share}%`
+                : "-",
+            className: "bg-primary-50 dark:bg-[#15203c] text-primary-500",
+          },
+          {
+            label: "الترتيب في التصنيف",
+            value: performance?.category_rank ?? "-",
+            className:
+              "bg-orange-50 dark:bg-orange-900/20 text-orange-600 dark:text-orange-400",
+          },
+        ].map((card) => (
+          <div
+            key={card.label}
+            className={`p-4 rounded-lg text-center ${card.className}`}
+          >
+            <div className="text-xl font-bold mb-1">
+              {isLoading ? "..." : card.value}
+            </div>
+            <div className="text-sm text-gray-600 dark:text-gray-400">
+              {card.label}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <Chart
+        options={chartOptions}
+        series={[
+          {
+            name: "الكمية",
+            data: series.map((point) => point.units_sold),
+          },
+          {
+            name: "المبيعات",
+            data: series.map((point) => point.revenue),
+          },
+        ]}
+        type="area"
+        height={280}
+      />
+    </div>
+  );
+};
+
+export default ProductPerformanceCard;
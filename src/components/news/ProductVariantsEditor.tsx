@@ -0,0 +1,369 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import toast from "react-hot-toast";
+import {
+  getVariantLabel,
+  ProductVariant,
+  uploadProductImage,
+} from "../../../services/apiProducts";
+
+export type VariantFormValue = ProductVariant & { imageFile?: File | null };
+
+interface ProductVariantsEditorProps {
+  variants: VariantFormValue[];
+  onChange: (variants: VariantFormValue[]) => void;
+  basePrice: number;
+  skuPrefix?: string;
+}
+
+const inputClassName =
+  "h-[45px] rounded-md text-black dark:text-white border border-gray-200 dark:border-[#172036] bg-white dark:bg-[#0c1427] px-[17px] block w-full outline-0 transition-all placeholder:text-gray-500 dark:placeholder:text-gray-400 focus:border-primary-500";
+
+const splitValues = (value: string) =>
+  Array.from(
+    new Set(
+      value
+        .split(/[,،]/)
+        .map((item) => item.trim())
+        .filter(Boolean)
+    )
+  );
+
+const toSkuPart = (value?: string | null) =>
+  (value || "")
+    .trim()
+    .toUpperCase()
+    .replace(/\s+/g, "-")
+    .replace(/[^A-Z0-9\u0600-\u06FF-]/g, "");
+
+// يرفع صور المتغيرات المختارة ويعيد المتغيرات جاهزة للحفظ
+export async function prepareVariantsForSave(
+  variants: VariantFormValue[]
+): Promise<ProductVariant[]> {
+  return Promise.all(
+    variants.map(async ({ imageFile, ...variant }) => ({
+      ...variant,
+      price: Number(variant.price) || 0,
+      offer_price: variant.offer_price ? Number(variant.offer_price) : null,
+      stock: Number(variant.stock) || 0,
+      image_url: imageFile
+        ? await uploadProductImage(imageFile, "variants")
+        : variant.image_url,
+    }))
+  );
+}
+
+const ProductVariantsEditor: React.FC<ProductVariantsEditorProps> = ({
+  variants,
+  onChange,
+  basePrice,
+  skuPrefix,
+}) => {
+  const [sizes, setSizes] = useState("");
+  const [options, setOptions] = useState("");
+
+  const buildSku = (size?: string | null, option?: string | null) =>
+    [toSkuPart(skuPrefix) || "SKU", toSkuPart(size), toSkuPart(option)]
+      .filter(Boolean)
+      .join("-");
+
+  // ينشئ كل تركيبات المقاس × الخيار مع الإبقاء على المتغيرات الموجودة منها
+  const generateCombinations = () => {
+    const sizeList = splitValues(sizes);
+    const optionList = splitValues(options);
+
+    if (sizeList.length === 0 && optionList.length === 0) {
+      toast.error("أدخل مقاساً أو خياراً واحداً على الأقل");
+      return;
+    }
+
+    const combinations = (sizeList.length ? sizeList : [null]).flatMap((size) =>
+      (optionList.length ? optionList : [null]).map((option) => ({
+        size,
+        option,
+      }))
+    );
+
+    const nextVariants = [...variants];
+    combinations.forEach(({ size, option }) => {
+      const exists = variants.some(
+        (variant) =>
+          (variant.size || null) === size && (variant.option || null) === option
+      );
+      if (!exists) {
+        nextVariants.push({
+          size,
+          option,
+          sku: buildSku(size, option),
+          price: Number(basePrice) || 0,
+          offer_price: null,
+          stock: 0,
+        });
+      }
+    });
+
+    onChange(nextVariants);
+  };
+
+  const addVariant = () => {
+    onChange([
+      ...variants,
+      {
+        size: "",
+        option: "",
+        sku: buildSku(String(variants.length + 1)),
+        price: Number(basePrice) || 0,
+        offer_price: null,
+        stock: 0,
+      },
+    ]);
+  };
+
+  const removeVariant = (index: number) => {
+    onChange(variants.filter((_, i) => i !== index));
+  };
+
+  const updateVariant = (index: number, changes: Partial<VariantFormValue>) => {
+    const updatedVariants = [...variants];
+    updatedVariants[index] = { ...updatedVariants[index], ...changes };
+    onChange(updatedVariants);
+  };
+
+  return (
+    <div className="trezo-card bg-white dark:bg-[#0c1427] mb-[25px] p-[20px] md:p-[25px] rounded-md">
+      <div className="trezo-card-header mb-[20px] md:mb-[25px] flex items-center justify-between">
+        <div className="trezo-card-title">
+          <h5 className="!mb-0">متغيرات المنتج</h5>
+          <span className="text-sm text-gray-500 dark:text-gray-400">
+            ({variants.length} متغير)
+          </span>
+        </div>
+        <button
+          type="button"
+          onClick={addVariant}
+          className="font-medium inline-block transition-all rounded-md md:text-md py-[8px] px-[16px] bg-primary-500 text-white hover:bg-primary-400"
+        >
+          <i className="material-symbols-outlined ltr:mr-2 rtl:ml-2">add</i>
+          إضافة متغير
+        </button>
+      </div>
+
+      <div className="trezo-card-content">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6 items-end">
+          <div>
+            <label className="mb-[10px] text-black dark:text-white font-medium block">
+              المقاسات
+            </label>
+            <input
+              type="text"
+              className={inputClassName}
+              placeholder="مثل: صغير، وسط، كبير، عائلي"
+              value={sizes}
+              onChange={(e) => setSizes(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="mb-[10px] text-black dark:text-white font-medium block">
+              الخيارات
+            </label>
+            <input
+              type="text"
+              className={inputClassName}
+              placeholder="مثل: عادي، حار، بالجبن"
+              value={options}
+              onChange={(e) => setOptions(e.target.value)}
+            />
+          </div>
+          <button
+            type="button"
+            onClick={generateCombinations}
+            className="h-[45px] font-medium inline-block transition-all rounded-md md:text-md px-[16px] border border-primary-500 text-primary-500 hover:bg-primary-500 hover:text-white"
+          >
+            توليد التركيبات
+          </button>
+        </div>
+
+        {variants.length === 0 ? (
+          <p className="text-gray-500 dark:text-gray-400 text-center py-8">
+            لا توجد متغيرات. يُباع المنتج بسعره ومخزونه الأساسيين.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {variants.map((variant, index) => (
+              <div
+                key={variant.id || index}
+                className="border border-gray-200 dark:border-[#172036] rounded-md p-4"
+              >
+                <div className="flex items-center justify-between mb-4">
+                  <h6 className="text-black dark:text-white font-medium">
+                    {getVariantLabel(variant) || `متغير ${index + 1}`}
+                    {!!variant.reserved_stock && (
+                      <span className="text-sm text-gray-500 dark:text-gray-400 mr-2">
+                        (محجوز للطلبات: {variant.reserved_stock})
+                      </span>
+                    )}
+                  </h6>
+                  <button
+                    type="button"
+                    onClick={() => removeVariant(index)}
+                    className="text-red-500 hover:text-red-700"
+                  >
+                    <i className="material-symbols-outlined">delete</i>
+                  </button>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+                  <div>
+                    <label className="mb-[10px] text-black dark:text-white font-medium block">
+                      المقاس
+                    </label>
+                    <input
+                      type="text"
+                      className={inputClassName}
+                      value={variant.size || ""}
+                      onChange={(e) =>
+                        updateVariant(index, { size: e.target.value })
+                      }
+                    />
+                  </div>
+                  <div>
+                    <label className="mb-[10px] text-black dark:text-white font-medium block">
+                      الخيار
+                    </label>
+                    <input
+                      type="text"
+                      className={inputClassName}
+                      value={variant.option || ""}
+                      onChange={(e) =>
+                        updateVariant(index, { option: e.target.value })
+                      }
+                    />
+                  </div>
+                  <div>
+                    <label className="mb-[10px] text-black dark:text-white font-medium block">
+                      SKU
+                    </label>
+                    <input
+                      type="text"
+                      dir="ltr"
+                      className={inputClassName}
+                      value={variant.sku}
+                      onChange={(e) =>
+                        updateVariant(index, { sku: e.target.value })
+                      }
+                    />
+                  </div>
+                  <div>
+                    <label className="mb-[10px] text-black dark:text-white font-medium block">
+                      السعر
+                    </label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      className={inputClassName}
+                      value={variant.price}
+                      onChange={(e) =>
+                        updateVariant(index, {
+                          price: parseFloat(e.target.value) || 0,
+                        })
+                      }
+                    />
+                  </div>
+                  <div>
+                    <label className="mb-[10px] text-black dark:text-white font-medium block">
+                      سعر العرض
+                    </label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      className={inputClassName}
+                      placeholder="اختياري"
+                      value={variant.offer_price ?? ""}
+                      onChange={(e) =>
+                        updateVariant(index, {
+                          offer_price: parseFloat(e.target.value) || null,
+                        })
+                      }
+                    />
+                  </div>
+                  <div>
+                    <label className="mb-[10px] text-black dark:text-white font-medium block">
+                      المخزون
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      className={inputClassName}
+                      value={variant.stock}
+                      onChange={(e) =>
+                        updateVariant(index, {
+                          stock: parseInt(e.target.value, 10) || 0,
+                        })
+                      }
+                    />
+                  </div>
+                </div>
+
+                <div className="mt-4 flex items-center gap-4">
+                  {(variant.imageFile || variant.image_url) && (
+                    <div className="relative w-[60px] h-[60px] rounded-md overflow-hidden border border-gray-200 dark:border-[#172036]">
+                      <Image
+                        src={
+                          variant.imageFile
+                            ? URL.createObjectURL(variant.imageFile)
+                            : (variant.image_url as string)
+                        }
+                        alt={getVariantLabel(variant) || "variant"}
+                        fill
+                        className="object-cover"
+                      />
+                    </div>
+                  )}
+                  <label className="cursor-pointer text-sm text-primary-500 hover:underline">
+                    {variant.imageFile || variant.image_url
+                      ? "تغيير صورة المتغير"
+                      : "إضافة صورة للمتغير"}
+                    <input
+                      type="file"
+                      accept="image/*"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (!file) return;
+                        if (!file.type.startsWith("image/")) {
+                          toast.error(`الملف ${file.name} ليس صورة`);
+                          return;
+                        }
+                        updateVariant(index, { imageFile: file });
+                      }}
+                    />
+                  </label>
+                  {(variant.imageFile || variant.image_url) && (
+                    <button
+                      type="button"
+                      className="text-sm text-red-500 hover:text-red-700"
+                      onClick={() =>
+                        updateVariant(index, {
+                          imageFile: null,
+                          image_url: null,
+                        })
+                      }
+                    >
+                      إزالة الصورة
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProductVariantsEditor;
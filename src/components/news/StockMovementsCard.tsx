@@ -0,0 +1,119 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import Link from "next/link";
+import {
+  getStockMovements,
+  STOCK_MOVEMENT_LABELS,
+} from "../../../services/apiInventory";
+
+interface StockMovementsCardProps {
+  productId: string;
+}
+
+const StockMovementsCard: React.FC<StockMovementsCardProps> = ({
+  productId,
+}) => {
+  const { data: movements, isLoading } = useQuery({
+    queryKey: ["stock_movements", productId],
+    queryFn: () => getStockMovements(productId),
+  });
+
+  return (
+    <div className="trezo-card bg-white dark:bg-[#0c1427] mb-[25px] p-[20px] md:p-[25px] rounded-md">
+      <div className="trezo-card-header mb-[20px] md:mb-[25px] flex items-center justify-between">
+        <div className="trezo-card-title">
+          <h5 className="!mb-0">حركة المخزون</h5>
+        </div>
+      </div>
+
+      <div className="trezo-card-content">
+        {isLoading ? (
+          <p className="text-gray-500 dark:text-gray-400 text-center py-8">
+            جاري التحميل...
+          </p>
+        ) : !movements || movements.length === 0 ? (
+          <p className="text-gray-500 dark:text-gray-400 text-center py-8">
+            لا توجد حركات مخزون لهذا المنتج بعد.
+          </p>
+        ) : (
+          <div className="table-responsive overflow-x-auto">
+            <table className="w-full">
+              <thead className="text-black dark:text-white">
+                <tr>
+                  {[
+                    "التاريخ",
+                    "نوع الحركة",
+                    "المتغير",
+                    "الكمية",
+                    "المخزون بعد",
+                    "المحجوز بعد",
+                    "الطلب",
+                    "ملاحظة",
+                  ].map((header) => (
+                    <th
+                      key={header}
+                      className="font-medium ltr:text-left rtl:text-right px-[20px] py-[11px] bg-gray-50 dark:bg-[#15203c] whitespace-nowrap"
+                    >
+                      {header}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="text-black dark:text-white">
+                {movements.map((movement) => (
+                  <tr key={movement.id}>
+                    <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[12px] border-b border-gray-100 dark:border-[#172036]">
+                      {new Date(movement.created_at).toLocaleString("ar-EG")}
+                    </td>
+                    <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[12px] border-b border-gray-100 dark:border-[#172036]">
+                      {STOCK_MOVEMENT_LABELS[movement.movement_type]}
+                    </td>
+                    <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[12px] border-b border-gray-100 dark:border-[#172036]">
+                      {movement.variant?.sku || "-"}
+                    </td>
+                    <td
+                      className={`ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[12px] border-b border-gray-100 dark:border-[#172036] ${
+                        movement.quantity < 0
+                          ? "text-danger-500"
+                          : "text-success-600"
+                      }`}
+                      dir="ltr"
+                    >
+                      {movement.quantity > 0
+                        ? `+${movement.quantity}`
+                        : movement.quantity}
+                    </td>
+                    <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[12px] border-b border-gray-100 dark:border-[#172036]">
+                      {movement.stock_after}
+                    </td>
+                    <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[12px] border-b border-gray-100 dark:border-[#172036]">
+                      {movement.reserved_after}
+                    </td>
+                    <td className="ltr:text-left rtl:text-right whitespace-nowrap px-[20px] py-[12px] border-b border-gray-100 dark:border-[#172036]">
+                      {movement.order_id ? (
+                        <Link
+                          href={`/dashboard/orders/${movement.order_id}`}
+                          className="text-primary-500 hover:underline"
+                        >
+                          #{movement.order_id.slice(0, 8)}
+                        </Link>
+                      ) : (
+                        "-"
+                      )}
+                    </td>
+                    <td className="ltr:text-left rtl:text-right px-[20px] py-[12px] border-b border-gray-100 dark:border-[#172036]">
+                      {movement.note || "-"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StockMovementsCard;
@@ -1,5 +1,6 @@
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import toast from "react-hot-toast";
+import { requirePermission } from "../../../../services/apiPermissions";
 import supabase from "../../../../services/supabase";
 
 export function useAddCategory() {
@@ -15,6 +16,7 @@ export function useAddCategory() {
       name_en: string;
       image?: File;
     }) => {
+      await requirePermission("categories.manage");
       let image_url = undefined;
 
       if (image) {
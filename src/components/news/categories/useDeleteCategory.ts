@@ -1,6 +1,7 @@
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 
 import toast from "react-hot-toast";
+import { requirePermission } from "../../../../services/apiPermissions";
 import supabase from "../../../../services/supabase";
 
 export function useDeleteCategory() {
@@ -8,6 +9,7 @@ export function useDeleteCategory() {
 
   const { mutate: deleteCategory, isPending } = useMutation({
     mutationFn: async (id: string) => {
+      await requirePermission("categories.manage");
       // First, get the category to check if it has an image
       const { data: category, error: fetchError } = await supabase
         .from("categories")
@@ -1,6 +1,7 @@
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 
 import toast from "react-hot-toast";
+import { requirePermission } from "../../../../services/apiPermissions";
 import supabase from "../../../../services/supabase";
 
 interface UpdateCategoryPayload {
@@ -20,6 +21,7 @@ export function useUpdateCategory() {
       name_en,
       image,
     }: UpdateCategoryPayload) => {
+      await requirePermission("categories.manage");
       let image_url = undefined;
 
       if (image) {
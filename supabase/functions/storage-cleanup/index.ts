@@ -0,0 +1,65 @@
+import { createClient } from "jsr:@supabase/supabase-js@2";
+
+// حذف ملفات العناصر المحذوفة نهائياً (storage_cleanup_queue) من التخزين.
+// تستدعيها مهمة storage-cleanup المجدولة بعد سياسة الاحتفاظ الليلية؛ نفس منطق
+// processStorageCleanupQueue في services/apiTrash.ts. ما يفشل يبقى في الطابور
+// للتشغيل التالي.
+
+const BATCH_SIZE = 100;
+const MAX_BATCHES = 20;
+
+Deno.serve(async (req) => {
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+  // المهمة المجدولة فقط (بمفتاح service role)
+  if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+  const failedIds: string[] = [];
+  let removed = 0;
+
+  for (let batch = 0; batch < MAX_BATCHES; batch++) {
+    let query = supabase
+      .from("storage_cleanup_queue")
+      .select("id, bucket, path")
+      .order("created_at", { ascending: true })
+      .limit(BATCH_SIZE);
+    if (failedIds.length > 0) {
+      query = query.not("id", "in", `(${failedIds.join(",")})`);
+    }
+
+    const { data: queued, error } = await query;
+    if (error) {
+      console.error("خطأ في جلب ملفات التنظيف:", error.message);
+      return new Response(error.message, { status: 500 });
+    }
+    if (!queued || queued.length === 0) break;
+
+    const byBucket = new Map<string, { id: string; path: string }[]>();
+    queued.forEach((file) => {
+      const files = byBucket.get(file.bucket) || [];
+      files.push({ id: file.id, path: decodeURIComponent(file.path) });
+      byBucket.set(file.bucket, files);
+    });
+
+    for (const [bucket, files] of byBucket.entries()) {
+      const ids = files.map((file) => file.id);
+      const { error: storageError } = await supabase.storage
+        .from(bucket)
+        .remove(files.map((file) => file.path));
+
+      if (storageError) {
+        console.error(`فشل حذف ملفات ${bucket}:`, storageError.message);
+        failedIds.push(...ids);
+        continue;
+      }
+
+      await supabase.from("storage_cleanup_queue").delete().in("id", ids);
+      removed += files.length;
+    }
+  }
+
+  return Response.json({ removed, failed: failedIds.length });
+});
@@ -0,0 +1,92 @@
+-- Order status state machine + transition history
+
+create table if not exists public.order_status_history (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null references public.orders(id) on delete cascade,
+  from_status text,
+  to_status text not null,
+  note text,
+  changed_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists order_status_history_order_id_idx
+  on public.order_status_history (order_id, created_at);
+
+-- Allowed transitions:
+-- pending -> paid | cancelled
+-- paid    -> shipped | cancelled
+-- shipped -> delivered
+create or replace function public.order_status_transition_allowed(
+  p_from text,
+  p_to text
+) returns boolean
+language sql
+immutable
+as $$
+  select case p_from
+    when 'pending' then p_to in ('paid', 'cancelled')
+    when 'paid' then p_to in ('shipped', 'cancelled')
+    when 'shipped' then p_to in ('delivered')
+    else false
+  end;
+$$;
+
+-- Guard direct updates on orders.status so the graph can't be bypassed
+create or replace function public.enforce_order_status_transition()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status is distinct from old.status
+     and not public.order_status_transition_allowed(old.status, new.status) then
+    raise exception 'invalid order status transition: % -> %', old.status, new.status
+      using errcode = 'P0001';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists orders_status_transition on public.orders;
+create trigger orders_status_transition
+  before update of status on public.orders
+  for each row execute function public.enforce_order_status_transition();
+
+-- Changes the status and records who/when/from/to/note in one transaction
+create or replace function public.change_order_status(
+  p_order_id uuid,
+  p_status text,
+  p_note text default null
+) returns public.orders
+language plpgsql
+security invoker
+as $$
+declare
+  v_current text;
+  v_order public.orders;
+begin
+  select status into v_current
+  from public.orders
+  where id = p_order_id
+  for update;
+
+  if not found then
+    raise exception 'order not found' using errcode = 'P0002';
+  end if;
+
+  if not public.order_status_transition_allowed(v_current, p_status) then
+    raise exception 'invalid order status transition: % -> %', v_current, p_status
+      using errcode = 'P0001';
+  end if;
+
+  update public.orders
+  set status = p_status, updated_at = now()
+  where id = p_order_id
+  returning * into v_order;
+
+  insert into public.order_status_history (order_id, from_status, to_status, note, changed_by)
+  values (p_order_id, v_current, p_status, nullif(trim(p_note), ''), auth.uid());
+
+  return v_order;
+end;
+$$;
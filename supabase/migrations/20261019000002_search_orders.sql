@@ -0,0 +1,44 @@
+-- Server-side order search across order id, customer and product names
+
+create extension if not exists pg_trgm;
+
+create index if not exists profiles_full_name_trgm_idx
+  on public.profiles using gin (full_name gin_trgm_ops);
+create index if not exists profiles_phone_trgm_idx
+  on public.profiles using gin (phone gin_trgm_ops);
+create index if not exists products_name_ar_trgm_idx
+  on public.products using gin (name_ar gin_trgm_ops);
+create index if not exists products_name_en_trgm_idx
+  on public.products using gin (name_en gin_trgm_ops);
+
+-- Orders matching the term. Returns whole rows so the caller keeps its usual
+-- select / embedding, filters, ordering and exact count on top of the RPC
+-- (`rpc('search_orders').select(...)`); nothing is paged through the client.
+-- Runs as the caller, so RLS still applies.
+create or replace function public.search_orders(p_search text)
+returns setof public.orders
+language sql
+stable
+as $$
+  with term as (
+    select '%' || replace(replace(replace(trim(p_search), '\', '\\'), '%', '\%'), '_', '\_') || '%' as pattern
+  )
+  select o.*
+  from public.orders o
+  cross join term t
+  where o.id::text ilike t.pattern
+     or exists (
+       select 1 from public.profiles p
+       where p.id = o.user_id
+         and (p.full_name ilike t.pattern
+              or p.phone ilike t.pattern
+              or p.email ilike t.pattern)
+     )
+     or exists (
+       select 1
+       from public.order_items oi
+       join public.products pr on pr.id = oi.product_id
+       where oi.order_id = o.id
+         and (pr.name_ar ilike t.pattern or pr.name_en ilike t.pattern)
+     );
+$$;
@@ -0,0 +1,85 @@
+-- Sequential invoices for orders + tax settings
+
+alter table public.site_settings
+  add column if not exists tax_rate numeric(5, 2) not null default 0,
+  add column if not exists tax_number text;
+
+-- Invoice numbers come from a single counter row instead of a sequence: the
+-- row is locked while an invoice is issued and rolled back with it, so the
+-- numbers have no gaps.
+create table if not exists public.invoice_counter (
+  id boolean primary key default true check (id),
+  last_number bigint not null default 0
+);
+
+insert into public.invoice_counter (id, last_number) values (true, 0)
+on conflict (id) do nothing;
+
+create table if not exists public.invoices (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null unique references public.orders(id) on delete cascade,
+  invoice_number bigint not null unique,
+  tax_rate numeric(5, 2) not null default 0,
+  subtotal numeric(12, 2) not null,
+  tax_amount numeric(12, 2) not null,
+  total numeric(12, 2) not null,
+  issued_at timestamptz not null default now(),
+  issued_by uuid references auth.users(id) on delete set null
+);
+
+-- Issues the invoice for an order once; later calls return the same number.
+-- Only orders that were paid are invoiced (not pending or cancelled ones).
+-- Order prices are tax inclusive, so the tax is extracted from the total.
+create or replace function public.issue_invoice(p_order_id uuid)
+returns public.invoices
+language plpgsql
+as $$
+declare
+  v_invoice public.invoices;
+  v_total numeric(12, 2);
+  v_status text;
+  v_rate numeric(5, 2);
+  v_number bigint;
+begin
+  -- Concurrent calls for the same order wait here and then find the invoice
+  perform pg_advisory_xact_lock(hashtext('issue_invoice'), hashtext(p_order_id::text));
+
+  select * into v_invoice from public.invoices where order_id = p_order_id;
+  if found then
+    return v_invoice;
+  end if;
+
+  select total_price, status into v_total, v_status from public.orders where id = p_order_id;
+  if not found then
+    raise exception 'order not found' using errcode = 'P0002';
+  end if;
+
+  if v_status in ('pending', 'cancelled') then
+    raise exception 'order_not_invoiceable' using errcode = 'P0001';
+  end if;
+
+  select coalesce(tax_rate, 0) into v_rate from public.site_settings limit 1;
+  v_rate := coalesce(v_rate, 0);
+
+  update public.invoice_counter
+  set last_number = last_number + 1
+  returning last_number into v_number;
+  if not found then
+    raise exception 'permission denied' using errcode = '42501';
+  end if;
+
+  insert into public.invoices (order_id, invoice_number, tax_rate, subtotal, tax_amount, total, issued_by)
+  values (
+    p_order_id,
+    v_number,
+    v_rate,
+    round(v_total / (1 + v_rate / 100), 2),
+    v_total - round(v_total / (1 + v_rate / 100), 2),
+    v_total,
+    auth.uid()
+  )
+  returning * into v_invoice;
+
+  return v_invoice;
+end;
+$$;
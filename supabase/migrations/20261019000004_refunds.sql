@@ -0,0 +1,97 @@
+-- Full / partial refunds per payment
+
+create table if not exists public.refunds (
+  id uuid primary key default gen_random_uuid(),
+  payment_id uuid not null references public.payments(id) on delete cascade,
+  order_id uuid not null references public.orders(id) on delete cascade,
+  amount numeric(12, 2) not null check (amount > 0),
+  reason text not null,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists refunds_payment_id_idx on public.refunds (payment_id);
+create index if not exists refunds_created_at_idx on public.refunds (created_at);
+
+-- Refund progress is kept apart from the fulfilment status: a refund never
+-- moves an order back or forward in the status graph, it only updates
+-- refund_status. Refunds can be taken from any order that has a captured
+-- payment, whatever its status.
+alter table public.orders
+  add column if not exists refund_status text not null default 'none'
+    check (refund_status in ('none', 'partially_refunded', 'refunded'));
+
+-- Records a refund, keeps it within the captured amount and sets the
+-- payment status and the order's refund_status to (partially_)refunded.
+create or replace function public.refund_payment(
+  p_payment_id uuid,
+  p_amount numeric,
+  p_reason text
+) returns public.refunds
+language plpgsql
+security invoker
+as $$
+declare
+  v_payment public.payments;
+  v_refunded numeric(12, 2);
+  v_order_captured numeric(12, 2);
+  v_order_refunded numeric(12, 2);
+  v_refund public.refunds;
+begin
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'refund amount must be positive' using errcode = 'P0001';
+  end if;
+
+  if nullif(trim(p_reason), '') is null then
+    raise exception 'refund reason is required' using errcode = 'P0001';
+  end if;
+
+  select * into v_payment from public.payments where id = p_payment_id for update;
+  if not found then
+    raise exception 'payment not found' using errcode = 'P0002';
+  end if;
+
+  if v_payment.payment_status not in ('completed', 'partially_refunded') then
+    raise exception 'only captured payments can be refunded' using errcode = 'P0001';
+  end if;
+
+  perform 1 from public.orders where id = v_payment.order_id for update;
+
+  select coalesce(sum(amount), 0) into v_refunded
+  from public.refunds where payment_id = p_payment_id;
+
+  if v_refunded + p_amount > v_payment.amount then
+    raise exception 'refund exceeds captured amount (% remaining)', v_payment.amount - v_refunded
+      using errcode = 'P0003';
+  end if;
+
+  insert into public.refunds (payment_id, order_id, amount, reason, created_by)
+  values (p_payment_id, v_payment.order_id, p_amount, trim(p_reason), auth.uid())
+  returning * into v_refund;
+
+  update public.payments
+  set payment_status = case
+    when v_refunded + p_amount >= amount then 'refunded'
+    else 'partially_refunded'
+  end
+  where id = p_payment_id;
+
+  select coalesce(sum(amount), 0) into v_order_captured
+  from public.payments
+  where order_id = v_payment.order_id
+    and payment_status in ('completed', 'partially_refunded', 'refunded');
+
+  select coalesce(sum(amount), 0) into v_order_refunded
+  from public.refunds where order_id = v_payment.order_id;
+
+  update public.orders
+  set refund_status = case
+        when v_order_refunded >= v_order_captured then 'refunded'
+        else 'partially_refunded'
+      end,
+      updated_at = now()
+  where id = v_payment.order_id;
+
+  return v_refund;
+end;
+$$;
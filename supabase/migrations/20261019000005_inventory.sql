@@ -0,0 +1,316 @@
+-- Inventory: reservations on order placement, stock decrement on shipping,
+-- release / restock on cancellation or deletion, and a stock_movements ledger.
+--
+-- products.stock is the quantity on hand; products.reserved_stock is the part
+-- of it held by open orders. Available = stock - reserved_stock.
+
+alter table public.products
+  add column if not exists reserved_stock integer not null default 0,
+  add column if not exists low_stock_threshold integer not null default 5;
+
+alter table public.products
+  add constraint products_reserved_stock_check
+  check (reserved_stock >= 0 and reserved_stock <= coalesce(stock, 0)) not valid;
+
+alter table public.products
+  add constraint products_low_stock_threshold_check
+  check (low_stock_threshold >= 0);
+
+-- none: placed before inventory tracking (never touched), reserved: items are
+-- held, sold: stock was decremented, released: reservation/sale was undone.
+alter table public.orders
+  add column if not exists stock_state text not null default 'none'
+  check (stock_state in ('none', 'reserved', 'sold', 'released'));
+
+create table if not exists public.stock_movements (
+  id uuid primary key default gen_random_uuid(),
+  product_id uuid not null references public.products(id) on delete cascade,
+  order_id uuid references public.orders(id) on delete set null,
+  movement_type text not null
+    check (movement_type in ('reserve', 'release', 'sale', 'restock', 'adjustment')),
+  -- Signed change: applied to reserved_stock for reserve/release and to stock
+  -- for sale/restock/adjustment.
+  quantity integer not null,
+  stock_after integer not null,
+  reserved_after integer not null,
+  note text,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists stock_movements_product_id_idx
+  on public.stock_movements (product_id, created_at desc);
+create index if not exists stock_movements_order_id_idx
+  on public.stock_movements (order_id);
+
+-- Applies one movement to a product and writes it to the ledger. Every stock
+-- change goes through here so the ledger and products never disagree.
+create or replace function public.apply_stock_movement(
+  p_product_id uuid,
+  p_order_id uuid,
+  p_type text,
+  p_quantity integer,
+  p_note text default null
+) returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_product public.products;
+begin
+  select * into v_product from public.products where id = p_product_id for update;
+  if not found then
+    return;
+  end if;
+
+  if p_type = 'reserve' and coalesce(v_product.stock, 0) - v_product.reserved_stock < p_quantity then
+    raise exception 'insufficient stock for product % (% available)',
+      v_product.name_ar, coalesce(v_product.stock, 0) - v_product.reserved_stock
+      using errcode = 'P0004';
+  end if;
+
+  perform set_config('app.stock_movement', 'on', true);
+
+  if p_type in ('reserve', 'release') then
+    update public.products
+    set reserved_stock = greatest(reserved_stock + p_quantity, 0)
+    where id = p_product_id
+    returning * into v_product;
+  elsif p_type = 'sale' then
+    -- a sale consumes the reservation it came from
+    update public.products
+    set stock = coalesce(stock, 0) + p_quantity,
+        reserved_stock = greatest(reserved_stock + p_quantity, 0)
+    where id = p_product_id
+    returning * into v_product;
+  else
+    if coalesce(v_product.stock, 0) + p_quantity < v_product.reserved_stock then
+      raise exception 'stock cannot go below reserved quantity (%)', v_product.reserved_stock
+        using errcode = 'P0004';
+    end if;
+
+    update public.products
+    set stock = coalesce(stock, 0) + p_quantity
+    where id = p_product_id
+    returning * into v_product;
+  end if;
+
+  perform set_config('app.stock_movement', 'off', true);
+
+  insert into public.stock_movements (
+    product_id, order_id, movement_type, quantity, stock_after, reserved_after, note, created_by
+  ) values (
+    p_product_id, p_order_id, p_type, p_quantity,
+    coalesce(v_product.stock, 0), v_product.reserved_stock, nullif(trim(p_note), ''), auth.uid()
+  );
+end;
+$$;
+
+-- Moves the items of an order from one stock state to another: reserved ->
+-- sold, reserved -> released or sold -> released.
+create or replace function public.move_order_items_stock(
+  p_order_id uuid,
+  p_from_state text,
+  p_to_state text
+) returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_item record;
+begin
+  if p_from_state not in ('reserved', 'sold') or p_from_state = p_to_state then
+    return;
+  end if;
+
+  for v_item in
+    select product_id, sum(quantity)::integer as quantity
+    from public.order_items
+    where order_id = p_order_id and product_id is not null
+    group by product_id
+  loop
+    if p_to_state = 'sold' then
+      perform public.apply_stock_movement(v_item.product_id, p_order_id, 'sale', -v_item.quantity);
+    elsif p_from_state = 'reserved' then
+      perform public.apply_stock_movement(v_item.product_id, p_order_id, 'release', -v_item.quantity);
+    else
+      perform public.apply_stock_movement(v_item.product_id, p_order_id, 'restock', v_item.quantity, 'order cancelled');
+    end if;
+  end loop;
+end;
+$$;
+
+create or replace function public.apply_order_stock(
+  p_order_id uuid,
+  p_to_state text
+) returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_state text;
+begin
+  select stock_state into v_state from public.orders where id = p_order_id for update;
+
+  if v_state is null or v_state not in ('reserved', 'sold') or v_state = p_to_state then
+    return;
+  end if;
+
+  perform public.move_order_items_stock(p_order_id, v_state, p_to_state);
+
+  update public.orders set stock_state = p_to_state where id = p_order_id;
+end;
+$$;
+
+-- Internal helpers: only the triggers below and adjust_product_stock() call
+-- them, never the API.
+revoke execute on function public.apply_stock_movement(uuid, uuid, text, integer, text)
+  from public, anon, authenticated;
+revoke execute on function public.move_order_items_stock(uuid, text, text)
+  from public, anon, authenticated;
+revoke execute on function public.apply_order_stock(uuid, text)
+  from public, anon, authenticated;
+
+-- Placing an order item reserves its quantity; fails when not enough is available.
+create or replace function public.reserve_order_item_stock()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.product_id is null then
+    return new;
+  end if;
+
+  perform public.apply_stock_movement(new.product_id, new.order_id, 'reserve', new.quantity);
+
+  update public.orders
+  set stock_state = 'reserved'
+  where id = new.order_id and stock_state = 'none';
+
+  return new;
+end;
+$$;
+
+drop trigger if exists order_items_reserve_stock on public.order_items;
+create trigger order_items_reserve_stock
+  after insert on public.order_items
+  for each row execute function public.reserve_order_item_stock();
+
+-- Shipping turns the reservation into a sale; cancelling releases it (or
+-- restocks it if the goods had already left).
+create or replace function public.sync_order_stock()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status in ('shipped', 'delivered') then
+    perform public.apply_order_stock(new.id, 'sold');
+  elsif new.status = 'cancelled' then
+    perform public.apply_order_stock(new.id, 'released');
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists orders_sync_stock on public.orders;
+create trigger orders_sync_stock
+  after update of status on public.orders
+  for each row
+  when (old.status is distinct from new.status)
+  execute function public.sync_order_stock();
+
+create or replace function public.release_deleted_order_stock()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- the row is going away, so only the products are touched here
+  perform public.move_order_items_stock(old.id, old.stock_state, 'released');
+  return old;
+end;
+$$;
+
+drop trigger if exists orders_release_stock on public.orders;
+create trigger orders_release_stock
+  before delete on public.orders
+  for each row execute function public.release_deleted_order_stock();
+
+-- Direct edits of products.stock (the product form) are recorded as adjustments.
+create or replace function public.log_manual_stock_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(current_setting('app.stock_movement', true), 'off') <> 'on'
+     and coalesce(new.stock, 0) is distinct from coalesce(old.stock, 0) then
+    insert into public.stock_movements (
+      product_id, movement_type, quantity, stock_after, reserved_after, note, created_by
+    ) values (
+      new.id, 'adjustment', coalesce(new.stock, 0) - coalesce(old.stock, 0),
+      coalesce(new.stock, 0), new.reserved_stock, 'product form', auth.uid()
+    );
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists products_log_stock_change on public.products;
+create trigger products_log_stock_change
+  after update of stock on public.products
+  for each row execute function public.log_manual_stock_change();
+
+create or replace function public.adjust_product_stock(
+  p_product_id uuid,
+  p_quantity integer,
+  p_type text default 'adjustment',
+  p_note text default null
+) returns public.products
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_product public.products;
+begin
+  if p_type not in ('restock', 'adjustment') then
+    raise exception 'invalid movement type %', p_type using errcode = 'P0001';
+  end if;
+
+  if p_quantity is null or p_quantity = 0 then
+    raise exception 'quantity must not be zero' using errcode = 'P0001';
+  end if;
+
+  perform public.apply_stock_movement(p_product_id, null, p_type, p_quantity, p_note);
+
+  select * into v_product from public.products where id = p_product_id;
+  return v_product;
+end;
+$$;
+
+revoke execute on function public.adjust_product_stock(uuid, integer, text, text)
+  from public, anon;
+
+create or replace view public.low_stock_products
+with (security_invoker = on) as
+select
+  id,
+  name_ar,
+  name_en,
+  image_url,
+  coalesce(stock, 0) as stock,
+  reserved_stock,
+  coalesce(stock, 0) - reserved_stock as available_stock,
+  low_stock_threshold
+from public.products
+where coalesce(stock, 0) - reserved_stock <= low_stock_threshold;
@@ -0,0 +1,242 @@
+-- Product variants (size x option combinations) with their own SKU, price,
+-- offer price, stock and image. Order items point at the chosen variant and
+-- stock for those items is reserved / sold on the variant instead of the product.
+
+create table if not exists public.product_variants (
+  id uuid primary key default gen_random_uuid(),
+  product_id uuid not null references public.products(id) on delete cascade,
+  size text,
+  option text,
+  sku text not null unique,
+  price numeric(12, 2) not null check (price >= 0),
+  offer_price numeric(12, 2) check (offer_price is null or offer_price > 0),
+  stock integer not null default 0,
+  reserved_stock integer not null default 0,
+  image_url text,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint product_variants_reserved_stock_check
+    check (reserved_stock >= 0 and reserved_stock <= stock)
+);
+
+create unique index if not exists product_variants_combination_idx
+  on public.product_variants (product_id, coalesce(size, ''), coalesce(option, ''));
+
+alter table public.order_items
+  add column if not exists variant_id uuid references public.product_variants(id) on delete set null;
+
+create index if not exists order_items_variant_id_idx on public.order_items (variant_id);
+
+alter table public.stock_movements
+  add column if not exists variant_id uuid references public.product_variants(id) on delete cascade;
+
+-- Same as before, but a movement for a variant is applied to the variant row.
+drop function if exists public.apply_stock_movement(uuid, uuid, text, integer, text);
+
+create or replace function public.apply_stock_movement(
+  p_product_id uuid,
+  p_order_id uuid,
+  p_type text,
+  p_quantity integer,
+  p_note text default null,
+  p_variant_id uuid default null
+) returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_name text;
+  v_stock integer;
+  v_reserved integer;
+begin
+  if p_variant_id is not null then
+    select coalesce(p.name_ar, '') || ' / ' || coalesce(v.sku, ''), v.stock, v.reserved_stock
+    into v_name, v_stock, v_reserved
+    from public.product_variants v
+    join public.products p on p.id = v.product_id
+    where v.id = p_variant_id
+    for update of v;
+  else
+    select name_ar, coalesce(stock, 0), reserved_stock
+    into v_name, v_stock, v_reserved
+    from public.products
+    where id = p_product_id
+    for update;
+  end if;
+
+  if not found then
+    return;
+  end if;
+
+  if p_type = 'reserve' and v_stock - v_reserved < p_quantity then
+    raise exception 'insufficient stock for product % (% available)', v_name, v_stock - v_reserved
+      using errcode = 'P0004';
+  end if;
+
+  if p_type in ('restock', 'adjustment') and v_stock + p_quantity < v_reserved then
+    raise exception 'stock cannot go below reserved quantity (%)', v_reserved
+      using errcode = 'P0004';
+  end if;
+
+  if p_type in ('reserve', 'release') then
+    v_reserved := greatest(v_reserved + p_quantity, 0);
+  elsif p_type = 'sale' then
+    -- a sale consumes the reservation it came from
+    v_stock := v_stock + p_quantity;
+    v_reserved := greatest(v_reserved + p_quantity, 0);
+  else
+    v_stock := v_stock + p_quantity;
+  end if;
+
+  perform set_config('app.stock_movement', 'on', true);
+
+  if p_variant_id is not null then
+    update public.product_variants
+    set stock = v_stock, reserved_stock = v_reserved, updated_at = now()
+    where id = p_variant_id;
+  else
+    update public.products
+    set stock = v_stock, reserved_stock = v_reserved
+    where id = p_product_id;
+  end if;
+
+  perform set_config('app.stock_movement', 'off', true);
+
+  insert into public.stock_movements (
+    product_id, variant_id, order_id, movement_type, quantity, stock_after, reserved_after, note, created_by
+  ) values (
+    p_product_id, p_variant_id, p_order_id, p_type, p_quantity,
+    v_stock, v_reserved, nullif(trim(p_note), ''), auth.uid()
+  );
+end;
+$$;
+
+revoke execute on function public.apply_stock_movement(uuid, uuid, text, integer, text, uuid)
+  from public, anon, authenticated;
+
+create or replace function public.move_order_items_stock(
+  p_order_id uuid,
+  p_from_state text,
+  p_to_state text
+) returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_item record;
+begin
+  if p_from_state not in ('reserved', 'sold') or p_from_state = p_to_state then
+    return;
+  end if;
+
+  for v_item in
+    select product_id, variant_id, sum(quantity)::integer as quantity
+    from public.order_items
+    where order_id = p_order_id and product_id is not null
+    group by product_id, variant_id
+  loop
+    if p_to_state = 'sold' then
+      perform public.apply_stock_movement(
+        v_item.product_id, p_order_id, 'sale', -v_item.quantity, null, v_item.variant_id);
+    elsif p_from_state = 'reserved' then
+      perform public.apply_stock_movement(
+        v_item.product_id, p_order_id, 'release', -v_item.quantity, null, v_item.variant_id);
+    else
+      perform public.apply_stock_movement(
+        v_item.product_id, p_order_id, 'restock', v_item.quantity, 'order cancelled', v_item.variant_id);
+    end if;
+  end loop;
+end;
+$$;
+
+create or replace function public.reserve_order_item_stock()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.product_id is null then
+    return new;
+  end if;
+
+  if new.variant_id is not null and not exists (
+    select 1 from public.product_variants
+    where id = new.variant_id and product_id = new.product_id
+  ) then
+    raise exception 'variant % does not belong to product %', new.variant_id, new.product_id
+      using errcode = 'P0001';
+  end if;
+
+  perform public.apply_stock_movement(
+    new.product_id, new.order_id, 'reserve', new.quantity, null, new.variant_id);
+
+  update public.orders
+  set stock_state = 'reserved'
+  where id = new.order_id and stock_state = 'none';
+
+  return new;
+end;
+$$;
+
+create or replace function public.log_manual_variant_stock_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(current_setting('app.stock_movement', true), 'off') <> 'on'
+     and new.stock is distinct from old.stock then
+    insert into public.stock_movements (
+      product_id, variant_id, movement_type, quantity, stock_after, reserved_after, note, created_by
+    ) values (
+      new.product_id, new.id, 'adjustment', new.stock - old.stock,
+      new.stock, new.reserved_stock, 'product form', auth.uid()
+    );
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists product_variants_log_stock_change on public.product_variants;
+create trigger product_variants_log_stock_change
+  after update of stock on public.product_variants
+  for each row execute function public.log_manual_variant_stock_change();
+
+-- Variants use their product's low-stock threshold.
+drop view if exists public.low_stock_products;
+
+create view public.low_stock_products
+with (security_invoker = on) as
+select
+  id,
+  null::uuid as variant_id,
+  null::text as variant_sku,
+  name_ar,
+  name_en,
+  image_url,
+  coalesce(stock, 0) as stock,
+  reserved_stock,
+  coalesce(stock, 0) - reserved_stock as available_stock,
+  low_stock_threshold
+from public.products p
+where coalesce(stock, 0) - reserved_stock <= low_stock_threshold
+  and not exists (select 1 from public.product_variants v where v.product_id = p.id)
+union all
+select
+  p.id,
+  v.id as variant_id,
+  v.sku as variant_sku,
+  concat_ws(' - ', p.name_ar, nullif(concat_ws(' / ', v.size, v.option), '')) as name_ar,
+  concat_ws(' - ', p.name_en, nullif(concat_ws(' / ', v.size, v.option), '')) as name_en,
+  case when v.image_url is not null then array[v.image_url] else p.image_url end as image_url,
+  v.stock,
+  v.reserved_stock,
+  v.stock - v.reserved_stock as available_stock,
+  p.low_stock_threshold
+from public.product_variants v
+join public.products p on p.id = v.product_id
+where v.stock - v.reserved_stock <= p.low_stock_threshold;
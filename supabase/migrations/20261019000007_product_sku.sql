@@ -0,0 +1,7 @@
+-- Product-level SKU, used as the upsert key for bulk CSV/XLSX imports.
+
+alter table public.products
+  add column if not exists sku text;
+
+alter table public.products
+  add constraint products_sku_key unique (sku);
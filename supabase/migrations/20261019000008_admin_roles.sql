@@ -0,0 +1,277 @@
+-- Role-based access control for the dashboard.
+-- Roles live on admin_profiles; storefront accounts (profiles) have no admin
+-- profile and therefore no dashboard permissions. The role -> permission map
+-- must stay in sync with services/apiPermissions.ts.
+
+alter table public.admin_profiles
+  add column if not exists role text not null default 'owner'
+    check (role in ('owner', 'manager', 'branch_staff', 'content_editor')),
+  add column if not exists branch_id uuid references public.branches(id) on delete set null;
+
+-- Existing admins keep full access; new admins start with the least privilege.
+alter table public.admin_profiles alter column role set default 'content_editor';
+
+create or replace function public.current_admin_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.admin_profiles where user_id = auth.uid();
+$$;
+
+create or replace function public.role_has_permission(p_role text, p_permission text)
+returns boolean
+language sql
+immutable
+as $$
+  select case p_role
+    when 'owner' then true
+    when 'manager' then p_permission not in ('admins.manage', 'site_settings.manage')
+    when 'branch_staff' then p_permission in ('orders.view', 'orders.update', 'products.view')
+    when 'content_editor' then p_permission in (
+      'products.view', 'products.manage', 'categories.manage', 'content.manage'
+    )
+    else false
+  end;
+$$;
+
+create or replace function public.has_permission(p_permission text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(public.role_has_permission(public.current_admin_role(), p_permission), false);
+$$;
+
+-- Only admins.manage may change a role or branch, including one's own.
+create or replace function public.guard_admin_role_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  if (new.role is distinct from old.role or new.branch_id is distinct from old.branch_id)
+     and not public.has_permission('admins.manage') then
+    raise exception 'permission denied: admins.manage' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists admin_profiles_guard_role on public.admin_profiles;
+create trigger admin_profiles_guard_role
+  before update on public.admin_profiles
+  for each row execute function public.guard_admin_role_change();
+
+-- Catalogue and content: readable by everyone (storefront), writable by permission.
+do $$
+declare
+  v_table text;
+  v_permission text;
+begin
+  for v_table, v_permission in
+    select * from (values
+      ('products', 'products.manage'),
+      ('product_attributes', 'products.manage'),
+      ('product_variants', 'products.manage'),
+      ('categories', 'categories.manage'),
+      ('combo_offers', 'content.manage'),
+      ('galleries', 'content.manage'),
+      ('news', 'content.manage'),
+      ('branches', 'branches.manage'),
+      ('site_settings', 'site_settings.manage')
+    ) as t(table_name, permission)
+  loop
+    execute format('alter table public.%I enable row level security', v_table);
+    execute format('drop policy if exists %I on public.%I', v_table || '_public_read', v_table);
+    execute format(
+      'create policy %I on public.%I for select using (true)',
+      v_table || '_public_read', v_table);
+    execute format('drop policy if exists %I on public.%I', v_table || '_admin_write', v_table);
+    execute format(
+      'create policy %I on public.%I for all using (public.has_permission(%L)) with check (public.has_permission(%L))',
+      v_table || '_admin_write', v_table, v_permission, v_permission);
+  end loop;
+end;
+$$;
+
+-- Orders: customers see and place their own; admins by permission.
+alter table public.orders enable row level security;
+
+drop policy if exists orders_select on public.orders;
+create policy orders_select on public.orders for select
+  using (user_id = auth.uid() or public.has_permission('orders.view'));
+
+drop policy if exists orders_insert on public.orders;
+create policy orders_insert on public.orders for insert
+  with check (user_id = auth.uid() or public.has_permission('orders.update'));
+
+drop policy if exists orders_update on public.orders;
+create policy orders_update on public.orders for update
+  using (public.has_permission('orders.update'));
+
+drop policy if exists orders_delete on public.orders;
+create policy orders_delete on public.orders for delete
+  using (public.has_permission('orders.delete'));
+
+alter table public.order_items enable row level security;
+
+drop policy if exists order_items_select on public.order_items;
+create policy order_items_select on public.order_items for select
+  using (
+    public.has_permission('orders.view')
+    or exists (select 1 from public.orders o where o.id = order_id and o.user_id = auth.uid())
+  );
+
+drop policy if exists order_items_insert on public.order_items;
+create policy order_items_insert on public.order_items for insert
+  with check (
+    public.has_permission('orders.update')
+    or exists (select 1 from public.orders o where o.id = order_id and o.user_id = auth.uid())
+  );
+
+drop policy if exists order_items_write on public.order_items;
+create policy order_items_write on public.order_items for update
+  using (public.has_permission('orders.update'));
+
+drop policy if exists order_items_delete on public.order_items;
+create policy order_items_delete on public.order_items for delete
+  using (public.has_permission('orders.delete'));
+
+alter table public.payments enable row level security;
+
+drop policy if exists payments_select on public.payments;
+create policy payments_select on public.payments for select
+  using (
+    public.has_permission('orders.view')
+    or exists (select 1 from public.orders o where o.id = order_id and o.user_id = auth.uid())
+  );
+
+drop policy if exists payments_insert on public.payments;
+create policy payments_insert on public.payments for insert
+  with check (
+    public.has_permission('orders.update')
+    or exists (select 1 from public.orders o where o.id = order_id and o.user_id = auth.uid())
+  );
+
+drop policy if exists payments_update on public.payments;
+create policy payments_update on public.payments for update
+  using (public.has_permission('orders.refund'));
+
+alter table public.refunds enable row level security;
+
+drop policy if exists refunds_select on public.refunds;
+create policy refunds_select on public.refunds for select
+  using (public.has_permission('orders.view'));
+
+drop policy if exists refunds_insert on public.refunds;
+create policy refunds_insert on public.refunds for insert
+  with check (public.has_permission('orders.refund'));
+
+alter table public.order_status_history enable row level security;
+
+drop policy if exists order_status_history_select on public.order_status_history;
+create policy order_status_history_select on public.order_status_history for select
+  using (public.has_permission('orders.view'));
+
+drop policy if exists order_status_history_insert on public.order_status_history;
+create policy order_status_history_insert on public.order_status_history for insert
+  with check (public.has_permission('orders.update') or public.has_permission('orders.refund'));
+
+alter table public.invoices enable row level security;
+
+drop policy if exists invoices_select on public.invoices;
+create policy invoices_select on public.invoices for select
+  using (public.has_permission('orders.view'));
+
+drop policy if exists invoices_insert on public.invoices;
+create policy invoices_insert on public.invoices for insert
+  with check (public.has_permission('orders.view'));
+
+-- issue_invoice() bumps the counter as the caller; without a visible row it
+-- refuses before taking a number.
+alter table public.invoice_counter enable row level security;
+
+drop policy if exists invoice_counter_select on public.invoice_counter;
+create policy invoice_counter_select on public.invoice_counter for select
+  using (public.has_permission('orders.view'));
+
+drop policy if exists invoice_counter_update on public.invoice_counter;
+create policy invoice_counter_update on public.invoice_counter for update
+  using (public.has_permission('orders.view'));
+
+alter table public.stock_movements enable row level security;
+
+drop policy if exists stock_movements_select on public.stock_movements;
+create policy stock_movements_select on public.stock_movements for select
+  using (public.has_permission('products.view'));
+
+-- The ledger has no insert policy; the logging triggers write it as definer.
+alter function public.log_manual_stock_change() security definer set search_path = public;
+alter function public.log_manual_variant_stock_change() security definer set search_path = public;
+
+-- Customers: each sees their own profile, admins by permission.
+alter table public.profiles enable row level security;
+
+drop policy if exists profiles_select on public.profiles;
+create policy profiles_select on public.profiles for select
+  using (id = auth.uid() or public.has_permission('users.view') or public.has_permission('orders.view'));
+
+drop policy if exists profiles_update on public.profiles;
+create policy profiles_update on public.profiles for update
+  using (id = auth.uid() or public.has_permission('users.manage'));
+
+alter table public.admin_profiles enable row level security;
+
+drop policy if exists admin_profiles_select on public.admin_profiles;
+create policy admin_profiles_select on public.admin_profiles for select
+  using (user_id = auth.uid() or public.current_admin_role() is not null);
+
+drop policy if exists admin_profiles_insert on public.admin_profiles;
+create policy admin_profiles_insert on public.admin_profiles for insert
+  with check (public.has_permission('admins.manage'));
+
+drop policy if exists admin_profiles_update on public.admin_profiles;
+create policy admin_profiles_update on public.admin_profiles for update
+  using (user_id = auth.uid() or public.has_permission('admins.manage'));
+
+drop policy if exists admin_profiles_delete on public.admin_profiles;
+create policy admin_profiles_delete on public.admin_profiles for delete
+  using (public.has_permission('admins.manage'));
+
+-- adjust_product_stock() is security definer (the stock helpers are not
+-- executable by API roles), so it checks the permission itself.
+create or replace function public.adjust_product_stock(
+  p_product_id uuid,
+  p_quantity integer,
+  p_type text default 'adjustment',
+  p_note text default null
+) returns public.products
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_product public.products;
+begin
+  if not public.has_permission('products.manage') then
+    raise exception 'permission denied: products.manage' using errcode = '42501';
+  end if;
+
+  if p_type not in ('restock', 'adjustment') then
+    raise exception 'invalid movement type %', p_type using errcode = 'P0001';
+  end if;
+
+  if p_quantity is null or p_quantity = 0 then
+    raise exception 'quantity must not be zero' using errcode = 'P0001';
+  end if;
+
+  perform public.apply_stock_movement(p_product_id, null, p_type, p_quantity, p_note);
+
+  select * into v_product from public.products where id = p_product_id;
+  return v_product;
+end;
+$$;
@@ -0,0 +1,171 @@
+-- Append-only audit log of admin mutations.
+-- Rows are written by a generic trigger, so every service function and every
+-- page that writes through supabase directly (site settings, branches) is
+-- covered without having to remember to log by hand.
+
+create table if not exists public.audit_log (
+  id uuid primary key default gen_random_uuid(),
+  -- No FK: a cascading set null would rewrite history
+  actor_id uuid,
+  actor_name text,
+  actor_role text,
+  entity_type text not null,
+  entity_id text not null,
+  -- Owning record for child rows (variant -> product, payment -> order)
+  parent_type text,
+  parent_id text,
+  action text not null check (action in ('create', 'update', 'delete')),
+  before jsonb,
+  after jsonb,
+  diff jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists audit_log_entity_idx
+  on public.audit_log (entity_type, entity_id, created_at desc);
+create index if not exists audit_log_parent_idx
+  on public.audit_log (parent_type, parent_id, created_at desc);
+create index if not exists audit_log_created_at_idx
+  on public.audit_log (created_at desc);
+create index if not exists audit_log_actor_idx
+  on public.audit_log (actor_id, created_at desc);
+
+-- Changed keys only: { column: { "from": old, "to": new } }
+create or replace function public.audit_jsonb_diff(p_before jsonb, p_after jsonb)
+returns jsonb
+language sql
+immutable
+as $$
+  select coalesce(jsonb_object_agg(k, jsonb_build_object('from', p_before -> k, 'to', p_after -> k)), '{}'::jsonb)
+  from (
+    select jsonb_object_keys(coalesce(p_before, '{}'::jsonb)) as k
+    union
+    select jsonb_object_keys(coalesce(p_after, '{}'::jsonb))
+  ) keys
+  where (p_before -> k) is distinct from (p_after -> k)
+    and k not in ('updated_at', 'reserved_stock');
+$$;
+
+-- TG_ARGV: entity type, key column, and optionally parent type + parent column
+create or replace function public.log_audit_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_role text := public.current_admin_role();
+  v_key text := coalesce(tg_argv[1], 'id');
+  v_before jsonb;
+  v_after jsonb;
+  v_diff jsonb;
+  v_action text;
+begin
+  -- Storefront customers and service jobs are not admin actions
+  if v_role is null then
+    return coalesce(new, old);
+  end if;
+
+  if tg_op = 'INSERT' then
+    v_action := 'create';
+    v_after := to_jsonb(new);
+  elsif tg_op = 'UPDATE' then
+    v_action := 'update';
+    v_before := to_jsonb(old);
+    v_after := to_jsonb(new);
+  else
+    v_action := 'delete';
+    v_before := to_jsonb(old);
+  end if;
+
+  v_diff := public.audit_jsonb_diff(v_before, v_after);
+
+  -- Updates that only touched bookkeeping columns are noise
+  if v_action = 'update' and v_diff = '{}'::jsonb then
+    return new;
+  end if;
+
+  insert into public.audit_log (
+    actor_id, actor_name, actor_role, entity_type, entity_id, parent_type, parent_id,
+    action, before, after, diff
+  )
+  values (
+    auth.uid(),
+    (select full_name from public.admin_profiles where user_id = auth.uid()),
+    v_role,
+    tg_argv[0],
+    coalesce(v_after, v_before) ->> v_key,
+    tg_argv[2],
+    case when tg_argv[3] is not null then coalesce(v_after, v_before) ->> tg_argv[3] end,
+    v_action,
+    v_before,
+    v_after,
+    v_diff
+  );
+
+  return coalesce(new, old);
+end;
+$$;
+
+do $$
+declare
+  v_table text;
+  v_entity text;
+  v_key text;
+  v_parent text;
+  v_parent_key text;
+begin
+  for v_table, v_entity, v_key, v_parent, v_parent_key in
+    select * from (values
+      ('orders', 'order', 'id', null, null),
+      ('payments', 'payment', 'id', 'order', 'order_id'),
+      ('refunds', 'refund', 'id', 'order', 'order_id'),
+      ('products', 'product', 'id', null, null),
+      ('product_attributes', 'product_attribute', 'id', 'product', 'product_id'),
+      ('product_variants', 'product_variant', 'id', 'product', 'product_id'),
+      ('categories', 'category', 'id', null, null),
+      ('combo_offers', 'combo_offer', 'id', null, null),
+      ('galleries', 'gallery', 'id', null, null),
+      ('news', 'news', 'id', null, null),
+      ('branches', 'branch', 'id', null, null),
+      ('site_settings', 'site_settings', 'id', null, null),
+      ('profiles', 'user', 'id', null, null),
+      ('admin_profiles', 'admin', 'user_id', null, null)
+    ) as t(table_name, entity_type, key_column, parent_type, parent_column)
+  loop
+    execute format('drop trigger if exists %I on public.%I', v_table || '_audit', v_table);
+    -- Trigger arguments are literals, so the parent pair is left out entirely
+    execute format(
+      'create trigger %I after insert or update or delete on public.%I
+         for each row execute function public.log_audit_event(%s)',
+      v_table || '_audit', v_table,
+      case when v_parent is null
+        then format('%L, %L', v_entity, v_key)
+        else format('%L, %L, %L, %L', v_entity, v_key, v_parent, v_parent_key)
+      end);
+  end loop;
+end;
+$$;
+
+-- Append-only: readable by permission, never updated or deleted
+alter table public.audit_log enable row level security;
+
+drop policy if exists audit_log_select on public.audit_log;
+create policy audit_log_select on public.audit_log for select
+  using (public.has_permission('audit_log.view'));
+
+revoke update, delete, truncate on public.audit_log from anon, authenticated;
+
+create or replace function public.prevent_audit_log_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'audit_log is append-only' using errcode = '42501';
+end;
+$$;
+
+drop trigger if exists audit_log_append_only on public.audit_log;
+create trigger audit_log_append_only
+  before update or delete on public.audit_log
+  for each row execute function public.prevent_audit_log_change();
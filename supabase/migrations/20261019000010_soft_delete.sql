@@ -0,0 +1,374 @@
+-- Soft delete + recycle bin.
+-- Deleting from the dashboard only stamps deleted_at; rows are purged (and
+-- their files queued for storage cleanup) from the trash page or by the
+-- retention job below.
+
+do $$
+declare
+  v_table text;
+begin
+  foreach v_table in array array['products', 'orders', 'combo_offers', 'galleries', 'news']
+  loop
+    execute format(
+      'alter table public.%I
+         add column if not exists deleted_at timestamptz,
+         add column if not exists deleted_by uuid references auth.users(id) on delete set null',
+      v_table);
+    execute format(
+      'create index if not exists %I on public.%I (deleted_at) where deleted_at is not null',
+      v_table || '_deleted_at_idx', v_table);
+  end loop;
+end;
+$$;
+
+-- Stock state an order had when it was trashed, so restore can re-reserve.
+alter table public.orders add column if not exists trashed_stock_state text;
+
+-- Only holders of the delete permission may trash, restore or purge.
+create or replace function public.guard_soft_delete()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.deleted_at is distinct from old.deleted_at then
+    if not public.has_permission(tg_argv[0]) then
+      raise exception 'permission denied: %', tg_argv[0] using errcode = '42501';
+    end if;
+    new.deleted_by := case when new.deleted_at is null then null else auth.uid() end;
+  end if;
+  return new;
+end;
+$$;
+
+do $$
+declare
+  v_table text;
+  v_permission text;
+begin
+  for v_table, v_permission in
+    select * from (values
+      ('products', 'products.manage'),
+      ('orders', 'orders.delete'),
+      ('combo_offers', 'content.manage'),
+      ('galleries', 'content.manage'),
+      ('news', 'content.manage')
+    ) as t(table_name, permission)
+  loop
+    execute format('drop trigger if exists %I on public.%I', v_table || '_guard_soft_delete', v_table);
+    execute format(
+      'create trigger %I before update of deleted_at on public.%I
+         for each row execute function public.guard_soft_delete(%L)',
+      v_table || '_guard_soft_delete', v_table, v_permission);
+  end loop;
+end;
+$$;
+
+-- A trashed order must not keep stock reserved for the whole retention period.
+create or replace function public.sync_trashed_order_stock()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_item record;
+begin
+  if old.deleted_at is null and new.deleted_at is not null then
+    new.trashed_stock_state := new.stock_state;
+    if new.stock_state = 'reserved' then
+      perform public.move_order_items_stock(new.id, 'reserved', 'released');
+      new.stock_state := 'released';
+    end if;
+  elsif old.deleted_at is not null and new.deleted_at is null then
+    if new.trashed_stock_state = 'reserved' and new.stock_state = 'released' then
+      -- Fails with P0004 when the stock has been sold in the meantime
+      for v_item in
+        select product_id, variant_id, sum(quantity)::integer as quantity
+        from public.order_items
+        where order_id = new.id and product_id is not null
+        group by product_id, variant_id
+      loop
+        perform public.apply_stock_movement(
+          v_item.product_id, new.id, 'reserve', v_item.quantity, 'order restored', v_item.variant_id);
+      end loop;
+      new.stock_state := 'reserved';
+    end if;
+    new.trashed_stock_state := null;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists orders_sync_trashed_stock on public.orders;
+create trigger orders_sync_trashed_stock
+  before update of deleted_at on public.orders
+  for each row
+  when (old.deleted_at is distinct from new.deleted_at)
+  execute function public.sync_trashed_order_stock();
+
+-- Storefront and customers no longer see trashed rows; admins still do.
+drop policy if exists products_public_read on public.products;
+create policy products_public_read on public.products for select
+  using (deleted_at is null or public.has_permission('products.view'));
+
+drop policy if exists combo_offers_public_read on public.combo_offers;
+create policy combo_offers_public_read on public.combo_offers for select
+  using (deleted_at is null or public.has_permission('content.manage'));
+
+drop policy if exists galleries_public_read on public.galleries;
+create policy galleries_public_read on public.galleries for select
+  using (deleted_at is null or public.has_permission('content.manage'));
+
+drop policy if exists orders_select on public.orders;
+create policy orders_select on public.orders for select
+  using ((user_id = auth.uid() and deleted_at is null) or public.has_permission('orders.view'));
+
+-- Files of purged rows, removed later through the storage API (SQL cannot
+-- delete the underlying objects).
+create table if not exists public.storage_cleanup_queue (
+  id uuid primary key default gen_random_uuid(),
+  bucket text not null,
+  path text not null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.storage_cleanup_queue enable row level security;
+
+-- Only the purge functions below add rows; staff read and clear the queue.
+drop policy if exists storage_cleanup_queue_admin on public.storage_cleanup_queue;
+drop policy if exists storage_cleanup_queue_select on public.storage_cleanup_queue;
+create policy storage_cleanup_queue_select on public.storage_cleanup_queue for select
+  using (public.has_permission('products.manage') or public.has_permission('content.manage'));
+
+drop policy if exists storage_cleanup_queue_delete on public.storage_cleanup_queue;
+create policy storage_cleanup_queue_delete on public.storage_cleanup_queue for delete
+  using (public.has_permission('products.manage') or public.has_permission('content.manage'));
+
+create or replace function public.queue_storage_cleanup(p_urls text[])
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.storage_cleanup_queue (bucket, path)
+  select m[1], m[2]
+  from unnest(coalesce(p_urls, '{}'::text[])) as url,
+       regexp_match(url, '/storage/v1/object/public/([^/]+)/(.+)$') as m
+  where m is not null;
+$$;
+
+-- Permanently removes one trashed row and queues its files. Internal: the
+-- API goes through purge_trash_item() / purge_expired_trash().
+-- p_id is text because the legacy tables do not all use uuid keys.
+create or replace function public.purge_trash_row(p_type text, p_id text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_urls text[];
+begin
+  if p_type = 'product' then
+    select array(select jsonb_array_elements_text(coalesce(to_jsonb(p.image_url), '[]'::jsonb)))
+           || coalesce(array(select v.image_url from public.product_variants v
+                             where v.product_id = p.id and v.image_url is not null), '{}'::text[])
+    into v_urls
+    from public.products p where p.id::text = p_id and p.deleted_at is not null;
+    if not found then
+      raise exception 'trashed product % not found', p_id using errcode = 'P0002';
+    end if;
+    delete from public.products where id::text = p_id;
+  elsif p_type = 'order' then
+    delete from public.orders where id::text = p_id and deleted_at is not null;
+    if not found then
+      raise exception 'trashed order % not found', p_id using errcode = 'P0002';
+    end if;
+  elsif p_type = 'combo_offer' then
+    select array_remove(array[image_url], null) into v_urls
+    from public.combo_offers where id::text = p_id and deleted_at is not null;
+    if not found then
+      raise exception 'trashed offer % not found', p_id using errcode = 'P0002';
+    end if;
+    delete from public.combo_offers where id::text = p_id;
+  elsif p_type = 'gallery' then
+    select array(select jsonb_array_elements_text(coalesce(to_jsonb(image_urls), '[]'::jsonb)))
+    into v_urls
+    from public.galleries where id::text = p_id and deleted_at is not null;
+    if not found then
+      raise exception 'trashed gallery % not found', p_id using errcode = 'P0002';
+    end if;
+    delete from public.galleries where id::text = p_id;
+  elsif p_type = 'news' then
+    select array(select jsonb_array_elements_text(coalesce(to_jsonb(images), '[]'::jsonb)))
+    into v_urls
+    from public.news where id::text = p_id and deleted_at is not null;
+    if not found then
+      raise exception 'trashed news % not found', p_id using errcode = 'P0002';
+    end if;
+    delete from public.news where id::text = p_id;
+  else
+    raise exception 'unknown trash type %', p_type using errcode = 'P0001';
+  end if;
+
+  perform public.queue_storage_cleanup(v_urls);
+end;
+$$;
+
+create or replace function public.purge_trash_item(p_type text, p_id text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_permission text;
+begin
+  v_permission := case p_type
+    when 'product' then 'products.manage'
+    when 'order' then 'orders.delete'
+    when 'combo_offer' then 'content.manage'
+    when 'gallery' then 'content.manage'
+    when 'news' then 'content.manage'
+  end;
+
+  if v_permission is null then
+    raise exception 'unknown trash type %', p_type using errcode = 'P0001';
+  end if;
+
+  if not public.has_permission(v_permission) then
+    raise exception 'permission denied: %', v_permission using errcode = '42501';
+  end if;
+
+  perform public.purge_trash_row(p_type, p_id);
+end;
+$$;
+
+-- Retention policy: purge everything trashed more than p_days ago. Internal:
+-- run by the scheduled job as postgres, or through purge_expired_trash().
+create or replace function public.purge_trash_older_than(p_days integer)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_item record;
+  v_count integer := 0;
+begin
+  for v_item in
+    select 'product' as type, id::text as id from public.products where deleted_at < now() - make_interval(days => p_days)
+    union all
+    select 'order', id::text from public.orders where deleted_at < now() - make_interval(days => p_days)
+    union all
+    select 'combo_offer', id::text from public.combo_offers where deleted_at < now() - make_interval(days => p_days)
+    union all
+    select 'gallery', id::text from public.galleries where deleted_at < now() - make_interval(days => p_days)
+    union all
+    select 'news', id::text from public.news where deleted_at < now() - make_interval(days => p_days)
+  loop
+    perform public.purge_trash_row(v_item.type, v_item.id);
+    v_count := v_count + 1;
+  end loop;
+
+  return v_count;
+end;
+$$;
+
+-- On-demand retention run from the trash page.
+create or replace function public.purge_expired_trash(p_days integer default 30)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not (
+    public.has_permission('products.manage')
+    and public.has_permission('orders.delete')
+    and public.has_permission('content.manage')
+  ) then
+    raise exception 'permission denied: trash retention' using errcode = '42501';
+  end if;
+
+  return public.purge_trash_older_than(p_days);
+end;
+$$;
+
+revoke execute on function public.queue_storage_cleanup(text[]) from public, anon, authenticated;
+revoke execute on function public.purge_trash_row(text, text) from public, anon, authenticated;
+revoke execute on function public.purge_trash_older_than(integer) from public, anon, authenticated;
+revoke execute on function public.purge_trash_item(text, text) from public, anon;
+revoke execute on function public.purge_expired_trash(integer) from public, anon;
+
+-- Nightly retention run where pg_cron is available; otherwise the trash page
+-- runs it on demand.
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.unschedule(jobid) from cron.job where jobname = 'purge-expired-trash';
+    perform cron.schedule('purge-expired-trash', '0 3 * * *', 'select public.purge_trash_older_than(30)');
+  end if;
+end;
+$$;
+
+-- The files queued by the retention run are removed half an hour later by the
+-- storage-cleanup edge function (supabase/functions/storage-cleanup), called
+-- through pg_net. Needs the project_url and service_role_key secrets in Vault.
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron')
+     and exists (select 1 from pg_extension where extname = 'pg_net') then
+    perform cron.unschedule(jobid) from cron.job where jobname = 'storage-cleanup';
+    perform cron.schedule('storage-cleanup', '30 3 * * *', $job$
+      select net.http_post(
+        url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url')
+               || '/functions/v1/storage-cleanup',
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || (
+            select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key'
+          )
+        ),
+        body := '{}'::jsonb
+      );
+    $job$);
+  end if;
+end;
+$$;
+
+-- Trashed products drop out of the low-stock widget.
+create or replace view public.low_stock_products
+with (security_invoker = on) as
+select
+  id,
+  null::uuid as variant_id,
+  null::text as variant_sku,
+  name_ar,
+  name_en,
+  image_url,
+  coalesce(stock, 0) as stock,
+  reserved_stock,
+  coalesce(stock, 0) - reserved_stock as available_stock,
+  low_stock_threshold
+from public.products p
+where coalesce(stock, 0) - reserved_stock <= low_stock_threshold
+  and p.deleted_at is null
+  and not exists (select 1 from public.product_variants v where v.product_id = p.id)
+union all
+select
+  p.id,
+  v.id as variant_id,
+  v.sku as variant_sku,
+  concat_ws(' - ', p.name_ar, nullif(concat_ws(' / ', v.size, v.option), '')) as name_ar,
+  concat_ws(' - ', p.name_en, nullif(concat_ws(' / ', v.size, v.option), '')) as name_en,
+  case when v.image_url is not null then array[v.image_url] else p.image_url end as image_url,
+  v.stock,
+  v.reserved_stock,
+  v.stock - v.reserved_stock as available_stock,
+  p.low_stock_threshold
+from public.product_variants v
+join public.products p on p.id = v.product_id
+where v.stock - v.reserved_stock <= p.low_stock_threshold
+  and p.deleted_at is null;
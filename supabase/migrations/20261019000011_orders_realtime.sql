@@ -0,0 +1,45 @@
+-- Realtime order notifications for the dashboard.
+-- New orders come from inserts on orders; status changes from inserts on
+-- order_status_history, which (unlike the orders update payload under RLS)
+-- carries the previous status and who made the change.
+
+-- Realtime only delivers rows the subscriber can select, so the history
+-- table needs RLS before it is published.
+alter table public.order_status_history enable row level security;
+
+drop policy if exists order_status_history_select on public.order_status_history;
+create policy order_status_history_select on public.order_status_history for select
+  using (
+    public.has_permission('orders.view')
+    or exists (
+      select 1 from public.orders o
+      where o.id = order_id and o.user_id = auth.uid()
+    )
+  );
+
+-- Written by change_order_status / refund_payment (security invoker)
+drop policy if exists order_status_history_insert on public.order_status_history;
+create policy order_status_history_insert on public.order_status_history for insert
+  with check (
+    public.has_permission('orders.update') or public.has_permission('orders.refund')
+  );
+
+do $$
+declare
+  v_table text;
+begin
+  if not exists (select 1 from pg_publication where pubname = 'supabase_realtime') then
+    create publication supabase_realtime;
+  end if;
+
+  foreach v_table in array array['orders', 'order_status_history']
+  loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = v_table
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', v_table);
+    end if;
+  end loop;
+end;
+$$;
@@ -0,0 +1,167 @@
+-- Orders are fulfilled by a branch.
+-- The branch is picked automatically from the customer's city/area when the
+-- order is placed and can be changed by staff. Branch staff only see (and
+-- work on) the orders of their own branch.
+
+alter table public.orders
+  add column if not exists branch_id uuid references public.branches(id) on delete set null;
+
+create index if not exists orders_branch_id_idx on public.orders (branch_id, created_at desc);
+
+-- Extra city/area names a branch delivers to, besides its own area_ar/area_en.
+alter table public.branches
+  add column if not exists service_areas text[] not null default '{}';
+
+-- First branch whose area (or one of its service areas) matches the
+-- customer's city or state, case-insensitively.
+create or replace function public.resolve_order_branch(p_user_id uuid)
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select b.id
+  from public.profiles p
+  cross join lateral (
+    select lower(trim(v)) as place
+    from unnest(array[p.city, p.state]) as v
+    where nullif(trim(v), '') is not null
+  ) c
+  join public.branches b
+    on c.place in (lower(trim(b.area_ar)), lower(trim(b.area_en)))
+    or c.place = any (select lower(trim(s)) from unnest(b.service_areas) as s)
+  where p.id = p_user_id
+  order by b.created_at
+  limit 1;
+$$;
+
+create or replace function public.assign_order_branch_on_insert()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.branch_id is null and new.user_id is not null then
+    new.branch_id := public.resolve_order_branch(new.user_id);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists orders_assign_branch on public.orders;
+create trigger orders_assign_branch
+  before insert on public.orders
+  for each row execute function public.assign_order_branch_on_insert();
+
+-- Re-runs the automatic rule for an existing order (e.g. after the customer
+-- fixed their address). Returns the chosen branch, or null when none matches.
+create or replace function public.auto_assign_order_branch(p_order_id uuid)
+returns uuid
+language plpgsql
+security invoker
+as $$
+declare
+  v_user_id uuid;
+  v_branch_id uuid;
+begin
+  select user_id into v_user_id from public.orders where id = p_order_id;
+  if not found then
+    raise exception 'order not found' using errcode = 'P0002';
+  end if;
+
+  v_branch_id := public.resolve_order_branch(v_user_id);
+
+  if v_branch_id is not null then
+    update public.orders set branch_id = v_branch_id, updated_at = now()
+    where id = p_order_id;
+  end if;
+
+  return v_branch_id;
+end;
+$$;
+
+-- Existing orders get a branch where the rule finds one.
+update public.orders o
+set branch_id = public.resolve_order_branch(o.user_id)
+where o.branch_id is null and o.user_id is not null;
+
+create or replace function public.current_admin_branch()
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select branch_id from public.admin_profiles where user_id = auth.uid();
+$$;
+
+-- Branch staff are limited to their branch; every other role sees all branches.
+create or replace function public.can_access_branch(p_branch_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(public.current_admin_role(), '') <> 'branch_staff'
+      or p_branch_id = public.current_admin_branch();
+$$;
+
+create or replace function public.can_view_order(p_order_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.has_permission('orders.view')
+     and exists (
+       select 1 from public.orders o
+       where o.id = p_order_id and public.can_access_branch(o.branch_id)
+     );
+$$;
+
+drop policy if exists orders_select on public.orders;
+create policy orders_select on public.orders for select
+  using (
+    (user_id = auth.uid() and deleted_at is null)
+    or (public.has_permission('orders.view') and public.can_access_branch(branch_id))
+  );
+
+-- with check keeps branch staff from moving an order to another branch
+drop policy if exists orders_update on public.orders;
+create policy orders_update on public.orders for update
+  using (public.has_permission('orders.update') and public.can_access_branch(branch_id))
+  with check (public.has_permission('orders.update') and public.can_access_branch(branch_id));
+
+drop policy if exists order_items_select on public.order_items;
+create policy order_items_select on public.order_items for select
+  using (
+    public.can_view_order(order_id)
+    or exists (select 1 from public.orders o where o.id = order_id and o.user_id = auth.uid())
+  );
+
+drop policy if exists payments_select on public.payments;
+create policy payments_select on public.payments for select
+  using (
+    public.can_view_order(order_id)
+    or exists (select 1 from public.orders o where o.id = order_id and o.user_id = auth.uid())
+  );
+
+drop policy if exists refunds_select on public.refunds;
+create policy refunds_select on public.refunds for select
+  using (public.can_view_order(order_id));
+
+drop policy if exists invoices_select on public.invoices;
+create policy invoices_select on public.invoices for select
+  using (public.can_view_order(order_id));
+
+drop policy if exists order_status_history_select on public.order_status_history;
+create policy order_status_history_select on public.order_status_history for select
+  using (
+    public.can_view_order(order_id)
+    or exists (
+      select 1 from public.orders o
+      where o.id = order_id and o.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,101 @@
+-- Structured opening hours per branch.
+-- Weekly shifts (several per day for split shifts) plus date overrides for
+-- holidays and special days. Times are wall-clock times in the branch's
+-- timezone; a shift whose closes_at is not after opens_at runs past midnight.
+-- works_hours stays as the human-readable summary shown on the storefront.
+
+alter table public.branches
+  add column if not exists timezone text not null default 'Africa/Cairo';
+
+create table if not exists public.branch_opening_hours (
+  id uuid primary key default gen_random_uuid(),
+  branch_id uuid not null references public.branches(id) on delete cascade,
+  -- 0 = Sunday ... 6 = Saturday (same as Date.getDay())
+  weekday smallint not null check (weekday between 0 and 6),
+  opens_at time not null,
+  closes_at time not null
+);
+
+create index if not exists branch_opening_hours_branch_idx
+  on public.branch_opening_hours (branch_id, weekday);
+
+-- An override replaces the weekly shifts for that date: either closed all
+-- day, or open only during its own shifts (one row per shift).
+create table if not exists public.branch_schedule_exceptions (
+  id uuid primary key default gen_random_uuid(),
+  branch_id uuid not null references public.branches(id) on delete cascade,
+  date date not null,
+  is_closed boolean not null default false,
+  opens_at time,
+  closes_at time,
+  note text,
+  check (is_closed or (opens_at is not null and closes_at is not null))
+);
+
+create index if not exists branch_schedule_exceptions_branch_idx
+  on public.branch_schedule_exceptions (branch_id, date);
+
+do $$
+declare
+  v_table text;
+begin
+  foreach v_table in array array['branch_opening_hours', 'branch_schedule_exceptions']
+  loop
+    execute format('alter table public.%I enable row level security', v_table);
+    execute format('drop policy if exists %I on public.%I', v_table || '_public_read', v_table);
+    execute format('create policy %I on public.%I for select using (true)', v_table || '_public_read', v_table);
+    execute format('drop policy if exists %I on public.%I', v_table || '_admin_write', v_table);
+    execute format(
+      'create policy %I on public.%I for all using (public.has_permission(%L)) with check (public.has_permission(%L))',
+      v_table || '_admin_write', v_table, 'branches.manage', 'branches.manage');
+  end loop;
+end;
+$$;
+
+-- Replaces a branch's whole schedule in one transaction.
+-- p_shifts:     [{weekday, opens_at, closes_at}]
+-- p_exceptions: [{date, is_closed, opens_at, closes_at, note}]
+create or replace function public.save_branch_schedule(
+  p_branch_id uuid,
+  p_timezone text,
+  p_works_hours text,
+  p_shifts jsonb,
+  p_exceptions jsonb
+) returns void
+language plpgsql
+security invoker
+as $$
+begin
+  if not public.has_permission('branches.manage') then
+    raise exception 'permission denied: branches.manage' using errcode = '42501';
+  end if;
+
+  if not exists (select 1 from pg_timezone_names where name = p_timezone) then
+    raise exception 'unknown timezone %', p_timezone using errcode = 'P0001';
+  end if;
+
+  update public.branches
+  set timezone = p_timezone, works_hours = coalesce(p_works_hours, works_hours)
+  where id = p_branch_id;
+
+  if not found then
+    raise exception 'branch not found' using errcode = 'P0002';
+  end if;
+
+  delete from public.branch_opening_hours where branch_id = p_branch_id;
+  insert into public.branch_opening_hours (branch_id, weekday, opens_at, closes_at)
+  select p_branch_id, (s->>'weekday')::smallint, (s->>'opens_at')::time, (s->>'closes_at')::time
+  from jsonb_array_elements(coalesce(p_shifts, '[]'::jsonb)) as s;
+
+  delete from public.branch_schedule_exceptions where branch_id = p_branch_id;
+  insert into public.branch_schedule_exceptions (branch_id, date, is_closed, opens_at, closes_at, note)
+  select
+    p_branch_id,
+    (e->>'date')::date,
+    coalesce((e->>'is_closed')::boolean, false),
+    nullif(e->>'opens_at', '')::time,
+    nullif(e->>'closes_at', '')::time,
+    nullif(trim(e->>'note'), '')
+  from jsonb_array_elements(coalesce(p_exceptions, '[]'::jsonb)) as e;
+end;
+$$;
@@ -0,0 +1,230 @@
+-- Delivery zones per branch.
+-- A zone is either a polygon (drawn on a map, stored as [{lat, lng}, ...]) or
+-- a list of area/city names matched against the customer's address. Each
+-- zone carries its delivery fee, minimum order value and estimated delivery
+-- time. Orders keep the zone and fee that were applied to them; the fee is
+-- part of total_price, and a basket below the zone minimum is rejected.
+
+create table if not exists public.delivery_zones (
+  id uuid primary key default gen_random_uuid(),
+  branch_id uuid not null references public.branches(id) on delete cascade,
+  name_ar text not null,
+  name_en text,
+  zone_type text not null check (zone_type in ('polygon', 'areas')),
+  polygon jsonb,
+  areas text[] not null default '{}',
+  fee numeric(10, 2) not null default 0 check (fee >= 0),
+  min_order_value numeric(10, 2) not null default 0 check (min_order_value >= 0),
+  estimated_minutes integer check (estimated_minutes > 0),
+  is_active boolean not null default true,
+  -- Lower wins when several zones of the same kind match
+  priority integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (
+    (zone_type = 'polygon' and jsonb_typeof(polygon) = 'array' and jsonb_array_length(polygon) >= 3)
+    or (zone_type = 'areas' and cardinality(areas) > 0)
+  )
+);
+
+create index if not exists delivery_zones_branch_idx
+  on public.delivery_zones (branch_id, is_active, priority);
+
+alter table public.orders
+  add column if not exists delivery_zone_id uuid references public.delivery_zones(id) on delete set null,
+  add column if not exists delivery_fee numeric(10, 2),
+  -- Optional drop-off coordinates sent by the storefront; used for polygon zones
+  add column if not exists delivery_lat double precision,
+  add column if not exists delivery_lng double precision;
+
+alter table public.delivery_zones enable row level security;
+
+drop policy if exists delivery_zones_public_read on public.delivery_zones;
+create policy delivery_zones_public_read on public.delivery_zones for select
+  using (true);
+
+drop policy if exists delivery_zones_admin_write on public.delivery_zones;
+create policy delivery_zones_admin_write on public.delivery_zones for all
+  using (public.has_permission('branches.manage'))
+  with check (public.has_permission('branches.manage'));
+
+drop trigger if exists delivery_zones_audit on public.delivery_zones;
+create trigger delivery_zones_audit
+  after insert or update or delete on public.delivery_zones
+  for each row execute function public.log_audit_event('delivery_zone', 'id', 'branch', 'branch_id');
+
+-- Ray casting; points on the edge may fall either way, which is fine for
+-- delivery areas.
+create or replace function public.point_in_polygon(
+  p_polygon jsonb,
+  p_lat double precision,
+  p_lng double precision
+) returns boolean
+language plpgsql
+immutable
+as $$
+declare
+  v_count integer := coalesce(jsonb_array_length(p_polygon), 0);
+  v_inside boolean := false;
+  v_i integer;
+  v_j integer;
+  v_lat_i double precision;
+  v_lng_i double precision;
+  v_lat_j double precision;
+  v_lng_j double precision;
+begin
+  if v_count < 3 or p_lat is null or p_lng is null then
+    return false;
+  end if;
+
+  v_j := v_count - 1;
+  for v_i in 0 .. v_count - 1 loop
+    v_lat_i := (p_polygon -> v_i ->> 'lat')::double precision;
+    v_lng_i := (p_polygon -> v_i ->> 'lng')::double precision;
+    v_lat_j := (p_polygon -> v_j ->> 'lat')::double precision;
+    v_lng_j := (p_polygon -> v_j ->> 'lng')::double precision;
+
+    if (v_lat_i > p_lat) <> (v_lat_j > p_lat)
+       and p_lng < (v_lng_j - v_lng_i) * (p_lat - v_lat_i) / (v_lat_j - v_lat_i) + v_lng_i then
+      v_inside := not v_inside;
+    end if;
+
+    v_j := v_i;
+  end loop;
+
+  return v_inside;
+end;
+$$;
+
+-- Best matching active zone for a drop-off. Polygon zones are more precise,
+-- so a polygon match beats an area-name match. p_branch_id limits the search
+-- to one branch; null searches every branch.
+create or replace function public.resolve_delivery_zone(
+  p_branch_id uuid,
+  p_places text[],
+  p_lat double precision default null,
+  p_lng double precision default null
+) returns public.delivery_zones
+language sql
+stable
+as $$
+  select z.*
+  from public.delivery_zones z
+  where z.is_active
+    and (p_branch_id is null or z.branch_id = p_branch_id)
+    and (
+      (z.zone_type = 'polygon' and public.point_in_polygon(z.polygon, p_lat, p_lng))
+      or (
+        z.zone_type = 'areas'
+        and exists (
+          select 1
+          from unnest(p_places) as place, unnest(z.areas) as area
+          where nullif(trim(place), '') is not null
+            and lower(trim(place)) = lower(trim(area))
+        )
+      )
+    )
+  order by (z.zone_type = 'polygon') desc, z.priority, z.fee
+  limit 1;
+$$;
+
+-- Zone for an order, from its coordinates and the customer's city/state
+create or replace function public.resolve_order_delivery_zone(
+  p_user_id uuid,
+  p_branch_id uuid,
+  p_lat double precision,
+  p_lng double precision
+) returns public.delivery_zones
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.resolve_delivery_zone(
+    p_branch_id,
+    coalesce((select array[p.city, p.state] from public.profiles p where p.id = p_user_id), '{}'),
+    p_lat,
+    p_lng
+  );
+$$;
+
+-- Runs after orders_assign_branch (triggers fire in name order), so the zone
+-- is looked up within the order's branch when it has one. total_price arrives
+-- as the basket total (the items are inserted afterwards); the fee is added
+-- on top of it.
+create or replace function public.assign_order_delivery_zone_on_insert()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_zone public.delivery_zones;
+begin
+  if new.delivery_zone_id is null and new.delivery_fee is null then
+    v_zone := public.resolve_order_delivery_zone(
+      new.user_id, new.branch_id, new.delivery_lat, new.delivery_lng);
+    if v_zone.id is not null then
+      if coalesce(new.total_price, 0) < v_zone.min_order_value then
+        raise exception 'below_zone_minimum' using errcode = 'P0001';
+      end if;
+
+      new.delivery_zone_id := v_zone.id;
+      new.delivery_fee := v_zone.fee;
+      new.total_price := coalesce(new.total_price, 0) + v_zone.fee;
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists orders_assign_delivery_zone on public.orders;
+create trigger orders_assign_delivery_zone
+  before insert on public.orders
+  for each row execute function public.assign_order_delivery_zone_on_insert();
+
+-- Re-applies the zone rule to a pending order (e.g. after the branch or the
+-- customer's address changed), swapping the old fee for the new one in
+-- total_price. Returns the zone, or null when none matches; the order is left
+-- untouched in that case. Error codes: P0001 order_not_pending /
+-- below_zone_minimum.
+create or replace function public.apply_order_delivery_zone(p_order_id uuid)
+returns public.delivery_zones
+language plpgsql
+security invoker
+as $$
+declare
+  v_order public.orders;
+  v_zone public.delivery_zones;
+  v_subtotal numeric;
+begin
+  select * into v_order from public.orders where id = p_order_id for update;
+  if not found then
+    raise exception 'order not found' using errcode = 'P0002';
+  end if;
+
+  if v_order.status <> 'pending' then
+    raise exception 'order_not_pending' using errcode = 'P0001';
+  end if;
+
+  v_zone := public.resolve_order_delivery_zone(
+    v_order.user_id, v_order.branch_id, v_order.delivery_lat, v_order.delivery_lng);
+
+  if v_zone.id is not null then
+    select coalesce(sum(price * quantity), 0) into v_subtotal
+    from public.order_items
+    where order_id = p_order_id;
+
+    if v_subtotal < v_zone.min_order_value then
+      raise exception 'below_zone_minimum' using errcode = 'P0001';
+    end if;
+
+    update public.orders
+    set delivery_zone_id = v_zone.id,
+        delivery_fee = v_zone.fee,
+        total_price = total_price - coalesce(delivery_fee, 0) + v_zone.fee,
+        updated_at = now()
+    where id = p_order_id;
+  end if;
+
+  return v_zone;
+end;
+$$;
@@ -0,0 +1,256 @@
+-- Drivers / couriers and delivery assignment.
+-- orders.driver_id is the current assignment. Every assignment is also a row
+-- in order_deliveries (one per attempt), which records pick-up and completion
+-- times and the outcome, and feeds the driver performance report.
+
+create table if not exists public.drivers (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  phone text,
+  branch_id uuid references public.branches(id) on delete set null,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists drivers_branch_idx on public.drivers (branch_id, is_active);
+
+alter table public.orders
+  add column if not exists driver_id uuid references public.drivers(id) on delete set null;
+
+create index if not exists orders_driver_id_idx on public.orders (driver_id);
+
+-- outcome: pending (out for delivery), delivered, failed, or cancelled when the
+-- order was handed to another driver or cancelled.
+-- No cascade on driver_id: a driver with history is deactivated, not deleted.
+create table if not exists public.order_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null references public.orders(id) on delete cascade,
+  driver_id uuid not null references public.drivers(id),
+  assigned_by uuid references auth.users(id) on delete set null,
+  assigned_at timestamptz not null default now(),
+  picked_up_at timestamptz,
+  completed_at timestamptz,
+  outcome text not null default 'pending'
+    check (outcome in ('pending', 'delivered', 'failed', 'cancelled')),
+  failure_reason text
+);
+
+create index if not exists order_deliveries_order_idx
+  on public.order_deliveries (order_id, assigned_at desc);
+create index if not exists order_deliveries_driver_idx
+  on public.order_deliveries (driver_id, assigned_at desc);
+-- At most one open attempt per order
+create unique index if not exists order_deliveries_open_idx
+  on public.order_deliveries (order_id) where outcome = 'pending';
+
+alter table public.drivers enable row level security;
+
+drop policy if exists drivers_select on public.drivers;
+create policy drivers_select on public.drivers for select
+  using (public.has_permission('orders.view') and public.can_access_branch(branch_id));
+
+drop policy if exists drivers_write on public.drivers;
+create policy drivers_write on public.drivers for all
+  using (public.has_permission('branches.manage'))
+  with check (public.has_permission('branches.manage'));
+
+alter table public.order_deliveries enable row level security;
+
+drop policy if exists order_deliveries_select on public.order_deliveries;
+create policy order_deliveries_select on public.order_deliveries for select
+  using (public.can_view_order(order_id));
+
+drop policy if exists order_deliveries_insert on public.order_deliveries;
+create policy order_deliveries_insert on public.order_deliveries for insert
+  with check (public.has_permission('orders.update') and public.can_view_order(order_id));
+
+drop policy if exists order_deliveries_update on public.order_deliveries;
+create policy order_deliveries_update on public.order_deliveries for update
+  using (public.has_permission('orders.update') and public.can_view_order(order_id));
+
+drop trigger if exists drivers_audit on public.drivers;
+create trigger drivers_audit
+  after insert or update or delete on public.drivers
+  for each row execute function public.log_audit_event('driver', 'id');
+
+-- Hands the order to a driver. An open attempt with another driver is
+-- closed as cancelled first. The driver must be active and, when both have
+-- one, belong to the order's branch.
+create or replace function public.assign_order_driver(
+  p_order_id uuid,
+  p_driver_id uuid
+) returns public.order_deliveries
+language plpgsql
+security invoker
+as $$
+declare
+  v_order public.orders;
+  v_driver public.drivers;
+  v_delivery public.order_deliveries;
+begin
+  if not public.has_permission('orders.update') then
+    raise exception 'permission denied: orders.update' using errcode = '42501';
+  end if;
+
+  select * into v_order from public.orders where id = p_order_id for update;
+  if not found then
+    raise exception 'order not found' using errcode = 'P0002';
+  end if;
+
+  if v_order.status in ('delivered', 'cancelled') then
+    raise exception 'order % is already closed', p_order_id using errcode = 'P0001';
+  end if;
+
+  select * into v_driver from public.drivers where id = p_driver_id;
+  if not found or not v_driver.is_active then
+    raise exception 'driver not found or inactive' using errcode = 'P0002';
+  end if;
+
+  if v_order.branch_id is not null and v_driver.branch_id is not null
+     and v_order.branch_id <> v_driver.branch_id then
+    raise exception 'driver belongs to another branch' using errcode = 'P0001';
+  end if;
+
+  select * into v_delivery from public.order_deliveries
+  where order_id = p_order_id and outcome = 'pending';
+
+  if found and v_delivery.driver_id = p_driver_id then
+    return v_delivery;
+  end if;
+
+  update public.order_deliveries
+  set outcome = 'cancelled', completed_at = now()
+  where order_id = p_order_id and outcome = 'pending';
+
+  insert into public.order_deliveries (order_id, driver_id, assigned_by, picked_up_at)
+  values (
+    p_order_id,
+    p_driver_id,
+    auth.uid(),
+    -- Already on the road when reassigned after shipping
+    case when v_order.status = 'shipped' then now() end
+  )
+  returning * into v_delivery;
+
+  update public.orders
+  set driver_id = p_driver_id, updated_at = now()
+  where id = p_order_id;
+
+  return v_delivery;
+end;
+$$;
+
+-- Failed attempt: the order stays shipped and is freed for another attempt.
+create or replace function public.record_delivery_failure(
+  p_order_id uuid,
+  p_reason text
+) returns public.order_deliveries
+language plpgsql
+security invoker
+as $$
+declare
+  v_delivery public.order_deliveries;
+begin
+  if not public.has_permission('orders.update') then
+    raise exception 'permission denied: orders.update' using errcode = '42501';
+  end if;
+
+  if nullif(trim(p_reason), '') is null then
+    raise exception 'a failure reason is required' using errcode = 'P0001';
+  end if;
+
+  update public.order_deliveries
+  set outcome = 'failed', completed_at = now(), failure_reason = trim(p_reason)
+  where order_id = p_order_id and outcome = 'pending'
+  returning * into v_delivery;
+
+  if not found then
+    raise exception 'order % has no open delivery', p_order_id using errcode = 'P0002';
+  end if;
+
+  update public.orders
+  set driver_id = null, updated_at = now()
+  where id = p_order_id;
+
+  return v_delivery;
+end;
+$$;
+
+-- Keeps the open attempt in step with the order status:
+-- shipped = picked up, delivered = success, cancelled = attempt cancelled.
+create or replace function public.sync_order_delivery_status()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status = 'shipped' then
+    update public.order_deliveries
+    set picked_up_at = coalesce(picked_up_at, now())
+    where order_id = new.id and outcome = 'pending';
+  elsif new.status = 'delivered' then
+    update public.order_deliveries
+    set outcome = 'delivered', completed_at = now()
+    where order_id = new.id and outcome = 'pending';
+  elsif new.status = 'cancelled' then
+    update public.order_deliveries
+    set outcome = 'cancelled', completed_at = now()
+    where order_id = new.id and outcome = 'pending';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists orders_sync_delivery on public.orders;
+create trigger orders_sync_delivery
+  after update of status on public.orders
+  for each row
+  when (new.status is distinct from old.status)
+  execute function public.sync_order_delivery_status();
+
+-- Per-driver totals for attempts assigned in [p_from, p_to). Delivery time is
+-- measured from pick-up (or assignment when never marked shipped) to completion.
+create or replace function public.driver_performance(
+  p_from timestamptz default null,
+  p_to timestamptz default null,
+  p_branch_id uuid default null
+) returns table (
+  driver_id uuid,
+  driver_name text,
+  branch_id uuid,
+  is_active boolean,
+  assigned_count bigint,
+  delivered_count bigint,
+  failed_count bigint,
+  open_count bigint,
+  avg_delivery_minutes numeric,
+  success_rate numeric
+)
+language sql
+stable
+security invoker
+as $$
+  select
+    d.id,
+    d.name,
+    d.branch_id,
+    d.is_active,
+    count(od.id) filter (where od.outcome <> 'cancelled'),
+    count(od.id) filter (where od.outcome = 'delivered'),
+    count(od.id) filter (where od.outcome = 'failed'),
+    count(od.id) filter (where od.outcome = 'pending'),
+    round(avg(extract(epoch from od.completed_at - coalesce(od.picked_up_at, od.assigned_at)) / 60)
+      filter (where od.outcome = 'delivered'), 1),
+    round(
+      100.0 * count(od.id) filter (where od.outcome = 'delivered')
+      / nullif(count(od.id) filter (where od.outcome in ('delivered', 'failed')), 0),
+      1)
+  from public.drivers d
+  left join public.order_deliveries od
+    on od.driver_id = d.id
+   and (p_from is null or od.assigned_at >= p_from)
+   and (p_to is null or od.assigned_at < p_to)
+  where p_branch_id is null or d.branch_id = p_branch_id
+  group by d.id
+  order by count(od.id) filter (where od.outcome = 'delivered') desc, d.name;
+$$;
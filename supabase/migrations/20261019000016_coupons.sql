@@ -0,0 +1,262 @@
+-- Coupon / discount codes.
+-- A coupon gives a percentage (optionally capped) or fixed discount on the
+-- eligible part of the basket. Empty scope arrays mean "everything"; product
+-- and category scopes are combined (an item is eligible if it matches
+-- either). Redemptions are recorded per order, and the discount is stored on
+-- the order itself: total_price is the amount payable after discount.
+
+create table if not exists public.coupons (
+  id uuid primary key default gen_random_uuid(),
+  code text not null,
+  description text,
+  discount_type text not null check (discount_type in ('percentage', 'fixed')),
+  discount_value numeric(12, 2) not null check (discount_value > 0),
+  -- Upper bound for percentage discounts
+  max_discount numeric(12, 2) check (max_discount is null or max_discount > 0),
+  min_order_value numeric(12, 2) not null default 0 check (min_order_value >= 0),
+  usage_limit integer check (usage_limit is null or usage_limit > 0),
+  usage_limit_per_customer integer check (usage_limit_per_customer is null or usage_limit_per_customer > 0),
+  used_count integer not null default 0,
+  starts_at timestamptz,
+  ends_at timestamptz,
+  is_active boolean not null default true,
+  product_ids uuid[] not null default '{}',
+  category_ids text[] not null default '{}',
+  branch_ids uuid[] not null default '{}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (discount_type <> 'percentage' or discount_value <= 100),
+  check (ends_at is null or starts_at is null or ends_at > starts_at)
+);
+
+create unique index if not exists coupons_code_key on public.coupons (upper(code));
+
+create table if not exists public.coupon_redemptions (
+  id uuid primary key default gen_random_uuid(),
+  coupon_id uuid not null references public.coupons(id) on delete restrict,
+  order_id uuid not null unique references public.orders(id) on delete cascade,
+  user_id uuid,
+  discount_amount numeric(12, 2) not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists coupon_redemptions_coupon_user_idx
+  on public.coupon_redemptions (coupon_id, user_id);
+
+alter table public.orders
+  add column if not exists coupon_id uuid references public.coupons(id) on delete set null,
+  add column if not exists coupon_code text,
+  add column if not exists discount_amount numeric(12, 2) not null default 0;
+
+-- Codes are not publicly listable; the storefront goes through redeem_coupon.
+-- Coupons are pricing, so only coupons.manage (owner and manager) edits them.
+alter table public.coupons enable row level security;
+
+drop policy if exists coupons_admin on public.coupons;
+create policy coupons_admin on public.coupons for all
+  using (public.has_permission('coupons.manage'))
+  with check (public.has_permission('coupons.manage'));
+
+drop policy if exists coupons_order_staff_read on public.coupons;
+create policy coupons_order_staff_read on public.coupons for select
+  using (public.has_permission('orders.update'));
+
+alter table public.coupon_redemptions enable row level security;
+
+drop policy if exists coupon_redemptions_select on public.coupon_redemptions;
+create policy coupon_redemptions_select on public.coupon_redemptions for select
+  using (public.has_permission('coupons.manage') or public.can_view_order(order_id));
+
+drop trigger if exists coupons_audit on public.coupons;
+create trigger coupons_audit
+  after insert or update or delete on public.coupons
+  for each row execute function public.log_audit_event('coupon', 'id');
+
+-- Validates p_code against the order and applies it: records the redemption,
+-- stores the discount on the order and lowers total_price. Mirrors
+-- evaluateCoupon() in services/apiCoupons.ts. Callable by the order's
+-- customer or by staff with orders.update. Error codes:
+--   P0002 unknown code, P0001 not applicable (message says why).
+create or replace function public.redeem_coupon(p_order_id uuid, p_code text)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders;
+  v_coupon public.coupons;
+  v_subtotal numeric;
+  v_eligible numeric;
+  v_discount numeric;
+  v_customer_uses integer;
+begin
+  select * into v_order from public.orders where id = p_order_id for update;
+  if not found then
+    raise exception 'order not found' using errcode = 'P0002';
+  end if;
+
+  if v_order.user_id is distinct from auth.uid()
+     and not (public.has_permission('orders.update') and public.can_access_branch(v_order.branch_id)) then
+    raise exception 'permission denied' using errcode = '42501';
+  end if;
+
+  if v_order.status <> 'pending' then
+    raise exception 'order_not_pending' using errcode = 'P0001';
+  end if;
+
+  if v_order.coupon_id is not null then
+    raise exception 'already_applied' using errcode = 'P0001';
+  end if;
+
+  select * into v_coupon from public.coupons
+  where upper(code) = upper(trim(p_code))
+  for update;
+  if not found then
+    raise exception 'unknown coupon' using errcode = 'P0002';
+  end if;
+
+  if not v_coupon.is_active then
+    raise exception 'inactive' using errcode = 'P0001';
+  end if;
+  if v_coupon.starts_at is not null and now() < v_coupon.starts_at then
+    raise exception 'not_started' using errcode = 'P0001';
+  end if;
+  if v_coupon.ends_at is not null and now() >= v_coupon.ends_at then
+    raise exception 'expired' using errcode = 'P0001';
+  end if;
+  if v_coupon.usage_limit is not null and v_coupon.used_count >= v_coupon.usage_limit then
+    raise exception 'usage_limit_reached' using errcode = 'P0001';
+  end if;
+
+  if v_coupon.usage_limit_per_customer is not null and v_order.user_id is not null then
+    select count(*) into v_customer_uses
+    from public.coupon_redemptions
+    where coupon_id = v_coupon.id and user_id = v_order.user_id;
+    if v_customer_uses >= v_coupon.usage_limit_per_customer then
+      raise exception 'customer_limit_reached' using errcode = 'P0001';
+    end if;
+  end if;
+
+  if cardinality(v_coupon.branch_ids) > 0
+     and (v_order.branch_id is null or not v_order.branch_id = any (v_coupon.branch_ids)) then
+    raise exception 'branch_not_eligible' using errcode = 'P0001';
+  end if;
+
+  select
+    coalesce(sum(oi.price * oi.quantity), 0),
+    coalesce(sum(oi.price * oi.quantity) filter (
+      where (cardinality(v_coupon.product_ids) = 0 and cardinality(v_coupon.category_ids) = 0)
+         or oi.product_id = any (v_coupon.product_ids)
+         or p.category_id::text = any (v_coupon.category_ids)
+    ), 0)
+  into v_subtotal, v_eligible
+  from public.order_items oi
+  left join public.products p on p.id = oi.product_id
+  where oi.order_id = p_order_id;
+
+  if v_subtotal < v_coupon.min_order_value then
+    raise exception 'below_minimum' using errcode = 'P0001';
+  end if;
+  if v_eligible <= 0 then
+    raise exception 'no_eligible_items' using errcode = 'P0001';
+  end if;
+
+  if v_coupon.discount_type = 'percentage' then
+    v_discount := round(v_eligible * v_coupon.discount_value / 100, 2);
+    if v_coupon.max_discount is not null then
+      v_discount := least(v_discount, v_coupon.max_discount);
+    end if;
+  else
+    v_discount := least(v_coupon.discount_value, v_eligible);
+  end if;
+  v_discount := least(v_discount, v_order.total_price);
+
+  insert into public.coupon_redemptions (coupon_id, order_id, user_id, discount_amount)
+  values (v_coupon.id, p_order_id, v_order.user_id, v_discount);
+
+  update public.coupons set used_count = used_count + 1 where id = v_coupon.id;
+
+  update public.orders
+  set coupon_id = v_coupon.id,
+      coupon_code = v_coupon.code,
+      discount_amount = v_discount,
+      total_price = total_price - v_discount,
+      updated_at = now()
+  where id = p_order_id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
+
+-- Takes the coupon off a pending order and gives the use back.
+create or replace function public.remove_order_coupon(p_order_id uuid)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders;
+begin
+  select * into v_order from public.orders where id = p_order_id for update;
+  if not found then
+    raise exception 'order not found' using errcode = 'P0002';
+  end if;
+
+  if v_order.user_id is distinct from auth.uid()
+     and not (public.has_permission('orders.update') and public.can_access_branch(v_order.branch_id)) then
+    raise exception 'permission denied' using errcode = '42501';
+  end if;
+
+  if v_order.status <> 'pending' then
+    raise exception 'order_not_pending' using errcode = 'P0001';
+  end if;
+
+  if v_order.coupon_id is null then
+    return v_order;
+  end if;
+
+  delete from public.coupon_redemptions where order_id = p_order_id;
+  update public.coupons set used_count = greatest(used_count - 1, 0) where id = v_order.coupon_id;
+
+  update public.orders
+  set total_price = total_price + discount_amount,
+      discount_amount = 0,
+      coupon_id = null,
+      coupon_code = null,
+      updated_at = now()
+  where id = p_order_id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
+
+-- A cancelled order gives its coupon use back (the discount stays on the
+-- order for the record).
+create or replace function public.release_cancelled_order_coupon()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status = 'cancelled' and new.coupon_id is not null then
+    delete from public.coupon_redemptions where order_id = new.id;
+    if found then
+      update public.coupons set used_count = greatest(used_count - 1, 0)
+      where id = new.coupon_id;
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists orders_release_coupon on public.orders;
+create trigger orders_release_coupon
+  after update of status on public.orders
+  for each row
+  when (new.status is distinct from old.status)
+  execute function public.release_cancelled_order_coupon();
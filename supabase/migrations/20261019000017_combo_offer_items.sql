@@ -0,0 +1,275 @@
+-- Combo offers composed of real products.
+-- A combo is a list of product lines (quantity + optional fixed variant) sold
+-- together at combo_offers.total_price. A combo can be ordered as a single
+-- order item (order_items.combo_offer_id); its components are snapshotted on
+-- the item at insert time and their stock is reserved / sold like any other
+-- item, so later edits to the combo do not change placed orders.
+
+create table if not exists public.combo_offer_items (
+  id uuid primary key default gen_random_uuid(),
+  combo_offer_id uuid not null references public.combo_offers(id) on delete cascade,
+  -- set null when the product is purged so the combo can flag the gap
+  product_id uuid references public.products(id) on delete set null,
+  variant_id uuid references public.product_variants(id) on delete set null,
+  quantity integer not null default 1 check (quantity > 0),
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists combo_offer_items_combo_idx
+  on public.combo_offer_items (combo_offer_id, sort_order);
+create index if not exists combo_offer_items_product_idx
+  on public.combo_offer_items (product_id);
+
+alter table public.combo_offer_items enable row level security;
+
+drop policy if exists combo_offer_items_public_read on public.combo_offer_items;
+create policy combo_offer_items_public_read on public.combo_offer_items for select
+  using (true);
+
+drop policy if exists combo_offer_items_admin_write on public.combo_offer_items;
+create policy combo_offer_items_admin_write on public.combo_offer_items for all
+  using (public.has_permission('content.manage'))
+  with check (public.has_permission('content.manage'));
+
+drop trigger if exists combo_offer_items_audit on public.combo_offer_items;
+create trigger combo_offer_items_audit
+  after insert or update or delete on public.combo_offer_items
+  for each row execute function public.log_audit_event('combo_offer_item', 'id', 'combo_offer', 'combo_offer_id');
+
+-- combo_components: [{product_id, variant_id, quantity}] per one combo
+alter table public.order_items
+  add column if not exists combo_offer_id uuid references public.combo_offers(id) on delete set null,
+  add column if not exists combo_components jsonb;
+
+create index if not exists order_items_combo_offer_id_idx on public.order_items (combo_offer_id);
+
+-- Replaces the product lines of a combo in one transaction.
+-- p_items: [{product_id, variant_id, quantity}]
+create or replace function public.save_combo_offer_items(
+  p_combo_offer_id uuid,
+  p_items jsonb
+) returns void
+language plpgsql
+security invoker
+as $$
+begin
+  if not public.has_permission('content.manage') then
+    raise exception 'permission denied: content.manage' using errcode = '42501';
+  end if;
+
+  if not exists (select 1 from public.combo_offers where id = p_combo_offer_id) then
+    raise exception 'combo offer not found' using errcode = 'P0002';
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_array_elements(coalesce(p_items, '[]'::jsonb)) as i
+    where nullif(i->>'variant_id', '') is not null
+      and not exists (
+        select 1 from public.product_variants v
+        where v.id = (i->>'variant_id')::uuid and v.product_id = (i->>'product_id')::uuid
+      )
+  ) then
+    raise exception 'variant does not belong to product' using errcode = 'P0001';
+  end if;
+
+  delete from public.combo_offer_items where combo_offer_id = p_combo_offer_id;
+  insert into public.combo_offer_items (combo_offer_id, product_id, variant_id, quantity, sort_order)
+  select
+    p_combo_offer_id,
+    (i->>'product_id')::uuid,
+    nullif(i->>'variant_id', '')::uuid,
+    greatest(coalesce((i->>'quantity')::integer, 1), 1),
+    (n - 1)::integer
+  from jsonb_array_elements(coalesce(p_items, '[]'::jsonb)) with ordinality as t(i, n);
+end;
+$$;
+
+-- A combo order item must point at a live combo whose products all still
+-- exist; the components are copied onto the item.
+create or replace function public.snapshot_order_item_combo()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_combo public.combo_offers;
+begin
+  if new.combo_offer_id is null then
+    return new;
+  end if;
+
+  select * into v_combo from public.combo_offers where id = new.combo_offer_id;
+  if not found or v_combo.deleted_at is not null then
+    raise exception 'combo offer % not found', new.combo_offer_id using errcode = 'P0002';
+  end if;
+
+  if (v_combo.starts_at is not null and now() < v_combo.starts_at)
+     or (v_combo.ends_at is not null and now() >= v_combo.ends_at + interval '1 day') then
+    raise exception 'combo offer % is not active', v_combo.title_en using errcode = 'P0001';
+  end if;
+
+  if not exists (select 1 from public.combo_offer_items where combo_offer_id = v_combo.id)
+     or exists (
+       select 1
+       from public.combo_offer_items ci
+       left join public.products p on p.id = ci.product_id
+       where ci.combo_offer_id = v_combo.id
+         and (p.id is null or p.deleted_at is not null)
+     ) then
+    raise exception 'combo offer % has missing products', v_combo.title_en using errcode = 'P0001';
+  end if;
+
+  new.product_id := null;
+  new.variant_id := null;
+  new.combo_components := (
+    select jsonb_agg(jsonb_build_object(
+      'product_id', product_id, 'variant_id', variant_id, 'quantity', quantity
+    ) order by sort_order)
+    from public.combo_offer_items
+    where combo_offer_id = v_combo.id
+  );
+
+  return new;
+end;
+$$;
+
+drop trigger if exists order_items_snapshot_combo on public.order_items;
+create trigger order_items_snapshot_combo
+  before insert on public.order_items
+  for each row execute function public.snapshot_order_item_combo();
+
+-- Stock lines of an order: plain items plus the components of combo items.
+create or replace function public.order_stock_lines(p_order_id uuid)
+returns table (product_id uuid, variant_id uuid, quantity integer)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select l.product_id, l.variant_id, sum(l.quantity)::integer
+  from (
+    select oi.product_id, oi.variant_id, oi.quantity
+    from public.order_items oi
+    where oi.order_id = p_order_id and oi.product_id is not null
+    union all
+    select c.product_id, c.variant_id, c.quantity * oi.quantity
+    from public.order_items oi
+    cross join lateral jsonb_to_recordset(oi.combo_components)
+      as c(product_id uuid, variant_id uuid, quantity integer)
+    where oi.order_id = p_order_id and oi.combo_components is not null
+  ) l
+  group by l.product_id, l.variant_id;
+$$;
+
+revoke execute on function public.order_stock_lines(uuid) from public, anon, authenticated;
+
+create or replace function public.move_order_items_stock(
+  p_order_id uuid,
+  p_from_state text,
+  p_to_state text
+) returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_item record;
+begin
+  if p_from_state not in ('reserved', 'sold') or p_from_state = p_to_state then
+    return;
+  end if;
+
+  for v_item in
+    select * from public.order_stock_lines(p_order_id)
+  loop
+    if p_to_state = 'sold' then
+      perform public.apply_stock_movement(
+        v_item.product_id, p_order_id, 'sale', -v_item.quantity, null, v_item.variant_id);
+    elsif p_from_state = 'reserved' then
+      perform public.apply_stock_movement(
+        v_item.product_id, p_order_id, 'release', -v_item.quantity, null, v_item.variant_id);
+    else
+      perform public.apply_stock_movement(
+        v_item.product_id, p_order_id, 'restock', v_item.quantity, 'order cancelled', v_item.variant_id);
+    end if;
+  end loop;
+end;
+$$;
+
+create or replace function public.reserve_order_item_stock()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_component record;
+begin
+  if new.combo_offer_id is not null and new.combo_components is not null then
+    for v_component in
+      select * from jsonb_to_recordset(new.combo_components)
+        as c(product_id uuid, variant_id uuid, quantity integer)
+    loop
+      perform public.apply_stock_movement(
+        v_component.product_id, new.order_id, 'reserve',
+        v_component.quantity * new.quantity, null, v_component.variant_id);
+    end loop;
+  elsif new.product_id is null then
+    return new;
+  else
+    if new.variant_id is not null and not exists (
+      select 1 from public.product_variants
+      where id = new.variant_id and product_id = new.product_id
+    ) then
+      raise exception 'variant % does not belong to product %', new.variant_id, new.product_id
+        using errcode = 'P0001';
+    end if;
+
+    perform public.apply_stock_movement(
+      new.product_id, new.order_id, 'reserve', new.quantity, null, new.variant_id);
+  end if;
+
+  update public.orders
+  set stock_state = 'reserved'
+  where id = new.order_id and stock_state = 'none';
+
+  return new;
+end;
+$$;
+
+-- Restoring a trashed order re-reserves combo components too.
+create or replace function public.sync_trashed_order_stock()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_item record;
+begin
+  if old.deleted_at is null and new.deleted_at is not null then
+    new.trashed_stock_state := new.stock_state;
+    if new.stock_state = 'reserved' then
+      perform public.move_order_items_stock(new.id, 'reserved', 'released');
+      new.stock_state := 'released';
+    end if;
+  elsif old.deleted_at is not null and new.deleted_at is null then
+    if new.trashed_stock_state = 'reserved' and new.stock_state = 'released' then
+      -- Fails with P0004 when the stock has been sold in the meantime
+      for v_item in
+        select * from public.order_stock_lines(new.id)
+      loop
+        perform public.apply_stock_movement(
+          v_item.product_id, new.id, 'reserve', v_item.quantity, 'order restored', v_item.variant_id);
+      end loop;
+      new.stock_state := 'reserved';
+    end if;
+    new.trashed_stock_state := null;
+  end if;
+
+  return new;
+end;
+$$;
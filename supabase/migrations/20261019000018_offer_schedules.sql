@@ -0,0 +1,89 @@
+-- Scheduled publishing and expiry for offers.
+-- Product offer prices get a start / end window. Combo offers already have
+-- starts_at / ends_at (ends_at is the last day of the offer, inclusive).
+-- A scheduled job switches product offers off once their window has passed.
+
+alter table public.products
+  add column if not exists offer_starts_at timestamptz,
+  add column if not exists offer_ends_at timestamptz;
+
+alter table public.products drop constraint if exists products_offer_window_check;
+alter table public.products add constraint products_offer_window_check
+  check (offer_ends_at is null or offer_starts_at is null or offer_ends_at > offer_starts_at);
+
+create index if not exists products_offer_ends_at_idx
+  on public.products (offer_ends_at) where offer_ends_at is not null;
+
+-- Offer price the storefront should charge right now (null outside the
+-- window). Exposed to the API as a computed column: select=*,current_offer_price
+create or replace function public.current_offer_price(p public.products)
+returns numeric
+language sql
+stable
+as $$
+  select case
+    when p.offer_price is null then null
+    when p.offer_starts_at is not null and now() < p.offer_starts_at then null
+    when p.offer_ends_at is not null and now() >= p.offer_ends_at then null
+    else p.offer_price
+  end;
+$$;
+
+-- Combo offer status (scheduled / active / expired), a computed column the
+-- ads page filters on: select=*,offer_status&offer_status=eq.active
+create or replace function public.offer_status(c public.combo_offers)
+returns text
+language sql
+stable
+as $$
+  select case
+    when c.starts_at is not null and now() < c.starts_at then 'scheduled'
+    when c.ends_at is not null and now() >= c.ends_at + interval '1 day' then 'expired'
+    else 'active'
+  end;
+$$;
+
+-- Clears the offer price (and the limited-time flag) of products, and of their
+-- variants, whose offer window has ended. Returns the number of products.
+-- Internal: run by the scheduled job as postgres, not exposed to the API.
+create or replace function public.expire_product_offers()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_ids uuid[];
+begin
+  select coalesce(array_agg(id), '{}') into v_ids
+  from public.products
+  where offer_ends_at <= now()
+    and (offer_price is not null or limited_time_offer);
+
+  if cardinality(v_ids) = 0 then
+    return 0;
+  end if;
+
+  update public.product_variants
+  set offer_price = null, updated_at = now()
+  where product_id = any (v_ids) and offer_price is not null;
+
+  update public.products
+  set offer_price = null, limited_time_offer = false
+  where id = any (v_ids);
+
+  return cardinality(v_ids);
+end;
+$$;
+
+revoke execute on function public.expire_product_offers() from public, anon, authenticated;
+
+-- Every 15 minutes where pg_cron is available.
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.unschedule(jobid) from cron.job where jobname = 'expire-product-offers';
+    perform cron.schedule('expire-product-offers', '*/15 * * * *', 'select public.expire_product_offers()');
+  end if;
+end;
+$$;
@@ -0,0 +1,87 @@
+-- Customer lifetime stats for the customer detail page.
+-- Both functions run as the caller, so branch staff only aggregate the orders
+-- their RLS policies let them see. Trashed orders are left out.
+
+create index if not exists orders_user_created_idx
+  on public.orders (user_id, created_at desc);
+
+-- Spending counts orders that were paid (paid / shipped / delivered) and not
+-- fully refunded, net of their refunds. The cancellation rate is over all
+-- orders placed.
+create or replace function public.customer_lifetime_stats(p_user_id uuid)
+returns table (
+  order_count bigint,
+  paid_order_count bigint,
+  cancelled_count bigint,
+  total_spent numeric,
+  average_basket numeric,
+  first_order_at timestamptz,
+  last_order_at timestamptz,
+  cancellation_rate numeric
+)
+language sql
+stable
+security invoker
+as $$
+  with customer_orders as (
+    select
+      o.id,
+      o.status,
+      o.total_price,
+      o.created_at,
+      o.status in ('paid', 'shipped', 'delivered') and o.refund_status <> 'refunded' as is_paid,
+      coalesce((select sum(r.amount) from public.refunds r where r.order_id = o.id), 0) as refunded
+    from public.orders o
+    where o.user_id = p_user_id and o.deleted_at is null
+  )
+  select
+    count(*),
+    count(*) filter (where is_paid),
+    count(*) filter (where status = 'cancelled'),
+    coalesce(sum(total_price - refunded) filter (where is_paid), 0),
+    round(avg(total_price - refunded) filter (where is_paid), 2),
+    min(created_at),
+    max(created_at),
+    round(100.0 * count(*) filter (where status = 'cancelled') / nullif(count(*), 0), 1)
+  from customer_orders;
+$$;
+
+-- Products (and combo offers) the customer orders most, by quantity, over
+-- orders that were not cancelled.
+create or replace function public.customer_favourite_products(
+  p_user_id uuid,
+  p_limit integer default 5
+) returns table (
+  product_id uuid,
+  combo_offer_id uuid,
+  name_ar text,
+  image_url text,
+  quantity bigint,
+  order_count bigint,
+  total_amount numeric
+)
+language sql
+stable
+security invoker
+as $$
+  select
+    oi.product_id,
+    oi.combo_offer_id,
+    coalesce(min(p.name_ar), min(c.title_ar)),
+    coalesce(min(p.image_url[1]), min(c.image_url)),
+    sum(oi.quantity),
+    count(distinct oi.order_id),
+    sum(oi.price * oi.quantity)
+  from public.order_items oi
+  join public.orders o on o.id = oi.order_id
+  left join public.products p on p.id = oi.product_id
+  left join public.combo_offers c on c.id = oi.combo_offer_id
+  where o.user_id = p_user_id
+    and o.deleted_at is null
+    and o.status <> 'cancelled'
+    and o.refund_status <> 'refunded'
+    and (oi.product_id is not null or oi.combo_offer_id is not null)
+  group by oi.product_id, oi.combo_offer_id
+  order by sum(oi.quantity) desc, count(distinct oi.order_id) desc
+  limit greatest(p_limit, 1);
+$$;
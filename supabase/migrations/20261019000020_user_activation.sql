@@ -0,0 +1,113 @@
+-- Account activation for storefront customers.
+-- Deactivating a profile bans the auth user (so sign-in fails for the
+-- storefront and the dashboard alike) and ends its open sessions. The reason,
+-- date and admin are kept on the profile; reactivating lifts the ban.
+
+alter table public.profiles
+  add column if not exists is_active boolean not null default true,
+  add column if not exists deactivated_at timestamptz,
+  add column if not exists deactivation_reason text,
+  add column if not exists deactivated_by uuid references auth.users(id) on delete set null;
+
+create index if not exists profiles_is_active_idx on public.profiles (is_active);
+create index if not exists profiles_created_at_idx on public.profiles (created_at);
+
+-- Customers may edit their own profile but not their activation state.
+create or replace function public.guard_profile_activation()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.is_active is distinct from old.is_active
+     or new.deactivation_reason is distinct from old.deactivation_reason then
+    if not public.has_permission('users.manage') then
+      raise exception 'permission denied: users.manage' using errcode = '42501';
+    end if;
+  end if;
+
+  if new.is_active and not old.is_active then
+    new.deactivated_at := null;
+    new.deactivation_reason := null;
+    new.deactivated_by := null;
+  elsif not new.is_active and old.is_active then
+    if nullif(btrim(coalesce(new.deactivation_reason, '')), '') is null then
+      raise exception 'deactivation reason is required' using errcode = 'P0001';
+    end if;
+    new.deactivated_at := now();
+    new.deactivated_by := auth.uid();
+  else
+    new.deactivated_at := old.deactivated_at;
+    new.deactivated_by := old.deactivated_by;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_guard_activation on public.profiles;
+create trigger profiles_guard_activation
+  before update on public.profiles
+  for each row execute function public.guard_profile_activation();
+
+create or replace function public.sync_profile_ban()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.is_active is not distinct from old.is_active then
+    return new;
+  end if;
+
+  update auth.users
+  set banned_until = case when new.is_active then null else 'infinity'::timestamptz end
+  where id = new.id;
+
+  if not new.is_active then
+    delete from auth.sessions where user_id = new.id;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_sync_ban on public.profiles;
+create trigger profiles_sync_ban
+  after update of is_active on public.profiles
+  for each row execute function public.sync_profile_ban();
+
+-- Account counts for the users page, computed in one pass: the overall row
+-- (dimension 'all'), then one row per role and per city. new_in_period counts
+-- accounts created since p_from.
+create or replace function public.user_stats(p_from timestamptz default null)
+returns table (
+  dimension text,
+  key text,
+  total bigint,
+  active bigint,
+  inactive bigint,
+  new_in_period bigint
+)
+language sql
+stable
+security invoker
+as $$
+  select
+    case
+      when grouping(role) = 0 then 'role'
+      when grouping(city) = 0 then 'city'
+      else 'all'
+    end,
+    case
+      when grouping(role) = 0 then role
+      when grouping(city) = 0 then city
+    end,
+    count(*),
+    count(*) filter (where is_active),
+    count(*) filter (where not is_active),
+    count(*) filter (where p_from is not null and created_at >= p_from)
+  from public.profiles
+  group by grouping sets ((), (role), (city))
+  order by 1, 3 desc;
+$$;
@@ -0,0 +1,192 @@
+-- Sales analytics for the dashboard home, aggregated in the database.
+-- Ranges are local calendar dates (inclusive) in the branch's timezone, or the
+-- store default (Africa/Cairo) across all branches; buckets are cut in the same
+-- timezone. Both functions run as the caller, so branch staff only aggregate
+-- their own branch. Trashed orders are left out.
+--
+-- Revenue counts orders that were paid (paid / shipped / delivered, whatever
+-- their refund_status) on the day they were placed. Refunds are subtracted on
+-- the day they were issued; refunds of cancelled orders are not, as their
+-- total is not counted either.
+
+create index if not exists orders_created_at_idx on public.orders (created_at);
+
+create or replace function public.analytics_timezone(
+  p_timezone text,
+  p_branch_id uuid
+) returns text
+language plpgsql
+stable
+as $$
+declare
+  v_timezone text := p_timezone;
+begin
+  if v_timezone is null and p_branch_id is not null then
+    select timezone into v_timezone from public.branches where id = p_branch_id;
+  end if;
+  v_timezone := coalesce(v_timezone, 'Africa/Cairo');
+
+  if not exists (select 1 from pg_timezone_names where name = v_timezone) then
+    raise exception 'unknown timezone %', v_timezone using errcode = 'P0001';
+  end if;
+
+  return v_timezone;
+end;
+$$;
+
+-- One row per bucket (day / week starting Monday / month), empty buckets
+-- included.
+create or replace function public.sales_timeseries(
+  p_from date,
+  p_to date,
+  p_bucket text default 'day',
+  p_branch_id uuid default null,
+  p_timezone text default null
+) returns table (
+  bucket date,
+  order_count bigint,
+  paid_order_count bigint,
+  revenue numeric,
+  refunds numeric,
+  net_revenue numeric,
+  average_order_value numeric,
+  new_customers bigint
+)
+language plpgsql
+stable
+security invoker
+as $$
+#variable_conflict use_column
+declare
+  v_timezone text := public.analytics_timezone(p_timezone, p_branch_id);
+  v_from timestamptz := p_from::timestamp at time zone v_timezone;
+  v_to timestamptz := (p_to + 1)::timestamp at time zone v_timezone;
+begin
+  if p_bucket not in ('day', 'week', 'month') then
+    raise exception 'unknown bucket %', p_bucket using errcode = 'P0001';
+  end if;
+
+  if p_to < p_from then
+    raise exception 'date range ends before it starts' using errcode = 'P0001';
+  end if;
+
+  return query
+  with buckets as (
+    select generate_series(
+      date_trunc(p_bucket, p_from::timestamp),
+      p_to::timestamp,
+      ('1 ' || p_bucket)::interval
+    )::date as bucket
+  ),
+  order_totals as (
+    select
+      date_trunc(p_bucket, o.created_at at time zone v_timezone)::date as bucket,
+      count(*) as order_count,
+      count(*) filter (where o.status in ('paid', 'shipped', 'delivered')) as paid_order_count,
+      coalesce(sum(o.total_price) filter (
+        where o.status in ('paid', 'shipped', 'delivered')
+      ), 0) as revenue
+    from public.orders o
+    where o.deleted_at is null
+      and o.created_at >= v_from and o.created_at < v_to
+      and (p_branch_id is null or o.branch_id = p_branch_id)
+    group by 1
+  ),
+  refund_totals as (
+    select
+      date_trunc(p_bucket, r.created_at at time zone v_timezone)::date as bucket,
+      sum(r.amount) as refunds
+    from public.refunds r
+    join public.orders o on o.id = r.order_id
+    where o.deleted_at is null
+      and o.status <> 'cancelled'
+      and r.created_at >= v_from and r.created_at < v_to
+      and (p_branch_id is null or o.branch_id = p_branch_id)
+    group by 1
+  ),
+  customer_totals as (
+    select
+      date_trunc(p_bucket, p.created_at at time zone v_timezone)::date as bucket,
+      count(*) as new_customers
+    from public.profiles p
+    where p.created_at >= v_from and p.created_at < v_to
+    group by 1
+  )
+  select
+    b.bucket,
+    coalesce(o.order_count, 0),
+    coalesce(o.paid_order_count, 0),
+    coalesce(o.revenue, 0),
+    coalesce(r.refunds, 0),
+    coalesce(o.revenue, 0) - coalesce(r.refunds, 0),
+    round((coalesce(o.revenue, 0) - coalesce(r.refunds, 0)) / nullif(o.paid_order_count, 0), 2),
+    coalesce(c.new_customers, 0)
+  from buckets b
+  left join order_totals o on o.bucket = b.bucket
+  left join refund_totals r on r.bucket = b.bucket
+  left join customer_totals c on c.bucket = b.bucket
+  order by b.bucket;
+end;
+$$;
+
+-- Totals of the range for the dashboard cards, plus the order status counts.
+create or replace function public.sales_summary(
+  p_from date,
+  p_to date,
+  p_branch_id uuid default null,
+  p_timezone text default null
+) returns table (
+  order_count bigint,
+  paid_order_count bigint,
+  pending_count bigint,
+  delivered_count bigint,
+  cancelled_count bigint,
+  revenue numeric,
+  refunds numeric,
+  net_revenue numeric,
+  average_order_value numeric,
+  new_customers bigint
+)
+language sql
+stable
+security invoker
+as $$
+  with orders_in_range as (
+    select o.status, o.total_price
+    from public.orders o
+    where o.deleted_at is null
+      and o.created_at >= p_from::timestamp at time zone public.analytics_timezone(p_timezone, p_branch_id)
+      and o.created_at < (p_to + 1)::timestamp at time zone public.analytics_timezone(p_timezone, p_branch_id)
+      and (p_branch_id is null or o.branch_id = p_branch_id)
+  ),
+  series as (
+    select
+      sum(s.refunds) as refunds,
+      sum(s.new_customers) as new_customers
+    from public.sales_timeseries(p_from, p_to, 'month', p_branch_id, p_timezone) s
+  ),
+  totals as (
+    select
+      count(*) as order_count,
+      count(*) filter (where status in ('paid', 'shipped', 'delivered')) as paid_order_count,
+      count(*) filter (where status = 'pending') as pending_count,
+      count(*) filter (where status = 'delivered') as delivered_count,
+      count(*) filter (where status = 'cancelled') as cancelled_count,
+      coalesce(sum(total_price) filter (
+        where status in ('paid', 'shipped', 'delivered')
+      ), 0) as revenue
+    from orders_in_range
+  )
+  select
+    t.order_count,
+    t.paid_order_count,
+    t.pending_count,
+    t.delivered_count,
+    t.cancelled_count,
+    t.revenue,
+    coalesce(s.refunds, 0),
+    t.revenue - coalesce(s.refunds, 0),
+    round((t.revenue - coalesce(s.refunds, 0)) / nullif(t.paid_order_count, 0), 2),
+    coalesce(s.new_customers, 0)::bigint
+  from totals t cross join series s;
+$$;
@@ -0,0 +1,169 @@
+-- Sales reports (/dashboard/reports): sales of a date range broken down by
+-- product, category, branch, payment method, hour of day or day of week.
+-- Uses the relationships the orders list joins (order_items -> products /
+-- combo_offers, branches, payments) and the same rules as sales_timeseries():
+-- local dates in the branch / store timezone, trashed orders left out, sales
+-- counted on paid orders. Amounts are gross, before refunds. Runs as the
+-- caller, so branch staff only report on their own branch.
+
+create or replace function public.order_is_paid(p_status text)
+returns boolean
+language sql
+immutable
+as $$
+  select p_status in ('paid', 'shipped', 'delivered');
+$$;
+
+-- Paid orders placed in [p_from, p_to), with their local time.
+create or replace function public.sales_report_orders(
+  p_from timestamptz,
+  p_to timestamptz,
+  p_branch_id uuid,
+  p_timezone text
+) returns table (
+  id uuid,
+  branch_id uuid,
+  total_price numeric,
+  local_time timestamp
+)
+language sql
+stable
+security invoker
+as $$
+  select o.id, o.branch_id, o.total_price, o.created_at at time zone p_timezone
+  from public.orders o
+  where o.deleted_at is null
+    and public.order_is_paid(o.status)
+    and o.created_at >= p_from and o.created_at < p_to
+    and (p_branch_id is null or o.branch_id = p_branch_id);
+$$;
+
+-- One row per group: key (id / method / hour 0-23 / ISO weekday 1-7),
+-- label, orders, units (items sold, or payments for payment_method) and
+-- revenue. Hours and weekdays are listed even without sales.
+create or replace function public.sales_report(
+  p_from date,
+  p_to date,
+  p_dimension text,
+  p_branch_id uuid default null,
+  p_timezone text default null
+) returns table (
+  key text,
+  label text,
+  order_count bigint,
+  quantity bigint,
+  revenue numeric
+)
+language plpgsql
+stable
+security invoker
+as $$
+#variable_conflict use_column
+declare
+  v_timezone text := public.analytics_timezone(p_timezone, p_branch_id);
+  v_from timestamptz := p_from::timestamp at time zone v_timezone;
+  v_to timestamptz := (p_to + 1)::timestamp at time zone v_timezone;
+begin
+  if p_to < p_from then
+    raise exception 'date range ends before it starts' using errcode = 'P0001';
+  end if;
+
+  case p_dimension
+  when 'product' then
+    return query
+    select
+      coalesce(oi.product_id, oi.combo_offer_id)::text,
+      coalesce(min(p.name_ar), min(c.title_ar)),
+      count(distinct oi.order_id),
+      sum(oi.quantity)::bigint,
+      sum(oi.price * oi.quantity)
+    from public.sales_report_orders(v_from, v_to, p_branch_id, v_timezone) ro
+    join public.order_items oi on oi.order_id = ro.id
+    left join public.products p on p.id = oi.product_id
+    left join public.combo_offers c on c.id = oi.combo_offer_id
+    group by 1
+    order by 5 desc;
+
+  when 'category' then
+    -- combo offers span categories and are reported as one group (key 'combo')
+    return query
+    select
+      case when oi.combo_offer_id is not null then 'combo' else p.category_id::text end,
+      min(cat.name_ar),
+      count(distinct oi.order_id),
+      sum(oi.quantity)::bigint,
+      sum(oi.price * oi.quantity)
+    from public.sales_report_orders(v_from, v_to, p_branch_id, v_timezone) ro
+    join public.order_items oi on oi.order_id = ro.id
+    left join public.products p on p.id = oi.product_id
+    left join public.categories cat on cat.id = p.category_id
+    group by 1
+    order by 5 desc;
+
+  when 'branch' then
+    return query
+    select
+      ro.branch_id::text,
+      min(b.name_ar),
+      count(*),
+      coalesce(sum(items.quantity), 0)::bigint,
+      sum(ro.total_price)
+    from public.sales_report_orders(v_from, v_to, p_branch_id, v_timezone) ro
+    left join public.branches b on b.id = ro.branch_id
+    left join lateral (
+      select sum(oi.quantity) as quantity from public.order_items oi where oi.order_id = ro.id
+    ) items on true
+    group by 1
+    order by 5 desc;
+
+  when 'payment_method' then
+    return query
+    select
+      pm.payment_method,
+      pm.payment_method,
+      count(distinct pm.order_id),
+      count(*),
+      sum(pm.amount)
+    from public.sales_report_orders(v_from, v_to, p_branch_id, v_timezone) ro
+    join public.payments pm on pm.order_id = ro.id
+    where pm.payment_status in ('completed', 'partially_refunded', 'refunded')
+    group by 1
+    order by 5 desc;
+
+  when 'hour' then
+    return query
+    select
+      h::text,
+      null::text,
+      count(ro.id),
+      coalesce(sum(items.quantity), 0)::bigint,
+      coalesce(sum(ro.total_price), 0)
+    from generate_series(0, 23) as h
+    left join public.sales_report_orders(v_from, v_to, p_branch_id, v_timezone) ro on extract(hour from ro.local_time) = h
+    left join lateral (
+      select sum(oi.quantity) as quantity from public.order_items oi where oi.order_id = ro.id
+    ) items on true
+    group by h
+    order by h;
+
+  when 'weekday' then
+    return query
+    select
+      d::text,
+      null::text,
+      count(ro.id),
+      coalesce(sum(items.quantity), 0)::bigint,
+      coalesce(sum(ro.total_price), 0)
+    from generate_series(1, 7) as d
+    left join public.sales_report_orders(v_from, v_to, p_branch_id, v_timezone) ro on extract(isodow from ro.local_time) = d
+    left join lateral (
+      select sum(oi.quantity) as quantity from public.order_items oi where oi.order_id = ro.id
+    ) items on true
+    group by d
+    order by d;
+
+  else
+    raise exception 'unknown report dimension %', p_dimension using errcode = 'P0001';
+  end case;
+end;
+$$;
@@ -0,0 +1,254 @@
+-- Best sellers derived from sales.
+-- products.is_best_seller is no longer toggled by hand: it is set on the top
+-- site_settings.best_seller_limit products by units sold over the last
+-- best_seller_window_days days, plus the products an admin pinned
+-- (best_seller_pinned). Sales are order_items of paid, non-trashed orders
+-- (see order_is_paid); products sold only inside combo offers are not counted.
+
+alter table public.site_settings
+  add column if not exists best_seller_window_days integer not null default 30
+    check (best_seller_window_days > 0),
+  add column if not exists best_seller_limit integer not null default 10
+    check (best_seller_limit >= 0);
+
+alter table public.products
+  add column if not exists best_seller_pinned boolean not null default false;
+
+create index if not exists order_items_product_id_idx on public.order_items (product_id);
+
+-- Products that currently qualify on sales, best first.
+create or replace function public.best_seller_product_ids()
+returns uuid[]
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with settings as (
+    select
+      coalesce(max(best_seller_window_days), 30) as window_days,
+      coalesce(max(best_seller_limit), 10) as max_products
+    from public.site_settings
+  )
+  select coalesce(array_agg(ranked.product_id order by ranked.units desc), '{}')
+  from (
+    select oi.product_id, sum(oi.quantity) as units
+    from public.order_items oi
+    join public.orders o on o.id = oi.order_id
+    join public.products p on p.id = oi.product_id
+    cross join settings s
+    where o.deleted_at is null
+      and p.deleted_at is null
+      and public.order_is_paid(o.status)
+      and o.created_at >= now() - make_interval(days => s.window_days)
+    group by oi.product_id
+    order by sum(oi.quantity) desc, oi.product_id
+    limit (select max_products from settings)
+  ) ranked;
+$$;
+
+-- Pinning shows the product as a best seller at once; unpinning falls back
+-- to its sales.
+create or replace function public.sync_best_seller_pin()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' or new.best_seller_pinned is distinct from old.best_seller_pinned then
+    new.is_best_seller := new.best_seller_pinned
+      or new.id = any (public.best_seller_product_ids());
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists products_sync_best_seller_pin on public.products;
+create trigger products_sync_best_seller_pin
+  before insert or update of best_seller_pinned on public.products
+  for each row execute function public.sync_best_seller_pin();
+
+-- Recomputes is_best_seller for every product. Returns the number of best
+-- sellers. Internal: run by the scheduled job as postgres, or through
+-- refresh_best_sellers().
+create or replace function public.recompute_best_sellers()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_ids uuid[] := public.best_seller_product_ids();
+  v_count integer;
+begin
+  update public.products
+  set is_best_seller = best_seller_pinned or id = any (v_ids)
+  where is_best_seller is distinct from (best_seller_pinned or id = any (v_ids));
+
+  select count(*) into v_count from public.products
+  where is_best_seller and deleted_at is null;
+
+  return v_count;
+end;
+$$;
+
+-- On-demand refresh from the products page.
+create or replace function public.refresh_best_sellers()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_permission('products.manage') then
+    raise exception 'permission denied: products.manage' using errcode = '42501';
+  end if;
+
+  return public.recompute_best_sellers();
+end;
+$$;
+
+revoke execute on function public.recompute_best_sellers() from public, anon, authenticated;
+revoke execute on function public.refresh_best_sellers() from public, anon;
+
+-- Products pinned by hand before this migration stay best sellers.
+update public.products set best_seller_pinned = true where is_best_seller;
+select public.recompute_best_sellers();
+
+-- Every hour where pg_cron is available.
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.unschedule(jobid) from cron.job where jobname = 'refresh-best-sellers';
+    perform cron.schedule('refresh-best-sellers', '0 * * * *', 'select public.recompute_best_sellers()');
+  end if;
+end;
+$$;
+
+-- Performance of one product over a date range (local dates in the store
+-- timezone): units, revenue and its share of its category's sales. Product
+-- managers see totals across branches without access to the orders.
+create or replace function public.product_performance(
+  p_product_id uuid,
+  p_from date,
+  p_to date
+) returns table (
+  units_sold bigint,
+  order_count bigint,
+  revenue numeric,
+  category_revenue numeric,
+  category_share numeric,
+  category_rank bigint
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_timezone text := public.analytics_timezone(null, null);
+  v_from timestamptz := p_from::timestamp at time zone v_timezone;
+  v_to timestamptz := (p_to + 1)::timestamp at time zone v_timezone;
+  v_category_id public.products.category_id%type;
+begin
+  if not public.has_permission('products.view') then
+    raise exception 'permission denied: products.view' using errcode = '42501';
+  end if;
+
+  select category_id into v_category_id from public.products where id = p_product_id;
+  if not found then
+    raise exception 'product not found' using errcode = 'P0002';
+  end if;
+
+  return query
+  with category_sales as (
+    select
+      oi.product_id,
+      sum(oi.quantity) as units,
+      count(distinct oi.order_id) as orders,
+      sum(oi.price * oi.quantity) as amount
+    from public.order_items oi
+    join public.orders o on o.id = oi.order_id
+    join public.products p on p.id = oi.product_id
+    where o.deleted_at is null
+      and public.order_is_paid(o.status)
+      and o.created_at >= v_from and o.created_at < v_to
+      and (p.id = p_product_id or p.category_id = v_category_id)
+    group by oi.product_id
+  ),
+  ranked as (
+    select cs.*, rank() over (order by cs.amount desc) as position
+    from category_sales cs
+  ),
+  totals as (
+    select sum(amount) as amount from category_sales
+  )
+  select
+    coalesce(r.units, 0)::bigint,
+    coalesce(r.orders, 0)::bigint,
+    coalesce(r.amount, 0),
+    coalesce(t.amount, 0),
+    round(100 * coalesce(r.amount, 0) / nullif(t.amount, 0), 1),
+    r.position
+  from totals t
+  left join ranked r on r.product_id = p_product_id;
+end;
+$$;
+
+-- Units and revenue of one product per bucket, empty buckets included.
+create or replace function public.product_sales_timeseries(
+  p_product_id uuid,
+  p_from date,
+  p_to date,
+  p_bucket text default 'day'
+) returns table (
+  bucket date,
+  units_sold bigint,
+  revenue numeric
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  v_timezone text := public.analytics_timezone(null, null);
+  v_from timestamptz := p_from::timestamp at time zone v_timezone;
+  v_to timestamptz := (p_to + 1)::timestamp at time zone v_timezone;
+begin
+  if not public.has_permission('products.view') then
+    raise exception 'permission denied: products.view' using errcode = '42501';
+  end if;
+
+  if p_bucket not in ('day', 'week', 'month') then
+    raise exception 'unknown bucket %', p_bucket using errcode = 'P0001';
+  end if;
+
+  return query
+  with buckets as (
+    select generate_series(
+      date_trunc(p_bucket, p_from::timestamp),
+      p_to::timestamp,
+      ('1 ' || p_bucket)::interval
+    )::date as bucket
+  ),
+  sales as (
+    select
+      date_trunc(p_bucket, o.created_at at time zone v_timezone)::date as bucket,
+      sum(oi.quantity) as units,
+      sum(oi.price * oi.quantity) as amount
+    from public.order_items oi
+    join public.orders o on o.id = oi.order_id
+    where oi.product_id = p_product_id
+      and o.deleted_at is null
+      and public.order_is_paid(o.status)
+      and o.created_at >= v_from and o.created_at < v_to
+    group by 1
+  )
+  select b.bucket, coalesce(s.units, 0)::bigint, coalesce(s.amount, 0)
+  from buckets b
+  left join sales s on s.bucket = b.bucket
+  order by b.bucket;
+end;
+$$;
@@ -0,0 +1,357 @@
+-- Customer segments and RFM scores.
+-- customer_rfm has one row per customer profile with its purchase behaviour
+-- (paid, non-trashed orders, see order_is_paid; amounts are gross like the
+-- sales reports) and RFM scores: recency, frequency and monetary value are
+-- each scored 1-5 by quintile among customers who bought, 5 being best.
+-- A segment is a list of rules ({"type": ..., "value": ...}) combined with
+-- all / any; saved segments can restrict a coupon to their customers.
+
+create or replace view public.customer_rfm as
+with purchases as (
+  select
+    o.user_id,
+    count(*) as order_count,
+    sum(o.total_price) as total_spent,
+    min(o.created_at) as first_order_at,
+    max(o.created_at) as last_order_at
+  from public.orders o
+  where o.user_id is not null
+    and o.deleted_at is null
+    and public.order_is_paid(o.status)
+  group by o.user_id
+),
+scored as (
+  -- cume_dist gives equal values the same score
+  select
+    p.*,
+    ceil(cume_dist() over (order by p.last_order_at) * 5)::integer as r_score,
+    ceil(cume_dist() over (order by p.order_count) * 5)::integer as f_score,
+    ceil(cume_dist() over (order by p.total_spent) * 5)::integer as m_score
+  from purchases p
+)
+select
+  pr.id,
+  pr.full_name,
+  pr.phone,
+  pr.city,
+  pr.preferred_language,
+  pr.created_at,
+  pr.is_active,
+  coalesce(s.order_count, 0)::bigint as order_count,
+  coalesce(s.total_spent, 0) as total_spent,
+  s.first_order_at,
+  s.last_order_at,
+  extract(day from now() - s.last_order_at)::integer as recency_days,
+  s.r_score,
+  s.f_score,
+  s.m_score,
+  s.r_score::text || s.f_score::text || s.m_score::text as rfm_score,
+  s.r_score + s.f_score + s.m_score as rfm_total,
+  case
+    when s.user_id is null then 'no_orders'
+    when s.r_score >= 4 and s.f_score >= 4 then 'champions'
+    when s.r_score >= 4 and s.f_score <= 2 then 'new'
+    when s.r_score <= 2 and s.f_score >= 4 then 'at_risk'
+    when s.r_score = 1 then 'lost'
+    when s.f_score >= 3 then 'loyal'
+    else 'needs_attention'
+  end as rfm_segment
+from public.profiles pr
+left join scored s on s.user_id = pr.id;
+
+-- Only reachable through segment_customers() / customer_in_segment().
+revoke all on public.customer_rfm from anon, authenticated;
+
+-- Raises P0001 'invalid_segment_rules' when a rule is unknown or its value
+-- does not fit the rule.
+create or replace function public.validate_segment_rules(p_rules jsonb, p_match text)
+returns void
+language plpgsql
+immutable
+as $$
+declare
+  v_rule jsonb;
+  v_value text;
+begin
+  if p_match is null or p_match not in ('all', 'any')
+     or jsonb_typeof(p_rules) is distinct from 'array' then
+    raise exception 'invalid_segment_rules' using errcode = 'P0001';
+  end if;
+
+  for v_rule in select * from jsonb_array_elements(p_rules) loop
+    v_value := v_rule->>'value';
+    if not coalesce(case v_rule->>'type'
+      when 'ordered_within_days' then v_value ~ '^\d+$'
+      when 'lapsed_days' then v_value ~ '^\d+$'
+      when 'registered_within_days' then v_value ~ '^\d+$'
+      when 'min_orders' then v_value ~ '^\d+$'
+      when 'min_rfm_total' then v_value ~ '^\d+$'
+      when 'spent_over' then v_value ~ '^\d+(\.\d+)?$'
+      when 'spent_under' then v_value ~ '^\d+(\.\d+)?$'
+      when 'city' then coalesce(trim(v_value), '') <> ''
+      when 'language' then coalesce(trim(v_value), '') <> ''
+      when 'rfm_segment' then v_value in ('champions', 'loyal', 'new', 'at_risk', 'lost', 'needs_attention', 'no_orders')
+      when 'never_ordered' then true
+      else false
+    end, false) then
+      raise exception 'invalid_segment_rules' using errcode = 'P0001';
+    end if;
+  end loop;
+end;
+$$;
+
+-- Whether a customer matches the rules. No rules match everyone.
+create or replace function public.customer_matches_segment(
+  c public.customer_rfm,
+  p_rules jsonb,
+  p_match text
+) returns boolean
+language sql
+stable
+as $$
+  select case
+    when count(*) = 0 then true
+    when p_match = 'any' then bool_or(matched)
+    else bool_and(matched)
+  end
+  from (
+    select coalesce(case r->>'type'
+      when 'ordered_within_days' then c.last_order_at >= now() - make_interval(days => (r->>'value')::integer)
+      when 'lapsed_days' then c.last_order_at < now() - make_interval(days => (r->>'value')::integer)
+      when 'never_ordered' then c.order_count = 0
+      when 'registered_within_days' then c.created_at >= now() - make_interval(days => (r->>'value')::integer)
+      when 'min_orders' then c.order_count >= (r->>'value')::integer
+      when 'spent_over' then c.total_spent > (r->>'value')::numeric
+      when 'spent_under' then c.total_spent < (r->>'value')::numeric
+      when 'city' then lower(trim(c.city)) = lower(trim(r->>'value'))
+      when 'language' then lower(c.preferred_language) = lower(r->>'value')
+      when 'min_rfm_total' then c.rfm_total >= (r->>'value')::integer
+      when 'rfm_segment' then c.rfm_segment = r->>'value'
+    end, false) as matched
+    from jsonb_array_elements(coalesce(p_rules, '[]'::jsonb)) r
+  ) rules;
+$$;
+
+create table if not exists public.customer_segments (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  description text,
+  rules jsonb not null default '[]',
+  match_type text not null default 'all' check (match_type in ('all', 'any')),
+  created_by uuid default auth.uid(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists customer_segments_name_key
+  on public.customer_segments (lower(name));
+
+create or replace function public.check_customer_segment_rules()
+returns trigger
+language plpgsql
+as $$
+begin
+  perform public.validate_segment_rules(new.rules, new.match_type);
+  return new;
+end;
+$$;
+
+drop trigger if exists customer_segments_check_rules on public.customer_segments;
+create trigger customer_segments_check_rules
+  before insert or update of rules, match_type on public.customer_segments
+  for each row execute function public.check_customer_segment_rules();
+
+-- Coupon editors pick segments too.
+alter table public.customer_segments enable row level security;
+
+drop policy if exists customer_segments_select on public.customer_segments;
+create policy customer_segments_select on public.customer_segments for select
+  using (public.has_permission('users.view') or public.has_permission('coupons.manage'));
+
+drop policy if exists customer_segments_write on public.customer_segments;
+create policy customer_segments_write on public.customer_segments for all
+  using (public.has_permission('users.manage'))
+  with check (public.has_permission('users.manage'));
+
+drop trigger if exists customer_segments_audit on public.customer_segments;
+create trigger customer_segments_audit
+  after insert or update or delete on public.customer_segments
+  for each row execute function public.log_audit_event('customer_segment', 'id');
+
+-- Customers matching the rules, best RFM first. Needs users.view.
+create or replace function public.segment_customers(p_rules jsonb, p_match text default 'all')
+returns setof public.customer_rfm
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_permission('users.view') then
+    raise exception 'permission denied: users.view' using errcode = '42501';
+  end if;
+
+  perform public.validate_segment_rules(coalesce(p_rules, '[]'::jsonb), p_match);
+
+  return query
+  select c.*
+  from public.customer_rfm c
+  where public.customer_matches_segment(c, p_rules, p_match)
+  order by c.rfm_total desc nulls last, c.total_spent desc, c.created_at desc;
+end;
+$$;
+
+-- Whether a customer belongs to a saved segment. Callable for oneself or by
+-- staff with orders.update / users.view.
+create or replace function public.customer_in_segment(p_user_id uuid, p_segment_id uuid)
+returns boolean
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_segment public.customer_segments;
+begin
+  if p_user_id is distinct from auth.uid()
+     and not (public.has_permission('orders.update') or public.has_permission('users.view')) then
+    raise exception 'permission denied' using errcode = '42501';
+  end if;
+
+  select * into v_segment from public.customer_segments where id = p_segment_id;
+  if not found then
+    raise exception 'segment not found' using errcode = 'P0002';
+  end if;
+
+  return exists (
+    select 1 from public.customer_rfm c
+    where c.id = p_user_id
+      and public.customer_matches_segment(c, v_segment.rules, v_segment.match_type)
+  );
+end;
+$$;
+
+-- Coupons targeted at a segment. Deleting the segment opens the coupon to
+-- everyone again, so segments in use are protected instead.
+alter table public.coupons
+  add column if not exists customer_segment_id uuid
+    references public.customer_segments(id) on delete restrict;
+
+create or replace function public.redeem_coupon(p_order_id uuid, p_code text)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order public.orders;
+  v_coupon public.coupons;
+  v_subtotal numeric;
+  v_eligible numeric;
+  v_discount numeric;
+  v_customer_uses integer;
+begin
+  select * into v_order from public.orders where id = p_order_id for update;
+  if not found then
+    raise exception 'order not found' using errcode = 'P0002';
+  end if;
+
+  if v_order.user_id is distinct from auth.uid()
+     and not (public.has_permission('orders.update') and public.can_access_branch(v_order.branch_id)) then
+    raise exception 'permission denied' using errcode = '42501';
+  end if;
+
+  if v_order.status <> 'pending' then
+    raise exception 'order_not_pending' using errcode = 'P0001';
+  end if;
+
+  if v_order.coupon_id is not null then
+    raise exception 'already_applied' using errcode = 'P0001';
+  end if;
+
+  select * into v_coupon from public.coupons
+  where upper(code) = upper(trim(p_code))
+  for update;
+  if not found then
+    raise exception 'unknown coupon' using errcode = 'P0002';
+  end if;
+
+  if not v_coupon.is_active then
+    raise exception 'inactive' using errcode = 'P0001';
+  end if;
+  if v_coupon.starts_at is not null and now() < v_coupon.starts_at then
+    raise exception 'not_started' using errcode = 'P0001';
+  end if;
+  if v_coupon.ends_at is not null and now() >= v_coupon.ends_at then
+    raise exception 'expired' using errcode = 'P0001';
+  end if;
+  if v_coupon.usage_limit is not null and v_coupon.used_count >= v_coupon.usage_limit then
+    raise exception 'usage_limit_reached' using errcode = 'P0001';
+  end if;
+
+  if v_coupon.usage_limit_per_customer is not null and v_order.user_id is not null then
+    select count(*) into v_customer_uses
+    from public.coupon_redemptions
+    where coupon_id = v_coupon.id and user_id = v_order.user_id;
+    if v_customer_uses >= v_coupon.usage_limit_per_customer then
+      raise exception 'customer_limit_reached' using errcode = 'P0001';
+    end if;
+  end if;
+
+  if v_coupon.customer_segment_id is not null
+     and (v_order.user_id is null
+          or not public.customer_in_segment(v_order.user_id, v_coupon.customer_segment_id)) then
+    raise exception 'segment_not_eligible' using errcode = 'P0001';
+  end if;
+
+  if cardinality(v_coupon.branch_ids) > 0
+     and (v_order.branch_id is null or not v_order.branch_id = any (v_coupon.branch_ids)) then
+    raise exception 'branch_not_eligible' using errcode = 'P0001';
+  end if;
+
+  select
+    coalesce(sum(oi.price * oi.quantity), 0),
+    coalesce(sum(oi.price * oi.quantity) filter (
+      where (cardinality(v_coupon.product_ids) = 0 and cardinality(v_coupon.category_ids) = 0)
+         or oi.product_id = any (v_coupon.product_ids)
+         or p.category_id::text = any (v_coupon.category_ids)
+    ), 0)
+  into v_subtotal, v_eligible
+  from public.order_items oi
+  left join public.products p on p.id = oi.product_id
+  where oi.order_id = p_order_id;
+
+  if v_subtotal < v_coupon.min_order_value then
+    raise exception 'below_minimum' using errcode = 'P0001';
+  end if;
+  if v_eligible <= 0 then
+    raise exception 'no_eligible_items' using errcode = 'P0001';
+  end if;
+
+  if v_coupon.discount_type = 'percentage' then
+    v_discount := round(v_eligible * v_coupon.discount_value / 100, 2);
+    if v_coupon.max_discount is not null then
+      v_discount := least(v_discount, v_coupon.max_discount);
+    end if;
+  else
+    v_discount := least(v_coupon.discount_value, v_eligible);
+  end if;
+  v_discount := least(v_discount, v_order.total_price);
+
+  insert into public.coupon_redemptions (coupon_id, order_id, user_id, discount_amount)
+  values (v_coupon.id, p_order_id, v_order.user_id, v_discount);
+
+  update public.coupons set used_count = used_count + 1 where id = v_coupon.id;
+
+  update public.orders
+  set coupon_id = v_coupon.id,
+      coupon_code = v_coupon.code,
+      discount_amount = v_discount,
+      total_price = total_price - v_discount,
+      updated_at = now()
+  where id = p_order_id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
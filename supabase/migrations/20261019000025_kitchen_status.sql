@@ -0,0 +1,49 @@
+-- Kitchen preparation state of a paid order. Kept apart from the fulfilment
+-- status so that starting preparation never marks an order as paid:
+-- queued -> preparing -> ready, then the order leaves the board when shipped.
+alter table public.orders
+  add column if not exists kitchen_status text not null default 'queued'
+  check (kitchen_status in ('queued', 'preparing', 'ready'));
+
+-- Moves a paid order one step forward on the kitchen board. Security invoker:
+-- the orders_update policy decides who may do it.
+create or replace function public.advance_kitchen_status(
+  p_order_id uuid,
+  p_kitchen_status text
+) returns public.orders
+language plpgsql
+security invoker
+as $$
+declare
+  v_status text;
+  v_current text;
+  v_order public.orders;
+begin
+  select status, kitchen_status into v_status, v_current
+  from public.orders
+  where id = p_order_id
+  for update;
+
+  if not found then
+    raise exception 'order not found' using errcode = 'P0002';
+  end if;
+
+  if v_status <> 'paid' then
+    raise exception 'only paid orders are prepared (order is %)', v_status
+      using errcode = 'P0001';
+  end if;
+
+  if array_position(array['queued', 'preparing', 'ready'], p_kitchen_status)
+     is distinct from array_position(array['queued', 'preparing', 'ready'], v_current) + 1 then
+    raise exception 'invalid kitchen status transition: % -> %', v_current, p_kitchen_status
+      using errcode = 'P0001';
+  end if;
+
+  update public.orders
+  set kitchen_status = p_kitchen_status, updated_at = now()
+  where id = p_order_id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;